@@ -0,0 +1,54 @@
+import {
+	AUTO_GROUP_RULES_KEY,
+	type AutoGroupRule,
+	parseAutoGroupRules,
+} from "@/entrypoints/sidepanel/lib/auto-group-rules";
+import { GROUP_PAGE_PATH } from "@/entrypoints/sidepanel/lib/group-node";
+import { log } from "./constants";
+import {
+	registerPendingChildIntent,
+	registerPendingGroup,
+} from "./tab-handlers";
+
+/** Read on every created tab, so edits in the side panel apply right away */
+export async function loadAutoGroupRules(): Promise<AutoGroupRule[]> {
+	const stored = await browser.storage.local.get(AUTO_GROUP_RULES_KEY);
+	return parseAutoGroupRules(stored[AUTO_GROUP_RULES_KEY]);
+}
+
+/**
+ * Open a group node named `groupName` at `index` of a window, placed in the
+ * tree through a pending child intent and tracked as a pending group until
+ * its row lands. Returns its tab ID.
+ */
+export async function createAutoGroupNode(
+	windowId: number,
+	index: number,
+	parentTabId: number | null,
+	treeOrder: string,
+	groupName: string,
+): Promise<number | undefined> {
+	registerPendingChildIntent(
+		windowId,
+		index,
+		parentTabId,
+		treeOrder,
+		undefined,
+		groupName,
+	);
+	try {
+		const groupTab = await browser.tabs.create({
+			windowId,
+			index,
+			url: browser.runtime.getURL(GROUP_PAGE_PATH),
+			active: false,
+		});
+		if (groupTab.id !== undefined) {
+			registerPendingGroup(windowId, groupName, groupTab.id);
+		}
+		return groupTab.id;
+	} catch (err) {
+		log("[Background] Failed to create auto-group node:", groupName, err);
+		return undefined;
+	}
+}
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import { createBatchedDbOperations, runTransaction } from "./batched-db";
+import { createMemoryDbOperations, type DbChange } from "./memory-db";
+
+describe("createBatchedDbOperations", () => {
+	test("reads through to pending writes and flushes them once", async () => {
+		const db = createMemoryDbOperations({
+			tab: [{ id: "b" }, { id: "c" }],
+		});
+		const calls: string[] = [];
+		const batch = createBatchedDbOperations({
+			writeChanges: (changes) => {
+				for (const change of changes) {
+					calls.push(
+						change.type === "delete"
+							? `delete ${change.storeName} ${change.keys.join(",")}`
+							: `${change.type} ${change.storeName} ${change.items.map((i) => i.id).join(",")}`,
+					);
+				}
+				return db.writeChanges(changes);
+			},
+			getAll: (storeName) => {
+				calls.push(`getAll ${storeName}`);
+				return db.getAll(storeName);
+			},
+			get: db.get,
+			getByIndex: db.getByIndex,
+		});
+
+		await batch.putItems("tab", [{ id: "a" }]);
+		await batch.deleteItems("tab", ["c"]);
+		const readded = [{ id: "c", title: "C" }, { id: "d" }];
+		await batch.putItems("tab", readded);
+		await batch.deleteItems("tab", ["d"]);
+		expect(
+			(await batch.getAll<{ id: string }>("tab")).map((t) => t.id),
+		).toEqual(["a", "b", "c"]);
+		expect(await db.getAll("tab")).toHaveLength(2);
+
+		await batch.flush();
+		// c was read before, so only its changed field is written
+		expect(calls).toEqual([
+			"getAll tab",
+			"delete tab d",
+			"put tab a",
+			"patch tab c",
+		]);
+		expect(db.snapshot().tab.map((t) => t.id)).toEqual(["b", "c", "a"]);
+	});
+
+	test("hands out copies of the snapshot", async () => {
+		const batch = createBatchedDbOperations(
+			createMemoryDbOperations({ tab: [{ id: "a" }] }),
+		);
+		const [tab] = await batch.getAll<{ id: string; title?: string }>("tab");
+		tab.title = "changed";
+		expect(await batch.getAll("tab")).toEqual([{ id: "a" }]);
+	});
+
+	test("looks records up without reading the whole store", async () => {
+		const db = createMemoryDbOperations({
+			tab: [
+				{ id: "tab-1", browserTabId: 1, parentTabId: null },
+				{ id: "tab-2", browserTabId: 2, parentTabId: 1 },
+			],
+		});
+		const batch = createBatchedDbOperations({
+			...db,
+			getAll: () => {
+				throw new Error("getAll should not be called");
+			},
+		});
+
+		const added = [{ id: "tab-3", browserTabId: 3, parentTabId: 1 }];
+		await batch.putItems("tab", added);
+		await batch.deleteItems("tab", ["tab-2"]);
+		expect((await batch.getChildren(1)).map((t) => t.id)).toEqual(["tab-3"]);
+		expect(await batch.get("tab", "tab-2")).toBeUndefined();
+		expect((await batch.getByBrowserTabId(1))?.id).toBe("tab-1");
+	});
+});
+
+describe("flushing records it read", () => {
+	type Row = { id: string; title: string; titleOverride: string | null };
+	const row = (id: string): Row => ({ id, title: id, titleOverride: null });
+
+	test("keeps fields written elsewhere since they were read", async () => {
+		const db = createMemoryDbOperations({ tab: [row("a")] });
+		const batch = createBatchedDbOperations(db);
+		const [a] = await batch.getAll<Row>("tab");
+
+		// The sidepanel renames the tab while the batch is open
+		await db.update<Row>("tab", "a", (tab) => ({
+			...tab,
+			titleOverride: "Mine",
+		}));
+		const loaded: Row = { ...a, title: "Loaded" };
+		await batch.putItems("tab", [loaded]);
+		await batch.flush();
+
+		expect(await db.get<Row>("tab", "a")).toMatchObject({
+			title: "Loaded",
+			titleOverride: "Mine",
+		});
+	});
+
+	test("keeps whole records written elsewhere during a burst", async () => {
+		type TreeRow = Row & { parentTabId: string | null; treeOrder: string };
+		const tree = (id: string, treeOrder: string): TreeRow => ({
+			...row(id),
+			parentTabId: null,
+			treeOrder,
+		});
+		const db = createMemoryDbOperations({
+			tab: [tree("a", "a0"), tree("b", "a1")],
+		});
+		const batch = createBatchedDbOperations(db);
+		const before = await batch.getAll<TreeRow>("tab");
+
+		// Sorting (or closing duplicates) persists whole rows mid-burst
+		const sorted: TreeRow[] = [
+			{ ...tree("a", "a1"), parentTabId: "b" },
+			tree("b", "a0"),
+		];
+		await db.putItems("tab", sorted);
+		const loaded = before.map((tab): TreeRow => ({ ...tab, title: "Loaded" }));
+		await batch.putItems("tab", loaded);
+		await batch.flush();
+
+		expect(await db.getAll<TreeRow>("tab")).toMatchObject([
+			{ ...tree("a", "a1"), parentTabId: "b", title: "Loaded" },
+			{ ...tree("b", "a0"), title: "Loaded" },
+		]);
+	});
+
+	test("skips records that didn't change, and doesn't revive deleted ones", async () => {
+		const db = createMemoryDbOperations({ tab: [row("a"), row("b")] });
+		const changes: DbChange[] = [];
+		const batch = createBatchedDbOperations({
+			...db,
+			writeChanges: async (written) => {
+				changes.push(...written);
+				await db.writeChanges(written);
+			},
+		});
+		const a = await batch.get<Row>("tab", "a");
+		const b = await batch.get<Row>("tab", "b");
+		if (!a || !b) throw new Error("missing rows");
+
+		await db.deleteItems("tab", ["b"]);
+		const renamed: Row = { ...b, title: "Gone" };
+		await batch.putItems("tab", [a, renamed]);
+		await batch.flush();
+
+		expect(changes).toEqual([
+			{ type: "patch", storeName: "tab", items: [{ id: "b", title: "Gone" }] },
+		]);
+		expect(db.snapshot().tab.map((t) => t.id)).toEqual(["a"]);
+	});
+});
+
+describe("runTransaction", () => {
+	test("writes everything at once, after fn finishes", async () => {
+		const db = createMemoryDbOperations({ tab: [{ id: "a" }] });
+		const writes: number[] = [];
+		const dbOps = {
+			...db,
+			writeChanges: async (changes: Parameters<typeof db.writeChanges>[0]) => {
+				writes.push(changes.length);
+				await db.writeChanges(changes);
+			},
+		};
+
+		await runTransaction(dbOps, async (tx) => {
+			await tx.deleteItems("tab", ["a"]);
+			await tx.putItems("tab", [{ id: "b" }]);
+			expect((await tx.getAll<{ id: string }>("tab")).map((t) => t.id)).toEqual(
+				["b"],
+			);
+			expect(await db.getAll("tab")).toHaveLength(1);
+		});
+
+		expect(writes).toEqual([2]);
+		expect(db.snapshot().tab.map((t) => t.id)).toEqual(["b"]);
+	});
+
+	test("writes nothing when fn throws", async () => {
+		const db = createMemoryDbOperations({ tab: [{ id: "a" }] });
+		await expect(
+			db.transaction(async (tx) => {
+				await tx.deleteItems("tab", ["a"]);
+				throw new Error("interrupted");
+			}),
+		).rejects.toThrow("interrupted");
+		expect(db.snapshot().tab.map((t) => t.id)).toEqual(["a"]);
+	});
+});
@@ -0,0 +1,241 @@
+import { getIndexValue, type IndexValue, withLookups } from "./db-lookups";
+import type { DbOperations } from "./db-operations";
+import type { DbChange } from "./memory-db";
+
+type StoredRecord = { id: string };
+
+const byId = (a: StoredRecord, b: StoredRecord) => (a.id < b.id ? -1 : 1);
+
+const sameValue = (a: unknown, b: unknown) => {
+	if (a instanceof Date && b instanceof Date) {
+		return a.getTime() === b.getTime();
+	}
+	if (typeof a === "object" && a !== null && typeof b === "object") {
+		return JSON.stringify(a) === JSON.stringify(b);
+	}
+	return Object.is(a, b);
+};
+
+/** The fields of `record` that differ from `original`, or null if none do */
+function diffRecord(
+	original: StoredRecord,
+	record: StoredRecord,
+): StoredRecord | null {
+	const before = original as Record<string, unknown>;
+	const after = record as Record<string, unknown>;
+	const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+	const patch: Record<string, unknown> = {};
+	for (const field of fields) {
+		if (!sameValue(before[field], after[field])) patch[field] = after[field];
+	}
+	return Object.keys(patch).length > 0 ? { ...patch, id: record.id } : null;
+}
+
+/**
+ * DbOperations that keep writes in memory until `flush`, which hands them to
+ * one writeChanges call (one IndexedDB transaction, one sync broadcast).
+ * Reads see the writes made so far. getAll reads a store once and serves
+ * later reads from that snapshot, so a burst of events reconciles against a
+ * single one; until then lookups go through to `dbOps`.
+ *
+ * A record read from `dbOps` is flushed as a patch of the fields changed
+ * since, so what other writers did to its other fields in the meantime (the
+ * sidepanel's title and collapse state, say) isn't reverted.
+ */
+export function createBatchedDbOperations(
+	dbOps: Pick<DbOperations, "getAll" | "get" | "getByIndex" | "writeChanges">,
+): DbOperations & { flush: () => Promise<void> } {
+	const stores = new Map<string, Promise<Map<string, StoredRecord>>>();
+	// Per store: the latest record written for an ID, or null once deleted
+	const pending = new Map<string, Map<string, StoredRecord | null>>();
+	// Per store: each record as first read from dbOps, to diff writes against
+	const originals = new Map<string, Map<string, StoredRecord>>();
+	// Stores with new IDs, which getAll has to put back in key order
+	const unsorted = new Set<string>();
+
+	const remember = <T extends StoredRecord>(
+		storeName: string,
+		records: T[],
+	) => {
+		let storeOriginals = originals.get(storeName);
+		if (!storeOriginals) {
+			storeOriginals = new Map();
+			originals.set(storeName, storeOriginals);
+		}
+		for (const record of records) {
+			if (!storeOriginals.has(record.id)) {
+				storeOriginals.set(record.id, { ...record });
+			}
+		}
+		return records;
+	};
+
+	const apply = (
+		storeName: string,
+		store: Map<string, StoredRecord>,
+		changes: Iterable<[string, StoredRecord | null]>,
+	) => {
+		for (const [id, record] of changes) {
+			if (record === null) {
+				store.delete(id);
+			} else {
+				if (!store.has(id)) unsorted.add(storeName);
+				store.set(id, { ...record });
+			}
+		}
+	};
+
+	const load = (storeName: string) => {
+		let store = stores.get(storeName);
+		if (!store) {
+			store = dbOps.getAll<StoredRecord>(storeName).then((records) => {
+				remember(storeName, records);
+				const loaded = new Map(records.map((r) => [r.id, r]));
+				apply(storeName, loaded, pending.get(storeName) ?? []);
+				return loaded;
+			});
+			stores.set(storeName, store);
+		}
+		return store;
+	};
+
+	const write = async (
+		storeName: string,
+		changes: [string, StoredRecord | null][],
+	) => {
+		let storeChanges = pending.get(storeName);
+		if (!storeChanges) {
+			storeChanges = new Map();
+			pending.set(storeName, storeChanges);
+		}
+		for (const [id, record] of changes) {
+			storeChanges.set(id, record && { ...record });
+		}
+		const loaded = stores.get(storeName);
+		if (loaded) apply(storeName, await loaded, changes);
+	};
+
+	const getAll = async <T>(storeName: string) => {
+		const store = await load(storeName);
+		// IndexedDB returns records in primary key order
+		if (unsorted.delete(storeName)) {
+			const sorted = [...store].sort(([a], [b]) => (a < b ? -1 : 1));
+			store.clear();
+			for (const [id, record] of sorted) store.set(id, record);
+		}
+		return [...store.values()].map((record) => ({ ...record })) as T[];
+	};
+
+	const get = async <T>(storeName: string, key: string) => {
+		const loaded = stores.get(storeName);
+		const record = loaded
+			? (await loaded).get(key)
+			: pending.get(storeName)?.get(key);
+		if (record === null) return undefined;
+		if (record) return { ...record } as T;
+		if (loaded) return undefined;
+		const stored = await dbOps.get<T & StoredRecord>(storeName, key);
+		if (stored) remember(storeName, [stored]);
+		return stored;
+	};
+
+	const putItems: DbOperations["putItems"] = (storeName, items) =>
+		write(
+			storeName,
+			items.map((item) => [item.id, item]),
+		);
+	const deleteItems: DbOperations["deleteItems"] = (storeName, keys) =>
+		write(
+			storeName,
+			keys.map((key) => [key, null]),
+		);
+
+	const batched: DbOperations = withLookups({
+		putItems,
+		deleteItems,
+		getAll,
+		get,
+		getByIndex: async <T>(
+			storeName: string,
+			indexName: string,
+			value: IndexValue,
+		) => {
+			const matches = (record: StoredRecord) =>
+				getIndexValue(record, storeName, indexName) === value;
+			if (stores.has(storeName)) {
+				return (await getAll<StoredRecord>(storeName)).filter(matches) as T[];
+			}
+			const changes = pending.get(storeName);
+			const records = remember(
+				storeName,
+				await dbOps.getByIndex<StoredRecord>(storeName, indexName, value),
+			).filter((record) => !changes?.has(record.id));
+			for (const record of changes?.values() ?? []) {
+				if (record && matches(record)) records.push({ ...record });
+			}
+			return records.sort(byId) as T[];
+		},
+		writeChanges: async (changes) => {
+			for (const change of changes) {
+				if (change.type === "put") {
+					await putItems(change.storeName, change.items);
+				} else if (change.type === "patch") {
+					for (const item of change.items) {
+						const current = await get<StoredRecord>(change.storeName, item.id);
+						if (current) {
+							await putItems(change.storeName, [{ ...current, ...item }]);
+						}
+					}
+				} else {
+					await deleteItems(change.storeName, change.keys);
+				}
+			}
+		},
+		transaction: (fn) => runTransaction(batched, fn),
+	});
+
+	return {
+		...batched,
+		flush: async () => {
+			const changes: DbChange[] = [];
+			for (const [storeName, storeChanges] of pending) {
+				const storeOriginals = originals.get(storeName);
+				const keys: string[] = [];
+				const items: StoredRecord[] = [];
+				const patches: StoredRecord[] = [];
+				for (const [id, record] of storeChanges) {
+					const original = storeOriginals?.get(id);
+					if (record === null) {
+						keys.push(id);
+					} else if (!original) {
+						items.push(record);
+					} else {
+						const patch = diffRecord(original, record);
+						if (patch) patches.push(patch);
+					}
+				}
+				if (keys.length > 0) changes.push({ type: "delete", storeName, keys });
+				if (items.length > 0) changes.push({ type: "put", storeName, items });
+				if (patches.length > 0) {
+					changes.push({ type: "patch", storeName, items: patches });
+				}
+			}
+			pending.clear();
+			if (changes.length > 0) await dbOps.writeChanges(changes);
+		},
+	};
+}
+
+/**
+ * Run `fn` against a buffer over `dbOps`, then write everything it wrote
+ * with one writeChanges call; if `fn` throws, nothing is written
+ */
+export async function runTransaction<T>(
+	dbOps: DbOperations,
+	fn: (tx: DbOperations) => Promise<T>,
+): Promise<T> {
+	const tx = createBatchedDbOperations(dbOps);
+	const result = await fn(tx);
+	await tx.flush();
+	return result;
+}
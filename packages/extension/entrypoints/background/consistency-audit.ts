@@ -0,0 +1,124 @@
+import { isClosedTab } from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab, Window } from "@/schema/src/schema";
+import { log } from "./constants";
+import type { DbOperations } from "./db-operations";
+import { eventQueue } from "./event-queue";
+import { type TabRecord, tabToRecord, windowToRecord } from "./mappers";
+import { registerUiMoveIntent, snapshotIntents } from "./tab-handlers";
+import {
+	AUDIT_LOG_KEY,
+	type AuditProblem,
+	auditTabState,
+	MAX_AUDIT_LOG_ENTRIES,
+	parseAuditLog,
+} from "./tree-audit";
+import { hasTabIds, hasWindowId } from "./type-guards";
+
+async function recordAudit(problems: AuditProblem[]): Promise<void> {
+	const stored = await browser.storage.local.get(AUDIT_LOG_KEY);
+	const entries = parseAuditLog(stored[AUDIT_LOG_KEY]);
+	await browser.storage.local.set({
+		[AUDIT_LOG_KEY]: [...entries, { at: Date.now(), problems }].slice(
+			-MAX_AUDIT_LOG_ENTRIES,
+		),
+	});
+}
+
+/**
+ * Compare the DB with the browser and repair what drifted apart, instead of
+ * a full reset. Runs from the event queue on the keepalive alarm, and skips
+ * a round while events, intents or a managed window move are still settling.
+ */
+export async function runConsistencyAudit(
+	dbOps: DbOperations,
+	getManagedMoveTabIds: () => Set<number>,
+): Promise<void> {
+	const intents = snapshotIntents();
+	if (
+		eventQueue.size > 0 ||
+		getManagedMoveTabIds().size > 0 ||
+		intents.uiMoveIntents.length > 0 ||
+		intents.pendingChildIntents.length > 0
+	) {
+		log("[Background] Consistency audit skipped: events still settling");
+		return;
+	}
+
+	const browserWindows = (await browser.windows.getAll()).filter(hasWindowId);
+	const browserTabs = (await browser.tabs.query({})).filter(hasTabIds);
+	const tabs = await dbOps.getAll<Tab>("tab");
+	const windows = await dbOps.getAll<Window>("window");
+
+	const result = auditTabState(
+		tabs,
+		windows,
+		browserTabs.map((t) => ({
+			id: t.id,
+			windowId: t.windowId,
+			index: t.index,
+			pinned: t.pinned,
+			groupId: t.groupId,
+		})),
+		browserWindows.map((w) => w.id),
+	);
+	if (result.problems.length === 0) return;
+	log("[Background] Consistency audit found:", result.problems);
+
+	const missingWindowIds = new Set(result.missingWindowIds);
+	const windowRecords = browserWindows
+		.filter((w) => missingWindowIds.has(w.id))
+		.map(windowToRecord);
+
+	const tabById = new Map(
+		tabs.filter((t) => !isClosedTab(t)).map((t) => [t.browserTabId, t]),
+	);
+	const browserTabById = new Map(browserTabs.map((t) => [t.id, t]));
+	const deletedIds = new Set<string>(result.deleteTabIds);
+	const tabRecords: (Tab | TabRecord)[] = [];
+	for (const [tabId, browserWindowId] of result.tabWindowIds) {
+		const existing = tabById.get(tabId);
+		if (existing && !result.treeUpdates.has(tabId)) {
+			tabRecords.push({ ...existing, browserWindowId });
+		}
+	}
+	for (const [tabId, update] of result.treeUpdates) {
+		const existing = tabById.get(tabId);
+		if (existing && !deletedIds.has(existing.id)) {
+			const browserWindowId =
+				result.tabWindowIds.get(tabId) ?? existing.browserWindowId;
+			tabRecords.push({ ...existing, ...update, browserWindowId });
+			continue;
+		}
+		const browserTab = browserTabById.get(tabId);
+		if (browserTab) tabRecords.push(tabToRecord(browserTab, update));
+	}
+
+	// One transaction, so the sidepanel never sees a half-repaired tree
+	await dbOps.transaction(async (tx) => {
+		if (result.deleteWindowIds.length > 0) {
+			await tx.deleteItems("window", result.deleteWindowIds);
+		}
+		if (result.deleteTabIds.length > 0) {
+			await tx.deleteItems("tab", result.deleteTabIds);
+		}
+		if (windowRecords.length > 0) {
+			await tx.putItems("window", windowRecords);
+		}
+		if (tabRecords.length > 0) {
+			await tx.putItems("tab", tabRecords);
+		}
+	});
+
+	// The resulting onMoved events keep the repaired tree instead of inferring one
+	for (const { tabId, toIndex } of result.moves) {
+		const position = result.treeUpdates.get(tabId) ?? tabById.get(tabId);
+		if (position) {
+			registerUiMoveIntent(tabId, position.parentTabId, position.treeOrder);
+		}
+		await browser.tabs.move(tabId, { index: toIndex }).catch((err) => {
+			log("[Background] Consistency audit couldn't move tab:", tabId, err);
+		});
+	}
+
+	await recordAudit(result.problems);
+}
@@ -1,10 +1,23 @@
 import { makeId } from "@firtoz/drizzle-utils";
-import { tabTable, windowTable } from "@/schema/src/schema";
+import {
+	sessionTable,
+	tabGroupTable,
+	tabTable,
+	windowTable,
+	workspaceTable,
+} from "@/schema/src/schema";
 
 export const DEBUG = false;
 
+// Also switched on at runtime by the debug logging preference
+let debugLogging = DEBUG;
+
+export const setDebugLogging = (enabled: boolean) => {
+	debugLogging = DEBUG || enabled;
+};
+
 export const log = (...args: unknown[]) => {
-	if (DEBUG) console.log(...args);
+	if (debugLogging) console.log(...args);
 };
 
 export const DB_NAME = "tabcanopy.db";
@@ -14,3 +27,12 @@ export const makeWindowId = (browserWindowId: number) =>
 
 export const makeTabId = (browserTabId: number) =>
 	makeId(tabTable, `tab-${browserTabId}`);
+
+export const makeTabGroupId = (browserGroupId: number) =>
+	makeId(tabGroupTable, `tab-group-${browserGroupId}`);
+
+export const makeSessionId = () =>
+	makeId(sessionTable, `session-${crypto.randomUUID()}`);
+
+export const makeWorkspaceId = () =>
+	makeId(workspaceTable, `workspace-${crypto.randomUUID()}`);
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import type { Tab } from "@/schema/src/schema";
+import { createRecordIndex } from "./db-lookups";
+import { createMemoryDbOperations } from "./memory-db";
+
+const row = (
+	browserTabId: number,
+	parentTabId: number | null,
+	overrides: Partial<Tab> = {},
+) => ({
+	id: `tab-${browserTabId}`,
+	browserTabId,
+	browserWindowId: 1,
+	parentTabId,
+	deletedAt: null,
+	...overrides,
+});
+
+describe("createRecordIndex", () => {
+	test("looks records up by each indexed field", () => {
+		const index = createRecordIndex("tab", [
+			row(2, 1),
+			row(1, null),
+			row(3, 1, { browserWindowId: 2 }),
+		]);
+		expect(index.lookup("tab_browser_id_index", 1)).toEqual(["tab-1"]);
+		expect(index.lookup("tab_parent_id_index", 1)).toEqual(["tab-2", "tab-3"]);
+		expect(index.lookup("tab_parent_id_index", null)).toEqual(["tab-1"]);
+		expect(index.lookup("tab_browser_window_id_index", 2)).toEqual(["tab-3"]);
+		expect(index.lookup("tab_browser_id_index", 4)).toEqual([]);
+	});
+
+	test("moves records between values as they're written", () => {
+		const index = createRecordIndex("tab", [row(1, null), row(2, 1)]);
+		index.put([row(2, null)]);
+		index.delete(["tab-1"]);
+		expect(index.lookup("tab_parent_id_index", 1)).toEqual([]);
+		expect(index.lookup("tab_parent_id_index", null)).toEqual(["tab-2"]);
+		expect(index.lookup("tab_browser_id_index", 1)).toEqual([]);
+	});
+
+	test("rejects indexes the store doesn't have", () => {
+		const index = createRecordIndex("tab", []);
+		expect(() => index.lookup("tab_title_index", "x")).toThrow();
+	});
+});
+
+describe("withLookups", () => {
+	test("finds open tabs and children, not closed ghosts", async () => {
+		const dbOps = createMemoryDbOperations({
+			tab: [
+				row(1, null, { id: "tab-1-closed", deletedAt: new Date() }),
+				row(1, null),
+				row(2, 1),
+				row(3, 1, { deletedAt: new Date() }),
+			],
+		});
+		expect((await dbOps.getByBrowserTabId(1))?.id).toBe("tab-1");
+		expect((await dbOps.getChildren(1)).map((t) => t.id)).toEqual(["tab-2"]);
+		expect(await dbOps.getByBrowserTabId(3)).toBeUndefined();
+	});
+
+	test("runs updates of one record one after another", async () => {
+		const dbOps = createMemoryDbOperations({
+			tab: [{ id: "tab-1", count: 0 }],
+		});
+		type Counter = { id: string; count: number };
+		const results = await Promise.all(
+			[1, 2, 3].map(() =>
+				dbOps.update<Counter>("tab", "tab-1", (tab) => ({
+					...tab,
+					count: tab.count + 1,
+				})),
+			),
+		);
+		expect(results.map((r) => r?.count)).toEqual([1, 2, 3]);
+		expect((await dbOps.get<Counter>("tab", "tab-1"))?.count).toBe(3);
+		expect(await dbOps.update("tab", "tab-9", (tab) => tab)).toBeUndefined();
+	});
+});
@@ -0,0 +1,159 @@
+import { isClosedTab } from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab } from "@/schema/src/schema";
+import type { DbOperations, DbOperationsBase } from "./db-operations";
+
+/**
+ * The record field behind each index a store can be looked up by, named
+ * after the indexes declared in schema.ts. Those IndexedDB indexes are keyed
+ * on the SQL column names (browser_tab_id, ...), which the camelCase records
+ * written here never have, so DbOperations keeps its own index of record IDs.
+ */
+export const STORE_INDEXES: Record<string, Record<string, string>> = {
+	tab: {
+		tab_browser_id_index: "browserTabId",
+		tab_browser_window_id_index: "browserWindowId",
+		tab_parent_id_index: "parentTabId",
+	},
+	window: {
+		window_browser_id_index: "browserWindowId",
+		window_workspace_id_index: "workspaceId",
+	},
+	tab_group: {
+		tab_group_browser_id_index: "browserGroupId",
+		tab_group_browser_window_id_index: "browserWindowId",
+	},
+};
+
+export type IndexValue = string | number | boolean | null;
+
+type StoredRecord = { id: string };
+
+export interface RecordIndex {
+	put: (records: StoredRecord[]) => void;
+	delete: (ids: string[]) => void;
+	/** IDs of the records whose indexed field equals `value`, in key order */
+	lookup: (indexName: string, value: IndexValue) => string[];
+}
+
+/** The field an index is keyed on; throws for an index the store doesn't have */
+export function getIndexField(storeName: string, indexName: string): string {
+	const field = STORE_INDEXES[storeName]?.[indexName];
+	if (!field) {
+		throw new Error(`Unknown index ${indexName} on store ${storeName}`);
+	}
+	return field;
+}
+
+/** A record's value for an index; missing fields index as null */
+export function getIndexValue(
+	record: object,
+	storeName: string,
+	indexName: string,
+): IndexValue {
+	const field = getIndexField(storeName, indexName);
+	return ((record as Record<string, unknown>)[field] ?? null) as IndexValue;
+}
+
+/** Record IDs by value for every index of a store, kept up to date by hand */
+export function createRecordIndex(
+	storeName: string,
+	records: StoredRecord[],
+): RecordIndex {
+	const indexNames = Object.keys(STORE_INDEXES[storeName] ?? {});
+	const idsByValue = new Map<string, Map<IndexValue, Set<string>>>(
+		indexNames.map((indexName) => [indexName, new Map()]),
+	);
+	// What each record is indexed under, to take it out again
+	const valuesById = new Map<string, IndexValue[]>();
+
+	const remove = (id: string) => {
+		const values = valuesById.get(id);
+		if (!values) return;
+		valuesById.delete(id);
+		indexNames.forEach((indexName, i) => {
+			idsByValue.get(indexName)?.get(values[i])?.delete(id);
+		});
+	};
+
+	const add = (record: StoredRecord) => {
+		remove(record.id);
+		const values = indexNames.map((indexName) =>
+			getIndexValue(record, storeName, indexName),
+		);
+		valuesById.set(record.id, values);
+		indexNames.forEach((indexName, i) => {
+			const byValue = idsByValue.get(indexName);
+			if (!byValue) return;
+			let ids = byValue.get(values[i]);
+			if (!ids) {
+				ids = new Set();
+				byValue.set(values[i], ids);
+			}
+			ids.add(record.id);
+		});
+	};
+
+	for (const record of records) add(record);
+
+	return {
+		put: (records) => {
+			for (const record of records) add(record);
+		},
+		delete: (ids) => {
+			for (const id of ids) remove(id);
+		},
+		lookup: (indexName, value) => {
+			getIndexField(storeName, indexName);
+			return [...(idsByValue.get(indexName)?.get(value) ?? [])].sort();
+		},
+	};
+}
+
+// Per store and key, the latest update still running
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Complete a DbOperations implementation with the tab lookups and `update`,
+ * built on its own reads and writes (so wrappers that record writes see the
+ * ones `update` makes too)
+ */
+export function withLookups(base: DbOperationsBase): DbOperations {
+	const getOpenTabsBy = async (indexName: string, value: IndexValue) =>
+		(await base.getByIndex<Tab>("tab", indexName, value)).filter(
+			(tab) => !isClosedTab(tab),
+		);
+
+	return {
+		...base,
+		getByBrowserTabId: async (browserTabId) =>
+			(await getOpenTabsBy("tab_browser_id_index", browserTabId))[0],
+		getChildren: (parentTabId) =>
+			getOpenTabsBy("tab_parent_id_index", parentTabId),
+		update: <T extends StoredRecord>(
+			storeName: string,
+			key: string,
+			fn: (record: T) => T,
+		) => {
+			// Updates of one record wait for each other, so none of them is lost
+			const updateKey = `${storeName}:${key}`;
+			const previous = pendingUpdates.get(updateKey) ?? Promise.resolve();
+			const run = previous
+				.catch(() => {})
+				.then(async () => {
+					const current = await base.get<T>(storeName, key);
+					if (!current) return undefined;
+					const next = fn(current);
+					await base.putItems(storeName, [next]);
+					return next;
+				});
+			pendingUpdates.set(updateKey, run);
+			const cleanUp = () => {
+				if (pendingUpdates.get(updateKey) === run) {
+					pendingUpdates.delete(updateKey);
+				}
+			};
+			run.then(cleanUp, cleanUp);
+			return run;
+		},
+	};
+}
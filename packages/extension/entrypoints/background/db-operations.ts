@@ -1,12 +1,24 @@
 import type { SyncMessage } from "@firtoz/db-helpers";
 import type { IDBDatabaseLike } from "@firtoz/drizzle-indexeddb";
+import type { Tab } from "@/schema/src/schema";
+import type { SyncStoreName } from "@/src/idb-transport";
+import { runTransaction } from "./batched-db";
 import { DB_NAME, log } from "./constants";
+import {
+	createRecordIndex,
+	getIndexField,
+	type IndexValue,
+	type RecordIndex,
+	withLookups,
+} from "./db-lookups";
+import type { DbChange } from "./memory-db";
 
-export type SyncBroadcastPayload = {
-	type: "sync";
-	storeName: "tab" | "window";
-	messages: SyncMessage[];
-};
+type StoreSync = { storeName: SyncStoreName; messages: SyncMessage[] };
+
+export type SyncBroadcastPayload =
+	| ({ type: "sync" } & StoreSync)
+	/** Several stores' changes that were written together */
+	| { type: "syncBatch"; syncs: StoreSync[] };
 
 export type BroadcastSyncFn = (
 	message: SyncBroadcastPayload,
@@ -27,6 +39,72 @@ export interface DbOperations {
 	) => Promise<void>;
 	deleteItems: (storeName: string, keys: string[]) => Promise<void>;
 	getAll: <T>(storeName: string) => Promise<T[]>;
+	get: <T>(storeName: string, key: string) => Promise<T | undefined>;
+	/** Records whose field behind `indexName` (see STORE_INDEXES) equals `value` */
+	getByIndex: <T>(
+		storeName: string,
+		indexName: string,
+		value: IndexValue,
+	) => Promise<T[]>;
+	/** The open (not closed-ghost) tab row for a browser tab */
+	getByBrowserTabId: (browserTabId: number) => Promise<Tab | undefined>;
+	/** Open tab rows whose parent is the given browser tab */
+	getChildren: (parentTabId: number) => Promise<Tab[]>;
+	/**
+	 * Replace a record with `fn` of its current value and write it; resolves
+	 * to the new record, or undefined when there was none. Updates of the same
+	 * record run one after another.
+	 */
+	update: <T extends RecordWithId>(
+		storeName: string,
+		key: string,
+		fn: (record: T) => T,
+	) => Promise<T | undefined>;
+	/**
+	 * Apply puts, patches and deletes, across stores, in one IndexedDB
+	 * transaction: either all of them land or none do. Broadcasts them all in
+	 * one sync message.
+	 */
+	writeChanges: (changes: DbChange[]) => Promise<void>;
+	/**
+	 * Run `fn` with DbOperations whose writes are held back (its reads see
+	 * them) and then written with one writeChanges call, so a worker
+	 * suspension can't leave half of them behind. Nothing is written if `fn`
+	 * throws.
+	 */
+	transaction: <T>(fn: (tx: DbOperations) => Promise<T>) => Promise<T>;
+}
+
+/** What each DbOperations implementation provides; see withLookups for the rest */
+export type DbOperationsBase = Pick<
+	DbOperations,
+	| "putItems"
+	| "deleteItems"
+	| "getAll"
+	| "get"
+	| "getByIndex"
+	| "writeChanges"
+	| "transaction"
+>;
+
+type StoredRecord = RecordWithId & RecordWithTimestamps;
+
+/** What writeChanges does to one record: write it whole, merge it, or delete */
+type PendingWrite = { record: RecordWithId; patch: boolean } | null;
+
+/** A stored record's createdAt as a Date (legacy rows hold a number) */
+const getCreatedAt = (record: StoredRecord | undefined): Date | undefined => {
+	if (!record?.createdAt) return undefined;
+	return record.createdAt instanceof Date
+		? record.createdAt
+		: new Date(record.createdAt as unknown as number);
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
 }
 
 export const createDbOperations = (
@@ -35,6 +113,33 @@ export const createDbOperations = (
 	getTs?: () => string,
 ): DbOperations => {
 	const prefix = () => (getTs ? `${getTs()} ` : "");
+
+	// Built from one getAll per store on its first lookup, then kept up to date
+	// by putItems and deleteItems (the background is the only writer)
+	let indexedDb: IDBDatabaseLike | null = null;
+	const indexes = new Map<string, Promise<RecordIndex>>();
+	const loadIndex = (db: IDBDatabaseLike, storeName: string) => {
+		if (db !== indexedDb) {
+			indexes.clear();
+			indexedDb = db;
+		}
+		const cached = indexes.get(storeName);
+		if (cached) return cached;
+		const index: Promise<RecordIndex> = db
+			.getAll<RecordWithId>(storeName)
+			.then((records) => createRecordIndex(storeName, records));
+		indexes.set(storeName, index);
+		return index;
+	};
+	const updateIndex = async (
+		db: IDBDatabaseLike,
+		storeName: string,
+		apply: (index: RecordIndex) => void,
+	) => {
+		const index = db === indexedDb ? indexes.get(storeName) : undefined;
+		if (index) apply(await index);
+	};
+
 	const putItems = async <TId extends string>(
 		storeName: string,
 		items: RecordWithId<TId>[],
@@ -50,17 +155,10 @@ export const createDbOperations = (
 		);
 
 		// Build a map of existing createdAt values
-		// Handle both Date objects and legacy number timestamps
 		const existingCreatedAt = new Map<TId, Date>();
 		for (const record of existingRecords) {
-			if (record?.createdAt) {
-				// Convert number to Date if needed (for legacy data)
-				const createdAt =
-					record.createdAt instanceof Date
-						? record.createdAt
-						: new Date(record.createdAt as unknown as number);
-				existingCreatedAt.set(record.id, createdAt);
-			}
+			const createdAt = getCreatedAt(record);
+			if (record && createdAt) existingCreatedAt.set(record.id, createdAt);
 		}
 
 		// Add timestamps to items (using Date objects for schema compatibility)
@@ -72,6 +170,7 @@ export const createDbOperations = (
 		}));
 
 		await db.put(storeName, itemsWithTimestamps);
+		await updateIndex(db, storeName, (index) => index.put(items));
 
 		// Build SyncMessage[] for broadcast (insert for new, update for existing)
 		const messages: SyncMessage[] = itemsWithTimestamps.map((item, i) => {
@@ -95,7 +194,7 @@ export const createDbOperations = (
 			);
 			getBroadcastSync()({
 				type: "sync",
-				storeName: storeName as "tab" | "window",
+				storeName: storeName as SyncStoreName,
 				messages,
 			});
 		}
@@ -105,6 +204,7 @@ export const createDbOperations = (
 		const db = getDb();
 		if (!db) return;
 		await db.delete(storeName, keys);
+		await updateIndex(db, storeName, (index) => index.delete(keys));
 		// Broadcast the change as SyncMessage[]
 		const messages: SyncMessage[] = keys.map((key) => ({
 			type: "delete" as const,
@@ -120,7 +220,7 @@ export const createDbOperations = (
 			);
 			getBroadcastSync()({
 				type: "sync",
-				storeName: storeName as "tab" | "window",
+				storeName: storeName as SyncStoreName,
 				messages,
 			});
 		}
@@ -132,5 +232,177 @@ export const createDbOperations = (
 		return db.getAll<T>(storeName);
 	};
 
-	return { putItems, deleteItems, getAll };
+	// IDBDatabaseLike runs every call in a transaction of its own, so writes
+	// that must land together go through a plain connection to the same DB
+	let nativeDb: Promise<IDBDatabase> | null = null;
+	const openNativeDb = () => {
+		nativeDb ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME);
+			request.onsuccess = () => {
+				const connection = request.result;
+				// Step aside for a newer version's migrations; reopen on next use
+				connection.onversionchange = () => {
+					connection.close();
+					nativeDb = null;
+				};
+				resolve(connection);
+			};
+			request.onerror = () => {
+				nativeDb = null;
+				reject(request.error);
+			};
+		});
+		return nativeDb;
+	};
+
+	const writeChanges = async (changes: DbChange[]) => {
+		const db = getDb();
+		if (!db || changes.length === 0) return;
+
+		// The last write of each record wins, as if applied one by one; a patch
+		// on top of a put makes a put, on top of a delete it's dropped
+		const latest = new Map<string, Map<string, PendingWrite>>();
+		for (const change of changes) {
+			let records = latest.get(change.storeName);
+			if (!records) {
+				records = new Map();
+				latest.set(change.storeName, records);
+			}
+			if (change.type === "put") {
+				for (const item of change.items) {
+					records.set(item.id, { record: item, patch: false });
+				}
+			} else if (change.type === "patch") {
+				for (const item of change.items) {
+					const previous = records.get(item.id);
+					if (previous === null) continue;
+					records.set(item.id, {
+						record: { ...previous?.record, ...item },
+						patch: previous?.patch ?? true,
+					});
+				}
+			} else {
+				for (const key of change.keys) records.set(key, null);
+			}
+		}
+
+		const connection = await openNativeDb();
+		const tx = connection.transaction([...latest.keys()], "readwrite");
+		const done = new Promise<void>((resolve, reject) => {
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(tx.error);
+			tx.onabort = () => reject(tx.error);
+		});
+		// A failed read below throws before `done` is awaited
+		done.catch(() => {});
+
+		// Patches are merged onto the records as they are in this transaction,
+		// so fields written since the caller read them are kept
+		const now = new Date();
+		const written = new Map<string, [string, RecordWithId | null][]>();
+		const syncs: StoreSync[] = [];
+		try {
+			for (const [storeName, records] of latest) {
+				const store = tx.objectStore(storeName);
+				const entries = [...records];
+				const existingRecords = await Promise.all(
+					entries.map(
+						([key]) =>
+							requestToPromise(store.get(key)) as Promise<
+								StoredRecord | undefined
+							>,
+					),
+				);
+				const storeWrites: [string, RecordWithId | null][] = [];
+				const messages: SyncMessage[] = [];
+				entries.forEach(([key, write], i) => {
+					const existing = existingRecords[i];
+					if (write === null) {
+						store.delete(key);
+						storeWrites.push([key, null]);
+						messages.push({ type: "delete", key });
+						return;
+					}
+					// Don't bring a record someone else deleted back as a fragment
+					if (write.patch && !existing) return;
+					const item = {
+						...(write.patch ? existing : undefined),
+						...write.record,
+						createdAt: getCreatedAt(existing) ?? now,
+						updatedAt: now,
+					};
+					store.put(item);
+					storeWrites.push([key, item]);
+					messages.push(
+						existing
+							? { type: "update", value: item, previousValue: existing }
+							: { type: "insert", value: item },
+					);
+				});
+				written.set(storeName, storeWrites);
+				if (messages.length > 0) {
+					syncs.push({ storeName: storeName as SyncStoreName, messages });
+				}
+			}
+		} catch (error) {
+			try {
+				tx.abort();
+			} catch {
+				// The failed request already aborted it
+			}
+			throw error;
+		}
+		await done;
+
+		for (const [storeName, storeWrites] of written) {
+			await updateIndex(db, storeName, (index) => {
+				for (const [key, record] of storeWrites) {
+					if (record) index.put([record]);
+					else index.delete([key]);
+				}
+			});
+		}
+		if (syncs.length > 0) {
+			log(
+				prefix(),
+				"[Background] Sync broadcast (transaction):",
+				syncs
+					.map(({ storeName, messages }) => `${storeName} ${messages.length}`)
+					.join(", "),
+			);
+			getBroadcastSync()({ type: "syncBatch", syncs });
+		}
+	};
+
+	const get = async <T>(storeName: string, key: string) => {
+		const db = getDb();
+		if (!db) return undefined;
+		return db.get<T>(storeName, key);
+	};
+
+	const getByIndex = async <T>(
+		storeName: string,
+		indexName: string,
+		value: IndexValue,
+	): Promise<T[]> => {
+		getIndexField(storeName, indexName);
+		const db = getDb();
+		if (!db) return [];
+		const ids = (await loadIndex(db, storeName)).lookup(indexName, value);
+		const records = await Promise.all(
+			ids.map((id) => db.get<T>(storeName, id)),
+		);
+		return records.filter((record): record is T => record !== undefined);
+	};
+
+	const dbOps: DbOperations = withLookups({
+		putItems,
+		deleteItems,
+		getAll,
+		get,
+		getByIndex,
+		writeChanges,
+		transaction: (fn) => runTransaction(dbOps, fn),
+	});
+	return dbOps;
 };
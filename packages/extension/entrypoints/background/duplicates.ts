@@ -0,0 +1,115 @@
+import {
+	type DuplicateOptions,
+	findDuplicateGroups,
+} from "@/entrypoints/sidepanel/lib/duplicates";
+import {
+	getDescendantIds,
+	isClosedTab,
+} from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab } from "@/schema/src/schema";
+import { log } from "./constants";
+import type { DbOperations } from "./db-operations";
+import { registerUiMoveIntent } from "./tab-handlers";
+import {
+	adoptChildrenOnRemove,
+	flattenTreeToBrowserOrder,
+	promoteOnRemove,
+	type TreeUpdate,
+} from "./tree-sync";
+
+/**
+ * Close duplicate tabs, keeping the one highest in the tree of each group.
+ * Children of a closed duplicate move under the survivor when it's in the
+ * same window, and are promoted in place (as on a normal close) otherwise.
+ * With `browserTabId`, only that tab's duplicate group is handled.
+ */
+export async function closeDuplicates(
+	dbOps: DbOperations,
+	options: DuplicateOptions & { browserTabId?: number },
+): Promise<void> {
+	const allTabs = await dbOps.getAll<Tab>("tab");
+	const groups = findDuplicateGroups(allTabs, options).filter(
+		(group) =>
+			options.browserTabId === undefined ||
+			group.some((t) => t.browserTabId === options.browserTabId),
+	);
+	if (groups.length === 0) return;
+
+	// Apply updates as we go so several duplicates adopted by one survivor
+	// line up after each other
+	const tabs = new Map(
+		allTabs.filter((t) => !isClosedTab(t)).map((t) => [t.browserTabId, t]),
+	);
+	const applyUpdates = (updates: Map<number, TreeUpdate>) => {
+		for (const [tabId, update] of updates) {
+			const tab = tabs.get(tabId);
+			if (tab) tabs.set(tabId, { ...tab, ...update });
+		}
+	};
+
+	const updatedIds = new Set<number>();
+	const adoptedIds = new Set<number>();
+	const removedIds: number[] = [];
+	for (const [survivor, ...duplicates] of groups) {
+		for (const duplicate of duplicates) {
+			const sameWindow = duplicate.browserWindowId === survivor.browserWindowId;
+			const updates = sameWindow
+				? adoptChildrenOnRemove(
+						[...tabs.values()],
+						duplicate.browserTabId,
+						survivor.browserTabId,
+					)
+				: promoteOnRemove([...tabs.values()], duplicate.browserTabId);
+			applyUpdates(updates);
+			for (const tabId of updates.keys()) {
+				updatedIds.add(tabId);
+				if (sameWindow) adoptedIds.add(tabId);
+			}
+			removedIds.push(duplicate.browserTabId);
+		}
+	}
+
+	const removed = new Set(removedIds);
+	const records = [...updatedIds]
+		.filter((id) => !removed.has(id))
+		.map((id) => tabs.get(id))
+		.filter((t): t is Tab => t !== undefined);
+	log(
+		"[Background] Closing",
+		removedIds.length,
+		"duplicate tabs, re-parenting",
+		records.length,
+	);
+	// Persist first so the TabRemoved handler finds no children to promote
+	if (records.length > 0) {
+		await dbOps.putItems("tab", records);
+	}
+	await browser.tabs.remove(removedIds);
+
+	// Move adopted subtrees next to their new parent in the tab strip
+	const remaining = [...tabs.values()].filter(
+		(t) => !removed.has(t.browserTabId),
+	);
+	const movedIds = new Set<number>();
+	for (const tabId of adoptedIds) {
+		if (removed.has(tabId)) continue;
+		movedIds.add(tabId);
+		for (const id of getDescendantIds(remaining, tabId)) movedIds.add(id);
+	}
+	const windowIds = new Set(
+		[...movedIds].map((id) => tabs.get(id)?.browserWindowId),
+	);
+	for (const windowId of windowIds) {
+		const order = flattenTreeToBrowserOrder(
+			remaining.filter((t) => t.browserWindowId === windowId),
+		);
+		for (const [index, tabId] of order.entries()) {
+			const tab = tabs.get(tabId);
+			if (!tab || !movedIds.has(tabId)) continue;
+			registerUiMoveIntent(tabId, tab.parentTabId, tab.treeOrder);
+			await browser.tabs.move(tabId, { index }).catch((err) => {
+				log("[Background] Failed to move adopted tab:", tabId, err);
+			});
+		}
+	}
+}
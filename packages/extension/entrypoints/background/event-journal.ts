@@ -0,0 +1,224 @@
+import { loadAutoGroupRules } from "./auto-group";
+import { runTransaction } from "./batched-db";
+import { log } from "./constants";
+import { withLookups } from "./db-lookups";
+import type { DbOperations } from "./db-operations";
+import {
+	appendJournalEntry,
+	getLastJournalSeq,
+	type JournalEntry,
+	resetJournal,
+} from "./journal-store";
+import type { DbChange, DbSnapshot } from "./memory-db";
+import { getPreferences } from "./preferences";
+import { snapshotIntents } from "./tab-handlers";
+import type { TabSyncEvent } from "./tab-sync-events";
+
+// Everything the background writes; the journal's base snapshot covers them all
+const JOURNALED_STORES = [
+	"tab",
+	"window",
+	"session",
+	"workspace",
+	"tab_group",
+] as const;
+
+type UnnumberedEntry = JournalEntry extends infer E
+	? E extends JournalEntry
+		? Omit<E, "seq">
+		: never
+	: never;
+
+/**
+ * Records every event the reconciler applies, what it read besides the DB,
+ * and the writes it made, so a user's tree bug can be replayed later (see
+ * journal-replay.ts). Off unless the event journal preference is on.
+ *
+ * The reconciler's writes are captured through the DbOperations it is handed;
+ * every other write goes through the attached DbOperations and becomes a
+ * "write" entry.
+ */
+class EventJournal {
+	/** Undefined until the preference has loaded */
+	private enabled: boolean | undefined;
+	/** Entries recorded before the preference loaded */
+	private pending: UnnumberedEntry[] = [];
+	private seq = 0;
+	private writes: Promise<void> = Promise.resolve();
+	private dbOps: DbOperations | null = null;
+	private dbReady: Promise<void> = Promise.resolve();
+	/** Attached DbOperations -> the unrecorded ones they wrap */
+	private unwrapped = new WeakMap<DbOperations, DbOperations>();
+
+	/** Wrap the background's DbOperations so every write is recorded */
+	attach(dbOps: DbOperations, dbReady: Promise<void>): DbOperations {
+		this.dbOps = dbOps;
+		this.dbReady = dbReady;
+		const attached: DbOperations = withLookups({
+			putItems: async (storeName, items) => {
+				await dbOps.putItems(storeName, items);
+				this.recordChanges([
+					{ type: "put", storeName, items: structuredClone(items) },
+				]);
+			},
+			deleteItems: async (storeName, keys) => {
+				await dbOps.deleteItems(storeName, keys);
+				this.recordChanges([{ type: "delete", storeName, keys: [...keys] }]);
+			},
+			getAll: dbOps.getAll,
+			get: dbOps.get,
+			getByIndex: dbOps.getByIndex,
+			writeChanges: async (changes) => {
+				await dbOps.writeChanges(changes);
+				this.recordChanges(structuredClone(changes));
+			},
+			transaction: (fn) => runTransaction(attached, fn),
+		});
+		this.unwrapped.set(attached, dbOps);
+		return attached;
+	}
+
+	/**
+	 * The DbOperations under an attached one, whose writes aren't recorded.
+	 * For writes the journal already has, like a batch of reconciled events.
+	 */
+	unwrap(dbOps: DbOperations): DbOperations {
+		return this.unwrapped.get(dbOps) ?? dbOps;
+	}
+
+	/**
+	 * Turn recording on or off. Turning it on after it was off starts a fresh
+	 * journal, since events in between were missed; the first call after
+	 * startup continues the stored one.
+	 */
+	async setEnabled(enabled: boolean): Promise<void> {
+		const wasEnabled = this.enabled;
+		this.enabled = enabled;
+		const pending = this.pending;
+		this.pending = [];
+		if (!enabled || wasEnabled) return;
+
+		const lastSeq =
+			wasEnabled === undefined
+				? await getLastJournalSeq().catch(() => null)
+				: null;
+		if (lastSeq === null) {
+			await this.startFresh();
+			return;
+		}
+		this.seq = lastSeq;
+		for (const entry of pending) this.append(entry);
+		log("[Background] Event journal continued at", lastSeq);
+	}
+
+	/**
+	 * Stop recording until the returned function is called, which puts it back
+	 * as it was. Unlike turning it off and on, resuming keeps the stored
+	 * journal.
+	 */
+	pause(): () => void {
+		const enabled = this.enabled;
+		this.enabled = false;
+		return () => {
+			this.enabled = enabled;
+		};
+	}
+
+	/**
+	 * Reconcile an event through `run`, journaling it and the writes `run`
+	 * makes through the DbOperations it is given when recording is on
+	 */
+	async record(
+		event: TabSyncEvent,
+		dbOps: DbOperations,
+		run: (dbOps: DbOperations) => Promise<void>,
+	): Promise<void> {
+		if (this.enabled === false) return run(dbOps);
+
+		let context: Omit<
+			Extract<UnnumberedEntry, { kind: "event" }>,
+			"at" | "changes" | "intents"
+		>;
+		try {
+			context = {
+				kind: "event",
+				event: structuredClone(event),
+				browserTabs: await browser.tabs.query({}),
+				preferences: getPreferences(),
+				autoGroupRules:
+					event.type === "TabCreated" ? await loadAutoGroupRules() : undefined,
+			};
+		} catch (err) {
+			log("[Background] Event journal skipped an event:", err);
+			return run(dbOps);
+		}
+
+		const inner = this.unwrap(dbOps);
+		const changes: DbChange[] = [];
+		const intents = snapshotIntents();
+		try {
+			const recorded: DbOperations = withLookups({
+				putItems: async (storeName, items) => {
+					await inner.putItems(storeName, items);
+					changes.push({
+						type: "put",
+						storeName,
+						items: structuredClone(items),
+					});
+				},
+				deleteItems: async (storeName, keys) => {
+					await inner.deleteItems(storeName, keys);
+					changes.push({ type: "delete", storeName, keys: [...keys] });
+				},
+				getAll: inner.getAll,
+				get: inner.get,
+				getByIndex: inner.getByIndex,
+				writeChanges: async (written) => {
+					await inner.writeChanges(written);
+					changes.push(...structuredClone(written));
+				},
+				transaction: (fn) => runTransaction(recorded, fn),
+			});
+			await run(recorded);
+		} finally {
+			this.add({ ...context, intents, at: Date.now(), changes });
+		}
+	}
+
+	private async startFresh(): Promise<void> {
+		const dbOps = this.dbOps;
+		if (!dbOps) return;
+		await this.dbReady;
+		const base: DbSnapshot = {};
+		for (const storeName of JOURNALED_STORES) {
+			base[storeName] = await dbOps.getAll(storeName);
+		}
+		this.seq = 0;
+		this.writes = this.writes
+			.then(() => resetJournal(base))
+			.catch((err) => log("[Background] Failed to reset event journal:", err));
+		log("[Background] Event journal started");
+	}
+
+	private recordChanges(changes: DbChange[]): void {
+		if (this.enabled === false) return;
+		this.add({ kind: "write", at: Date.now(), changes });
+	}
+
+	private add(entry: UnnumberedEntry): void {
+		if (this.enabled === undefined) {
+			this.pending.push(entry);
+		} else if (this.enabled) {
+			this.append(entry);
+		}
+	}
+
+	private append(entry: UnnumberedEntry): void {
+		const numbered = { ...entry, seq: ++this.seq } as JournalEntry;
+		this.writes = this.writes
+			.then(() => appendJournalEntry(numbered))
+			.catch((err) => log("[Background] Failed to journal entry:", err));
+	}
+}
+
+export const eventJournal = new EventJournal();
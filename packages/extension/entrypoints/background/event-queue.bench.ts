@@ -0,0 +1,78 @@
+/**
+ * Times a burst of tab updates reconciled one by one against reconciling it
+ * through one batch, with a little latency per DB call like IndexedDB.
+ * Run with `bun run bench`; it's kept out of `bun test` since the timings
+ * depend on the machine.
+ */
+import { createBatchedDbOperations } from "./batched-db";
+import type { DbOperations } from "./db-operations";
+import { createMemoryDbOperations } from "./memory-db";
+
+const BURST_SIZE = 200;
+const LATENCY_MS = 1;
+
+type BurstDbOperations = Pick<
+	DbOperations,
+	"putItems" | "deleteItems" | "getAll" | "get" | "getByIndex" | "writeChanges"
+>;
+
+type BurstTab = { id: string; title: string };
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const slowDb = (): BurstDbOperations => {
+	const db = createMemoryDbOperations({
+		tab: Array.from({ length: BURST_SIZE }, (_, i) => ({
+			id: `tab-${i}`,
+			title: "",
+		})),
+	});
+	return {
+		getAll: async (storeName) => {
+			await wait(LATENCY_MS);
+			return db.getAll(storeName);
+		},
+		putItems: async (storeName, items) => {
+			await wait(LATENCY_MS);
+			return db.putItems(storeName, items);
+		},
+		deleteItems: async (storeName, keys) => {
+			await wait(LATENCY_MS);
+			return db.deleteItems(storeName, keys);
+		},
+		writeChanges: async (changes) => {
+			await wait(LATENCY_MS);
+			return db.writeChanges(changes);
+		},
+		get: db.get,
+		getByIndex: db.getByIndex,
+	};
+};
+
+const applyUpdate = async (dbOps: BurstDbOperations, i: number) => {
+	const tabs = await dbOps.getAll<BurstTab>("tab");
+	const tab = tabs.find((t) => t.id === `tab-${i}`);
+	if (!tab) return;
+	const updated: BurstTab = { ...tab, title: `Tab ${i}` };
+	await dbOps.putItems("tab", [updated]);
+};
+
+const time = async (run: () => Promise<void>) => {
+	const start = performance.now();
+	await run();
+	return (performance.now() - start).toFixed(1);
+};
+
+const directMs = await time(async () => {
+	const dbOps = slowDb();
+	for (let i = 0; i < BURST_SIZE; i++) await applyUpdate(dbOps, i);
+});
+const batchedMs = await time(async () => {
+	const batch = createBatchedDbOperations(slowDb());
+	for (let i = 0; i < BURST_SIZE; i++) await applyUpdate(batch, i);
+	await batch.flush();
+});
+
+console.log(
+	`${BURST_SIZE} updates: direct ${directMs}ms, batched ${batchedMs}ms`,
+);
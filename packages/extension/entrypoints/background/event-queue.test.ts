@@ -1,5 +1,14 @@
 import { describe, expect, test } from "bun:test";
+import { createBatchedDbOperations } from "./batched-db";
+import type { DbOperations } from "./db-operations";
 import { eventQueue, queuedHandler } from "./event-queue";
+import { createMemoryDbOperations } from "./memory-db";
+import { coalesceTabSyncEvents, type TabSyncEvent } from "./tab-sync-events";
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const browserTab = (id: number, overrides: Partial<Browser.tabs.Tab> = {}) =>
+	({ id, windowId: 1, index: 0, ...overrides }) as Browser.tabs.Tab;
 
 describe("BrowserEventQueue", () => {
 	test("processes events sequentially", async () => {
@@ -79,3 +88,222 @@ describe("BrowserEventQueue", () => {
 		expect(results).toContain("after-error");
 	});
 });
+
+describe("createBatch", () => {
+	test("handles items collected within the window together", async () => {
+		const batches: number[][] = [];
+		const add = eventQueue.createBatch<number>({
+			name: "test-batch",
+			windowMs: 20,
+			handler: async (items) => {
+				batches.push(items);
+			},
+		});
+
+		add(1);
+		add(2);
+		expect(eventQueue.size).toBe(2);
+		await wait(10);
+		add(3);
+		await wait(40);
+		add(4);
+		await wait(40);
+
+		expect(batches).toEqual([[1, 2, 3], [4]]);
+		expect(eventQueue.size).toBe(0);
+	});
+
+	test("closes early when another event is enqueued", async () => {
+		const results: string[] = [];
+		const add = eventQueue.createBatch<string>({
+			name: "test-batch-order",
+			windowMs: 1000,
+			handler: async (items) => {
+				results.push(items.join("+"));
+			},
+		});
+
+		add("a");
+		add("b");
+		eventQueue.enqueue("test-after-batch", async () => {
+			results.push("other");
+		});
+		await wait(20);
+
+		expect(results).toEqual(["a+b", "other"]);
+	});
+
+	test("coalesces items before handling them", async () => {
+		const batches: number[][] = [];
+		const add = eventQueue.createBatch<number>({
+			name: "test-batch-coalesce",
+			windowMs: 10,
+			coalesce: (items) => [...new Set(items)],
+			handler: async (items) => {
+				batches.push(items);
+			},
+		});
+
+		for (const item of [1, 1, 2, 1]) add(item);
+		await wait(30);
+
+		expect(batches).toEqual([[1, 2]]);
+	});
+});
+
+describe("coalesceTabSyncEvents", () => {
+	test("merges repeated updates of a tab", () => {
+		const events: TabSyncEvent[] = [
+			{
+				type: "TabUpdated",
+				tabId: 1,
+				changeInfo: { status: "loading" },
+				tab: browserTab(1, { status: "loading" }),
+			},
+			{ type: "TabActivated", activeInfo: { tabId: 2, windowId: 1 } },
+			{
+				type: "TabUpdated",
+				tabId: 1,
+				changeInfo: { title: "Example" },
+				tab: browserTab(1, { status: "loading", title: "Example" }),
+			},
+			{
+				type: "TabUpdated",
+				tabId: 1,
+				changeInfo: { status: "complete" },
+				tab: browserTab(1, { status: "complete", title: "Example" }),
+			},
+		];
+
+		expect(coalesceTabSyncEvents(events)).toEqual([
+			events[1],
+			{
+				type: "TabUpdated",
+				tabId: 1,
+				changeInfo: { status: "complete", title: "Example" },
+				tab: browserTab(1, { status: "complete", title: "Example" }),
+			},
+		]);
+	});
+
+	test("collapses moves of a tab within a window", () => {
+		const move = (tabId: number, fromIndex: number, toIndex: number) =>
+			({
+				type: "TabMoved",
+				tabId,
+				moveInfo: { windowId: 1, fromIndex, toIndex },
+			}) satisfies TabSyncEvent;
+
+		expect(
+			coalesceTabSyncEvents([move(1, 0, 1), move(1, 1, 2), move(1, 2, 3)]),
+		).toEqual([move(1, 0, 3)]);
+		expect(
+			coalesceTabSyncEvents([move(1, 0, 1), move(2, 3, 4), move(1, 1, 2)]),
+		).toEqual([move(2, 3, 4), move(1, 0, 2)]);
+	});
+
+	test("keeps events that separate a tab's updates", () => {
+		const events: TabSyncEvent[] = [
+			{
+				type: "TabUpdated",
+				tabId: 1,
+				changeInfo: { pinned: true },
+				tab: browserTab(1, { pinned: true }),
+			},
+			{
+				type: "TabMoved",
+				tabId: 1,
+				moveInfo: { windowId: 1, fromIndex: 2, toIndex: 0 },
+			},
+			{
+				type: "TabUpdated",
+				tabId: 1,
+				changeInfo: { title: "Pinned" },
+				tab: browserTab(1, { pinned: true, title: "Pinned" }),
+			},
+		];
+
+		expect(coalesceTabSyncEvents(events)).toEqual(events);
+	});
+});
+
+type BurstDbOperations = Pick<
+	DbOperations,
+	"putItems" | "deleteItems" | "getAll" | "get" | "getByIndex" | "writeChanges"
+>;
+
+type BurstTab = { id: string; title: string };
+
+describe("burst", () => {
+	const BURST_SIZE = 200;
+
+	/**
+	 * Memory DB that counts calls; putItems, deleteItems and writeChanges each
+	 * broadcast a sync in the real DbOperations
+	 */
+	const countingDb = () => {
+		const db = createMemoryDbOperations({
+			tab: Array.from({ length: BURST_SIZE }, (_, i) => ({
+				id: `tab-${i}`,
+				title: "",
+			})),
+		});
+		const calls = { getAll: 0, putItems: 0, deleteItems: 0, writeChanges: 0 };
+		const ops: BurstDbOperations = {
+			getAll: (storeName) => {
+				calls.getAll++;
+				return db.getAll(storeName);
+			},
+			putItems: (storeName, items) => {
+				calls.putItems++;
+				return db.putItems(storeName, items);
+			},
+			deleteItems: (storeName, keys) => {
+				calls.deleteItems++;
+				return db.deleteItems(storeName, keys);
+			},
+			writeChanges: (changes) => {
+				calls.writeChanges++;
+				return db.writeChanges(changes);
+			},
+			get: db.get,
+			getByIndex: db.getByIndex,
+		};
+		return { db, calls, ops };
+	};
+
+	/** Roughly what the reconciler does per TabUpdated: read, then write one row */
+	const applyUpdate = async (dbOps: BurstDbOperations, i: number) => {
+		const tabs = await dbOps.getAll<BurstTab>("tab");
+		const tab = tabs.find((t) => t.id === `tab-${i}`);
+		if (!tab) return;
+		const updated: BurstTab = { ...tab, title: `Tab ${i}` };
+		await dbOps.putItems("tab", [updated]);
+	};
+
+	test("reconciles a burst with one read and one write per store", async () => {
+		const direct = countingDb();
+		for (let i = 0; i < BURST_SIZE; i++) await applyUpdate(direct.ops, i);
+
+		const batched = countingDb();
+		const batch = createBatchedDbOperations(batched.ops);
+		for (let i = 0; i < BURST_SIZE; i++) await applyUpdate(batch, i);
+		await batch.flush();
+
+		expect(direct.calls).toEqual({
+			getAll: BURST_SIZE,
+			putItems: BURST_SIZE,
+			deleteItems: 0,
+			writeChanges: 0,
+		});
+		expect(batched.calls).toEqual({
+			getAll: 1,
+			putItems: 0,
+			deleteItems: 0,
+			writeChanges: 1,
+		});
+		expect(batched.db.snapshot().tab.map((t) => t.title)).toEqual(
+			direct.db.snapshot().tab.map((t) => t.title),
+		);
+	});
+});
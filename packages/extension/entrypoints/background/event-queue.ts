@@ -7,6 +7,15 @@ interface QueuedEvent {
 	handler: EventHandler;
 }
 
+export interface BatchOptions<T> {
+	name: string;
+	/** How long to collect items after the first one arrives */
+	windowMs: number;
+	/** Merge or drop items before they're handled (order is kept otherwise) */
+	coalesce?: (items: T[]) => T[];
+	handler: (items: T[]) => Promise<void>;
+}
+
 /**
  * Event queue that processes browser events sequentially.
  * This prevents race conditions when multiple events fire in quick succession.
@@ -14,11 +23,54 @@ interface QueuedEvent {
 class BrowserEventQueue {
 	private queue: QueuedEvent[] = [];
 	private isProcessing = false;
+	/** Batches still collecting items, keyed to the function that queues them */
+	private openBatches = new Map<() => void, () => number>();
 
 	/**
 	 * Add an event to the queue and start processing if not already running.
 	 */
 	enqueue(name: string, handler: EventHandler): void {
+		// Anything collected so far happened first, so it runs first
+		this.closeBatches();
+		this.push(name, handler);
+	}
+
+	/**
+	 * Returns a function that collects items for `windowMs` after the first,
+	 * then queues them as one event. Any other enqueue closes the batch early,
+	 * so events still run in the order they arrived.
+	 */
+	createBatch<T>(options: BatchOptions<T>): (item: T) => void {
+		const { name, windowMs, coalesce, handler } = options;
+		let items: T[] = [];
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const close = () => {
+			clearTimeout(timer);
+			timer = undefined;
+			this.openBatches.delete(close);
+			const batch = coalesce ? coalesce(items) : items;
+			log(`[EventQueue] Batched ${items.length} ${name} into ${batch.length}`);
+			items = [];
+			if (batch.length > 0) {
+				this.push(`${name} (${batch.length})`, () => handler(batch));
+			}
+		};
+
+		return (item: T) => {
+			items.push(item);
+			if (timer === undefined) {
+				timer = setTimeout(close, windowMs);
+				this.openBatches.set(close, () => items.length);
+			}
+		};
+	}
+
+	private closeBatches(): void {
+		for (const close of [...this.openBatches.keys()]) close();
+	}
+
+	private push(name: string, handler: EventHandler): void {
 		this.queue.push({ name, handler });
 		log(`[EventQueue] Enqueued: ${name} (queue size: ${this.queue.length})`);
 		this.processNext();
@@ -57,10 +109,12 @@ class BrowserEventQueue {
 	}
 
 	/**
-	 * Get current queue size (for debugging).
+	 * Events waiting to run, including items in open batches.
 	 */
 	get size(): number {
-		return this.queue.length;
+		let collecting = 0;
+		for (const count of this.openBatches.values()) collecting += count();
+		return this.queue.length + collecting;
 	}
 }
 
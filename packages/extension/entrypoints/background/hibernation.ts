@@ -0,0 +1,42 @@
+import {
+	getIdleTabsToDiscard,
+	HIBERNATION_SETTINGS_KEY,
+	parseHibernationSettings,
+} from "@/entrypoints/sidepanel/lib/hibernation";
+import type { Tab } from "@/schema/src/schema";
+import { log } from "./constants";
+import type { DbOperations } from "./db-operations";
+import { hasTabIds } from "./type-guards";
+
+/**
+ * Discard tabs that have been idle longer than the user's hibernation policy
+ * allows. Runs on the keepalive alarm; a no-op while the policy is disabled.
+ */
+export async function discardIdleTabs(dbOps: DbOperations): Promise<void> {
+	const stored = await browser.storage.local.get(HIBERNATION_SETTINGS_KEY);
+	const settings = parseHibernationSettings(stored[HIBERNATION_SETTINGS_KEY]);
+	if (!settings.enabled) return;
+
+	const lastAccessed = new Map<number, number>();
+	for (const tab of (await browser.tabs.query({})).filter(hasTabIds)) {
+		if (tab.lastAccessed !== undefined) {
+			lastAccessed.set(tab.id, tab.lastAccessed);
+		}
+	}
+	const tabIds = getIdleTabsToDiscard(
+		await dbOps.getAll<Tab>("tab"),
+		lastAccessed,
+		Date.now(),
+		settings.idleMinutes,
+	);
+	if (tabIds.length === 0) return;
+
+	log("[Background] Hibernating", tabIds.length, "idle tabs");
+	for (const tabId of tabIds) {
+		try {
+			await browser.tabs.discard(tabId);
+		} catch (err) {
+			log("[Background] Failed to discard idle tab:", tabId, err);
+		}
+	}
+}
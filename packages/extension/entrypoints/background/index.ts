@@ -3,16 +3,35 @@ import type { IDBDatabaseLike } from "@firtoz/drizzle-indexeddb";
 import { migrateIndexedDBWithFunctions } from "@firtoz/drizzle-indexeddb";
 import { exhaustiveGuard } from "@firtoz/maybe-error";
 import migrations from "@/schema/drizzle/indexeddb-migrations";
-import type { Tab, Window } from "@/schema/src/schema";
+import type {
+	Session,
+	Tab,
+	TabGroup,
+	Window,
+	Workspace,
+} from "@/schema/src/schema";
 import {
 	type ClientMessage,
 	createExtensionServerTransport,
 	IDB_PORT_NAME,
 	type ServerMessage,
 } from "@/src/idb-transport";
+import { runConsistencyAudit } from "./consistency-audit";
 import { DB_NAME, log } from "./constants";
 import { type BroadcastSyncFn, createDbOperations } from "./db-operations";
+import { closeDuplicates } from "./duplicates";
+import { eventJournal } from "./event-journal";
+import { eventQueue } from "./event-queue";
+import { discardIdleTabs } from "./hibernation";
 import { performFullReset, performInitialSync } from "./initial-sync";
+import { setupPreferencesListener } from "./preferences";
+import {
+	captureSession,
+	deleteSession,
+	restoreSession,
+	restoreWindows,
+} from "./sessions";
+import { setupTabGroupListeners } from "./tab-group-handlers";
 import {
 	clearTabCreatedEvents,
 	disableTestMode,
@@ -24,6 +43,7 @@ import {
 	setupTabListeners,
 } from "./tab-handlers";
 import { setupWindowListeners } from "./window-handlers";
+import { createWorkspace, deleteWorkspace } from "./workspaces";
 
 /** Alarm name for waking the service worker. Chrome MV3 allows min 1 minute period. */
 const KEEPALIVE_ALARM_NAME = "tabcanopy-keepalive";
@@ -54,11 +74,6 @@ export default defineBackground(() => {
 
 	// Keep service worker from going dormant when sidebar is closed (reconcile parent/child etc.)
 	scheduleKeepaliveAlarm();
-	browser.alarms.onAlarm.addListener((alarm) => {
-		if (alarm.name === KEEPALIVE_ALARM_NAME) {
-			// No-op: waking the worker is the only goal
-		}
-	});
 
 	// Track the database instance for direct writes
 	let db: IDBDatabaseLike | null = null;
@@ -72,14 +87,35 @@ export default defineBackground(() => {
 	const managedWindowMoveTabIds = new Set<number>();
 
 	// Create DB operations with getters for the mutable state
-	const dbOps = createDbOperations(
-		() => db,
-		() => broadcastSync,
+	const dbOps = eventJournal.attach(
+		createDbOperations(
+			() => db,
+			() => broadcastSync,
+		),
+		dbReady,
 	);
 
+	setupPreferencesListener();
+
 	// Setup browser event listeners - pass getter for managed move tab IDs
 	const tabHandlers = setupTabListeners(dbOps, () => managedWindowMoveTabIds);
 	const windowHandlers = setupWindowListeners(dbOps);
+	setupTabGroupListeners(dbOps);
+
+	browser.alarms.onAlarm.addListener((alarm) => {
+		if (alarm.name === KEEPALIVE_ALARM_NAME) {
+			// Waking the worker is the main goal; also apply the idle-tab policy
+			// and check the DB still matches the browser
+			dbReady
+				.then(() => discardIdleTabs(dbOps))
+				.catch((err) => log("[Background] Idle tab sweep failed:", err))
+				.then(() =>
+					eventQueue.enqueue("consistencyAudit", () =>
+						runConsistencyAudit(dbOps, () => managedWindowMoveTabIds),
+					),
+				);
+		}
+	});
 
 	// IDB Proxy Server Setup
 	const migratingDbCreator = async (dbName: string) => {
@@ -102,6 +138,9 @@ export default defineBackground(() => {
 			if (!db) return;
 			const windows = await dbOps.getAll<Window>("window");
 			const tabs = await dbOps.getAll<Tab>("tab");
+			const sessions = await dbOps.getAll<Session>("session");
+			const workspaces = await dbOps.getAll<Workspace>("workspace");
+			const tabGroups = await dbOps.getAll<TabGroup>("tab_group");
 			const windowMessages: SyncMessage[] = windows.map((w) => ({
 				type: "insert",
 				value: w,
@@ -124,6 +163,27 @@ export default defineBackground(() => {
 					messages: tabMessages,
 				});
 			}
+			if (sessions.length > 0) {
+				serverTransport.send(client.clientId, {
+					type: "sync",
+					storeName: "session",
+					messages: sessions.map((s) => ({ type: "insert", value: s })),
+				});
+			}
+			if (workspaces.length > 0) {
+				serverTransport.send(client.clientId, {
+					type: "sync",
+					storeName: "workspace",
+					messages: workspaces.map((w) => ({ type: "insert", value: w })),
+				});
+			}
+			if (tabGroups.length > 0) {
+				serverTransport.send(client.clientId, {
+					type: "sync",
+					storeName: "tab_group",
+					messages: tabGroups.map((g) => ({ type: "insert", value: g })),
+				});
+			}
 			log(
 				"[Background] Sent initial state to client:",
 				client.clientId,
@@ -162,15 +222,9 @@ export default defineBackground(() => {
 
 					// Persist intent to DB immediately. This ensures tree structure is saved
 					// even if the move doesn't trigger a browser event (e.g. only indentation changed).
-					const existingTabs = await dbOps.getAll<Tab>("tab");
-					const existingMap = new Map<number, Tab>();
-					for (const tab of existingTabs) {
-						existingMap.set(tab.browserTabId, tab);
-					}
-
 					const recordsToUpdate: Tab[] = [];
 					for (const move of moves) {
-						const existing = existingMap.get(move.tabId);
+						const existing = await dbOps.getByBrowserTabId(move.tabId);
 						if (existing) {
 							recordsToUpdate.push({
 								...existing,
@@ -200,19 +254,26 @@ export default defineBackground(() => {
 					// Register pending child intent BEFORE tab is created
 					// This allows us to set the correct parent when the tab is created,
 					// since Chrome doesn't propagate openerTabId from browser.tabs.create()
-					const { windowId, expectedIndex, parentTabId, treeOrder } =
-						message.data;
+					const {
+						windowId,
+						expectedIndex,
+						parentTabId,
+						treeOrder,
+						reopenedTabId,
+					} = message.data;
 					log("[Background] Received pending child tab intent:", {
 						windowId,
 						expectedIndex,
 						parentTabId,
 						treeOrder,
+						reopenedTabId,
 					});
 					registerPendingChildIntent(
 						windowId,
 						expectedIndex,
 						parentTabId,
 						treeOrder,
+						reopenedTabId,
 					);
 					break;
 				}
@@ -404,33 +465,58 @@ export default defineBackground(() => {
 					serverTransport.send(client.clientId, { type: "pong" });
 					break;
 				case "patchTab": {
-					const existingTabs = await dbOps.getAll<Tab>("tab");
-					const existing = existingTabs.find(
-						(t) => t.browserTabId === message.tabId,
-					);
+					const existing = await dbOps.getByBrowserTabId(message.tabId);
 					if (existing) {
-						const updated: Tab = {
-							...existing,
+						await dbOps.update<Tab>("tab", existing.id, (tab) => ({
+							...tab,
 							titleOverride: message.patch.titleOverride,
-						};
-						await dbOps.putItems("tab", [updated]);
+						}));
 					}
 					break;
 				}
 				case "patchWindow": {
-					const existingWindows = await dbOps.getAll<Window>("window");
-					const existing = existingWindows.find(
-						(w) => w.browserWindowId === message.windowId,
+					const [existing] = await dbOps.getByIndex<Window>(
+						"window",
+						"window_browser_id_index",
+						message.windowId,
 					);
 					if (existing) {
-						const updated: Window = {
-							...existing,
-							titleOverride: message.patch.titleOverride,
-						};
-						await dbOps.putItems("window", [updated]);
+						await dbOps.update<Window>("window", existing.id, (win) => ({
+							...win,
+							...message.patch,
+						}));
 					}
 					break;
 				}
+				case "saveSession":
+					await captureSession(dbOps, message.name);
+					break;
+				case "restoreSession":
+					await replyToRestore(client.clientId, message.requestId, () =>
+						restoreSession(dbOps, message.sessionId),
+					);
+					break;
+				case "deleteSession":
+					await deleteSession(dbOps, message.sessionId);
+					break;
+				case "importTree":
+					log("[Background] Importing", message.windows.length, "windows");
+					await replyToRestore(client.clientId, message.requestId, () =>
+						restoreWindows(dbOps, message.windows),
+					);
+					break;
+				case "createWorkspace":
+					await createWorkspace(dbOps, message.name);
+					break;
+				case "deleteWorkspace":
+					await deleteWorkspace(dbOps, message.workspaceId);
+					break;
+				case "closeDuplicates":
+					await closeDuplicates(dbOps, {
+						browserTabId: message.browserTabId,
+						ignoreTrackingParams: message.ignoreTrackingParams,
+					});
+					break;
 				default:
 					exhaustiveGuard(message);
 					break;
@@ -447,7 +533,32 @@ export default defineBackground(() => {
 		},
 	});
 
-	// Wire up broadcast: db-operations sends { type: "sync", storeName, messages } (SyncBroadcastPayload)
+	// The sidepanel waits for every restore, so it gets an answer even when
+	// the browser refuses to create a window or tab
+	const replyToRestore = async (
+		clientId: string,
+		requestId: string,
+		restore: () => Promise<number>,
+	) => {
+		try {
+			serverTransport.send(clientId, {
+				type: "restoreComplete",
+				requestId,
+				skippedCount: await restore(),
+			});
+		} catch (error) {
+			console.error("[Background] Restore failed:", error);
+			serverTransport.send(clientId, {
+				type: "restoreComplete",
+				requestId,
+				skippedCount: 0,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	// Wire up broadcast: db-operations sends { type: "sync", storeName, messages }, or
+	// { type: "syncBatch", syncs } for a transaction (SyncBroadcastPayload)
 	broadcastSync = (message, excludeClientId?: string) => {
 		serverTransport.broadcast(message, excludeClientId);
 	};
@@ -459,8 +570,12 @@ export default defineBackground(() => {
 			log("[Background] Database initialized:", DB_NAME);
 			return performInitialSync(dbOps);
 		})
-		.then(() => {
-			log("[Background] Initial sync complete");
+		.then(({ reattachedCount }) => {
+			log(
+				"[Background] Initial sync complete, re-attached",
+				reattachedCount,
+				"tabs",
+			);
 		})
 		.finally(() => {
 			dbReadyResolve();
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createMockTab } from "@/entrypoints/sidepanel/lib/tests/mock-tab";
+import type { Tab, Window } from "@/schema/src/schema";
+import { performInitialSync } from "./initial-sync";
+import { createMemoryDbOperations } from "./memory-db";
+
+const globals = globalThis as { browser?: unknown };
+const realBrowser = globals.browser;
+
+/** Stand in for the browser as it comes back from a restart */
+function useBrowser(
+	windows: Browser.windows.Window[],
+	tabs: Browser.tabs.Tab[],
+) {
+	globals.browser = {
+		windows: { getAll: async () => windows },
+		tabs: { query: async () => tabs },
+	};
+}
+
+const browserTab = (id: number, windowId: number, index: number, url: string) =>
+	({ id, windowId, index, url, title: url }) as Browser.tabs.Tab;
+
+const tabRow = (
+	browserTabId: number,
+	browserWindowId: number,
+	url: string,
+	overrides: Partial<Tab> = {},
+) =>
+	createMockTab(browserTabId, null, `a${browserTabId}`, {
+		browserWindowId,
+		url,
+		...overrides,
+	});
+
+afterEach(() => {
+	globals.browser = realBrowser;
+});
+
+describe("performInitialSync", () => {
+	test("carries a restarted window's UI state over to its new window", async () => {
+		const oldWindow = {
+			id: "window-1",
+			browserWindowId: 1,
+			titleOverride: "Work",
+			isCollapsed: true,
+			workspaceId: "workspace-1",
+			windowOrder: "a5",
+			deletedAt: null,
+		} as Window;
+		const dbOps = createMemoryDbOperations({
+			window: [oldWindow],
+			tab: [tabRow(10, 1, "https://a.com"), tabRow(11, 1, "https://b.com")],
+		});
+		useBrowser(
+			[{ id: 2, focused: false } as Browser.windows.Window],
+			[
+				browserTab(20, 2, 0, "https://a.com"),
+				browserTab(21, 2, 1, "https://b.com"),
+			],
+		);
+
+		const { reattachedCount } = await performInitialSync(dbOps);
+
+		expect(reattachedCount).toBe(2);
+		const windows = await dbOps.getAll<Window>("window");
+		expect(windows).toHaveLength(1);
+		expect(windows[0]).toMatchObject({
+			browserWindowId: 2,
+			titleOverride: "Work",
+			isCollapsed: true,
+			workspaceId: "workspace-1",
+			windowOrder: "a5",
+		});
+	});
+
+	test("leaves a new window that shares no tabs with an old one alone", async () => {
+		const dbOps = createMemoryDbOperations({
+			window: [
+				{
+					id: "window-1",
+					browserWindowId: 1,
+					titleOverride: "Work",
+					isCollapsed: true,
+					deletedAt: null,
+				} as Window,
+			],
+			tab: [tabRow(10, 1, "https://a.com")],
+		});
+		useBrowser(
+			[{ id: 2, focused: false } as Browser.windows.Window],
+			[browserTab(20, 2, 0, "https://other.com")],
+		);
+
+		await performInitialSync(dbOps);
+
+		const windows = await dbOps.getAll<Window>("window");
+		expect(windows).toHaveLength(1);
+		expect(windows[0].browserWindowId).toBe(2);
+		expect(windows[0].titleOverride).toBeUndefined();
+	});
+
+	test("re-matches rows whose browser ID was handed to another tab", async () => {
+		// Window and tab IDs start over after a restart, so they overlap
+		const dbOps = createMemoryDbOperations({
+			window: [
+				{ id: "window-1", browserWindowId: 1, deletedAt: null } as Window,
+			],
+			tab: [
+				tabRow(1, 1, "https://a.com", { tabIndex: 0, treeOrder: "a0" }),
+				tabRow(2, 1, "https://b.com", {
+					tabIndex: 1,
+					parentTabId: 1,
+					treeOrder: "a0",
+					titleOverride: "Bee",
+				}),
+				tabRow(3, 1, "https://c.com", { tabIndex: 2, treeOrder: "a1" }),
+			],
+		});
+		useBrowser(
+			[{ id: 1, focused: true } as Browser.windows.Window],
+			[
+				browserTab(3, 1, 0, "https://a.com"),
+				browserTab(1, 1, 1, "https://b.com"),
+				browserTab(4, 1, 2, "https://c.com"),
+				browserTab(2, 1, 3, "https://new.com"),
+			],
+		);
+
+		const { reattachedCount } = await performInitialSync(dbOps);
+
+		expect(reattachedCount).toBe(3);
+		const tabs = new Map(
+			(await dbOps.getAll<Tab>("tab")).map((t) => [t.browserTabId, t]),
+		);
+		expect(tabs.size).toBe(4);
+		expect(tabs.get(3)).toMatchObject({ parentTabId: null, treeOrder: "a0" });
+		expect(tabs.get(1)).toMatchObject({
+			url: "https://b.com",
+			parentTabId: 3,
+			titleOverride: "Bee",
+		});
+		expect(tabs.get(4)).toMatchObject({ parentTabId: null, treeOrder: "a1" });
+		// The tab that matched nothing goes after the restored root tabs
+		const added = tabs.get(2);
+		expect(added?.parentTabId).toBeNull();
+		expect(added?.titleOverride).toBeNull();
+		expect((added?.treeOrder ?? "") > "a1").toBe(true);
+	});
+
+	test("keeps the row of a tab that navigated while the background slept", async () => {
+		const dbOps = createMemoryDbOperations({
+			window: [
+				{ id: "window-1", browserWindowId: 1, deletedAt: null } as Window,
+			],
+			tab: [
+				tabRow(1, 1, "https://a.com", { tabIndex: 0, treeOrder: "a0" }),
+				tabRow(2, 1, "https://b.com", {
+					tabIndex: 1,
+					parentTabId: 1,
+					treeOrder: "a0",
+				}),
+			],
+		});
+		useBrowser(
+			[{ id: 1, focused: true } as Browser.windows.Window],
+			[
+				browserTab(1, 1, 0, "https://a.com"),
+				browserTab(2, 1, 1, "https://b.com/next"),
+			],
+		);
+
+		const { reattachedCount } = await performInitialSync(dbOps);
+
+		expect(reattachedCount).toBe(0);
+		expect(await dbOps.get<Tab>("tab", "tab-2")).toMatchObject({
+			url: "https://b.com/next",
+			parentTabId: 1,
+			treeOrder: "a0",
+		});
+	});
+});
@@ -1,8 +1,23 @@
 import { generateNKeysBetween } from "fractional-indexing";
-import type { Tab } from "@/schema/src/schema";
+import {
+	compareTreeOrder,
+	isClosedTab,
+} from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab, Window } from "@/schema/src/schema";
 import { log } from "./constants";
 import type { DbOperations } from "./db-operations";
-import { tabToRecord, windowToRecord } from "./mappers";
+import {
+	type TabRecord,
+	tabToRecord,
+	windowToRecord,
+	withWindowUiState,
+} from "./mappers";
+import {
+	matchRestoredTabs,
+	matchRestoredWindows,
+	remapRestoredTree,
+} from "./restore-matcher";
+import { syncTabGroups } from "./tab-group-handlers";
 import { hasTabIds, hasWindowId } from "./type-guards";
 
 /**
@@ -60,10 +75,19 @@ export const performFullReset = async (dbOps: DbOperations) => {
 	}
 	log(`[Background] Inserted ${tabRecords.length} tabs (all as root level)`);
 
+	await syncTabGroups(dbOps);
+
 	log("[Background] Full reset complete");
 };
 
-export const performInitialSync = async (dbOps: DbOperations) => {
+export type InitialSyncResult = {
+	/** Tabs whose tree position was recovered from a row with an old browser ID */
+	reattachedCount: number;
+};
+
+export const performInitialSync = async (
+	dbOps: DbOperations,
+): Promise<InitialSyncResult> => {
 	const { putItems, deleteItems, getAll } = dbOps;
 
 	log("[Background] Performing initial sync...");
@@ -73,14 +97,14 @@ export const performInitialSync = async (dbOps: DbOperations) => {
 	const browserTabs = await browser.tabs.query({});
 
 	// Get current DB state
-	const dbWindows = await getAll<{ id: string; browserWindowId: number }>(
-		"window",
-	);
+	const dbWindows = await getAll<Window>("window");
 	const dbTabs = await getAll<Tab>("tab");
 
 	// Create a map of existing tabs for preserving tree structure
+	// (closed-tab ghosts are left out so a reused browser ID starts fresh)
 	const existingTabMap = new Map<number, Tab>();
 	for (const tab of dbTabs) {
+		if (isClosedTab(tab)) continue;
 		existingTabMap.set(tab.browserTabId, tab);
 	}
 
@@ -94,10 +118,87 @@ export const performInitialSync = async (dbOps: DbOperations) => {
 	const staleWindowIds = dbWindows
 		.filter((w) => !currentWindowIds.has(w.browserWindowId))
 		.map((w) => w.id);
+	// Closed-tab ghosts survive as long as their window does
 	const staleTabIds = dbTabs
-		.filter((t) => !currentTabIds.has(t.browserTabId))
+		.filter((t) =>
+			isClosedTab(t)
+				? !currentWindowIds.has(t.browserWindowId) ||
+					currentTabIds.has(t.browserTabId)
+				: !currentTabIds.has(t.browserTabId),
+		)
 		.map((t) => t.id);
 
+	// After a browser restart every tab and window has a new ID, and the new
+	// IDs start over, so they often collide with old rows. Windows are paired
+	// by the URLs they share first; a row whose browser ID is still in use
+	// only describes that tab if its URL and (paired) window agree.
+	const filteredTabs = browserTabs.filter(hasTabIds);
+	const toCandidate = (tab: (typeof filteredTabs)[number]) => ({
+		id: tab.id,
+		windowId: tab.windowId,
+		index: tab.index,
+		url: tab.url ?? tab.pendingUrl ?? null,
+	});
+	const openRows = dbTabs.filter((t) => !isClosedTab(t));
+	const restoredWindows = matchRestoredWindows(
+		openRows,
+		filteredTabs.map(toCandidate),
+	);
+	const inSameWindow = (row: Tab, tab: (typeof filteredTabs)[number]) =>
+		(restoredWindows.get(row.browserWindowId) ?? row.browserWindowId) ===
+		tab.windowId;
+
+	const existingTabs: typeof filteredTabs = [];
+	const newTabs: typeof filteredTabs = [];
+	for (const tab of filteredTabs) {
+		const row = existingTabMap.get(tab.id);
+		if (row && row.url === toCandidate(tab).url && inSameWindow(row, tab)) {
+			existingTabs.push(tab);
+		} else {
+			newTabs.push(tab);
+		}
+	}
+
+	// Recover the tree of the rows that lost their tab by matching them to the
+	// new tabs (URL, window, index)
+	const existingIds = new Set<number>(existingTabs.map((t) => t.id));
+	const orphanedTabs = openRows.filter((t) => !existingIds.has(t.browserTabId));
+	const matches = matchRestoredTabs(
+		orphanedTabs,
+		newTabs.map(toCandidate),
+		restoredWindows,
+	);
+	// A tab that only navigated while the background was asleep keeps its row
+	const matchedIds = new Set(matches.values());
+	for (const tab of newTabs) {
+		const row = existingTabMap.get(tab.id);
+		if (
+			row &&
+			!matchedIds.has(tab.id) &&
+			!matches.has(row.browserTabId) &&
+			inSameWindow(row, tab)
+		) {
+			existingTabs.push(tab);
+			existingIds.add(tab.id);
+		}
+	}
+	const restartedTabs = newTabs.filter((t) => !existingIds.has(t.id));
+	for (const id of existingIds) matches.set(id, id);
+	// Existing tabs are remapped too, as their parent may have a new ID
+	const treeStates = remapRestoredTree(openRows, matches);
+
+	// Each window keeps the UI state of the window it was paired with, or its
+	// own row's if that wasn't paired with another window
+	const windowRows = new Map(dbWindows.map((w) => [w.browserWindowId, w]));
+	const pairedWith = new Map(
+		[...restoredWindows].map(([oldId, newId]) => [newId, oldId]),
+	);
+	const windowStateFor = (windowId: number) => {
+		const oldWindowId = pairedWith.get(windowId);
+		if (oldWindowId !== undefined) return windowRows.get(oldWindowId);
+		return restoredWindows.has(windowId) ? undefined : windowRows.get(windowId);
+	};
+
 	// Delete stale entries
 	if (staleWindowIds.length > 0) {
 		log(`[Background] Removing ${staleWindowIds.length} stale windows`);
@@ -108,65 +209,80 @@ export const performInitialSync = async (dbOps: DbOperations) => {
 		await deleteItems("tab", staleTabIds);
 	}
 
-	// Update/add all current windows and tabs
-	const windowRecords = browserWindows.filter(hasWindowId).map(windowToRecord);
+	// Update/add all current windows and tabs (keeping collapse/title/workspace)
+	const windowRecords = browserWindows
+		.filter(hasWindowId)
+		.map((win) =>
+			withWindowUiState(windowToRecord(win), windowStateFor(win.id)),
+		);
 	if (windowRecords.length > 0) {
 		await putItems("window", windowRecords);
 	}
 	log(`[Background] Synced ${windowRecords.length} windows`);
 
-	// Sync tabs while preserving tree structure for existing tabs
-	// For new tabs, we need to generate unique treeOrder values
-	const filteredTabs = browserTabs.filter(hasTabIds);
-
-	// Separate existing and new tabs
-	const existingTabs: typeof filteredTabs = [];
-	const newTabs: typeof filteredTabs = [];
-
+	// Tabs with a known tree position keep it, with their collapse state and
+	// custom title; existing tabs also keep their DB active state (only
+	// handleTabActivated should change it)
+	const positionedRecords: TabRecord[] = [];
+	const unpositioned = new Map<number, typeof filteredTabs>();
 	for (const tab of filteredTabs) {
-		if (existingTabMap.has(tab.id)) {
-			existingTabs.push(tab);
-		} else {
-			newTabs.push(tab);
-		}
-	}
-
-	// Generate unique treeOrder keys for new tabs
-	const newTabKeys = generateNKeysBetween(null, null, newTabs.length);
-
-	// Map existing tabs with preserved tree structure and active state
-	const existingTabRecords = existingTabs.map((tab) => {
-		const existing = existingTabMap.get(tab.id);
-		if (!existing) {
-			throw new Error(`Existing tab not found for tab ${tab.id}`);
+		const state = treeStates.get(tab.id);
+		if (!state) {
+			unpositioned.set(tab.windowId, [
+				...(unpositioned.get(tab.windowId) ?? []),
+				tab,
+			]);
+			continue;
 		}
 		const record = tabToRecord(tab, {
-			parentTabId: existing.parentTabId,
-			treeOrder: existing.treeOrder,
+			parentTabId: state.parentTabId,
+			treeOrder: state.treeOrder,
 		});
-		// Preserve DB active state - only handleTabActivated should change active state
-		record.active = existing.active;
-		return record;
-	});
+		record.isCollapsed = state.isCollapsed;
+		record.titleOverride = state.titleOverride;
+		const existing = existingTabMap.get(tab.id);
+		if (existing && existingIds.has(tab.id)) record.active = existing.active;
+		positionedRecords.push(record);
+	}
 
-	// Map new tabs with unique treeOrder values
-	const newTabRecords = newTabs.map((tab, index) =>
-		tabToRecord(tab, {
-			parentTabId: null,
-			treeOrder: newTabKeys[index],
-		}),
-	);
+	// The rest go at the root, after the root tabs already in their window
+	const rootRecords: TabRecord[] = [];
+	for (const [windowId, tabs] of unpositioned) {
+		const lastRootOrder =
+			positionedRecords
+				.filter((r) => r.browserWindowId === windowId && r.parentTabId === null)
+				.map((r) => r.treeOrder)
+				.sort(compareTreeOrder)
+				.at(-1) ?? null;
+		const keys = generateNKeysBetween(lastRootOrder, null, tabs.length);
+		for (const [index, tab] of tabs.entries()) {
+			rootRecords.push(
+				tabToRecord(tab, { parentTabId: null, treeOrder: keys[index] }),
+			);
+		}
+	}
 
-	const tabRecords = [...existingTabRecords, ...newTabRecords];
+	const tabRecords = [...positionedRecords, ...rootRecords];
 
 	if (tabRecords.length > 0) {
 		await putItems("tab", tabRecords);
 	}
 	log(
-		`[Background] Synced ${tabRecords.length} tabs (${existingTabs.length} existing, ${newTabs.length} new)`,
+		`[Background] Synced ${tabRecords.length} tabs (${existingTabs.length} existing, ${restartedTabs.length} new)`,
+	);
+
+	await syncTabGroups(dbOps);
+
+	const reattachedCount = restartedTabs.filter((t) =>
+		treeStates.has(t.id),
+	).length;
+	log(
+		`[Background] Re-attached ${reattachedCount} tabs to their previous tree position`,
 	);
 
 	log(
 		`[Background] Initial sync complete (removed ${staleWindowIds.length} windows, ${staleTabIds.length} tabs)`,
 	);
+
+	return { reattachedCount };
 };
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_PREFERENCES } from "@/entrypoints/sidepanel/lib/preferences";
+import type { DbOperations } from "./db-operations";
+import { eventJournal } from "./event-journal";
+import { replayJournal } from "./journal-replay";
+import type { JournalFile } from "./journal-store";
+import { createMemoryDbOperations } from "./memory-db";
+
+const browserTab = (id: number, index: number) =>
+	({
+		id,
+		index,
+		windowId: 1,
+		url: `https://example.com/${id}`,
+		title: `Tab ${id}`,
+		pinned: false,
+		active: false,
+		highlighted: false,
+		incognito: false,
+		discarded: false,
+		autoDiscardable: true,
+		groupId: -1,
+	}) as Browser.tabs.Tab;
+
+const tabRecord = {
+	id: "tab-1",
+	browserTabId: 1,
+	browserWindowId: 1,
+	tabIndex: 0,
+	parentTabId: null,
+	treeOrder: "a0",
+	deletedAt: null,
+};
+
+const journal = (recorded: JournalFile["entries"][number]["changes"]) =>
+	({
+		version: 1,
+		extensionUrl: "chrome-extension://abc/",
+		base: { tab: [tabRecord] },
+		entries: [
+			{
+				seq: 1,
+				at: 0,
+				kind: "event",
+				event: { type: "TabCreated", tab: browserTab(2, 1) },
+				browserTabs: [browserTab(1, 0), browserTab(2, 1)],
+				intents: {
+					uiMoveIntents: [],
+					pendingChildIntents: [
+						["1:1", { parentTabId: 1, treeOrder: "a0", timestamp: 0 }],
+					],
+				},
+				preferences: DEFAULT_PREFERENCES,
+				autoGroupRules: [],
+				changes: recorded,
+			},
+		],
+	}) satisfies JournalFile;
+
+describe("replayJournal", () => {
+	test("rebuilds the tree with the intents recorded with each event", async () => {
+		const { snapshot } = await replayJournal(journal([]));
+		expect(snapshot.tab).toContainEqual(
+			expect.objectContaining({ browserTabId: 2, parentTabId: 1 }),
+		);
+	});
+
+	test("reports events whose writes differ from the recording", async () => {
+		const first = await replayJournal(journal([]));
+		expect(first.mismatches).toHaveLength(1);
+
+		const { mismatches } = await replayJournal(
+			journal(first.mismatches[0].replayed),
+		);
+		expect(mismatches).toEqual([]);
+	});
+
+	test("puts the event journal back as it was", async () => {
+		const recording = async () => {
+			const dbOps = createMemoryDbOperations();
+			let handed: DbOperations | undefined;
+			await eventJournal.record(
+				{ type: "TabActivated", activeInfo: { tabId: 1, windowId: 1 } },
+				dbOps,
+				async (recorded) => {
+					handed = recorded;
+				},
+			);
+			// Recording hands run a DbOperations that captures its writes
+			return handed !== dbOps;
+		};
+		const globals = globalThis as { browser?: unknown };
+		const realBrowser = globals.browser;
+
+		await replayJournal(journal([]));
+		globals.browser = { tabs: { query: async () => [] } };
+		try {
+			expect(await recording()).toBe(true);
+		} finally {
+			globals.browser = realBrowser;
+		}
+	});
+});
@@ -0,0 +1,176 @@
+import {
+	DEFAULT_PREFERENCES,
+	parsePreferences,
+} from "@/entrypoints/sidepanel/lib/preferences";
+import { runTransaction } from "./batched-db";
+import { withLookups } from "./db-lookups";
+import type { DbOperations } from "./db-operations";
+import { eventJournal } from "./event-journal";
+import type { JournalEntry, JournalFile } from "./journal-store";
+import {
+	createMemoryDbOperations,
+	type DbChange,
+	type DbSnapshot,
+} from "./memory-db";
+import { applyPreferences } from "./preferences";
+import { reconcile } from "./reconciler";
+import { restoreIntents } from "./tab-handlers";
+
+type EventEntry = Extract<JournalEntry, { kind: "event" }>;
+
+/** An event whose replayed writes differ from the recorded ones */
+export interface ReplayMismatch {
+	seq: number;
+	event: EventEntry["event"];
+	recorded: DbChange[];
+	replayed: DbChange[];
+}
+
+export interface ReplayResult {
+	/** The DB after the last entry */
+	snapshot: DbSnapshot;
+	mismatches: ReplayMismatch[];
+}
+
+// Timestamps differ on every run; deletedAt only matters as set or not
+const normalizeChanges = (changes: DbChange[]) =>
+	JSON.stringify(changes, (key, value) => {
+		if (key === "createdAt" || key === "updatedAt") return undefined;
+		if (key === "deletedAt") return value !== null && value !== undefined;
+		return value;
+	});
+
+/**
+ * The browser as it was when an entry was recorded. Queries answer from the
+ * recorded tabs; actions the reconciler takes (move, remove, discard) are
+ * no-ops, since their effects come back as later events in the journal.
+ */
+function createJournalBrowser(
+	journal: JournalFile,
+	getEntryIndex: () => number,
+) {
+	const current = () => journal.entries[getEntryIndex()] as EventEntry;
+	const matches = (tab: Browser.tabs.Tab, query: object) =>
+		Object.entries(query).every(
+			([key, value]) => tab[key as keyof Browser.tabs.Tab] === value,
+		);
+
+	return {
+		tabs: {
+			query: async (query: Browser.tabs.QueryInfo) =>
+				structuredClone(current().browserTabs.filter((t) => matches(t, query))),
+			get: async (tabId: number) => {
+				const tab = current().browserTabs.find((t) => t.id === tabId);
+				if (!tab) throw new Error(`No tab with id: ${tabId}.`);
+				return structuredClone(tab);
+			},
+			// The created tab's own TabCreated event comes later in the journal
+			create: async (properties: Browser.tabs.CreateProperties) => {
+				const created = journal.entries
+					.slice(getEntryIndex() + 1)
+					.find(
+						(entry): entry is EventEntry =>
+							entry.kind === "event" &&
+							entry.event.type === "TabCreated" &&
+							entry.event.tab.windowId === properties.windowId &&
+							(entry.event.tab.pendingUrl ?? entry.event.tab.url) ===
+								properties.url,
+					);
+				const tab =
+					created?.event.type === "TabCreated" ? created.event.tab : undefined;
+				if (!tab) throw new Error("Created tab isn't in the journal");
+				return structuredClone(tab);
+			},
+			move: async () => {},
+			remove: async () => {},
+			discard: async () => {},
+			captureVisibleTab: async () => {
+				throw new Error("No captures during replay");
+			},
+		},
+		runtime: {
+			getURL: (path: string) =>
+				`${journal.extensionUrl.replace(/\/$/, "")}/${path.replace(/^\//, "")}`,
+		},
+		storage: {
+			local: {
+				get: async (key: string) => ({
+					[key]: current().autoGroupRules ?? [],
+				}),
+			},
+		},
+	};
+}
+
+/** DbOperations that also collect every write into `changes` */
+function withChangeLog(dbOps: DbOperations, changes: DbChange[]): DbOperations {
+	const logged: DbOperations = withLookups({
+		putItems: async (storeName, items) => {
+			changes.push({ type: "put", storeName, items: structuredClone(items) });
+			await dbOps.putItems(storeName, items);
+		},
+		deleteItems: async (storeName, keys) => {
+			changes.push({ type: "delete", storeName, keys: [...keys] });
+			await dbOps.deleteItems(storeName, keys);
+		},
+		getAll: dbOps.getAll,
+		get: dbOps.get,
+		getByIndex: dbOps.getByIndex,
+		writeChanges: async (written) => {
+			changes.push(...structuredClone(written));
+			await dbOps.writeChanges(written);
+		},
+		transaction: (fn) => runTransaction(logged, fn),
+	});
+	return logged;
+}
+
+/**
+ * Re-run an exported journal through the reconciler against an in-memory DB,
+ * starting from its base snapshot. Each event sees the browser tabs, intents,
+ * preferences and rules recorded with it; writes from outside the reconciler
+ * are applied as recorded. Runs outside the extension (e.g. in bun test),
+ * since it swaps in a stand-in for the `browser` global while it runs.
+ */
+export async function replayJournal(
+	journal: JournalFile,
+): Promise<ReplayResult> {
+	const memoryDb = createMemoryDbOperations(journal.base);
+	const mismatches: ReplayMismatch[] = [];
+	let entryIndex = 0;
+
+	const globals = globalThis as { browser?: unknown };
+	const realBrowser = globals.browser;
+	globals.browser = createJournalBrowser(journal, () => entryIndex);
+	const resumeJournal = eventJournal.pause();
+
+	try {
+		for (; entryIndex < journal.entries.length; entryIndex++) {
+			const entry = journal.entries[entryIndex];
+			if (entry.kind === "write") {
+				await memoryDb.writeChanges(entry.changes);
+				continue;
+			}
+
+			restoreIntents(entry.intents);
+			applyPreferences(parsePreferences(entry.preferences));
+			const replayed: DbChange[] = [];
+			await reconcile(withChangeLog(memoryDb, replayed), entry.event);
+			if (normalizeChanges(replayed) !== normalizeChanges(entry.changes)) {
+				mismatches.push({
+					seq: entry.seq,
+					event: entry.event,
+					recorded: entry.changes,
+					replayed,
+				});
+			}
+		}
+	} finally {
+		resumeJournal();
+		globals.browser = realBrowser;
+		restoreIntents({ uiMoveIntents: [], pendingChildIntents: [] });
+		applyPreferences(DEFAULT_PREFERENCES);
+	}
+
+	return { snapshot: memoryDb.snapshot(), mismatches };
+}
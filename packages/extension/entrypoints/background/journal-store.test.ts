@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { foldJournalEntries, type JournalEntry } from "./journal-store";
+
+const write = (seq: number, id: string): JournalEntry => ({
+	seq,
+	at: seq,
+	kind: "write",
+	changes: [{ type: "put", storeName: "tab", items: [{ id }] }],
+});
+
+describe("foldJournalEntries", () => {
+	const entries = [write(1, "a"), write(2, "b"), write(3, "c")];
+
+	test("keeps everything within the limit", () => {
+		const base = { tab: [] };
+		expect(foldJournalEntries(base, entries, 3)).toEqual({ base, folded: [] });
+	});
+
+	test("folds the oldest entries' changes into the base", () => {
+		expect(foldJournalEntries({ tab: [{ id: "x" }] }, entries, 1)).toEqual({
+			base: { tab: [{ id: "x" }, { id: "a" }, { id: "b" }] },
+			folded: [1, 2],
+		});
+	});
+});
@@ -0,0 +1,173 @@
+/**
+ * Event journal storage: the reconciler's recent events and the DB writes
+ * they made, for reproducing tree bugs from a user's export.
+ *
+ * Kept in its own IndexedDB database like the thumbnails, so the options page
+ * (same extension origin) can read it for export. The journal is a ring
+ * buffer: old entries are folded into the `base` snapshot they start from,
+ * so base plus entries always rebuilds the current DB.
+ */
+import type { AutoGroupRule } from "@/entrypoints/sidepanel/lib/auto-group-rules";
+import type { Preferences } from "@/entrypoints/sidepanel/lib/preferences";
+import { applyDbChanges, type DbChange, type DbSnapshot } from "./memory-db";
+import type { IntentSnapshot } from "./tab-handlers";
+import type { TabSyncEvent } from "./tab-sync-events";
+
+export const JOURNAL_DB_NAME = "tabcanopy-journal";
+const ENTRY_STORE = "entry";
+const META_STORE = "meta";
+const BASE_KEY = "base";
+
+/** Entries kept before the oldest are folded into the base snapshot */
+export const MAX_JOURNAL_ENTRIES = 300;
+// Fold in batches so the base isn't rewritten on every event
+const FOLD_BATCH_SIZE = 50;
+
+export const JOURNAL_FILE_VERSION = 1;
+
+export type JournalEntry = {
+	seq: number;
+	/** When the entry was recorded (ms since epoch) */
+	at: number;
+	changes: DbChange[];
+} & (
+	| {
+			/** A reconciled event, with everything it read besides the DB */
+			kind: "event";
+			event: TabSyncEvent;
+			/** All browser tabs just before the event was reconciled */
+			browserTabs: Browser.tabs.Tab[];
+			intents: IntentSnapshot;
+			preferences: Preferences;
+			/** Only read for TabCreated */
+			autoGroupRules?: AutoGroupRule[];
+	  }
+	| {
+			/** Writes from outside the reconciler: initial sync, UI intents, sessions */
+			kind: "write";
+	  }
+);
+
+/** The exported journal file */
+export interface JournalFile {
+	version: typeof JOURNAL_FILE_VERSION;
+	/** Extension origin, so replayed group page URLs match the recorded ones */
+	extensionUrl: string;
+	base: DbSnapshot;
+	entries: JournalEntry[];
+}
+
+/**
+ * Fold the entries that don't fit in `max` into the base snapshot. Entries
+ * must be in `seq` order; returns the new base and the folded entries' seqs.
+ */
+export function foldJournalEntries(
+	base: DbSnapshot,
+	entries: JournalEntry[],
+	max: number,
+): { base: DbSnapshot; folded: number[] } {
+	if (entries.length <= max) return { base, folded: [] };
+	const oldest = entries.slice(0, entries.length - max);
+	return {
+		base: applyDbChanges(
+			base,
+			oldest.flatMap((entry) => entry.changes),
+		),
+		folded: oldest.map((entry) => entry.seq),
+	};
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openJournalDb(): Promise<IDBDatabase> {
+	dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(JOURNAL_DB_NAME, 1);
+		request.onupgradeneeded = () => {
+			request.result.createObjectStore(ENTRY_STORE, { keyPath: "seq" });
+			request.result.createObjectStore(META_STORE);
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => {
+			dbPromise = null;
+			reject(request.error);
+		};
+	});
+	return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withStores<T>(
+	mode: IDBTransactionMode,
+	fn: (entries: IDBObjectStore, meta: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+	const db = await openJournalDb();
+	const tx = db.transaction([ENTRY_STORE, META_STORE], mode);
+	const done = new Promise<void>((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+	const result = await fn(
+		tx.objectStore(ENTRY_STORE),
+		tx.objectStore(META_STORE),
+	);
+	await done;
+	return result;
+}
+
+/** Drop all entries and start over from `base` */
+export async function resetJournal(base: DbSnapshot): Promise<void> {
+	await withStores("readwrite", async (entries, meta) => {
+		entries.clear();
+		meta.put(base, BASE_KEY);
+	});
+}
+
+export async function appendJournalEntry(entry: JournalEntry): Promise<void> {
+	await withStores("readwrite", async (entries, meta) => {
+		await requestToPromise(entries.put(entry));
+		const count = await requestToPromise(entries.count());
+		if (count <= MAX_JOURNAL_ENTRIES + FOLD_BATCH_SIZE) return;
+
+		const base = (await requestToPromise(meta.get(BASE_KEY))) as
+			| DbSnapshot
+			| undefined;
+		const all = (await requestToPromise(entries.getAll())) as JournalEntry[];
+		const folded = foldJournalEntries(base ?? {}, all, MAX_JOURNAL_ENTRIES);
+		meta.put(folded.base, BASE_KEY);
+		for (const seq of folded.folded) {
+			entries.delete(seq);
+		}
+	});
+}
+
+/** The last recorded seq, or null when nothing has been recorded yet */
+export async function getLastJournalSeq(): Promise<number | null> {
+	return withStores("readonly", async (entries, meta) => {
+		const base = await requestToPromise(meta.get(BASE_KEY));
+		if (base === undefined) return null;
+		const cursor = await requestToPromise(entries.openCursor(null, "prev"));
+		return cursor ? (cursor.value as JournalEntry).seq : 0;
+	});
+}
+
+/** The stored journal, or null if it was never turned on */
+export async function readJournal(): Promise<Pick<
+	JournalFile,
+	"base" | "entries"
+> | null> {
+	return withStores("readonly", async (entries, meta) => {
+		const base = (await requestToPromise(meta.get(BASE_KEY))) as
+			| DbSnapshot
+			| undefined;
+		if (!base) return null;
+		const all = (await requestToPromise(entries.getAll())) as JournalEntry[];
+		return { base, entries: all };
+	});
+}
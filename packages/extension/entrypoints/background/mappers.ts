@@ -1,5 +1,17 @@
-import type { InsertTab, InsertWindow } from "@/schema/src/schema";
-import { makeTabId, makeWindowId } from "./constants";
+import type {
+	InsertTab,
+	InsertTabGroup,
+	InsertWindow,
+	Window,
+} from "@/schema/src/schema";
+import { makeTabGroupId, makeTabId, makeWindowId } from "./constants";
+
+/** tab.groupId of a tab outside any group (tabGroups.TAB_GROUP_ID_NONE) */
+const TAB_GROUP_ID_NONE = -1;
+
+/** A tab's native group, or null when it's ungrouped (or groups are unsupported) */
+export const toGroupId = (groupId: number | undefined): number | null =>
+	groupId === undefined || groupId === TAB_GROUP_ID_NONE ? null : groupId;
 
 // Make id required (it's optional in Insert types but we always provide it)
 export type WindowRecord = Omit<
@@ -7,6 +19,11 @@ export type WindowRecord = Omit<
 	"id" | "createdAt" | "updatedAt"
 > &
 	Required<Pick<InsertWindow, "id">>;
+export type TabGroupRecord = Omit<
+	InsertTabGroup,
+	"id" | "createdAt" | "updatedAt"
+> &
+	Required<Pick<InsertTabGroup, "id">>;
 export type TabRecord = Omit<InsertTab, "id" | "createdAt" | "updatedAt"> &
 	Required<Pick<InsertTab, "id">> & {
 		parentTabId: number | null;
@@ -29,6 +46,30 @@ export const windowToRecord = (
 	};
 };
 
+/**
+ * Carry over the sidepanel-owned fields of an existing window row (collapse
+ * state, custom title, workspace, position) that a fresh `windowToRecord`
+ * would reset
+ */
+export const withWindowUiState = (
+	record: WindowRecord,
+	existing:
+		| Pick<
+				Window,
+				"isCollapsed" | "titleOverride" | "workspaceId" | "windowOrder"
+		  >
+		| undefined,
+): WindowRecord =>
+	existing
+		? {
+				...record,
+				isCollapsed: existing.isCollapsed,
+				titleOverride: existing.titleOverride,
+				workspaceId: existing.workspaceId,
+				windowOrder: existing.windowOrder,
+			}
+		: record;
+
 export const tabToRecord = (
 	tab: Browser.tabs.Tab & { id: number; windowId: number },
 	options?: { parentTabId?: number | null; treeOrder?: string },
@@ -63,8 +104,20 @@ export const tabToRecord = (
 		audible: tab.audible ?? false,
 		mutedInfo: tab.mutedInfo ? JSON.stringify(tab.mutedInfo) : null,
 		status: tab.status ?? null,
-		groupId: chromeTab.groupId ?? null,
+		groupId: toGroupId(chromeTab.groupId),
 		deletedAt: null,
 		titleOverride: null,
 	};
 };
+
+export const tabGroupToRecord = (
+	group: Browser.tabGroups.TabGroup,
+): TabGroupRecord => ({
+	id: makeTabGroupId(group.id),
+	browserGroupId: group.id,
+	browserWindowId: group.windowId,
+	title: group.title || null,
+	color: group.color,
+	collapsed: group.collapsed,
+	deletedAt: null,
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { applyDbChanges, createMemoryDbOperations } from "./memory-db";
+
+describe("applyDbChanges", () => {
+	test("replaces, appends and deletes records by ID", () => {
+		const snapshot = { tab: [{ id: "a" }, { id: "b" }] };
+		const next = applyDbChanges(snapshot, [
+			{ type: "put", storeName: "tab", items: [{ id: "b" }, { id: "c" }] },
+			{ type: "delete", storeName: "tab", keys: ["a"] },
+			{ type: "put", storeName: "window", items: [{ id: "w" }] },
+		]);
+		expect(next).toEqual({
+			tab: [{ id: "b" }, { id: "c" }],
+			window: [{ id: "w" }],
+		});
+		expect(snapshot.tab).toHaveLength(2);
+	});
+
+	test("patches only the given fields of records that exist", () => {
+		const next = applyDbChanges(
+			{ tab: [{ id: "a", title: "A", pinned: true }] },
+			[
+				{
+					type: "patch",
+					storeName: "tab",
+					items: [
+						{ id: "a", title: "B" },
+						{ id: "gone", title: "C" },
+					],
+				},
+			],
+		);
+		expect(next.tab).toEqual([{ id: "a", title: "B", pinned: true }]);
+	});
+});
+
+describe("createMemoryDbOperations", () => {
+	test("keeps createdAt across updates and refreshes updatedAt", async () => {
+		const dbOps = createMemoryDbOperations();
+		await dbOps.putItems("tab", [{ id: "a" }]);
+		const [created] = await dbOps.getAll<{ createdAt: Date }>("tab");
+
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await dbOps.putItems("tab", [{ id: "a" }]);
+		const [updated] = await dbOps.getAll<{
+			createdAt: Date;
+			updatedAt: Date;
+		}>("tab");
+
+		expect(updated.createdAt).toEqual(created.createdAt);
+		expect(updated.updatedAt.getTime()).toBeGreaterThan(
+			created.createdAt.getTime(),
+		);
+	});
+
+	test("returns copies, so callers can't change the stored state", async () => {
+		const dbOps = createMemoryDbOperations({ tab: [{ id: "a" }] });
+		const [tab] = await dbOps.getAll<{ id: string; title?: string }>("tab");
+		tab.title = "changed";
+		expect(dbOps.snapshot().tab).toEqual([{ id: "a" }]);
+		await dbOps.deleteItems("tab", ["a"]);
+		expect(await dbOps.getAll("tab")).toEqual([]);
+	});
+});
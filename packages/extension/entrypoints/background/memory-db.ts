@@ -0,0 +1,127 @@
+import { runTransaction } from "./batched-db";
+import { getIndexValue, type IndexValue, withLookups } from "./db-lookups";
+import type { DbOperations } from "./db-operations";
+
+type StoredRecord = {
+	id: string;
+	createdAt?: Date;
+	updatedAt?: Date;
+	[field: string]: unknown;
+};
+
+/** Every store's records, keyed by store name */
+export type DbSnapshot = Record<string, StoredRecord[]>;
+
+/**
+ * One write made through DbOperations, as recorded by the event journal. A
+ * patch sets the given fields of a record that still exists, leaving the rest
+ * as they are (and is dropped if the record is gone).
+ */
+export type DbChange =
+	| { type: "put"; storeName: string; items: StoredRecord[] }
+	| { type: "patch"; storeName: string; items: StoredRecord[] }
+	| { type: "delete"; storeName: string; keys: string[] };
+
+/**
+ * Apply writes to a snapshot, returning a new one. Puts replace records with
+ * the same ID in place and append new ones, like the IndexedDB stores do.
+ */
+export function applyDbChanges(
+	snapshot: DbSnapshot,
+	changes: DbChange[],
+): DbSnapshot {
+	const stores = new Map<string, Map<string, StoredRecord>>();
+	for (const [storeName, records] of Object.entries(snapshot)) {
+		stores.set(storeName, new Map(records.map((r) => [r.id, r])));
+	}
+	for (const change of changes) {
+		let store = stores.get(change.storeName);
+		if (!store) {
+			store = new Map();
+			stores.set(change.storeName, store);
+		}
+		if (change.type === "put") {
+			for (const item of change.items) store.set(item.id, item);
+		} else if (change.type === "patch") {
+			for (const item of change.items) {
+				const existing = store.get(item.id);
+				if (existing) store.set(item.id, { ...existing, ...item });
+			}
+		} else {
+			for (const key of change.keys) store.delete(key);
+		}
+	}
+	return Object.fromEntries(
+		[...stores].map(([storeName, store]) => [storeName, [...store.values()]]),
+	);
+}
+
+/**
+ * DbOperations over plain in-memory maps, with the same timestamp handling
+ * as the IndexedDB version. Used to replay event journals without a browser.
+ */
+export function createMemoryDbOperations(
+	initial: DbSnapshot = {},
+): DbOperations & { snapshot: () => DbSnapshot } {
+	let state = applyDbChanges(initial, []);
+
+	const dbOps: DbOperations = withLookups({
+		putItems: async (storeName, items) => {
+			const existing = new Map(
+				(state[storeName] ?? []).map((record) => [record.id, record]),
+			);
+			const now = new Date();
+			state = applyDbChanges(state, [
+				{
+					type: "put",
+					storeName,
+					items: items.map((item) => ({
+						...item,
+						createdAt: existing.get(item.id)?.createdAt ?? now,
+						updatedAt: now,
+					})),
+				},
+			]);
+		},
+		deleteItems: async (storeName, keys) => {
+			state = applyDbChanges(state, [{ type: "delete", storeName, keys }]);
+		},
+		getAll: async <T>(storeName: string) =>
+			structuredClone(state[storeName] ?? []) as T[],
+		get: async <T>(storeName: string, key: string) => {
+			const record = state[storeName]?.find((r) => r.id === key);
+			return record && (structuredClone(record) as T);
+		},
+		getByIndex: async <T>(
+			storeName: string,
+			indexName: string,
+			value: IndexValue,
+		) =>
+			structuredClone(
+				(state[storeName] ?? [])
+					.filter((r) => getIndexValue(r, storeName, indexName) === value)
+					.sort((a, b) => (a.id < b.id ? -1 : 1)),
+			) as T[],
+		writeChanges: async (changes) => {
+			for (const change of changes) {
+				if (change.type === "put") {
+					await dbOps.putItems(change.storeName, change.items);
+				} else if (change.type === "patch") {
+					const store = state[change.storeName] ?? [];
+					await dbOps.putItems(
+						change.storeName,
+						change.items.flatMap((item) => {
+							const existing = store.find((r) => r.id === item.id);
+							return existing ? [{ ...existing, ...item }] : [];
+						}),
+					);
+				} else {
+					await dbOps.deleteItems(change.storeName, change.keys);
+				}
+			}
+		},
+		transaction: (fn) => runTransaction(dbOps, fn),
+	});
+
+	return { ...dbOps, snapshot: () => structuredClone(state) };
+}
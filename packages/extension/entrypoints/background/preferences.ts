@@ -0,0 +1,43 @@
+import {
+	DEFAULT_PREFERENCES,
+	PREFERENCES_KEY,
+	type Preferences,
+	parsePreferences,
+} from "@/entrypoints/sidepanel/lib/preferences";
+import { log, setDebugLogging } from "./constants";
+import { eventJournal } from "./event-journal";
+
+let current: Preferences = DEFAULT_PREFERENCES;
+
+/** The latest synced preferences (defaults until the first load finishes) */
+export const getPreferences = (): Preferences => current;
+
+/** Use these preferences from now on (also how journal replay sets them) */
+export function applyPreferences(preferences: Preferences): void {
+	current = preferences;
+	setDebugLogging(preferences.debugLogging);
+}
+
+/**
+ * Load the preferences and follow changes from the options page, so the
+ * reconciler always decides with the current values
+ */
+export const setupPreferencesListener = () => {
+	browser.storage.onChanged.addListener((changes, areaName) => {
+		const change = changes[PREFERENCES_KEY];
+		if (areaName !== "sync" || !change) return;
+		applyPreferences(parsePreferences(change.newValue));
+		eventJournal
+			.setEnabled(current.eventJournal)
+			.catch((err) => log("[Background] Failed to toggle event journal:", err));
+		log("[Background] Preferences changed:", current);
+	});
+
+	browser.storage.sync
+		.get(PREFERENCES_KEY)
+		.then((stored) => {
+			applyPreferences(parsePreferences(stored[PREFERENCES_KEY]));
+			return eventJournal.setEnabled(current.eventJournal);
+		})
+		.catch((err) => log("[Background] Failed to load preferences:", err));
+};
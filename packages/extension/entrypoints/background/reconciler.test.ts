@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	AUTO_GROUP_RULES_KEY,
+	type AutoGroupRule,
+} from "@/entrypoints/sidepanel/lib/auto-group-rules";
+import { createMockTab } from "@/entrypoints/sidepanel/lib/tests/mock-tab";
+import type { Tab } from "@/schema/src/schema";
+import { createMemoryDbOperations } from "./memory-db";
+import { reconcile, reconcileBatch } from "./reconciler";
+
+const EXTENSION_URL = "chrome-extension://abc";
+const GROUP_URL = `${EXTENSION_URL}/group.html`;
+
+const globals = globalThis as { browser?: unknown };
+const realBrowser = globals.browser;
+
+/**
+ * Stand in for the browser, with one window holding `tabs`. Returns the
+ * properties of every tab the reconciler creates.
+ */
+function useBrowser(
+	tabs: Browser.tabs.Tab[],
+	autoGroupRules: AutoGroupRule[] = [],
+) {
+	const created: Browser.tabs.CreateProperties[] = [];
+	globals.browser = {
+		tabs: {
+			query: async () => structuredClone(tabs),
+			create: async (properties: Browser.tabs.CreateProperties) => {
+				created.push(properties);
+				return browserTab(100 + created.length, properties.index ?? 0, "");
+			},
+			get: async (tabId: number) => {
+				const tab = tabs.find((t) => t.id === tabId);
+				if (!tab) throw new Error(`No tab with id: ${tabId}.`);
+				return structuredClone(tab);
+			},
+			move: async () => {},
+		},
+		runtime: {
+			getURL: (path: string) => `${EXTENSION_URL}${path}`,
+		},
+		storage: {
+			local: {
+				get: async () => ({ [AUTO_GROUP_RULES_KEY]: autoGroupRules }),
+			},
+		},
+	};
+	return created;
+}
+
+const browserTab = (id: number, index: number, url: string) =>
+	({
+		id,
+		index,
+		windowId: 1,
+		url,
+		title: url,
+		pinned: false,
+		active: false,
+		highlighted: false,
+		incognito: false,
+		discarded: false,
+		autoDiscardable: true,
+		groupId: -1,
+	}) as Browser.tabs.Tab;
+
+const tabRow = (
+	browserTabId: number,
+	url: string,
+	overrides: Partial<Tab> = {},
+) =>
+	createMockTab(browserTabId, null, `a${browserTabId}`, {
+		tabIndex: browserTabId - 1,
+		url,
+		...overrides,
+	});
+
+afterEach(() => {
+	globals.browser = realBrowser;
+});
+
+describe("reconcile", () => {
+	test("keeps a group's name when a sibling tab is created", async () => {
+		const dbOps = createMemoryDbOperations({
+			tab: [
+				tabRow(1, GROUP_URL, { titleOverride: "Research", isCollapsed: true }),
+				tabRow(2, "https://a.com", { parentTabId: 1, treeOrder: "a0" }),
+			],
+		});
+		const created = browserTab(3, 2, "https://b.com");
+		useBrowser([
+			browserTab(1, 0, GROUP_URL),
+			browserTab(2, 1, "https://a.com"),
+			created,
+		]);
+
+		await reconcile(dbOps, { type: "TabCreated", tab: created });
+
+		expect(await dbOps.get<Tab>("tab", "tab-1")).toMatchObject({
+			titleOverride: "Research",
+			isCollapsed: true,
+		});
+		expect(await dbOps.get<Tab>("tab", "tab-3")).toBeDefined();
+	});
+
+	test("files tabs of one burst under the group the first one opened", async () => {
+		const dbOps = createMemoryDbOperations({
+			tab: [tabRow(1, "https://a.com")],
+		});
+		const first = browserTab(2, 1, "https://x.jira.com/1");
+		const second = browserTab(3, 2, "https://x.jira.com/2");
+		const created = useBrowser(
+			[browserTab(1, 0, "https://a.com"), first, second],
+			[
+				{
+					id: "rule-1",
+					match: "*.jira.com",
+					action: "group",
+					groupName: "Jira",
+				},
+			],
+		);
+
+		await reconcileBatch(dbOps, [
+			{ type: "TabCreated", tab: first },
+			{ type: "TabCreated", tab: second },
+		]);
+
+		expect(created).toHaveLength(1);
+		const tabs = await dbOps.getAll<Tab>("tab");
+		const firstRow = tabs.find((t) => t.browserTabId === 2);
+		const secondRow = tabs.find((t) => t.browserTabId === 3);
+		expect(firstRow?.parentTabId).toBe(101);
+		expect(secondRow?.parentTabId).toBe(101);
+		expect((secondRow?.treeOrder ?? "") > (firstRow?.treeOrder ?? "")).toBe(
+			true,
+		);
+	});
+});
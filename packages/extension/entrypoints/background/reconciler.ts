@@ -1,15 +1,24 @@
 import { generateKeyBetween, generateNKeysBetween } from "fractional-indexing";
+import { findAutoGroupPlacement } from "@/entrypoints/sidepanel/lib/auto-group-rules";
+import { GROUP_PAGE_PATH } from "@/entrypoints/sidepanel/lib/group-node";
+import { closesDescendants } from "@/entrypoints/sidepanel/lib/preferences";
 import {
 	DEFAULT_TREE_ORDER,
+	isClosedTab,
 	treeOrderSort,
 } from "@/entrypoints/sidepanel/lib/tree";
 import type { Tab } from "@/schema/src/schema";
+import { createAutoGroupNode, loadAutoGroupRules } from "./auto-group";
+import { createBatchedDbOperations } from "./batched-db";
 import { log, makeTabId } from "./constants";
 import type { DbOperations } from "./db-operations";
+import { eventJournal } from "./event-journal";
 import { type TabRecord, tabToRecord } from "./mappers";
+import { getPreferences } from "./preferences";
 import {
 	consumePendingChildIntent,
 	consumeUiMoveIntent,
+	getPendingGroupTabIds,
 	getUiMoveIntent,
 	registerUiMoveIntent,
 	trackTabCreatedEvent,
@@ -24,8 +33,10 @@ import type {
 	TabSyncEvent,
 	TabUpdatedEvent,
 } from "./tab-sync-events";
+import { captureTabThumbnail, removeTabThumbnails } from "./thumbnails";
 import {
 	getAllDescendants,
+	getClosedTabsToEvict,
 	inferTreeFromBrowserCreate,
 	inferTreeFromBrowserMove,
 	promoteOnRemove,
@@ -36,6 +47,44 @@ export interface ReconcilerOptions {
 	getManagedMoveTabIds?: () => Set<number>;
 }
 
+/** How many closed-tab ghosts each window keeps before the oldest are dropped */
+const MAX_CLOSED_TABS_PER_WINDOW = 20;
+
+/**
+ * All tab rows that belong to an open browser tab. Closed tabs stay in the DB
+ * as soft-deleted ghosts for the sidepanel, but never take part in browser sync.
+ */
+async function getOpenTabs(dbOps: DbOperations): Promise<Tab[]> {
+	const tabs = await dbOps.getAll<Tab>("tab");
+	return tabs.filter((t) => !isClosedTab(t));
+}
+
+/** Tab rows whose recorded window is `windowId`, closed ghosts included */
+function getWindowTabs(dbOps: DbOperations, windowId: number): Promise<Tab[]> {
+	return dbOps.getByIndex<Tab>("tab", "tab_browser_window_id_index", windowId);
+}
+
+/**
+ * Open tab rows for the given browser tabs of a window, keyed by browser tab
+ * ID: the window's rows, plus any that still name the window a tab came from
+ */
+async function getOpenTabsById(
+	dbOps: DbOperations,
+	windowId: number,
+	browserTabIds: number[],
+): Promise<Map<number, Tab>> {
+	const rows = new Map<number, Tab>();
+	for (const tab of await getWindowTabs(dbOps, windowId)) {
+		if (!isClosedTab(tab)) rows.set(tab.browserTabId, tab);
+	}
+	for (const browserTabId of browserTabIds) {
+		if (rows.has(browserTabId)) continue;
+		const row = await dbOps.getByBrowserTabId(browserTabId);
+		if (row) rows.set(browserTabId, row);
+	}
+	return rows;
+}
+
 /**
  * Build tab list for a window in **current browser order** (from browser.tabs.query),
  * with tree fields (parentTabId, treeOrder) merged from existing DB tabs.
@@ -73,24 +122,14 @@ async function writeWindowTabIndices(
 	windowId: number,
 	dbOps: DbOperations,
 ): Promise<void> {
-	const { putItems, getAll } = dbOps;
-	const existingTabs = await getAll<Tab>("tab");
-	const existingMap = new Map<number, Tab>();
-	for (const tab of existingTabs) {
-		existingMap.set(tab.browserTabId, tab);
-	}
+	const { putItems } = dbOps;
 	const tabs = await browser.tabs.query({ windowId });
 	const filteredTabs = tabs.filter(hasTabIds);
-	const missingIds = filteredTabs
-		.filter((bt) => !existingMap.has(bt.id))
-		.map((bt) => bt.id);
-	if (missingIds.length > 0) {
-		const recheck = await getAll<Tab>("tab");
-		for (const t of recheck) {
-			if (missingIds.includes(t.browserTabId))
-				existingMap.set(t.browserTabId, t);
-		}
-	}
+	const existingMap = await getOpenTabsById(
+		dbOps,
+		windowId,
+		filteredTabs.map((bt) => bt.id),
+	);
 	const tabRecords = filteredTabs.map((tab) => {
 		const existing = existingMap.get(tab.id);
 		const record = tabToRecord(tab, {
@@ -99,6 +138,8 @@ async function writeWindowTabIndices(
 		});
 		if (existing) {
 			record.active = existing.active;
+			record.titleOverride = existing.titleOverride ?? null;
+			record.isCollapsed = existing.isCollapsed;
 		}
 		return record;
 	});
@@ -111,7 +152,7 @@ async function applyTabMoved(
 	dbOps: DbOperations,
 	event: TabMovedEvent,
 ): Promise<void> {
-	const { putItems, getAll } = dbOps;
+	const { putItems } = dbOps;
 	const { tabId, moveInfo } = event;
 
 	const uiIntent = consumeUiMoveIntent(tabId);
@@ -126,7 +167,7 @@ async function applyTabMoved(
 			"[Background] Reconciler TabMoved: using UI move intent for tab:",
 			tabId,
 		);
-		const existingTabs = await getAll<Tab>("tab");
+		const existingTabs = await getOpenTabs(dbOps);
 		const existingMap = new Map<number, Tab>();
 		for (const tab of existingTabs) {
 			existingMap.set(tab.browserTabId, tab);
@@ -140,6 +181,8 @@ async function applyTabMoved(
 			const existingMovedTab = existingMap.get(tabId);
 			if (existingMovedTab) {
 				record.active = existingMovedTab.active;
+				record.titleOverride = existingMovedTab.titleOverride ?? null;
+				record.isCollapsed = existingMovedTab.isCollapsed;
 			}
 			await putItems("tab", [record]);
 		}
@@ -158,6 +201,8 @@ async function applyTabMoved(
 			});
 			if (existing) {
 				record.active = existing.active;
+				record.titleOverride = existing.titleOverride ?? null;
+				record.isCollapsed = existing.isCollapsed;
 			}
 			otherTabRecords.push(record);
 		}
@@ -186,13 +231,13 @@ async function applyTabMoved(
 
 	// No UI intent: infer tree from browser move using **browser order**
 	// Use fresh read so prior drag (e.g. c made child of b) is visible
-	const existingTabs = await getAll<Tab>("tab");
+	const existingTabs = await getOpenTabs(dbOps);
 	const tabsInTargetWindow = await getTabsInWindowBrowserOrder(
 		moveInfo.windowId,
 		existingTabs,
 	);
 	// Re-read so tree is current (e.g. after drag that made c child of b)
-	const freshTabs = await getAll<Tab>("tab");
+	const freshTabs = await getOpenTabs(dbOps);
 	const existingMap = new Map<number, Tab>();
 	for (const tab of freshTabs) {
 		existingMap.set(tab.browserTabId, tab);
@@ -373,25 +418,38 @@ async function applyTabRemoved(
 	dbOps: DbOperations,
 	event: TabRemovedEvent,
 ): Promise<void> {
-	const { putItems, deleteItems, getAll } = dbOps;
+	const { putItems, deleteItems, getChildren } = dbOps;
 	const { tabId, removeInfo } = event;
 
-	const existingTabs = await getAll<Tab>("tab");
-	const removedTab = existingTabs.find((t) => t.browserTabId === tabId);
+	removeTabThumbnails([tabId]);
+
+	const windowTabs = await getWindowTabs(dbOps, removeInfo.windowId);
+	const removedTab = await dbOps.getByBrowserTabId(tabId);
+	const children = await getChildren(tabId);
+	// Everything promoting the children looks at: their siblings-to-be
+	const existingTabs = [
+		...new Map(
+			[
+				...windowTabs.filter((t) => !isClosedTab(t)),
+				...(removedTab ? [removedTab] : []),
+				...children,
+			].map((t) => [t.id, t]),
+		).values(),
+	];
 
 	if (removedTab) {
-		const children = existingTabs.filter((t) => t.parentTabId === tabId);
-		if (children.length > 0 && removedTab.isCollapsed) {
+		const closesChildren = closesDescendants(
+			getPreferences().closeBehavior,
+			removedTab.isCollapsed,
+		);
+		if (children.length > 0 && closesChildren) {
 			const descendantIds = new Set<number>();
 			const queue = [...children];
 			while (queue.length > 0) {
 				const child = queue.shift();
 				if (!child) continue;
 				descendantIds.add(child.browserTabId);
-				const grandchildren = existingTabs.filter(
-					(t) => t.parentTabId === child.browserTabId,
-				);
-				queue.push(...grandchildren);
+				queue.push(...(await getChildren(child.browserTabId)));
 			}
 			for (const descendantId of descendantIds) {
 				try {
@@ -407,24 +465,45 @@ async function applyTabRemoved(
 		}
 	}
 
-	// Promote direct children (non-collapsed): compute updates from current state
+	// Promote direct children (unless they were closed above): compute updates
+	// from current state
 	const promotedUpdates =
-		removedTab && !removedTab.isCollapsed
+		removedTab &&
+		!closesDescendants(getPreferences().closeBehavior, removedTab.isCollapsed)
 			? promoteOnRemove(existingTabs, tabId)
 			: new Map<number, { parentTabId: number | null; treeOrder: string }>();
 
-	await deleteItems("tab", [makeTabId(tabId)]);
+	if (!removedTab || removeInfo.isWindowClosing) {
+		// Nothing to reopen into once the window is gone
+		await deleteItems("tab", [makeTabId(tabId)]);
+	} else {
+		// Keep the row as a closed-tab ghost with its tree context intact
+		const closedTab: Tab = {
+			...removedTab,
+			active: false,
+			deletedAt: new Date(),
+		};
+		await putItems("tab", [closedTab]);
+		const evictedIds = getClosedTabsToEvict(
+			[...windowTabs.filter((t) => t.id !== closedTab.id), closedTab],
+			removeInfo.windowId,
+			MAX_CLOSED_TABS_PER_WINDOW,
+		);
+		if (evictedIds.length > 0) {
+			await deleteItems("tab", evictedIds);
+		}
+	}
 
 	if (!removeInfo.isWindowClosing) {
 		// Single batch: all remaining tabs in window; promoted children get new parent from promotedUpdates
-		const currentTabs = await getAll<Tab>("tab");
 		const browserTabs = await browser.tabs.query({
 			windowId: removeInfo.windowId,
 		});
-		const existingMap = new Map<number, Tab>();
-		for (const t of currentTabs) {
-			existingMap.set(t.browserTabId, t);
-		}
+		const existingMap = await getOpenTabsById(
+			dbOps,
+			removeInfo.windowId,
+			browserTabs.filter(hasTabIds).map((bt) => bt.id),
+		);
 		const records: TabRecord[] = [];
 		for (const bt of browserTabs.filter(hasTabIds)) {
 			const treeUpdate = promotedUpdates.get(bt.id);
@@ -461,11 +540,40 @@ async function applyTabRemoved(
 	}
 }
 
+/**
+ * A closed tab was reopened: carry its ghost's custom title and collapse state
+ * over to the new tab, re-point ghost children at it, and drop the ghost row.
+ */
+async function replaceClosedTab(
+	dbOps: DbOperations,
+	closedTabId: number,
+	newTabRecord: TabRecord,
+): Promise<void> {
+	const { putItems, deleteItems, getByIndex } = dbOps;
+	const ghost = (
+		await getByIndex<Tab>("tab", "tab_browser_id_index", closedTabId)
+	).find(isClosedTab);
+	if (!ghost) return;
+
+	newTabRecord.titleOverride = ghost.titleOverride;
+	newTabRecord.isCollapsed = ghost.isCollapsed;
+
+	const ghostChildren = (
+		await getByIndex<Tab>("tab", "tab_parent_id_index", closedTabId)
+	)
+		.filter(isClosedTab)
+		.map((t) => ({ ...t, parentTabId: newTabRecord.browserTabId }));
+	if (ghostChildren.length > 0) {
+		await putItems("tab", ghostChildren);
+	}
+	await deleteItems("tab", [ghost.id]);
+}
+
 async function applyTabCreated(
 	dbOps: DbOperations,
 	event: TabCreatedEvent,
 ): Promise<void> {
-	const { putItems, getAll } = dbOps;
+	const { putItems } = dbOps;
 	const { tab } = event;
 	if (!hasTabIds(tab)) return;
 
@@ -483,13 +591,22 @@ async function applyTabCreated(
 			tabIndex: tab.index,
 			decidedParentId: pendingIntent.parentTabId,
 			treeOrder: pendingIntent.treeOrder,
-			reason: `Pending child intent: child of ${pendingIntent.parentTabId}`,
+			reason:
+				pendingIntent.reopenedTabId !== undefined
+					? `Reopened closed tab ${pendingIntent.reopenedTabId}`
+					: `Pending child intent: child of ${pendingIntent.parentTabId}`,
 		});
 		const newTabRecord = tabToRecord(tab, {
 			parentTabId: pendingIntent.parentTabId,
 			treeOrder: pendingIntent.treeOrder,
 		});
-		const existingTabs = await getAll<Tab>("tab");
+		if (pendingIntent.reopenedTabId !== undefined) {
+			await replaceClosedTab(dbOps, pendingIntent.reopenedTabId, newTabRecord);
+		}
+		if (pendingIntent.titleOverride !== undefined) {
+			newTabRecord.titleOverride = pendingIntent.titleOverride;
+		}
+		const existingTabs = await getOpenTabs(dbOps);
 		const existingMap = new Map<number, Tab>();
 		for (const t of existingTabs) {
 			existingMap.set(t.browserTabId, t);
@@ -505,6 +622,8 @@ async function applyTabCreated(
 			});
 			if (existing) {
 				record.active = existing.active;
+				record.titleOverride = existing.titleOverride ?? null;
+				record.isCollapsed = existing.isCollapsed;
 			}
 			otherRecords.push(record);
 		}
@@ -512,7 +631,7 @@ async function applyTabCreated(
 		return;
 	}
 
-	const existingTabs = await getAll<Tab>("tab");
+	const existingTabs = await getOpenTabs(dbOps);
 	const windowTabs = existingTabs.filter(
 		(t) => t.browserWindowId === tab.windowId,
 	);
@@ -527,59 +646,72 @@ async function applyTabCreated(
 	let reason = "";
 	let needsRepositioning = false;
 
-	if (openerTabId !== undefined) {
-		const openerTab = windowTabs.find((t) => t.browserTabId === openerTabId);
-		if (openerTab) {
-			parentTabId = openerTabId;
-			const openerChildren = windowTabs.filter(
-				(t) => t.parentTabId === openerTabId,
-			);
-			const currentIndexMap = new Map<number, number>();
-			for (const bt of browserTabsWithIds) {
-				currentIndexMap.set(bt.id, bt.index);
-			}
-			const openerCurrentIndex =
-				currentIndexMap.get(openerTab.browserTabId) ?? openerTab.tabIndex;
-			const isRightAfterOpener = tab.index === openerCurrentIndex + 1;
-
-			if (isRightAfterOpener) {
-				if (openerChildren.length === 0) {
-					treeOrder = generateKeyBetween(null, null);
-					reason = `Opener-based: first child of opener tab ${openerTabId}`;
-				} else {
-					const childrenByTreeOrder = [...openerChildren].sort((a, b) =>
-						a.treeOrder < b.treeOrder ? -1 : 1,
-					);
-					const firstChild = childrenByTreeOrder[0];
-					treeOrder = generateKeyBetween(null, firstChild.treeOrder);
-					reason = `Opener-based: first child of opener tab ${openerTabId}`;
-				}
-				needsRepositioning = false;
+	// The "browser position" policy places every tab as if it had no opener
+	const followsOpener =
+		openerTabId !== undefined &&
+		getPreferences().newTabPlacement === "openerChild";
+	const openerTab = followsOpener
+		? windowTabs.find((t) => t.browserTabId === openerTabId)
+		: undefined;
+	// Rules only place tabs the opener check left to position-based inference;
+	// pinned tabs always stay at the root
+	const url = tab.pendingUrl || tab.url;
+	const rulePlacement =
+		openerTab || tab.pinned || !url
+			? null
+			: findAutoGroupPlacement(
+					await loadAutoGroupRules(),
+					url,
+					windowTabs,
+					browser.runtime.getURL(GROUP_PAGE_PATH),
+					getPendingGroupTabIds(tab.windowId),
+				);
+
+	if (openerTab) {
+		parentTabId = openerTab.browserTabId;
+		const openerChildren = windowTabs.filter(
+			(t) => t.parentTabId === openerTabId,
+		);
+		const currentIndexMap = new Map<number, number>();
+		for (const bt of browserTabsWithIds) {
+			currentIndexMap.set(bt.id, bt.index);
+		}
+		const openerCurrentIndex =
+			currentIndexMap.get(openerTab.browserTabId) ?? openerTab.tabIndex;
+		const isRightAfterOpener = tab.index === openerCurrentIndex + 1;
+
+		if (isRightAfterOpener) {
+			if (openerChildren.length === 0) {
+				treeOrder = generateKeyBetween(null, null);
+				reason = `Opener-based: first child of opener tab ${openerTabId}`;
 			} else {
-				needsRepositioning = true;
-				if (openerChildren.length === 0) {
-					treeOrder = generateKeyBetween(null, null);
-					reason = `Opener-based: made first child of opener tab ${openerTabId}`;
-				} else {
-					const childrenByTreeOrder = [...openerChildren].sort((a, b) =>
-						a.treeOrder < b.treeOrder ? -1 : 1,
-					);
-					const lastChild = childrenByTreeOrder[childrenByTreeOrder.length - 1];
-					treeOrder = generateKeyBetween(lastChild.treeOrder, null);
-					reason = `Opener-based: made child of opener tab ${openerTabId}`;
-				}
+				const childrenByTreeOrder = [...openerChildren].sort((a, b) =>
+					a.treeOrder < b.treeOrder ? -1 : 1,
+				);
+				const firstChild = childrenByTreeOrder[0];
+				treeOrder = generateKeyBetween(null, firstChild.treeOrder);
+				reason = `Opener-based: first child of opener tab ${openerTabId}`;
 			}
+			needsRepositioning = false;
 		} else {
-			const positionResult = inferTreeFromBrowserCreate(
-				windowTabs,
-				tab.index,
-				tab.id,
-				browserTabsWithIds,
-			);
-			parentTabId = positionResult.parentTabId;
-			treeOrder = positionResult.treeOrder;
-			reason = "Position-based: opener not in DB";
+			needsRepositioning = true;
+			if (openerChildren.length === 0) {
+				treeOrder = generateKeyBetween(null, null);
+				reason = `Opener-based: made first child of opener tab ${openerTabId}`;
+			} else {
+				const childrenByTreeOrder = [...openerChildren].sort((a, b) =>
+					a.treeOrder < b.treeOrder ? -1 : 1,
+				);
+				const lastChild = childrenByTreeOrder[childrenByTreeOrder.length - 1];
+				treeOrder = generateKeyBetween(lastChild.treeOrder, null);
+				reason = `Opener-based: made child of opener tab ${openerTabId}`;
+			}
 		}
+	} else if (rulePlacement?.type === "parent") {
+		parentTabId = rulePlacement.parentTabId;
+		treeOrder = rulePlacement.treeOrder;
+		reason = rulePlacement.reason;
+		needsRepositioning = true;
 	} else {
 		const positionResult = inferTreeFromBrowserCreate(
 			windowTabs,
@@ -587,12 +719,36 @@ async function applyTabCreated(
 			tab.id,
 			browserTabsWithIds,
 		);
-		parentTabId = positionResult.parentTabId;
-		treeOrder = positionResult.treeOrder;
-		reason =
-			parentTabId !== null
-				? `Position-based: inserted within tree of parent ${parentTabId}`
-				: "Position-based: inserted at root level";
+		if (rulePlacement?.type === "newGroup") {
+			// The group node takes the tab's inferred place, with the tab under it
+			const groupTabId = await createAutoGroupNode(
+				tab.windowId,
+				tab.index,
+				positionResult.parentTabId,
+				positionResult.treeOrder,
+				rulePlacement.groupName,
+			);
+			if (groupTabId !== undefined) {
+				parentTabId = groupTabId;
+				treeOrder = generateKeyBetween(null, null);
+				reason = rulePlacement.reason;
+			} else {
+				parentTabId = positionResult.parentTabId;
+				treeOrder = positionResult.treeOrder;
+				reason = "Position-based: failed to create auto-group node";
+			}
+		} else {
+			parentTabId = positionResult.parentTabId;
+			treeOrder = positionResult.treeOrder;
+			if (followsOpener) {
+				reason = "Position-based: opener not in DB";
+			} else {
+				reason =
+					parentTabId !== null
+						? `Position-based: inserted within tree of parent ${parentTabId}`
+						: "Position-based: inserted at root level";
+			}
+		}
 	}
 
 	trackTabCreatedEvent({
@@ -620,6 +776,8 @@ async function applyTabCreated(
 		});
 		if (existing) {
 			record.active = existing.active;
+			record.titleOverride = existing.titleOverride ?? null;
+			record.isCollapsed = existing.isCollapsed;
 		}
 		otherRecords.push(record);
 	}
@@ -655,21 +813,12 @@ async function applyTabUpdated(
 	dbOps: DbOperations,
 	event: TabUpdatedEvent,
 ): Promise<void> {
-	const { putItems, getAll } = dbOps;
+	const { putItems } = dbOps;
 	const { tabId, tab } = event;
 	if (!hasTabIds(tab)) return;
 
 	const intent = getUiMoveIntent(tabId);
-	const existingTabs = await getAll<Tab>("tab");
-	const existing = existingTabs.find((t) => t.browserTabId === tabId);
-	let existingResolved =
-		existing ??
-		(await getAll<Tab>("tab")).find((t) => t.browserTabId === tabId);
-	if (existingResolved === undefined) {
-		existingResolved = (await getAll<Tab>("tab")).find(
-			(t) => t.browserTabId === tabId,
-		);
-	}
+	const existingResolved = await dbOps.getByBrowserTabId(tabId);
 	if (!intent && !existingResolved) return;
 
 	let treeOrder: string;
@@ -682,10 +831,8 @@ async function applyTabUpdated(
 		treeOrder = existingResolved.treeOrder;
 		parentTabId = existingResolved.parentTabId;
 	} else {
-		const windowTabs = existingTabs
-			.filter(
-				(t) => t.browserWindowId === tab.windowId && t.parentTabId === null,
-			)
+		const windowTabs = (await getWindowTabs(dbOps, tab.windowId))
+			.filter((t) => !isClosedTab(t) && t.parentTabId === null)
 			.sort(treeOrderSort);
 		const lastRoot = windowTabs[windowTabs.length - 1];
 		treeOrder = generateKeyBetween(lastRoot?.treeOrder || null, null);
@@ -706,16 +853,16 @@ async function applyTabActivated(
 	dbOps: DbOperations,
 	event: TabActivatedEvent,
 ): Promise<void> {
-	const { putItems, getAll } = dbOps;
+	const { putItems } = dbOps;
 	const { activeInfo } = event;
 
-	const existingTabs = await getAll<Tab>("tab");
-	const existingMap = new Map<number, Tab>();
-	for (const tab of existingTabs) {
-		existingMap.set(tab.browserTabId, tab);
-	}
 	const tabs = await browser.tabs.query({ windowId: activeInfo.windowId });
 	const filteredTabs = tabs.filter(hasTabIds);
+	const existingMap = await getOpenTabsById(
+		dbOps,
+		activeInfo.windowId,
+		filteredTabs.map((tab) => tab.id),
+	);
 	const tabsWithoutRecords = filteredTabs.filter(
 		(tab) => !existingMap.has(tab.id),
 	);
@@ -734,11 +881,17 @@ async function applyTabActivated(
 			treeOrder: existing?.treeOrder ?? keys[keyIndex++] ?? DEFAULT_TREE_ORDER,
 		});
 		record.active = tab.id === activeInfo.tabId;
+		if (existing) {
+			record.titleOverride = existing.titleOverride ?? null;
+			record.isCollapsed = existing.isCollapsed;
+		}
 		tabRecords.push(record);
 	}
 	if (tabRecords.length > 0) {
 		await putItems("tab", tabRecords);
 	}
+
+	captureTabThumbnail(activeInfo.tabId, activeInfo.windowId);
 }
 
 async function applyTabDetached(
@@ -755,16 +908,15 @@ async function applyTabDetached(
 		return;
 	}
 
-	const { putItems, getAll } = dbOps;
-	const existingTabs = await getAll<Tab>("tab");
-	const detachedTab = existingTabs.find((t) => t.browserTabId === tabId);
+	const { putItems } = dbOps;
+	const detachedTab = await dbOps.getByBrowserTabId(tabId);
 
 	const promotedMap = new Map<
 		number,
 		{ parentTabId: number | null; treeOrder: string }
 	>();
 	if (detachedTab) {
-		const children = existingTabs.filter((t) => t.parentTabId === tabId);
+		const children = await dbOps.getChildren(tabId);
 		for (const child of children) {
 			promotedMap.set(child.browserTabId, {
 				parentTabId: detachedTab.parentTabId,
@@ -776,10 +928,11 @@ async function applyTabDetached(
 	const browserTabs = await browser.tabs.query({
 		windowId: detachInfo.oldWindowId,
 	});
-	const existingMap = new Map<number, Tab>();
-	for (const t of existingTabs) {
-		existingMap.set(t.browserTabId, t);
-	}
+	const existingMap = await getOpenTabsById(
+		dbOps,
+		detachInfo.oldWindowId,
+		browserTabs.filter(hasTabIds).map((bt) => bt.id),
+	);
 	const records: TabRecord[] = [];
 	for (const bt of browserTabs.filter(hasTabIds)) {
 		const promoted = promotedMap.get(bt.id);
@@ -790,6 +943,8 @@ async function applyTabDetached(
 		const record = tabToRecord(bt, { parentTabId, treeOrder });
 		if (existing) {
 			record.active = existing.active;
+			record.titleOverride = existing.titleOverride ?? null;
+			record.isCollapsed = existing.isCollapsed;
 		}
 		records.push(record);
 	}
@@ -803,14 +958,13 @@ async function applyTabAttached(
 	event: TabAttachedEvent,
 	options: ReconcilerOptions,
 ): Promise<void> {
-	const { putItems, getAll } = dbOps;
+	const { putItems } = dbOps;
 	const { tabId, attachInfo } = event;
 
 	const browserTab = await browser.tabs.get(tabId).catch(() => null);
 	if (!browserTab || !hasTabIds(browserTab)) return;
 
-	const existingTabs = await getAll<Tab>("tab");
-	const existingTab = existingTabs.find((t) => t.browserTabId === tabId);
+	const existingTab = await dbOps.getByBrowserTabId(tabId);
 
 	const uiIntent = consumeUiMoveIntent(tabId);
 	if (uiIntent) {
@@ -820,6 +974,8 @@ async function applyTabAttached(
 		});
 		if (existingTab) {
 			tabRecord.active = existingTab.active;
+			tabRecord.titleOverride = existingTab.titleOverride ?? null;
+			tabRecord.isCollapsed = existingTab.isCollapsed;
 		}
 		await putItems("tab", [tabRecord]);
 		return;
@@ -838,6 +994,8 @@ async function applyTabAttached(
 			treeOrder: existingTab.treeOrder,
 		});
 		tabRecord.active = existingTab.active;
+		tabRecord.titleOverride = existingTab.titleOverride ?? null;
+		tabRecord.isCollapsed = existingTab.isCollapsed;
 		await putItems("tab", [tabRecord]);
 		return;
 	}
@@ -851,12 +1009,17 @@ async function applyTabAttached(
 	}
 
 	// Browser-native cross-window move
-	const newWindowTabs = existingTabs.filter(
-		(t) => t.browserWindowId === attachInfo.newWindowId,
-	);
 	const allBrowserTabsInWindow = await browser.tabs.query({
 		windowId: attachInfo.newWindowId,
 	});
+	const existingMap = await getOpenTabsById(
+		dbOps,
+		attachInfo.newWindowId,
+		allBrowserTabsInWindow.filter(hasTabIds).map((bt) => bt.id),
+	);
+	const newWindowTabs = [...existingMap.values()].filter(
+		(t) => t.browserWindowId === attachInfo.newWindowId,
+	);
 	const browserTabsWithIds = allBrowserTabsInWindow
 		.filter(hasTabIds)
 		.map((t) => ({ id: t.id, index: t.index }));
@@ -871,13 +1034,11 @@ async function applyTabAttached(
 	const tabRecord = tabToRecord(browserTab, { parentTabId, treeOrder });
 	if (existingTab) {
 		tabRecord.active = existingTab.active;
+		tabRecord.titleOverride = existingTab.titleOverride ?? null;
+		tabRecord.isCollapsed = existingTab.isCollapsed;
 	}
 	await putItems("tab", [tabRecord]);
 
-	const existingMap = new Map<number, Tab>();
-	for (const tab of existingTabs) {
-		existingMap.set(tab.browserTabId, tab);
-	}
 	const otherTabRecords: TabRecord[] = [];
 	for (const bt of allBrowserTabsInWindow.filter(hasTabIds)) {
 		if (bt.id === tabId) continue;
@@ -888,6 +1049,8 @@ async function applyTabAttached(
 			treeOrder: existing.treeOrder,
 		});
 		record.active = existing.active;
+		record.titleOverride = existing.titleOverride ?? null;
+		record.isCollapsed = existing.isCollapsed;
 		otherTabRecords.push(record);
 	}
 	const tabsWithoutRecords = allBrowserTabsInWindow.filter(
@@ -909,12 +1072,52 @@ async function applyTabAttached(
 }
 
 /**
- * Single reconciliation entry: apply one tab sync event and perform one write (plus optional delete).
+ * Single reconciliation entry: apply one tab sync event in one transaction,
+ * so its deletes and puts land together or not at all.
+ * Goes through the event journal, which records it when turned on.
  */
 export async function reconcile(
 	dbOps: DbOperations,
 	event: TabSyncEvent,
 	options: ReconcilerOptions = {},
+): Promise<void> {
+	await eventJournal.record(event, dbOps, (journaled) =>
+		journaled.transaction((tx) => applyEvent(tx, event, options)),
+	);
+}
+
+/**
+ * Reconcile a burst of events against one DB snapshot, then write the result
+ * in one transaction. Each event still goes through reconcile, so it is
+ * journaled on its own; an event that throws is logged, its writes dropped,
+ * and the rest still apply. Rows are flushed as patches of the fields the
+ * burst changed, so writes that bypass the queue meanwhile (sidepanel
+ * patches, sorting, closing duplicates) survive.
+ */
+export async function reconcileBatch(
+	dbOps: DbOperations,
+	events: TabSyncEvent[],
+	options: ReconcilerOptions = {},
+): Promise<void> {
+	if (events.length === 1) {
+		await reconcile(dbOps, events[0], options);
+		return;
+	}
+	const batch = createBatchedDbOperations(eventJournal.unwrap(dbOps));
+	for (const event of events) {
+		try {
+			await reconcile(batch, event, options);
+		} catch (error) {
+			console.error(`[Background] Failed to reconcile ${event.type}:`, error);
+		}
+	}
+	await batch.flush();
+}
+
+async function applyEvent(
+	dbOps: DbOperations,
+	event: TabSyncEvent,
+	options: ReconcilerOptions,
 ): Promise<void> {
 	switch (event.type) {
 		case "TabMoved":
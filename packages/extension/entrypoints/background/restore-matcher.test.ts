@@ -0,0 +1,207 @@
+import { describe, expect, test } from "bun:test";
+import type { Tab } from "@/schema/src/schema";
+import {
+	matchRestoredTabs,
+	matchRestoredWindows,
+	type RestoreCandidate,
+	remapRestoredTree,
+} from "./restore-matcher";
+
+// Helper to create a persisted tab row from before the restart
+function createOldTab(
+	browserTabId: number,
+	url: string | null,
+	options: {
+		windowId?: number;
+		tabIndex?: number;
+		parentTabId?: number | null;
+		treeOrder?: string;
+	} = {},
+): Tab {
+	return {
+		id: `tab-${browserTabId}` as Tab["id"],
+		browserTabId,
+		browserWindowId: options.windowId ?? 1,
+		tabIndex: options.tabIndex ?? browserTabId,
+		parentTabId: options.parentTabId ?? null,
+		treeOrder: options.treeOrder ?? "a0",
+		isCollapsed: false,
+		title: `Tab ${browserTabId}`,
+		url,
+		favIconUrl: null,
+		titleOverride: null,
+		active: false,
+		pinned: false,
+		highlighted: false,
+		discarded: false,
+		frozen: false,
+		autoDiscardable: true,
+		audible: false,
+		mutedInfo: null,
+		status: "complete",
+		groupId: null,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+		deletedAt: null,
+	};
+}
+
+function createNewTab(
+	id: number,
+	url: string | null,
+	index: number,
+	windowId = 100,
+): RestoreCandidate {
+	return { id, windowId, index, url };
+}
+
+describe("matchRestoredTabs", () => {
+	test("matches tabs by URL within the paired window", () => {
+		const oldTabs = [
+			createOldTab(1, "https://a.com", { tabIndex: 0 }),
+			createOldTab(2, "https://b.com", { tabIndex: 1 }),
+		];
+		const newTabs = [
+			createNewTab(11, "https://a.com", 0),
+			createNewTab(12, "https://b.com", 1),
+		];
+
+		expect(matchRestoredTabs(oldTabs, newTabs)).toEqual(
+			new Map([
+				[1, 11],
+				[2, 12],
+			]),
+		);
+	});
+
+	test("pairs duplicate URLs in tab index order", () => {
+		const oldTabs = [
+			createOldTab(1, "https://dup.com", { tabIndex: 0 }),
+			createOldTab(2, "https://other.com", { tabIndex: 1 }),
+			createOldTab(3, "https://dup.com", { tabIndex: 2 }),
+		];
+		const newTabs = [
+			createNewTab(13, "https://dup.com", 2),
+			createNewTab(11, "https://dup.com", 0),
+			createNewTab(12, "https://other.com", 1),
+		];
+
+		const matches = matchRestoredTabs(oldTabs, newTabs);
+
+		expect(matches.get(1)).toBe(11);
+		expect(matches.get(3)).toBe(13);
+	});
+
+	test("pairs windows by shared URLs so identical URLs do not cross windows", () => {
+		const oldTabs = [
+			createOldTab(1, "https://shared.com", { windowId: 1 }),
+			createOldTab(2, "https://work.com", { windowId: 1 }),
+			createOldTab(3, "https://shared.com", { windowId: 2 }),
+			createOldTab(4, "https://home.com", { windowId: 2 }),
+		];
+		const newTabs = [
+			createNewTab(13, "https://shared.com", 0, 200),
+			createNewTab(14, "https://home.com", 1, 200),
+			createNewTab(11, "https://shared.com", 0, 100),
+			createNewTab(12, "https://work.com", 1, 100),
+		];
+
+		const matches = matchRestoredTabs(oldTabs, newTabs);
+
+		expect(matches.get(1)).toBe(11);
+		expect(matches.get(2)).toBe(12);
+		expect(matches.get(3)).toBe(13);
+		expect(matches.get(4)).toBe(14);
+	});
+
+	test("leaves tabs without a URL counterpart unmatched", () => {
+		const oldTabs = [
+			createOldTab(1, "https://a.com"),
+			createOldTab(2, "https://gone.com"),
+			createOldTab(3, null),
+		];
+		const newTabs = [
+			createNewTab(11, "https://a.com", 0),
+			createNewTab(12, "https://new.com", 1),
+			createNewTab(13, null, 2),
+		];
+
+		expect(matchRestoredTabs(oldTabs, newTabs)).toEqual(new Map([[1, 11]]));
+	});
+});
+
+describe("matchRestoredWindows", () => {
+	test("takes the window pairs sharing most URLs first", () => {
+		const oldTabs = [
+			createOldTab(1, "https://shared.com", { windowId: 1 }),
+			createOldTab(2, "https://work.com", { windowId: 1 }),
+			createOldTab(3, "https://home.com", { windowId: 2 }),
+			createOldTab(4, "https://gone.com", { windowId: 3 }),
+		];
+		const newTabs = [
+			createNewTab(11, "https://shared.com", 0, 100),
+			createNewTab(12, "https://home.com", 0, 200),
+			createNewTab(13, "https://work.com", 1, 200),
+			createNewTab(14, "https://shared.com", 2, 200),
+		];
+
+		// Window 2 only shares a URL with window 200, which window 1 takes
+		expect(matchRestoredWindows(oldTabs, newTabs)).toEqual(new Map([[1, 200]]));
+	});
+});
+
+describe("remapRestoredTree", () => {
+	test("maps parent IDs and keeps treeOrder", () => {
+		const oldTabs = [
+			createOldTab(1, "https://a.com", { treeOrder: "a0" }),
+			createOldTab(2, "https://b.com", { parentTabId: 1, treeOrder: "a1" }),
+		];
+		const matches = new Map([
+			[1, 11],
+			[2, 12],
+		]);
+
+		const result = remapRestoredTree(oldTabs, matches);
+
+		expect(result.get(11)).toMatchObject({
+			parentTabId: null,
+			treeOrder: "a0",
+		});
+		expect(result.get(12)).toMatchObject({ parentTabId: 11, treeOrder: "a1" });
+	});
+
+	test("attaches to the nearest matched ancestor when the parent is gone", () => {
+		// 1 -> 2 (unmatched) -> 3
+		const oldTabs = [
+			createOldTab(1, "https://a.com"),
+			createOldTab(2, "https://gone.com", { parentTabId: 1 }),
+			createOldTab(3, "https://c.com", { parentTabId: 2, treeOrder: "a5" }),
+		];
+		const matches = new Map([
+			[1, 11],
+			[3, 13],
+		]);
+
+		const result = remapRestoredTree(oldTabs, matches);
+
+		expect(result.size).toBe(2);
+		expect(result.get(13)).toMatchObject({ parentTabId: 11, treeOrder: "a5" });
+	});
+
+	test("carries over collapse state and custom title", () => {
+		const oldTabs = [
+			{
+				...createOldTab(1, "https://a.com"),
+				isCollapsed: true,
+				titleOverride: "Research",
+			},
+		];
+
+		const result = remapRestoredTree(oldTabs, new Map([[1, 11]]));
+
+		expect(result.get(11)).toMatchObject({
+			isCollapsed: true,
+			titleOverride: "Research",
+		});
+	});
+});
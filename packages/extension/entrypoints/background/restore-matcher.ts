@@ -0,0 +1,176 @@
+import type { Tab } from "@/schema/src/schema";
+
+/** The parts of a live browser tab the matcher needs */
+export type RestoreCandidate = {
+	id: number;
+	windowId: number;
+	index: number;
+	url: string | null;
+};
+
+/** Tree state carried over from a persisted row to the tab that replaced it */
+export type RestoredTreeState = {
+	parentTabId: number | null;
+	treeOrder: string;
+	isCollapsed: boolean;
+	titleOverride: string | null;
+};
+
+function groupBy<T, K>(items: T[], getKey: (item: T) => K): Map<K, T[]> {
+	const groups = new Map<K, T[]>();
+	for (const item of items) {
+		const key = getKey(item);
+		let group = groups.get(key);
+		if (!group) {
+			group = [];
+			groups.set(key, group);
+		}
+		group.push(item);
+	}
+	return groups;
+}
+
+/** Number of tabs that can be paired by URL between two windows (multiset overlap) */
+function countUrlOverlap(oldTabs: Tab[], newTabs: RestoreCandidate[]): number {
+	const remaining = new Map<string, number>();
+	for (const tab of oldTabs) {
+		if (!tab.url) continue;
+		remaining.set(tab.url, (remaining.get(tab.url) ?? 0) + 1);
+	}
+	let overlap = 0;
+	for (const tab of newTabs) {
+		if (!tab.url) continue;
+		const count = remaining.get(tab.url) ?? 0;
+		if (count > 0) {
+			remaining.set(tab.url, count - 1);
+			overlap++;
+		}
+	}
+	return overlap;
+}
+
+/**
+ * Pair the windows of persisted tab rows whose browser IDs no longer exist
+ * (e.g. after a browser restart) with the windows of live tabs that have no
+ * row yet, by how many URLs they share (best pairs first). Windows sharing no
+ * URL stay unpaired.
+ *
+ * Returns old browserWindowId -> new browserWindowId.
+ */
+export function matchRestoredWindows(
+	oldTabs: Tab[],
+	newTabs: RestoreCandidate[],
+): Map<number, number> {
+	const oldByWindow = groupBy(oldTabs, (t) => t.browserWindowId);
+	const newByWindow = groupBy(newTabs, (t) => t.windowId);
+
+	// Score every window pair, then take the best pairs greedily
+	const pairs: { oldWindowId: number; newWindowId: number; score: number }[] =
+		[];
+	for (const [oldWindowId, oldWindowTabs] of oldByWindow) {
+		for (const [newWindowId, newWindowTabs] of newByWindow) {
+			const score = countUrlOverlap(oldWindowTabs, newWindowTabs);
+			if (score > 0) pairs.push({ oldWindowId, newWindowId, score });
+		}
+	}
+	pairs.sort(
+		(a, b) =>
+			b.score - a.score ||
+			a.oldWindowId - b.oldWindowId ||
+			a.newWindowId - b.newWindowId,
+	);
+
+	const windows = new Map<number, number>();
+	const pairedNew = new Set<number>();
+	for (const { oldWindowId, newWindowId } of pairs) {
+		if (windows.has(oldWindowId) || pairedNew.has(newWindowId)) continue;
+		windows.set(oldWindowId, newWindowId);
+		pairedNew.add(newWindowId);
+	}
+	return windows;
+}
+
+/**
+ * Match persisted tab rows whose browser IDs no longer exist to live tabs
+ * that have no row yet, within the windows paired by matchRestoredWindows.
+ * Within a window pair, tabs with the same URL are paired in tab-index
+ * order, so duplicates keep their relative positions. Tabs without a URL, or
+ * whose URL has no counterpart, are left unmatched.
+ *
+ * Returns old browserTabId -> new browserTabId.
+ */
+export function matchRestoredTabs(
+	oldTabs: Tab[],
+	newTabs: RestoreCandidate[],
+	windows = matchRestoredWindows(oldTabs, newTabs),
+): Map<number, number> {
+	const matches = new Map<number, number>();
+	const oldByWindow = groupBy(oldTabs, (t) => t.browserWindowId);
+	const newByWindow = groupBy(newTabs, (t) => t.windowId);
+
+	for (const [oldWindowId, newWindowId] of windows) {
+		const oldByUrl = groupBy(
+			(oldByWindow.get(oldWindowId) ?? [])
+				.filter((t) => t.url)
+				.sort((a, b) => a.tabIndex - b.tabIndex),
+			(t) => t.url,
+		);
+		const newByUrl = groupBy(
+			(newByWindow.get(newWindowId) ?? [])
+				.filter((t) => t.url)
+				.sort((a, b) => a.index - b.index),
+			(t) => t.url,
+		);
+		for (const [url, oldCandidates] of oldByUrl) {
+			const newCandidates = newByUrl.get(url) ?? [];
+			const count = Math.min(oldCandidates.length, newCandidates.length);
+			for (let i = 0; i < count; i++) {
+				matches.set(oldCandidates[i].browserTabId, newCandidates[i].id);
+			}
+		}
+	}
+
+	return matches;
+}
+
+/**
+ * Translate the tree of matched old rows onto their new browser IDs.
+ * A matched tab whose parent was not matched is attached to its nearest
+ * matched ancestor (or the root), keeping its own treeOrder.
+ *
+ * Returns new browserTabId -> tree state to apply.
+ */
+export function remapRestoredTree(
+	oldTabs: Tab[],
+	matches: Map<number, number>,
+): Map<number, RestoredTreeState> {
+	const oldById = new Map(oldTabs.map((t) => [t.browserTabId, t]));
+	const result = new Map<number, RestoredTreeState>();
+
+	for (const oldTab of oldTabs) {
+		const newId = matches.get(oldTab.browserTabId);
+		if (newId === undefined) continue;
+
+		let parentTabId: number | null = null;
+		let ancestorId = oldTab.parentTabId;
+		const visited = new Set<number>();
+		while (ancestorId !== null && !visited.has(ancestorId)) {
+			visited.add(ancestorId);
+			const mappedAncestor = matches.get(ancestorId);
+			if (mappedAncestor !== undefined) {
+				parentTabId = mappedAncestor;
+				break;
+			}
+			ancestorId = oldById.get(ancestorId)?.parentTabId ?? null;
+		}
+
+		result.set(newId, {
+			parentTabId,
+			treeOrder: oldTab.treeOrder,
+			isCollapsed: oldTab.isCollapsed,
+			titleOverride: oldTab.titleOverride,
+		});
+	}
+
+	return result;
+}
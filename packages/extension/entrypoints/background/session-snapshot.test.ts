@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import { createMockTab } from "@/entrypoints/sidepanel/lib/tests/mock-tab";
+import type { Window } from "@/schema/src/schema";
+import {
+	buildSessionSnapshot,
+	getSessionCounts,
+	parseSessionSnapshot,
+} from "./session-snapshot";
+
+function createMockWindow(browserWindowId: number): Window {
+	return {
+		id: `window-${browserWindowId}` as Window["id"],
+		browserWindowId,
+		focused: false,
+		state: "normal",
+		incognito: false,
+		type: "normal",
+		isCollapsed: false,
+		titleOverride: null,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+		deletedAt: null,
+	};
+}
+
+describe("buildSessionSnapshot", () => {
+	test("stores each window's tabs in depth-first tree order", () => {
+		// - 1
+		//   - 3
+		// - 2
+		const tabs = [
+			createMockTab(2, null, "a1"),
+			createMockTab(3, 1, "a0"),
+			createMockTab(1, null, "a0"),
+		];
+
+		const snapshot = buildSessionSnapshot([createMockWindow(1)], tabs);
+
+		expect(snapshot.version).toBe(1);
+		expect(snapshot.windows).toHaveLength(1);
+		expect(snapshot.windows[0].tabs.map((t) => [t.id, t.parentId])).toEqual([
+			[1, null],
+			[3, 1],
+			[2, null],
+		]);
+	});
+
+	test("keeps overrides and collapse state of windows and tabs", () => {
+		const win = { ...createMockWindow(1), titleOverride: "Work" };
+		const tab = {
+			...createMockTab(1),
+			url: "https://example.com/1",
+			titleOverride: "Docs",
+			isCollapsed: true,
+			pinned: true,
+		};
+
+		const snapshot = buildSessionSnapshot([win], [tab]);
+
+		expect(snapshot.windows[0].titleOverride).toBe("Work");
+		expect(snapshot.windows[0].tabs[0]).toMatchObject({
+			url: "https://example.com/1",
+			titleOverride: "Docs",
+			isCollapsed: true,
+			pinned: true,
+		});
+	});
+
+	test("skips closed tabs and windows without open tabs", () => {
+		const tabs = [
+			createMockTab(1, null, "a0", { browserWindowId: 1 }),
+			{
+				...createMockTab(2, null, "a1", { browserWindowId: 1 }),
+				deletedAt: new Date(),
+			},
+			{
+				...createMockTab(3, null, "a0", { browserWindowId: 2 }),
+				deletedAt: new Date(),
+			},
+		];
+
+		const snapshot = buildSessionSnapshot(
+			[createMockWindow(1), createMockWindow(2)],
+			tabs,
+		);
+
+		expect(snapshot.windows).toHaveLength(1);
+		expect(snapshot.windows[0].tabs.map((t) => t.id)).toEqual([1]);
+		expect(getSessionCounts(snapshot)).toEqual({ windowCount: 1, tabCount: 1 });
+	});
+});
+
+describe("parseSessionSnapshot", () => {
+	test("round-trips a built snapshot", () => {
+		const snapshot = buildSessionSnapshot(
+			[createMockWindow(1)],
+			[createMockTab(1), createMockTab(2, 1)],
+		);
+
+		expect(parseSessionSnapshot(JSON.stringify(snapshot))).toEqual(snapshot);
+	});
+
+	test("rejects malformed JSON and unknown versions", () => {
+		expect(parseSessionSnapshot("{not json")).toBeNull();
+		expect(
+			parseSessionSnapshot(JSON.stringify({ version: 2, windows: [] })),
+		).toBeNull();
+		expect(parseSessionSnapshot(JSON.stringify({ version: 1 }))).toBeNull();
+	});
+});
@@ -0,0 +1,106 @@
+import { isClosedTab } from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab, Window } from "@/schema/src/schema";
+import { buildTree, flattenTree } from "./tree-sync";
+
+/** Bump when the snapshot shape changes; older snapshots are rejected on restore */
+export const SESSION_SNAPSHOT_VERSION = 1;
+
+/**
+ * A tab inside a saved session.
+ * `id` / `parentId` are the browser tab IDs at capture time and are only
+ * meaningful within the snapshot (they are remapped on restore).
+ */
+export interface SessionTab {
+	id: number;
+	parentId: number | null;
+	treeOrder: string;
+	url: string | null;
+	title: string | null;
+	titleOverride: string | null;
+	isCollapsed: boolean;
+	pinned: boolean;
+}
+
+export interface SessionWindow {
+	titleOverride: string | null;
+	isCollapsed: boolean;
+	/** Tabs in depth-first tree order (parents always precede children) */
+	tabs: SessionTab[];
+}
+
+export interface SessionSnapshot {
+	version: typeof SESSION_SNAPSHOT_VERSION;
+	windows: SessionWindow[];
+}
+
+/**
+ * Capture the tree of every window into a snapshot.
+ * Closed-tab ghosts are left out and windows without open tabs are skipped.
+ */
+export function buildSessionSnapshot(
+	windows: Window[],
+	tabs: Tab[],
+): SessionSnapshot {
+	const openTabs = tabs.filter((t) => !isClosedTab(t));
+	const sessionWindows: SessionWindow[] = [];
+
+	for (const win of windows) {
+		const windowTabs = openTabs.filter(
+			(t) => t.browserWindowId === win.browserWindowId,
+		);
+		if (windowTabs.length === 0) continue;
+
+		sessionWindows.push({
+			titleOverride: win.titleOverride,
+			isCollapsed: win.isCollapsed,
+			tabs: flattenTree(buildTree(windowTabs)).map((tab) => ({
+				id: tab.browserTabId,
+				parentId: tab.parentTabId,
+				treeOrder: tab.treeOrder,
+				url: tab.url,
+				title: tab.title,
+				titleOverride: tab.titleOverride,
+				isCollapsed: tab.isCollapsed,
+				pinned: tab.pinned,
+			})),
+		});
+	}
+
+	return { version: SESSION_SNAPSHOT_VERSION, windows: sessionWindows };
+}
+
+/**
+ * Parse a stored snapshot. Returns null for malformed JSON or an unknown version.
+ */
+export function parseSessionSnapshot(json: string): SessionSnapshot | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch {
+		return null;
+	}
+	if (
+		typeof parsed !== "object" ||
+		parsed === null ||
+		!("version" in parsed) ||
+		parsed.version !== SESSION_SNAPSHOT_VERSION ||
+		!("windows" in parsed) ||
+		!Array.isArray(parsed.windows)
+	) {
+		return null;
+	}
+	return parsed as SessionSnapshot;
+}
+
+/**
+ * Count windows and tabs in a snapshot (stored alongside it for listing)
+ */
+export function getSessionCounts(snapshot: SessionSnapshot): {
+	windowCount: number;
+	tabCount: number;
+} {
+	return {
+		windowCount: snapshot.windows.length,
+		tabCount: snapshot.windows.reduce((sum, w) => sum + w.tabs.length, 0),
+	};
+}
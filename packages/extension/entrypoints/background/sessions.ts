@@ -0,0 +1,220 @@
+import { isClosedTab } from "@/entrypoints/sidepanel/lib/tree";
+import type { InsertSession, Session, Tab, Window } from "@/schema/src/schema";
+import { log, makeSessionId } from "./constants";
+import type { DbOperations } from "./db-operations";
+import {
+	buildSessionSnapshot,
+	getSessionCounts,
+	parseSessionSnapshot,
+	type SessionWindow,
+} from "./session-snapshot";
+import {
+	consumePendingChildIntent,
+	registerPendingChildIntent,
+	registerUiMoveIntent,
+} from "./tab-handlers";
+
+// How long to wait for restored tabs to be written by the onCreated handlers
+const RESTORED_TABS_WAIT_ATTEMPTS = 40;
+const RESTORED_TABS_WAIT_INTERVAL = 50;
+
+/**
+ * Save the current hierarchy of all windows as a named session
+ */
+export async function captureSession(
+	dbOps: DbOperations,
+	name: string,
+): Promise<void> {
+	const windows = await dbOps.getAll<Window>("window");
+	const tabs = await dbOps.getAll<Tab>("tab");
+	const snapshot = buildSessionSnapshot(windows, tabs);
+	const { windowCount, tabCount } = getSessionCounts(snapshot);
+
+	log("[Background] Saving session:", name, windowCount, "windows", tabCount);
+	const session: InsertSession = {
+		id: makeSessionId(),
+		name,
+		snapshot: JSON.stringify(snapshot),
+		windowCount,
+		tabCount,
+		deletedAt: null,
+	};
+	await dbOps.putItems("session", [session]);
+}
+
+export async function deleteSession(
+	dbOps: DbOperations,
+	sessionId: string,
+): Promise<void> {
+	await dbOps.deleteItems("session", [sessionId]);
+}
+
+/**
+ * Restore a saved session into new windows, rebuilding its hierarchy.
+ * Each tab is created with a pending child intent so onCreated places it
+ * under its (already restored) parent, then the tree is re-asserted with UI
+ * move intents and the overrides are written back once the rows exist.
+ * Resolves with the number of tabs the browser refused to open.
+ */
+export async function restoreSession(
+	dbOps: DbOperations,
+	sessionId: string,
+): Promise<number> {
+	const sessions = await dbOps.getAll<Session>("session");
+	const session = sessions.find((s) => s.id === sessionId);
+	if (!session) return 0;
+
+	const snapshot = parseSessionSnapshot(session.snapshot);
+	if (!snapshot) {
+		log("[Background] Cannot restore session, bad snapshot:", sessionId);
+		return 0;
+	}
+
+	log("[Background] Restoring session:", session.name);
+	return restoreWindows(dbOps, snapshot.windows);
+}
+
+/**
+ * Open each window in a new browser window with its hierarchy, titles and
+ * collapse state. Used for saved sessions and imported trees. Tabs the
+ * browser refuses to create (privileged or dead URLs) are skipped and their
+ * children move up to the nearest restored ancestor; resolves with how many
+ * were skipped.
+ */
+export async function restoreWindows(
+	dbOps: DbOperations,
+	windows: SessionWindow[],
+): Promise<number> {
+	let skippedCount = 0;
+	for (const sessionWindow of windows) {
+		skippedCount += await restoreSessionWindow(dbOps, sessionWindow);
+	}
+	return skippedCount;
+}
+
+async function restoreSessionWindow(
+	dbOps: DbOperations,
+	sessionWindow: SessionWindow,
+): Promise<number> {
+	if (sessionWindow.tabs.length === 0) return 0;
+
+	// Start with a blank tab so every restored tab goes through the same path
+	const win = await browser.windows.create({ focused: false });
+	const windowId = win?.id;
+	if (windowId === undefined) return 0;
+	const placeholderTabIds = (win.tabs ?? [])
+		.map((t) => t.id)
+		.filter((id): id is number => id !== undefined);
+
+	// Snapshot tab ID -> browser tab ID it was restored as, or, for a skipped
+	// tab, that of its nearest restored ancestor (null at the root)
+	const idMap = new Map<number, number | null>();
+	let skippedCount = 0;
+	const restored: {
+		browserTabId: number;
+		parentTabId: number | null;
+		treeOrder: string;
+		titleOverride: string | null;
+		isCollapsed: boolean;
+	}[] = [];
+
+	for (const sessionTab of sessionWindow.tabs) {
+		// Tabs are stored in depth-first order, so the parent is already mapped
+		const parentTabId =
+			sessionTab.parentId !== null
+				? (idMap.get(sessionTab.parentId) ?? null)
+				: null;
+		const index = placeholderTabIds.length + restored.length;
+
+		registerPendingChildIntent(
+			windowId,
+			index,
+			parentTabId,
+			sessionTab.treeOrder,
+		);
+		let created: Browser.tabs.Tab;
+		try {
+			created = await browser.tabs.create({
+				windowId,
+				index,
+				url: sessionTab.url ?? undefined,
+				pinned: sessionTab.pinned,
+				active: false,
+			});
+		} catch (error) {
+			log(
+				"[Background] Skipping tab that failed to open:",
+				sessionTab.url,
+				error,
+			);
+			consumePendingChildIntent(windowId, index);
+			idMap.set(sessionTab.id, parentTabId);
+			skippedCount++;
+			continue;
+		}
+		if (created.id === undefined) {
+			idMap.set(sessionTab.id, parentTabId);
+			continue;
+		}
+
+		idMap.set(sessionTab.id, created.id);
+		registerUiMoveIntent(created.id, parentTabId, sessionTab.treeOrder);
+		restored.push({
+			browserTabId: created.id,
+			parentTabId,
+			treeOrder: sessionTab.treeOrder,
+			titleOverride: sessionTab.titleOverride,
+			isCollapsed: sessionTab.isCollapsed,
+		});
+	}
+
+	if (placeholderTabIds.length > 0) {
+		await browser.tabs.remove(placeholderTabIds);
+	}
+
+	// Write tree fields and overrides once the onCreated handlers have stored the rows
+	const restoredIds = new Set(restored.map((r) => r.browserTabId));
+	let existingTabs: Tab[] = [];
+	for (let attempt = 0; attempt < RESTORED_TABS_WAIT_ATTEMPTS; attempt++) {
+		existingTabs = (await dbOps.getAll<Tab>("tab")).filter(
+			(t) => restoredIds.has(t.browserTabId) && !isClosedTab(t),
+		);
+		if (existingTabs.length === restoredIds.size) break;
+		await new Promise((resolve) =>
+			setTimeout(resolve, RESTORED_TABS_WAIT_INTERVAL),
+		);
+	}
+
+	const existingMap = new Map(existingTabs.map((t) => [t.browserTabId, t]));
+	const recordsToUpdate: Tab[] = [];
+	for (const r of restored) {
+		const existing = existingMap.get(r.browserTabId);
+		if (!existing) continue;
+		recordsToUpdate.push({
+			...existing,
+			parentTabId: r.parentTabId,
+			treeOrder: r.treeOrder,
+			titleOverride: r.titleOverride,
+			isCollapsed: r.isCollapsed,
+		});
+	}
+	if (recordsToUpdate.length > 0) {
+		await dbOps.putItems("tab", recordsToUpdate);
+	}
+
+	if (sessionWindow.titleOverride !== null || sessionWindow.isCollapsed) {
+		const windows = await dbOps.getAll<Window>("window");
+		const existing = windows.find((w) => w.browserWindowId === windowId);
+		if (existing) {
+			await dbOps.putItems("window", [
+				{
+					...existing,
+					titleOverride: sessionWindow.titleOverride,
+					isCollapsed: sessionWindow.isCollapsed,
+				},
+			]);
+		}
+	}
+
+	return skippedCount;
+}
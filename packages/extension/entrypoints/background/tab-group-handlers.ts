@@ -0,0 +1,89 @@
+import { hasTabGroupsApi } from "@/entrypoints/sidepanel/lib/tab-groups";
+import type { Tab, TabGroup } from "@/schema/src/schema";
+import { log, makeTabGroupId } from "./constants";
+import type { DbOperations } from "./db-operations";
+import { queuedHandler } from "./event-queue";
+import { tabGroupToRecord, toGroupId } from "./mappers";
+
+/**
+ * Refresh the stored groupId of a window's tabs from the browser. tabs.onUpdated
+ * doesn't persist every tab's membership change (the reconciler skips root tabs
+ * it has no intent for), so group events re-read it here.
+ */
+const syncTabGroupIds = async (dbOps: DbOperations, windowId: number) => {
+	const browserTabs = await browser.tabs.query({ windowId });
+	const groupIds = new Map(
+		browserTabs.map((tab) => [
+			tab.id,
+			toGroupId((tab as Browser.tabs.Tab & { groupId?: number }).groupId),
+		]),
+	);
+	const changed = (await dbOps.getAll<Tab>("tab"))
+		.filter(
+			(t) =>
+				groupIds.has(t.browserTabId) &&
+				groupIds.get(t.browserTabId) !== t.groupId,
+		)
+		.map((t) => ({ ...t, groupId: groupIds.get(t.browserTabId) ?? null }));
+	if (changed.length > 0) {
+		await dbOps.putItems("tab", changed);
+	}
+};
+
+/**
+ * Replace the stored tab groups with the browser's current ones
+ */
+export const syncTabGroups = async (dbOps: DbOperations) => {
+	// Without the API (older Firefox) there's nothing to mirror
+	if (!hasTabGroupsApi()) return;
+	const records = (await browser.tabGroups.query({})).map(tabGroupToRecord);
+	const currentIds = new Set(records.map((r) => r.id));
+	const staleIds = (await dbOps.getAll<TabGroup>("tab_group"))
+		.filter((g) => !currentIds.has(g.id))
+		.map((g) => g.id);
+	if (staleIds.length > 0) {
+		await dbOps.deleteItems("tab_group", staleIds);
+	}
+	if (records.length > 0) {
+		await dbOps.putItems("tab_group", records);
+	}
+	log(`[Background] Synced ${records.length} tab groups`);
+};
+
+export const setupTabGroupListeners = (dbOps: DbOperations) => {
+	const { putItems, deleteItems } = dbOps;
+
+	// Created, updated (title/color/collapsed) and moved groups are all upserts
+	const handleTabGroupChanged = async (group: Browser.tabGroups.TabGroup) => {
+		log("[Background] Tab group changed:", group.id, group.title);
+		await putItems("tab_group", [tabGroupToRecord(group)]);
+		await syncTabGroupIds(dbOps, group.windowId);
+	};
+
+	const handleTabGroupRemoved = async (group: Browser.tabGroups.TabGroup) => {
+		log("[Background] Tab group removed:", group.id);
+		await deleteItems("tab_group", [makeTabGroupId(group.id)]);
+		await syncTabGroupIds(dbOps, group.windowId);
+	};
+
+	if (hasTabGroupsApi()) {
+		browser.tabGroups.onCreated.addListener(
+			queuedHandler("tabGroups.onCreated", handleTabGroupChanged),
+		);
+		browser.tabGroups.onUpdated.addListener(
+			queuedHandler("tabGroups.onUpdated", handleTabGroupChanged),
+		);
+		browser.tabGroups.onMoved.addListener(
+			queuedHandler("tabGroups.onMoved", handleTabGroupChanged),
+		);
+		browser.tabGroups.onRemoved.addListener(
+			queuedHandler("tabGroups.onRemoved", handleTabGroupRemoved),
+		);
+	}
+
+	// Export handlers for testing (so we can inject fake events)
+	return {
+		handleTabGroupChanged,
+		handleTabGroupRemoved,
+	};
+};
@@ -1,7 +1,7 @@
 import { log } from "./constants";
 import type { DbOperations } from "./db-operations";
-import { queuedHandler } from "./event-queue";
-import { reconcile } from "./reconciler";
+import { eventQueue } from "./event-queue";
+import { reconcile, reconcileBatch } from "./reconciler";
 import type {
 	TabActivatedEvent,
 	TabAttachedEvent,
@@ -9,8 +9,10 @@ import type {
 	TabDetachedEvent,
 	TabMovedEvent,
 	TabRemovedEvent,
+	TabSyncEvent,
 	TabUpdatedEvent,
 } from "./tab-sync-events";
+import { coalesceTabSyncEvents } from "./tab-sync-events";
 
 /**
  * Track UI-initiated moves to prevent race conditions.
@@ -37,9 +39,13 @@ const UI_MOVE_INTENT_TTL = 5000;
  * Keyed by "windowId:expectedIndex" since we don't have tabId yet
  */
 export interface PendingChildIntent {
-	parentTabId: number;
+	parentTabId: number | null;
 	treeOrder: string;
 	timestamp: number;
+	/** Closed-tab ghost this tab is being reopened from, if any */
+	reopenedTabId?: number;
+	/** Custom title for the new tab, e.g. the name of a group node */
+	titleOverride?: string;
 }
 
 // Map of "windowId:index" -> pending child intent
@@ -51,18 +57,24 @@ const PENDING_CHILD_INTENT_TTL = 2000;
 export function registerPendingChildIntent(
 	windowId: number,
 	expectedIndex: number,
-	parentTabId: number,
+	parentTabId: number | null,
 	treeOrder: string,
+	reopenedTabId?: number,
+	titleOverride?: string,
 ): void {
 	const key = `${windowId}:${expectedIndex}`;
 	log("[Background] Registering pending child intent:", key, {
 		parentTabId,
 		treeOrder,
+		reopenedTabId,
+		titleOverride,
 	});
 	pendingChildIntents.set(key, {
 		parentTabId,
 		treeOrder,
 		timestamp: Date.now(),
+		reopenedTabId,
+		titleOverride,
 	});
 
 	// Auto-cleanup after TTL
@@ -93,6 +105,50 @@ export function consumePendingChildIntent(
 	return undefined;
 }
 
+/**
+ * Group node opened by an auto-group rule whose own TabCreated hasn't been
+ * reconciled yet. Other tabs of the same burst that match the rule go under
+ * it instead of opening a group each.
+ */
+export interface PendingGroup {
+	groupTabId: number;
+	timestamp: number;
+}
+
+// Map of "windowId:groupName" -> pending group
+const pendingGroups = new Map<string, PendingGroup>();
+
+export function registerPendingGroup(
+	windowId: number,
+	groupName: string,
+	groupTabId: number,
+): void {
+	const key = `${windowId}:${groupName}`;
+	log("[Background] Registering pending group:", key, groupTabId);
+	pendingGroups.set(key, { groupTabId, timestamp: Date.now() });
+
+	// By then the group's row is in the DB, where rules find it
+	setTimeout(() => {
+		const group = pendingGroups.get(key);
+		if (group && Date.now() - group.timestamp >= PENDING_CHILD_INTENT_TTL) {
+			pendingGroups.delete(key);
+		}
+	}, PENDING_CHILD_INTENT_TTL);
+}
+
+/** Tab IDs of a window's pending groups, by group name */
+export function getPendingGroupTabIds(windowId: number): Map<string, number> {
+	const prefix = `${windowId}:`;
+	const now = Date.now();
+	const groups = new Map<string, number>();
+	for (const [key, group] of pendingGroups) {
+		if (!key.startsWith(prefix)) continue;
+		if (now - group.timestamp >= PENDING_CHILD_INTENT_TTL) continue;
+		groups.set(key.slice(prefix.length), group.groupTabId);
+	}
+	return groups;
+}
+
 /**
  * Event tracking for tests - stores tab creation events with their decisions
  * Only active when test mode is enabled to prevent memory leaks in production
@@ -204,6 +260,58 @@ export function consumeUiMoveIntent(tabId: number): UiMoveIntent | undefined {
 	return undefined;
 }
 
+/**
+ * Intents waiting to be consumed, with each timestamp stored as an age so a
+ * replay can restore them just as fresh (or stale) as they were
+ */
+export interface IntentSnapshot {
+	uiMoveIntents: [number, UiMoveIntent][];
+	pendingChildIntents: [string, PendingChildIntent][];
+	/** Missing from journals recorded before groups were tracked */
+	pendingGroups?: [string, PendingGroup][];
+}
+
+export function snapshotIntents(): IntentSnapshot {
+	const now = Date.now();
+	return {
+		uiMoveIntents: [...uiMoveIntents].map(([tabId, intent]) => [
+			tabId,
+			{ ...intent, timestamp: now - intent.timestamp },
+		]),
+		pendingChildIntents: [...pendingChildIntents].map(([key, intent]) => [
+			key,
+			{ ...intent, timestamp: now - intent.timestamp },
+		]),
+		pendingGroups: [...pendingGroups].map(([key, group]) => [
+			key,
+			{ ...group, timestamp: now - group.timestamp },
+		]),
+	};
+}
+
+/** Replace all intents with a snapshot's, for journal replay */
+export function restoreIntents(snapshot: IntentSnapshot): void {
+	const now = Date.now();
+	uiMoveIntents.clear();
+	for (const [tabId, intent] of snapshot.uiMoveIntents) {
+		uiMoveIntents.set(tabId, { ...intent, timestamp: now - intent.timestamp });
+	}
+	pendingChildIntents.clear();
+	for (const [key, intent] of snapshot.pendingChildIntents) {
+		pendingChildIntents.set(key, {
+			...intent,
+			timestamp: now - intent.timestamp,
+		});
+	}
+	pendingGroups.clear();
+	for (const [key, group] of snapshot.pendingGroups ?? []) {
+		pendingGroups.set(key, { ...group, timestamp: now - group.timestamp });
+	}
+}
+
+// How long tab events are collected before a burst is reconciled
+const TAB_EVENT_BURST_MS = 50;
+
 export const setupTabListeners = (
 	dbOps: DbOperations,
 	getManagedMoveTabIds?: () => Set<number>,
@@ -291,26 +399,35 @@ export const setupTabListeners = (
 		);
 	};
 
-	browser.tabs.onCreated.addListener(
-		queuedHandler("tabs.onCreated", handleTabCreated),
+	// Bursts, like opening or closing many tabs at once, are coalesced and
+	// reconciled against one snapshot
+	const enqueueEvent = eventQueue.createBatch<TabSyncEvent>({
+		name: "tabs",
+		windowMs: TAB_EVENT_BURST_MS,
+		coalesce: coalesceTabSyncEvents,
+		handler: (events) => reconcileBatch(dbOps, events, options),
+	});
+
+	browser.tabs.onCreated.addListener((tab) =>
+		enqueueEvent({ type: "TabCreated", tab }),
 	);
-	browser.tabs.onUpdated.addListener(
-		queuedHandler("tabs.onUpdated", handleTabUpdated),
+	browser.tabs.onUpdated.addListener((tabId, changeInfo, tab) =>
+		enqueueEvent({ type: "TabUpdated", tabId, changeInfo, tab }),
 	);
-	browser.tabs.onRemoved.addListener(
-		queuedHandler("tabs.onRemoved", handleTabRemoved),
+	browser.tabs.onRemoved.addListener((tabId, removeInfo) =>
+		enqueueEvent({ type: "TabRemoved", tabId, removeInfo }),
 	);
-	browser.tabs.onMoved.addListener(
-		queuedHandler("tabs.onMoved", handleTabMoved),
+	browser.tabs.onMoved.addListener((tabId, moveInfo) =>
+		enqueueEvent({ type: "TabMoved", tabId, moveInfo }),
 	);
-	browser.tabs.onActivated.addListener(
-		queuedHandler("tabs.onActivated", handleTabActivated),
+	browser.tabs.onActivated.addListener((activeInfo) =>
+		enqueueEvent({ type: "TabActivated", activeInfo }),
 	);
-	browser.tabs.onDetached.addListener(
-		queuedHandler("tabs.onDetached", handleTabDetached),
+	browser.tabs.onDetached.addListener((tabId, detachInfo) =>
+		enqueueEvent({ type: "TabDetached", tabId, detachInfo }),
 	);
-	browser.tabs.onAttached.addListener(
-		queuedHandler("tabs.onAttached", handleTabAttached),
+	browser.tabs.onAttached.addListener((tabId, attachInfo) =>
+		enqueueEvent({ type: "TabAttached", tabId, attachInfo }),
 	);
 
 	// Export handlers for testing (so we can inject fake events)
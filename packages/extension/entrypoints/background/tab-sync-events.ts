@@ -52,3 +52,63 @@ export interface TabAttachedEvent {
 	tabId: number;
 	attachInfo: Browser.tabs.OnAttachedInfo;
 }
+
+/** The tab an event is about, if it has one */
+function getEventTabId(event: TabSyncEvent): number | undefined {
+	switch (event.type) {
+		case "TabCreated":
+			return event.tab.id;
+		case "TabActivated":
+			return event.activeInfo.tabId;
+		default:
+			return event.tabId;
+	}
+}
+
+/**
+ * Shrink a burst of events before reconciling it. When a tab's latest event
+ * so far is of the same kind:
+ * - TabUpdated merges into one update with the combined changeInfo and the
+ *   newest tab state
+ * - TabMoved within a window collapses into one move from the first index to
+ *   the last
+ * The merged event takes the later event's place. Everything else is kept, in
+ * order.
+ */
+export function coalesceTabSyncEvents(events: TabSyncEvent[]): TabSyncEvent[] {
+	const result: (TabSyncEvent | null)[] = [];
+	// Index in `result` of each tab's latest event
+	const latestByTab = new Map<number, number>();
+
+	for (const event of events) {
+		const tabId = getEventTabId(event);
+		const latestIndex =
+			tabId === undefined ? undefined : latestByTab.get(tabId);
+		const latest = latestIndex === undefined ? null : result[latestIndex];
+		let next = event;
+
+		if (latest?.type === "TabUpdated" && event.type === "TabUpdated") {
+			next = {
+				...event,
+				changeInfo: { ...latest.changeInfo, ...event.changeInfo },
+			};
+		} else if (
+			latest?.type === "TabMoved" &&
+			event.type === "TabMoved" &&
+			latest.moveInfo.windowId === event.moveInfo.windowId
+		) {
+			next = {
+				...event,
+				moveInfo: { ...event.moveInfo, fromIndex: latest.moveInfo.fromIndex },
+			};
+		}
+		if (next !== event && latestIndex !== undefined) {
+			result[latestIndex] = null;
+		}
+
+		if (tabId !== undefined) latestByTab.set(tabId, result.length);
+		result.push(next);
+	}
+
+	return result.filter((event): event is TabSyncEvent => event !== null);
+}
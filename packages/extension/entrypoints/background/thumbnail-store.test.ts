@@ -0,0 +1,66 @@
+import "fake-indexeddb/auto";
+import { describe, expect, test } from "bun:test";
+import {
+	deleteThumbnails,
+	getThumbnail,
+	getThumbnailsToEvict,
+	MAX_THUMBNAILS,
+	putThumbnail,
+	type Thumbnail,
+} from "./thumbnail-store";
+
+describe("getThumbnailsToEvict", () => {
+	const entries = [
+		{ browserTabId: 1, usedAt: 300 },
+		{ browserTabId: 2, usedAt: 100 },
+		{ browserTabId: 3, usedAt: 200 },
+	];
+
+	test("keeps everything within the limit", () => {
+		expect(getThumbnailsToEvict(entries, 3)).toEqual([]);
+		expect(getThumbnailsToEvict([], 0)).toEqual([]);
+	});
+
+	test("evicts the least recently used first", () => {
+		expect(getThumbnailsToEvict(entries, 2)).toEqual([2]);
+		expect(getThumbnailsToEvict(entries, 1)).toEqual([2, 3]);
+	});
+});
+
+describe("thumbnail store", () => {
+	const thumbnail = (browserTabId: number, usedAt = 0): Thumbnail => ({
+		browserTabId,
+		dataUrl: `data:image/jpeg;base64,${browserTabId}`,
+		url: `https://example.com/${browserTabId}`,
+		activatedAt: usedAt,
+		usedAt,
+	});
+
+	test("loads a stored thumbnail and marks it as used", async () => {
+		await putThumbnail(thumbnail(1));
+
+		const loaded = await getThumbnail(1);
+		expect(loaded).toMatchObject({
+			browserTabId: 1,
+			dataUrl: "data:image/jpeg;base64,1",
+			url: "https://example.com/1",
+		});
+		expect((await getThumbnail(1))?.usedAt).toBeGreaterThan(0);
+		expect(await getThumbnail(2)).toBeNull();
+
+		await deleteThumbnails([1]);
+		expect(await getThumbnail(1)).toBeNull();
+	});
+
+	test("evicts the least recently used beyond the limit", async () => {
+		const count = MAX_THUMBNAILS + 1;
+		for (let id = 1; id <= count; id++) {
+			await putThumbnail(thumbnail(id, id));
+		}
+
+		expect(await getThumbnail(1)).toBeNull();
+		expect(await getThumbnail(count)).not.toBeNull();
+
+		await deleteThumbnails(Array.from({ length: count }, (_, i) => i + 1));
+	});
+});
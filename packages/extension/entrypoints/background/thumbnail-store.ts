@@ -0,0 +1,126 @@
+/**
+ * Tab thumbnails for hover previews.
+ *
+ * Kept in their own IndexedDB database rather than the synced schema: the
+ * images are large, never broadcast to clients, and the sidepanel (same
+ * extension origin) reads them directly when a preview opens.
+ */
+
+export const THUMBNAIL_DB_NAME = "tabcanopy-thumbnails";
+const THUMBNAIL_STORE = "thumbnail";
+const USED_AT_INDEX = "used_at";
+
+/**
+ * Host access tabs.captureVisibleTab needs. Optional in the manifest: nothing
+ * is captured until the user grants it from the options page.
+ */
+export const THUMBNAIL_PERMISSIONS: Browser.permissions.Permissions = {
+	origins: ["<all_urls>"],
+};
+
+/** Least recently used thumbnails beyond this count are evicted */
+export const MAX_THUMBNAILS = 150;
+
+export type Thumbnail = {
+	browserTabId: number;
+	/** Downscaled JPEG data URL */
+	dataUrl: string;
+	/** URL of the page when it was captured */
+	url: string | null;
+	/** When the tab was last activated (shown as "last accessed") */
+	activatedAt: number;
+	/** Last capture or read, for LRU eviction */
+	usedAt: number;
+};
+
+/**
+ * IDs of the least recently used thumbnails that don't fit in `max`
+ */
+export function getThumbnailsToEvict(
+	entries: Pick<Thumbnail, "browserTabId" | "usedAt">[],
+	max: number,
+): number[] {
+	if (entries.length <= max) return [];
+	return [...entries]
+		.sort((a, b) => a.usedAt - b.usedAt)
+		.slice(0, entries.length - max)
+		.map((e) => e.browserTabId);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openThumbnailDb(): Promise<IDBDatabase> {
+	dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(THUMBNAIL_DB_NAME, 1);
+		request.onupgradeneeded = () => {
+			const store = request.result.createObjectStore(THUMBNAIL_STORE, {
+				keyPath: "browserTabId",
+			});
+			store.createIndex(USED_AT_INDEX, "usedAt");
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => {
+			dbPromise = null;
+			reject(request.error);
+		};
+	});
+	return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withStore<T>(
+	mode: IDBTransactionMode,
+	fn: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+	const db = await openThumbnailDb();
+	const tx = db.transaction(THUMBNAIL_STORE, mode);
+	const done = new Promise<void>((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+	const result = await fn(tx.objectStore(THUMBNAIL_STORE));
+	await done;
+	return result;
+}
+
+export async function putThumbnail(thumbnail: Thumbnail): Promise<void> {
+	await withStore("readwrite", async (store) => {
+		await requestToPromise(store.put(thumbnail));
+		const entries = (await requestToPromise(store.getAll())) as Thumbnail[];
+		for (const id of getThumbnailsToEvict(entries, MAX_THUMBNAILS)) {
+			store.delete(id);
+		}
+	});
+}
+
+/**
+ * Read a tab's thumbnail, marking it as recently used
+ */
+export async function getThumbnail(
+	browserTabId: number,
+): Promise<Thumbnail | null> {
+	return withStore("readwrite", async (store) => {
+		const thumbnail = (await requestToPromise(store.get(browserTabId))) as
+			| Thumbnail
+			| undefined;
+		if (!thumbnail) return null;
+		store.put({ ...thumbnail, usedAt: Date.now() });
+		return thumbnail;
+	});
+}
+
+export async function deleteThumbnails(browserTabIds: number[]): Promise<void> {
+	if (browserTabIds.length === 0) return;
+	await withStore("readwrite", async (store) => {
+		for (const id of browserTabIds) {
+			store.delete(id);
+		}
+	});
+}
@@ -0,0 +1,88 @@
+import { log } from "./constants";
+import {
+	deleteThumbnails,
+	getThumbnail,
+	putThumbnail,
+	THUMBNAIL_PERMISSIONS,
+} from "./thumbnail-store";
+
+/** Give the page a moment to paint before capturing */
+const CAPTURE_DELAY_MS = 500;
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+/** Pages the browser refuses to capture */
+const UNCAPTURABLE_URL =
+	/^(chrome|chrome-extension|edge|about|moz-extension|view-source|devtools):/;
+
+async function downscale(dataUrl: string): Promise<string> {
+	const blob = await (await fetch(dataUrl)).blob();
+	const bitmap = await createImageBitmap(blob);
+	const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width);
+	const width = Math.round(bitmap.width * scale);
+	const height = Math.round(bitmap.height * scale);
+	const canvas = new OffscreenCanvas(width, height);
+	const context = canvas.getContext("2d");
+	if (!context) {
+		bitmap.close();
+		return dataUrl;
+	}
+	context.drawImage(bitmap, 0, 0, width, height);
+	bitmap.close();
+	const scaled = await canvas.convertToBlob({
+		type: "image/jpeg",
+		quality: THUMBNAIL_QUALITY,
+	});
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(scaled);
+	});
+}
+
+async function captureThumbnail(tabId: number, windowId: number) {
+	const activatedAt = Date.now();
+	await new Promise((resolve) => setTimeout(resolve, CAPTURE_DELAY_MS));
+
+	const tab = await browser.tabs.get(tabId);
+	if (!tab.active || tab.windowId !== windowId || tab.discarded) return;
+	const canCapture = await browser.permissions.contains(THUMBNAIL_PERMISSIONS);
+	if (!canCapture || !tab.url || UNCAPTURABLE_URL.test(tab.url)) {
+		// Keep "last accessed" up to date even when the page can't be captured
+		const existing = await getThumbnail(tabId);
+		if (existing) await putThumbnail({ ...existing, activatedAt });
+		return;
+	}
+
+	const captured = await browser.tabs.captureVisibleTab(windowId, {
+		format: "jpeg",
+		quality: 80,
+	});
+	await putThumbnail({
+		browserTabId: tabId,
+		dataUrl: await downscale(captured),
+		url: tab.url,
+		activatedAt,
+		usedAt: Date.now(),
+	});
+}
+
+/**
+ * Capture a preview of a tab that just became active. Fire-and-forget:
+ * failures (minimized window, closed tab, restricted page) are only logged.
+ */
+export function captureTabThumbnail(tabId: number, windowId: number): void {
+	captureThumbnail(tabId, windowId).catch((err) => {
+		log("[Background] Thumbnail capture skipped:", tabId, err);
+	});
+}
+
+/**
+ * Drop previews of tabs that no longer exist
+ */
+export function removeTabThumbnails(tabIds: number[]): void {
+	deleteThumbnails(tabIds).catch((err) => {
+		log("[Background] Failed to delete thumbnails:", tabIds, err);
+	});
+}
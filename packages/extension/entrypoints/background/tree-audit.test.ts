@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { createMockTab } from "@/entrypoints/sidepanel/lib/tests/mock-tab";
+import type { Tab, Window } from "@/schema/src/schema";
+import { type AuditBrowserTab, auditTabState } from "./tree-audit";
+
+const tab = (
+	browserTabId: number,
+	parentTabId: number | null,
+	treeOrder: string,
+	overrides: Partial<Tab> = {},
+) => createMockTab(browserTabId, parentTabId, treeOrder, overrides);
+
+const windows = [{ id: "window-1", browserWindowId: 1 }] as Window[];
+
+/** Browser tabs of window 1, in the given order */
+const browserTabs = (...ids: number[]): AuditBrowserTab[] =>
+	ids.map((id, index) => ({ id, windowId: 1, index, pinned: false }));
+
+// 1
+//   2
+// 3
+const tree = [tab(1, null, "a0"), tab(2, 1, "a0"), tab(3, null, "a1")];
+
+describe("auditTabState", () => {
+	test("finds nothing wrong with a consistent tree", () => {
+		const result = auditTabState(tree, windows, browserTabs(1, 2, 3), [1]);
+		expect(result.problems).toEqual([]);
+		expect(result.treeUpdates.size).toBe(0);
+		expect(result.moves).toEqual([]);
+	});
+
+	test("deletes ghost rows and promotes their children", () => {
+		const result = auditTabState(tree, windows, browserTabs(2, 3), [1]);
+		expect(result.problems).toEqual([
+			{ kind: "ghostRow", store: "tab", browserId: 1 },
+		]);
+		expect(result.deleteTabIds).toEqual(["tab-1"] as Tab["id"][]);
+		expect(result.treeUpdates.get(2)?.parentTabId).toBeNull();
+		expect(result.moves).toEqual([]);
+	});
+
+	test("adds rows for tabs and windows the DB missed", () => {
+		const result = auditTabState(
+			tree,
+			windows,
+			[
+				...browserTabs(1, 2, 4, 3),
+				{ id: 5, windowId: 2, index: 0, pinned: false },
+			],
+			[1, 2],
+		);
+		expect(result.missingWindowIds).toEqual([2]);
+		expect(result.missingTabIds).toEqual([5, 4]);
+		// Placed like a new tab: 4 sits before root 3, so it joins the root
+		expect(result.treeUpdates.get(4)?.parentTabId).toBeNull();
+		expect(result.treeUpdates.get(5)?.parentTabId).toBeNull();
+		expect(result.moves).toEqual([]);
+	});
+
+	test("breaks parent cycles at the tab that comes first", () => {
+		const cyclic = [tab(1, 2, "a0"), tab(2, 1, "a0"), tab(3, null, "a1")];
+		const result = auditTabState(cyclic, windows, browserTabs(1, 2, 3), [1]);
+		expect(result.problems).toEqual([{ kind: "parentCycle", tabIds: [1, 2] }]);
+		const update = result.treeUpdates.get(1);
+		expect(update?.parentTabId).toBeNull();
+		expect(update && update.treeOrder < "a1").toBe(true);
+		expect(result.moves).toEqual([]);
+	});
+
+	test("lifts tabs out of parents in other windows", () => {
+		const split = [tab(1, null, "a0"), tab(2, 1, "a0", { browserWindowId: 2 })];
+		const result = auditTabState(
+			split,
+			[...windows, { id: "window-2", browserWindowId: 2 } as Window],
+			[...browserTabs(1), { id: 2, windowId: 2, index: 0, pinned: false }],
+			[1, 2],
+		);
+		expect(result.problems).toEqual([
+			{ kind: "foreignParent", tabId: 2, parentTabId: 1 },
+		]);
+		expect(result.treeUpdates.get(2)?.parentTabId).toBeNull();
+	});
+
+	test("follows a tab into the window the browser has it in", () => {
+		const window2 = { id: "window-2", browserWindowId: 2 } as Window;
+		const result = auditTabState(
+			[...tree, tab(4, null, "a0", { browserWindowId: 2 })],
+			[...windows, window2],
+			[
+				...browserTabs(2, 3),
+				{ id: 4, windowId: 2, index: 0, pinned: false },
+				{ id: 1, windowId: 2, index: 1, pinned: false },
+			],
+			[1, 2],
+		);
+		expect(result.problems).toEqual([
+			{ kind: "windowMismatch", tabId: 1, windowId: 2 },
+			{ kind: "foreignParent", tabId: 2, parentTabId: 1 },
+		]);
+		expect(result.tabWindowIds).toEqual(new Map([[1, 2]]));
+		// After the tab already in window 2, as in the browser
+		expect(result.treeUpdates.get(1)?.parentTabId).toBeNull();
+		expect((result.treeUpdates.get(1)?.treeOrder ?? "") > "a0").toBe(true);
+		expect(result.treeUpdates.get(2)?.parentTabId).toBeNull();
+		expect(result.moves).toEqual([]);
+	});
+
+	test("leaves the order of windows with tab groups alone", () => {
+		const result = auditTabState(
+			tree,
+			windows,
+			browserTabs(2, 1, 3).map((t) => ({ ...t, groupId: t.id === 3 ? 7 : -1 })),
+			[1],
+		);
+		expect(result.problems).toEqual([]);
+		expect(result.moves).toEqual([]);
+	});
+
+	test("moves browser tabs that don't follow the tree", () => {
+		const result = auditTabState(tree, windows, browserTabs(2, 1, 3), [1]);
+		expect(result.problems).toEqual([
+			{ kind: "orderMismatch", windowId: 1, moveCount: 1 },
+		]);
+		expect(result.moves).toEqual([{ tabId: 1, toIndex: 0 }]);
+	});
+
+	test("keeps pinned tabs first whatever the tree order", () => {
+		const result = auditTabState(
+			tree,
+			windows,
+			[
+				{ id: 3, windowId: 1, index: 0, pinned: true },
+				{ id: 1, windowId: 1, index: 1, pinned: false },
+				{ id: 2, windowId: 1, index: 2, pinned: false },
+			],
+			[1],
+		);
+		expect(result.problems).toEqual([]);
+	});
+});
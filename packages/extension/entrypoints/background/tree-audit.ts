@@ -0,0 +1,357 @@
+import { generateKeyBetween } from "fractional-indexing";
+import {
+	type BrowserMoveOperation,
+	calculateReorderMoves,
+} from "@/entrypoints/sidepanel/lib/dnd/reorder";
+import { isClosedTab, treeOrderSort } from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab, Window } from "@/schema/src/schema";
+import {
+	calculateTreePositionForNewTab,
+	getExpectedBrowserOrder,
+	promoteOnRemove,
+	type TreeTab,
+	type TreeUpdate,
+} from "./tree-sync";
+
+/** Browser state the audit compares the DB with */
+export type AuditBrowserTab = {
+	id: number;
+	windowId: number;
+	index: number;
+	pinned: boolean;
+	/** Browser tab group; -1 or missing when the tab isn't in one */
+	groupId?: number;
+};
+
+export type AuditProblem =
+	/** A row whose tab or window no longer exists */
+	| { kind: "ghostRow"; store: "tab" | "window"; browserId: number }
+	/** A browser tab or window with no row */
+	| { kind: "missingRow"; store: "tab" | "window"; browserId: number }
+	/** A tab row that still names the window the tab was moved out of */
+	| { kind: "windowMismatch"; tabId: number; windowId: number }
+	/** Tabs that are each other's ancestors, hidden from the tree */
+	| { kind: "parentCycle"; tabIds: number[] }
+	/** A tab whose parent is in another window, or not open at all */
+	| { kind: "foreignParent"; tabId: number; parentTabId: number }
+	/** Browser tab order that doesn't follow the tree */
+	| { kind: "orderMismatch"; windowId: number; moveCount: number };
+
+export interface AuditResult {
+	problems: AuditProblem[];
+	deleteTabIds: Tab["id"][];
+	deleteWindowIds: Window["id"][];
+	/** Browser windows to add rows for */
+	missingWindowIds: number[];
+	/** Browser tabs to add rows for; their tree position is in treeUpdates */
+	missingTabIds: number[];
+	/** Tree positions to write, for existing rows and missing tabs */
+	treeUpdates: Map<number, TreeUpdate>;
+	/** Browser window to write for rows in windowMismatch, by tab ID */
+	tabWindowIds: Map<number, number>;
+	/** Browser moves that bring each window's tab order in line with the tree */
+	moves: BrowserMoveOperation[];
+}
+
+/** Recent audits that fixed something, kept in storage.local */
+export const AUDIT_LOG_KEY = "tabcanopy-audit-log";
+export const MAX_AUDIT_LOG_ENTRIES = 20;
+
+export type AuditLogEntry = { at: number; problems: AuditProblem[] };
+
+export function parseAuditLog(value: unknown): AuditLogEntry[] {
+	if (!Array.isArray(value)) return [];
+	return value.filter(
+		(entry): entry is AuditLogEntry =>
+			typeof entry === "object" &&
+			entry !== null &&
+			typeof entry.at === "number" &&
+			Array.isArray(entry.problems),
+	);
+}
+
+export function describeAuditProblem(problem: AuditProblem): string {
+	switch (problem.kind) {
+		case "ghostRow":
+			return `Removed a leftover ${problem.store} (${problem.browserId})`;
+		case "missingRow":
+			return `Added a missing ${problem.store} (${problem.browserId})`;
+		case "windowMismatch":
+			return `Moved tab ${problem.tabId} to window ${problem.windowId}, where the browser has it`;
+		case "parentCycle":
+			return `Broke a parent loop between tabs ${problem.tabIds.join(", ")}`;
+		case "foreignParent":
+			return `Moved tab ${problem.tabId} out from under tab ${problem.parentTabId}, which isn't in its window`;
+		case "orderMismatch":
+			return `Reordered ${problem.moveCount} tabs in window ${problem.windowId} to match the tree`;
+	}
+}
+
+/**
+ * Tree position for a tab taken out of its parent: at the root, among the
+ * root tabs before and after it in the browser
+ */
+function rootPositionAt(
+	windowTabs: TreeTab[],
+	tabId: number,
+	browserIndex: Map<number, number>,
+): TreeUpdate {
+	const index = browserIndex.get(tabId) ?? Number.POSITIVE_INFINITY;
+	const roots = windowTabs
+		.filter((t) => t.parentTabId === null && t.browserTabId !== tabId)
+		.sort(treeOrderSort);
+	const before = roots.filter(
+		(t) => (browserIndex.get(t.browserTabId) ?? 0) < index,
+	);
+	const after = roots.filter(
+		(t) => (browserIndex.get(t.browserTabId) ?? 0) > index,
+	);
+	const prev = before.at(-1)?.treeOrder ?? null;
+	const next = after[0]?.treeOrder ?? null;
+	// Roots out of browser order leave no gap; the order repair moves the tab
+	if (prev !== null && next !== null && prev >= next) {
+		return {
+			parentTabId: null,
+			treeOrder: generateKeyBetween(roots.at(-1)?.treeOrder ?? null, null),
+		};
+	}
+	return { parentTabId: null, treeOrder: generateKeyBetween(prev, next) };
+}
+
+/** Each set of tabs whose parent chain loops back on itself */
+function findParentCycles(tabs: TreeTab[]): number[][] {
+	const parentOf = new Map(tabs.map((t) => [t.browserTabId, t.parentTabId]));
+	const settled = new Set<number>();
+	const cycles: number[][] = [];
+
+	for (const tab of tabs) {
+		const path: number[] = [];
+		let current: number | null | undefined = tab.browserTabId;
+		while (
+			current !== null &&
+			current !== undefined &&
+			!settled.has(current) &&
+			!path.includes(current)
+		) {
+			path.push(current);
+			current = parentOf.get(current);
+		}
+		if (current !== null && current !== undefined && path.includes(current)) {
+			cycles.push(path.slice(path.indexOf(current)));
+		}
+		for (const id of path) settled.add(id);
+	}
+	return cycles;
+}
+
+/**
+ * Compare the DB with the browser and work out the smallest repair: delete
+ * ghost rows (promoting their children), add rows for tabs and windows the DB
+ * missed, follow tabs into the window the browser has them in, break parent
+ * cycles, lift tabs out of parents in other windows, and move browser tabs
+ * whose order doesn't follow the tree. Windows with browser tab groups are
+ * left in their order, since a group keeps its tabs together whatever the
+ * tree says and moving them would only be undone.
+ */
+export function auditTabState(
+	tabs: Tab[],
+	windows: Window[],
+	browserTabs: AuditBrowserTab[],
+	browserWindowIds: number[],
+): AuditResult {
+	const result: AuditResult = {
+		problems: [],
+		deleteTabIds: [],
+		deleteWindowIds: [],
+		missingWindowIds: [],
+		missingTabIds: [],
+		treeUpdates: new Map(),
+		tabWindowIds: new Map(),
+		moves: [],
+	};
+	const windowIds = new Set(browserWindowIds);
+	const browserTabMap = new Map(browserTabs.map((t) => [t.id, t]));
+	const browserIndex = new Map(browserTabs.map((t) => [t.id, t.index]));
+
+	// Windows
+	for (const win of windows) {
+		if (windowIds.has(win.browserWindowId)) continue;
+		result.problems.push({
+			kind: "ghostRow",
+			store: "window",
+			browserId: win.browserWindowId,
+		});
+		result.deleteWindowIds.push(win.id);
+	}
+	const knownWindowIds = new Set(windows.map((w) => w.browserWindowId));
+	for (const windowId of browserWindowIds) {
+		if (knownWindowIds.has(windowId)) continue;
+		result.problems.push({
+			kind: "missingRow",
+			store: "window",
+			browserId: windowId,
+		});
+		result.missingWindowIds.push(windowId);
+	}
+
+	// Only the tree fields are read, so tabs the DB missed can join as those
+	let openTabs: TreeTab[] = tabs.filter((t) => !isClosedTab(t));
+	const setTree = (tabId: number, update: TreeUpdate) => {
+		openTabs = openTabs.map((t) =>
+			t.browserTabId === tabId ? { ...t, ...update } : t,
+		);
+		result.treeUpdates.set(tabId, update);
+	};
+
+	// Ghost tab rows; closed-tab ghosts are fine while their window is open
+	// and their browser ID hasn't been reused
+	for (const tab of tabs) {
+		const stale = isClosedTab(tab)
+			? !windowIds.has(tab.browserWindowId) ||
+				browserTabMap.has(tab.browserTabId)
+			: !browserTabMap.has(tab.browserTabId);
+		if (!stale) continue;
+		result.problems.push({
+			kind: "ghostRow",
+			store: "tab",
+			browserId: tab.browserTabId,
+		});
+		result.deleteTabIds.push(tab.id);
+		if (isClosedTab(tab)) continue;
+
+		for (const [childId, update] of promoteOnRemove(
+			openTabs,
+			tab.browserTabId,
+		)) {
+			setTree(childId, update);
+		}
+		openTabs = openTabs.filter((t) => t.browserTabId !== tab.browserTabId);
+		result.treeUpdates.delete(tab.browserTabId);
+	}
+
+	const windowTabsOf = (windowId: number) =>
+		openTabs.filter((t) => t.browserWindowId === windowId);
+
+	// Rows left in the window a tab was moved out of; a tab that kept its
+	// parent moved with it, otherwise the parent check below lifts it out
+	for (const tab of [...openTabs]) {
+		const windowId = browserTabMap.get(tab.browserTabId)?.windowId;
+		if (windowId === undefined || windowId === tab.browserWindowId) continue;
+		result.problems.push({
+			kind: "windowMismatch",
+			tabId: tab.browserTabId,
+			windowId,
+		});
+		result.tabWindowIds.set(tab.browserTabId, windowId);
+		openTabs = openTabs.map((t) =>
+			t.browserTabId === tab.browserTabId
+				? { ...t, browserWindowId: windowId }
+				: t,
+		);
+	}
+	for (const tabId of result.tabWindowIds.keys()) {
+		const tab = openTabs.find((t) => t.browserTabId === tabId);
+		if (!tab || tab.parentTabId !== null) continue;
+		setTree(
+			tabId,
+			rootPositionAt(windowTabsOf(tab.browserWindowId), tabId, browserIndex),
+		);
+	}
+
+	// Break each cycle at the member that comes first in the browser
+	for (const cycle of findParentCycles(openTabs)) {
+		result.problems.push({ kind: "parentCycle", tabIds: cycle });
+		const [first] = [...cycle].sort(
+			(a, b) => (browserIndex.get(a) ?? 0) - (browserIndex.get(b) ?? 0),
+		);
+		const tab = openTabs.find((t) => t.browserTabId === first);
+		if (!tab) continue;
+		setTree(
+			first,
+			rootPositionAt(windowTabsOf(tab.browserWindowId), first, browserIndex),
+		);
+	}
+
+	// Parents in another window, or not open (ghost rows were promoted above)
+	const openById = new Map(openTabs.map((t) => [t.browserTabId, t]));
+	for (const tab of openTabs) {
+		if (tab.parentTabId === null) continue;
+		const parent = openById.get(tab.parentTabId);
+		if (parent && parent.browserWindowId === tab.browserWindowId) continue;
+		result.problems.push({
+			kind: "foreignParent",
+			tabId: tab.browserTabId,
+			parentTabId: tab.parentTabId,
+		});
+		setTree(
+			tab.browserTabId,
+			rootPositionAt(
+				windowTabsOf(tab.browserWindowId),
+				tab.browserTabId,
+				browserIndex,
+			),
+		);
+	}
+
+	// Browser tabs the DB missed, placed like a newly created tab
+	const knownTabIds = new Set(openTabs.map((t) => t.browserTabId));
+	for (const browserTab of [...browserTabs].sort((a, b) => a.index - b.index)) {
+		if (knownTabIds.has(browserTab.id)) continue;
+		result.problems.push({
+			kind: "missingRow",
+			store: "tab",
+			browserId: browserTab.id,
+		});
+		result.missingTabIds.push(browserTab.id);
+		const windowTabs = windowTabsOf(browserTab.windowId);
+		let update: TreeUpdate;
+		try {
+			update = calculateTreePositionForNewTab(
+				windowTabs,
+				browserTabs.filter((t) => t.windowId === browserTab.windowId),
+				browserTab.index,
+				browserTab.id,
+			);
+		} catch {
+			// Siblings out of browser order leave no gap to insert into
+			update = rootPositionAt(windowTabs, browserTab.id, browserIndex);
+		}
+		result.treeUpdates.set(browserTab.id, update);
+		openTabs.push({
+			browserTabId: browserTab.id,
+			browserWindowId: browserTab.windowId,
+			tabIndex: browserTab.index,
+			...update,
+		});
+	}
+
+	// Browser order; pinned tabs always come first, whatever the tree says
+	for (const windowId of browserWindowIds) {
+		const grouped = browserTabs.some(
+			(t) => t.windowId === windowId && (t.groupId ?? -1) !== -1,
+		);
+		if (grouped) continue;
+		const windowTabs = windowTabsOf(windowId);
+		const expected = getExpectedBrowserOrder(windowTabs);
+		const isPinned = (id: number) => browserTabMap.get(id)?.pinned ?? false;
+		const targetIds = [...expected.keys()].sort(
+			(a, b) =>
+				Number(isPinned(b)) - Number(isPinned(a)) ||
+				(expected.get(a) ?? 0) - (expected.get(b) ?? 0),
+		);
+		const currentIds = browserTabs
+			.filter((t) => t.windowId === windowId)
+			.sort((a, b) => a.index - b.index)
+			.map((t) => t.id);
+		const moves = calculateReorderMoves(currentIds, targetIds);
+		if (moves.length === 0) continue;
+		result.problems.push({
+			kind: "orderMismatch",
+			windowId,
+			moveCount: moves.length,
+		});
+		result.moves.push(...moves);
+	}
+
+	return result;
+}
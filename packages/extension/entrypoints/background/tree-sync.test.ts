@@ -1,48 +1,17 @@
 import { describe, expect, test } from "bun:test";
+import { createMockTab } from "@/entrypoints/sidepanel/lib/tests/mock-tab";
 import type { Tab } from "@/schema/src/schema";
 import {
+	adoptChildrenOnRemove,
 	buildTree,
 	flattenTree,
 	flattenTreeToBrowserOrder,
+	getClosedTabsToEvict,
 	getExpectedBrowserOrder,
 	inferTreeFromBrowserMove,
 	promoteOnRemove,
 } from "./tree-sync";
 
-// Helper to create mock tabs
-function createMockTab(
-	browserTabId: number,
-	parentTabId: number | null = null,
-	treeOrder = "a0",
-): Tab {
-	return {
-		id: `tab-${browserTabId}` as Tab["id"],
-		browserTabId,
-		browserWindowId: 1,
-		tabIndex: browserTabId,
-		parentTabId,
-		treeOrder,
-		isCollapsed: false,
-		title: `Tab ${browserTabId}`,
-		url: `about:blank?${browserTabId}`,
-		favIconUrl: null,
-		titleOverride: null,
-		active: false,
-		pinned: false,
-		highlighted: false,
-		discarded: false,
-		frozen: false,
-		autoDiscardable: true,
-		audible: false,
-		mutedInfo: null,
-		status: "complete",
-		groupId: null,
-		createdAt: new Date(),
-		updatedAt: new Date(),
-		deletedAt: null,
-	};
-}
-
 describe("buildTree and flattenTree", () => {
 	test("flattens tree in depth-first order", () => {
 		// Tree structure:
@@ -161,6 +130,33 @@ describe("promoteOnRemove", () => {
 	});
 });
 
+describe("adoptChildrenOnRemove", () => {
+	test("moves direct children after the survivor's own children", () => {
+		// survivor(1) -> own(2); duplicate(3) -> a(4) -> deep(6), b(5)
+		const tabs = [
+			createMockTab(1, null, "a0"),
+			createMockTab(2, 1, "a0"),
+			createMockTab(3, null, "a1"),
+			createMockTab(4, 3, "a0"),
+			createMockTab(5, 3, "a1"),
+			createMockTab(6, 4, "a0"),
+		];
+		const updates = adoptChildrenOnRemove(tabs, 3, 1);
+		expect([...updates.keys()]).toEqual([4, 5]);
+		expect(updates.get(4)?.parentTabId).toBe(1);
+		expect(updates.get(5)?.parentTabId).toBe(1);
+		const order4 = updates.get(4)?.treeOrder ?? "";
+		const order5 = updates.get(5)?.treeOrder ?? "";
+		expect(order4 > "a0").toBe(true);
+		expect(order4 < order5).toBe(true);
+	});
+
+	test("returns empty map when the duplicate has no children", () => {
+		const tabs = [createMockTab(1, null, "a0"), createMockTab(2, null, "a1")];
+		expect(adoptChildrenOnRemove(tabs, 2, 1).size).toBe(0);
+	});
+});
+
 describe("inferTreeFromBrowserMove", () => {
 	test("parent moved after child flattens child and maintains order", () => {
 		// a(1), b(2), c(3) with c child of b -> browser order 1,2,3. Move b to after c -> 1,3,2.
@@ -213,3 +209,28 @@ describe("inferTreeFromBrowserMove", () => {
 		expect(updates.size).toBe(1);
 	});
 });
+
+describe("getClosedTabsToEvict", () => {
+	const closedAt = (tab: Tab, ms: number): Tab => ({
+		...tab,
+		deletedAt: new Date(ms),
+	});
+
+	test("evicts the oldest closed tabs beyond the limit", () => {
+		const tabs = [
+			createMockTab(1),
+			closedAt(createMockTab(2), 1000),
+			closedAt(createMockTab(3), 3000),
+			closedAt(createMockTab(4), 2000),
+		];
+		expect(getClosedTabsToEvict(tabs, 1, 2)).toEqual(["tab-2" as Tab["id"]]);
+	});
+
+	test("only considers closed tabs of the given window", () => {
+		const otherWindow = {
+			...closedAt(createMockTab(2), 1000),
+			browserWindowId: 2,
+		};
+		expect(getClosedTabsToEvict([otherWindow], 1, 0)).toEqual([]);
+	});
+});
@@ -1,6 +1,7 @@
 import { generateKeyBetween, generateNKeysBetween } from "fractional-indexing";
 import {
 	DEFAULT_TREE_ORDER,
+	isClosedTab,
 	treeOrderSort,
 } from "@/entrypoints/sidepanel/lib/tree";
 import type { Tab } from "@/schema/src/schema";
@@ -8,6 +9,12 @@ import type { Tab } from "@/schema/src/schema";
 /** Tree-only update for a tab (parentTabId + treeOrder) */
 export type TreeUpdate = { parentTabId: number | null; treeOrder: string };
 
+/** The fields of a tab row the tree helpers read */
+export type TreeTab = Pick<
+	Tab,
+	"browserTabId" | "browserWindowId" | "tabIndex" | "parentTabId" | "treeOrder"
+>;
+
 /** Result of inferTreeFromBrowserMove: all tab updates and which IDs were flattened */
 export type InferTreeFromBrowserMoveResult = {
 	updates: Map<number, TreeUpdate>;
@@ -17,21 +24,21 @@ export type InferTreeFromBrowserMoveResult = {
 /**
  * Tree structure for a tab node
  */
-interface TreeNode {
-	tab: Tab;
-	children: TreeNode[];
+interface TreeNode<T extends TreeTab = Tab> {
+	tab: T;
+	children: TreeNode<T>[];
 }
 
 /**
  * Build a tree structure from a flat list of tabs
  */
-export function buildTree(tabs: Tab[]): TreeNode[] {
-	const tabMap = new Map<number, Tab>();
+export function buildTree<T extends TreeTab>(tabs: T[]): TreeNode<T>[] {
+	const tabMap = new Map<number, T>();
 	for (const tab of tabs) {
 		tabMap.set(tab.browserTabId, tab);
 	}
 
-	const childrenMap = new Map<number | null, Tab[]>();
+	const childrenMap = new Map<number | null, T[]>();
 	for (const tab of tabs) {
 		const parentId = tab.parentTabId;
 		let parent = childrenMap.get(parentId);
@@ -46,7 +53,7 @@ export function buildTree(tabs: Tab[]): TreeNode[] {
 		children.sort(treeOrderSort);
 	}
 
-	function buildNode(tab: Tab): TreeNode {
+	function buildNode(tab: T): TreeNode<T> {
 		const children = childrenMap.get(tab.browserTabId) ?? [];
 		return {
 			tab,
@@ -61,10 +68,10 @@ export function buildTree(tabs: Tab[]): TreeNode[] {
 /**
  * Flatten a tree into depth-first order (for browser tab ordering)
  */
-export function flattenTree(nodes: TreeNode[]): Tab[] {
-	const result: Tab[] = [];
+export function flattenTree<T extends TreeTab>(nodes: TreeNode<T>[]): T[] {
+	const result: T[] = [];
 
-	function visit(node: TreeNode) {
+	function visit(node: TreeNode<T>) {
 		result.push(node.tab);
 		for (const child of node.children) {
 			visit(child);
@@ -81,7 +88,7 @@ export function flattenTree(nodes: TreeNode[]): Tab[] {
 /**
  * Get the expected browser index for each tab based on tree structure
  */
-export function getExpectedBrowserOrder(tabs: Tab[]): Map<number, number> {
+export function getExpectedBrowserOrder(tabs: TreeTab[]): Map<number, number> {
 	const tree = buildTree(tabs);
 	const flat = flattenTree(tree);
 	const order = new Map<number, number>();
@@ -101,23 +108,51 @@ export function flattenTreeToBrowserOrder(tabs: Tab[]): number[] {
 	return flat.map((t) => t.browserTabId);
 }
 
+/**
+ * Re-parent the direct children of `fromTabId` onto `parentTabId`, in their
+ * current order, with treeOrders between `prevOrder` and `nextOrder`.
+ * Grandchildren and deeper descendants stay under their (moved) parents.
+ */
+function reparentDirectChildren(
+	tabs: TreeTab[],
+	fromTabId: number,
+	parentTabId: number | null,
+	prevOrder: string | null,
+	nextOrder: string | null,
+): Map<number, TreeUpdate> {
+	const directChildren = tabs
+		.filter((t) => t.parentTabId === fromTabId)
+		.sort(treeOrderSort);
+	if (directChildren.length === 0) return new Map();
+
+	const newTreeOrders = generateNKeysBetween(
+		prevOrder,
+		nextOrder,
+		directChildren.length,
+	);
+
+	const updates = new Map<number, TreeUpdate>();
+	for (let i = 0; i < directChildren.length; i++) {
+		updates.set(directChildren[i].browserTabId, {
+			parentTabId,
+			treeOrder: newTreeOrders[i],
+		});
+	}
+	return updates;
+}
+
 /**
  * Given a removed tab, return tree updates for direct children only:
  * they are promoted to the removed tab's parent with new treeOrder between siblings.
  * Grandchildren and deeper descendants are unchanged (they stay under promoted children).
  */
 export function promoteOnRemove(
-	tabs: Tab[],
+	tabs: TreeTab[],
 	removedTabId: number,
 ): Map<number, TreeUpdate> {
 	const removedTab = tabs.find((t) => t.browserTabId === removedTabId);
 	if (!removedTab) return new Map();
 
-	const directChildren = tabs
-		.filter((t) => t.parentTabId === removedTabId)
-		.sort(treeOrderSort);
-	if (directChildren.length === 0) return new Map();
-
 	const siblings = tabs
 		.filter(
 			(t) =>
@@ -126,8 +161,8 @@ export function promoteOnRemove(
 		)
 		.sort(treeOrderSort);
 
-	let prevSibling: Tab | undefined;
-	let nextSibling: Tab | undefined;
+	let prevSibling: TreeTab | undefined;
+	let nextSibling: TreeTab | undefined;
 	for (let i = 0; i < siblings.length; i++) {
 		if (siblings[i].treeOrder < removedTab.treeOrder) {
 			prevSibling = siblings[i];
@@ -137,20 +172,56 @@ export function promoteOnRemove(
 		}
 	}
 
-	const newTreeOrders = generateNKeysBetween(
+	return reparentDirectChildren(
+		tabs,
+		removedTabId,
+		removedTab.parentTabId,
 		prevSibling?.treeOrder ?? null,
 		nextSibling?.treeOrder ?? null,
-		directChildren.length,
 	);
+}
 
-	const updates = new Map<number, TreeUpdate>();
-	for (let i = 0; i < directChildren.length; i++) {
-		updates.set(directChildren[i].browserTabId, {
-			parentTabId: removedTab.parentTabId,
-			treeOrder: newTreeOrders[i],
-		});
-	}
-	return updates;
+/**
+ * Given a tab about to be removed in favour of `survivorTabId` (e.g. a
+ * duplicate), return tree updates moving its direct children under the
+ * survivor, after the survivor's own children. Deeper descendants stay under
+ * the moved children, as with promoteOnRemove.
+ */
+export function adoptChildrenOnRemove(
+	tabs: Tab[],
+	removedTabId: number,
+	survivorTabId: number,
+): Map<number, TreeUpdate> {
+	const lastSurvivorChild = tabs
+		.filter((t) => t.parentTabId === survivorTabId)
+		.sort(treeOrderSort)
+		.at(-1);
+	return reparentDirectChildren(
+		tabs,
+		removedTabId,
+		survivorTabId,
+		lastSurvivorChild?.treeOrder ?? null,
+		null,
+	);
+}
+
+/**
+ * Pick the closed-tab ghosts of a window that exceed `limit`, oldest first.
+ * Returns the DB ids of the rows to hard-delete.
+ */
+export function getClosedTabsToEvict(
+	tabs: Tab[],
+	windowId: number,
+	limit: number,
+): Tab["id"][] {
+	const closed = tabs
+		.filter((t) => t.browserWindowId === windowId && isClosedTab(t))
+		.sort(
+			(a, b) =>
+				new Date(b.deletedAt ?? 0).getTime() -
+				new Date(a.deletedAt ?? 0).getTime(),
+		);
+	return closed.slice(limit).map((t) => t.id);
 }
 
 /**
@@ -375,7 +446,7 @@ export function isAncestor(
  * @param newTabId - The ID of the new tab (to exclude from lookups)
  */
 export function calculateTreePositionForNewTab(
-	existingTabs: Tab[],
+	existingTabs: TreeTab[],
 	browserTabs: Array<{ id: number; index: number }>,
 	newTabIndex: number,
 	newTabId: number,
@@ -384,7 +455,7 @@ export function calculateTreePositionForNewTab(
 	treeOrder: string;
 } {
 	// Create a map from browserTabId to Tab for quick lookup
-	const existingMap = new Map<number, Tab>();
+	const existingMap = new Map<number, TreeTab>();
 	for (const tab of existingTabs) {
 		existingMap.set(tab.browserTabId, tab);
 	}
@@ -427,8 +498,8 @@ export function calculateTreePositionForNewTab(
 
 	// Find insertion point: which siblings are before/after the new tab in browser order?
 	// Use the browserTabs array directly to get current indices
-	let insertAfterSibling: Tab | null = null;
-	let insertBeforeSibling: Tab | null = null;
+	let insertAfterSibling: TreeTab | null = null;
+	let insertBeforeSibling: TreeTab | null = null;
 
 	// For each sibling, find their current browser index from browserTabs
 	for (const sibling of siblings) {
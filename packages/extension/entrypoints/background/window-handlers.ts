@@ -1,11 +1,13 @@
+import { isClosedTab } from "@/entrypoints/sidepanel/lib/tree";
+import type { Tab, Window } from "@/schema/src/schema";
 import { log, makeWindowId } from "./constants";
 import type { DbOperations } from "./db-operations";
 import { queuedHandler } from "./event-queue";
-import { windowToRecord } from "./mappers";
+import { windowToRecord, withWindowUiState } from "./mappers";
 import { hasWindowId } from "./type-guards";
 
 export const setupWindowListeners = (dbOps: DbOperations) => {
-	const { putItems, deleteItems } = dbOps;
+	const { putItems, deleteItems, getAll } = dbOps;
 
 	// Handler for window creation
 	const handleWindowCreated = async (win: Browser.windows.Window) => {
@@ -22,6 +24,13 @@ export const setupWindowListeners = (dbOps: DbOperations) => {
 	const handleWindowRemoved = async (windowId: number) => {
 		log("[Background] Window removed:", windowId);
 		await deleteItems("window", [makeWindowId(windowId)]);
+		// Closed-tab ghosts can't be reopened into a window that no longer exists
+		const ghostIds = (await getAll<Tab>("tab"))
+			.filter((t) => t.browserWindowId === windowId && isClosedTab(t))
+			.map((t) => t.id);
+		if (ghostIds.length > 0) {
+			await deleteItems("tab", ghostIds);
+		}
 	};
 
 	browser.windows.onRemoved.addListener(
@@ -32,7 +41,14 @@ export const setupWindowListeners = (dbOps: DbOperations) => {
 	const handleWindowFocusChanged = async (windowId: number) => {
 		log("[Background] Window focus changed:", windowId);
 		const windows = await browser.windows.getAll();
-		const windowRecords = windows.filter(hasWindowId).map(windowToRecord);
+		const existingWindows = new Map(
+			(await getAll<Window>("window")).map((w) => [w.browserWindowId, w]),
+		);
+		const windowRecords = windows
+			.filter(hasWindowId)
+			.map((win) =>
+				withWindowUiState(windowToRecord(win), existingWindows.get(win.id)),
+			);
 		if (windowRecords.length > 0) {
 			await putItems("window", windowRecords);
 		}
@@ -0,0 +1,40 @@
+import { pickWorkspaceColor } from "@/entrypoints/sidepanel/lib/workspaces";
+import type { InsertWorkspace, Window, Workspace } from "@/schema/src/schema";
+import { log, makeWorkspaceId } from "./constants";
+import type { DbOperations } from "./db-operations";
+
+/**
+ * Create an empty workspace with the next unused accent color
+ */
+export async function createWorkspace(
+	dbOps: DbOperations,
+	name: string,
+): Promise<void> {
+	const workspaces = await dbOps.getAll<Workspace>("workspace");
+
+	log("[Background] Creating workspace:", name);
+	const workspace: InsertWorkspace = {
+		id: makeWorkspaceId(),
+		name,
+		color: pickWorkspaceColor(workspaces),
+		deletedAt: null,
+	};
+	await dbOps.putItems("workspace", [workspace]);
+}
+
+/**
+ * Delete a workspace; its windows go back to the default workspace
+ */
+export async function deleteWorkspace(
+	dbOps: DbOperations,
+	workspaceId: string,
+): Promise<void> {
+	const windows = await dbOps.getAll<Window>("window");
+	const members = windows
+		.filter((w) => w.workspaceId === workspaceId)
+		.map((w) => ({ ...w, workspaceId: null }));
+	if (members.length > 0) {
+		await dbOps.putItems("window", members);
+	}
+	await dbOps.deleteItems("workspace", [workspaceId]);
+}
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import {
+	IdbTransportAdapterProvider,
+	type UseIdbTransportAdapterOptions,
+} from "../sidepanel/lib/db/IdbTransportAdapterProvider";
+import { MemoryCollectionProvider } from "../sidepanel/lib/db/MemoryCollectionProvider";
+import { usePreferencesSync } from "../sidepanel/store/usePreferences";
+import { GroupPage } from "./GroupPage";
+
+/**
+ * Group node page: connects to the background like the side panel so it can
+ * show (and rename) the group from the synced tab tree
+ */
+function App() {
+	usePreferencesSync();
+	const options: UseIdbTransportAdapterOptions = useMemo(() => {
+		return {
+			enabled: true,
+			maxRetries: -1, // Infinite retries
+			retryDelay: 100,
+			maxRetryDelay: 5000,
+		};
+	}, []);
+
+	return (
+		<IdbTransportAdapterProvider options={options}>
+			<MemoryCollectionProvider>
+				<GroupPage />
+			</MemoryCollectionProvider>
+		</IdbTransportAdapterProvider>
+	);
+}
+
+export default App;
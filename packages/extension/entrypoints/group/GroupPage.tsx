@@ -0,0 +1,132 @@
+import { Folder, X } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useIdbAdapter } from "../sidepanel/lib/db/IdbTransportAdapterProvider";
+import {
+	useTabcanopyDB,
+	useTableRows,
+} from "../sidepanel/lib/db/MemoryCollectionProvider";
+import { getGroupContents, getGroupName } from "../sidepanel/lib/group-node";
+import { getDescendantIds, isClosedTab } from "../sidepanel/lib/tree";
+
+/**
+ * A group node: its name (renamable, stored as the tab's titleOverride) and
+ * the tabs filed under it
+ */
+export const GroupPage = () => {
+	const { useCollection } = useTabcanopyDB();
+	const tabCollection = useCollection("tabTable");
+	const allTabs = useTableRows("tabTable");
+	const adapter = useIdbAdapter();
+	const [groupTabId, setGroupTabId] = useState<number | null>(null);
+	const [editValue, setEditValue] = useState<string | null>(null);
+
+	useEffect(() => {
+		browser.tabs.getCurrent().then((tab) => setGroupTabId(tab?.id ?? null));
+	}, []);
+
+	const tabs = useMemo(() => allTabs.filter((t) => !isClosedTab(t)), [allTabs]);
+
+	const group = tabs.find((t) => t.browserTabId === groupTabId);
+	const name = group
+		? getGroupName(group)
+		: getGroupName({ titleOverride: null });
+	const { children, descendantCount } = useMemo(
+		() =>
+			groupTabId === null
+				? { children: [], descendantCount: 0 }
+				: getGroupContents(tabs, groupTabId),
+		[tabs, groupTabId],
+	);
+
+	// The tab title mirrors the name, so it shows in the tab strip and history
+	useEffect(() => {
+		document.title = name;
+	}, [name]);
+
+	const handleRename = useCallback(() => {
+		if (editValue === null || !group) return;
+		const titleOverride = editValue.trim() || null;
+		setEditValue(null);
+		if (titleOverride === group.titleOverride) return;
+		tabCollection.update(group.id, (draft) => {
+			draft.titleOverride = titleOverride;
+		});
+		adapter.sendPatchTab(group.browserTabId, { titleOverride });
+	}, [adapter, editValue, group, tabCollection]);
+
+	const handleCloseGroup = useCallback(() => {
+		if (groupTabId === null) return;
+		// A group closes as a unit: its tabs first, then the group page itself
+		browser.tabs.remove([...getDescendantIds(tabs, groupTabId), groupTabId]);
+	}, [tabs, groupTabId]);
+
+	return (
+		<div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-700 dark:text-slate-200">
+			<div className="max-w-2xl mx-auto p-8">
+				<div className="flex items-center gap-3">
+					<Folder size={28} className="shrink-0 text-amber-500" />
+					{editValue !== null ? (
+						<input
+							// biome-ignore lint/a11y/noAutofocus: editing starts from an explicit click
+							autoFocus
+							className="flex-1 text-2xl font-semibold px-2 py-1 rounded border border-blue-400 dark:border-blue-500 bg-white dark:bg-slate-800 outline-none focus:ring-1 focus:ring-blue-500"
+							value={editValue}
+							onChange={(e) => setEditValue(e.target.value)}
+							onBlur={handleRename}
+							onKeyDown={(e) => {
+								if (e.key === "Enter") handleRename();
+								if (e.key === "Escape") setEditValue(null);
+							}}
+						/>
+					) : (
+						<button
+							type="button"
+							className="flex-1 text-left text-2xl font-semibold truncate cursor-text"
+							onClick={() => group && setEditValue(group.titleOverride ?? "")}
+							title="Rename group"
+						>
+							{name}
+						</button>
+					)}
+					<button
+						type="button"
+						className="shrink-0 flex items-center gap-1 px-2 py-1 text-xs rounded text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 cursor-pointer"
+						onClick={handleCloseGroup}
+						title="Close the group and all its tabs"
+					>
+						<X size={14} />
+						Close group
+					</button>
+				</div>
+				<div className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+					{descendantCount === 1 ? "1 tab" : `${descendantCount} tabs`}
+				</div>
+				<ul className="mt-6 flex flex-col gap-1">
+					{children.map((child) => (
+						<li key={child.id}>
+							<button
+								type="button"
+								className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left rounded-md hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer"
+								onClick={() =>
+									browser.tabs.update(child.browserTabId, { active: true })
+								}
+							>
+								<span className="flex-1 min-w-0 truncate">
+									{child.titleOverride ||
+										child.title ||
+										child.url ||
+										"Untitled"}
+								</span>
+								{child.url && (
+									<span className="shrink-0 max-w-[40%] truncate text-xs text-slate-400 dark:text-slate-500">
+										{child.url}
+									</span>
+								)}
+							</button>
+						</li>
+					))}
+				</ul>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,10 @@
+import ReactDOM from "react-dom/client";
+import App from "./App.tsx";
+import "../sidepanel/style.css";
+
+const root = document.getElementById("root");
+if (!root) {
+	throw new Error("Root element not found");
+}
+
+ReactDOM.createRoot(root).render(<App />);
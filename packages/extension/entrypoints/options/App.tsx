@@ -0,0 +1,339 @@
+import { type ReactNode, useCallback, useEffect, useState } from "react";
+import {
+	JOURNAL_FILE_VERSION,
+	type JournalFile,
+	readJournal,
+} from "../background/journal-store";
+import { THUMBNAIL_PERMISSIONS } from "../background/thumbnail-store";
+import {
+	AUDIT_LOG_KEY,
+	type AuditLogEntry,
+	describeAuditProblem,
+	parseAuditLog,
+} from "../background/tree-audit";
+import {
+	CLOSE_BEHAVIOR_LABELS,
+	CLOSE_BEHAVIORS,
+	DENSITIES,
+	DENSITY_LABELS,
+	MAX_INDENT_WIDTH,
+	MIN_INDENT_WIDTH,
+	NEW_TAB_PLACEMENT_LABELS,
+	NEW_TAB_PLACEMENTS,
+	THEME_LABELS,
+	THEMES,
+} from "../sidepanel/lib/preferences";
+import {
+	savePreferences,
+	usePreferences,
+	usePreferencesSync,
+} from "../sidepanel/store/usePreferences";
+
+const Field = ({
+	label,
+	hint,
+	children,
+}: {
+	label: string;
+	hint?: string;
+	children: ReactNode;
+}) => (
+	<div className="flex flex-col gap-1">
+		<span className="text-sm font-medium">{label}</span>
+		{children}
+		{hint && (
+			<span className="text-xs text-slate-500 dark:text-slate-400">{hint}</span>
+		)}
+	</div>
+);
+
+function Select<T extends string>({
+	value,
+	options,
+	labels,
+	onChange,
+}: {
+	value: T;
+	options: readonly T[];
+	labels: Record<T, string>;
+	onChange: (value: T) => void;
+}) {
+	return (
+		<select
+			className="bg-slate-50 dark:bg-slate-700 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+			value={value}
+			onChange={(e) => onChange(e.target.value as T)}
+		>
+			{options.map((option) => (
+				<option key={option} value={option}>
+					{labels[option]}
+				</option>
+			))}
+		</select>
+	);
+}
+
+/** What the background consistency audit repaired recently, newest first */
+const AuditLog = () => {
+	const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+
+	useEffect(() => {
+		browser.storage.local
+			.get(AUDIT_LOG_KEY)
+			.then((stored) => setEntries(parseAuditLog(stored[AUDIT_LOG_KEY])))
+			.catch((e) => console.error("Failed to load the repair log:", e));
+
+		const handleChanged = (
+			changes: Record<string, Browser.storage.StorageChange>,
+			areaName: string,
+		) => {
+			const change = changes[AUDIT_LOG_KEY];
+			if (areaName !== "local" || !change) return;
+			setEntries(parseAuditLog(change.newValue));
+		};
+		browser.storage.onChanged.addListener(handleChanged);
+		return () => browser.storage.onChanged.removeListener(handleChanged);
+	}, []);
+
+	return (
+		<Field
+			label="Recent automatic repairs"
+			hint="The background checks the tree against the browser every minute and fixes what drifted."
+		>
+			{entries.length === 0 ? (
+				<span className="text-sm text-slate-500 dark:text-slate-400">
+					Nothing needed fixing
+				</span>
+			) : (
+				<ul className="flex flex-col gap-1 text-xs">
+					{entries.toReversed().map((entry) => (
+						<li key={entry.at}>
+							<span className="text-slate-500 dark:text-slate-400">
+								{new Date(entry.at).toLocaleString()}
+							</span>
+							<ul className="pl-3">
+								{entry.problems.map((problem) => (
+									<li key={describeAuditProblem(problem)}>
+										{describeAuditProblem(problem)}
+									</li>
+								))}
+							</ul>
+						</li>
+					))}
+				</ul>
+			)}
+		</Field>
+	);
+};
+
+/** Hover preview thumbnails, captured only while the host permission is granted */
+const PreviewThumbnails = () => {
+	const [granted, setGranted] = useState(false);
+
+	useEffect(() => {
+		const refresh = () => {
+			browser.permissions
+				.contains(THUMBNAIL_PERMISSIONS)
+				.then(setGranted)
+				.catch((e) => console.error("Failed to check site access:", e));
+		};
+		refresh();
+		// Site access can also be changed from the browser's extension settings
+		browser.permissions.onAdded.addListener(refresh);
+		browser.permissions.onRemoved.addListener(refresh);
+		return () => {
+			browser.permissions.onAdded.removeListener(refresh);
+			browser.permissions.onRemoved.removeListener(refresh);
+		};
+	}, []);
+
+	// request() has to be called right in the click handler, as a user gesture
+	const handleChange = (enabled: boolean) => {
+		const change = enabled
+			? browser.permissions.request(THUMBNAIL_PERMISSIONS)
+			: browser.permissions
+					.remove(THUMBNAIL_PERMISSIONS)
+					.then((removed) => !removed);
+		change
+			.then(setGranted)
+			.catch((e) => console.error("Failed to change site access:", e));
+	};
+
+	return (
+		<div className="flex flex-col gap-1">
+			<label className="flex items-center gap-2 text-sm cursor-pointer">
+				<input
+					type="checkbox"
+					checked={granted}
+					onChange={(e) => handleChange(e.target.checked)}
+				/>
+				Show page thumbnails in tab previews
+			</label>
+			<span className="pl-6 text-xs text-slate-500 dark:text-slate-400">
+				Capturing a page needs access to all sites, which the browser asks for
+				when you turn this on.
+			</span>
+		</div>
+	);
+};
+
+function openSidePanelSettings() {
+	if (navigator.userAgent.includes("Firefox")) {
+		browser.tabs.create({
+			url: "https://support.mozilla.org/en-US/kb/customize-firefox-sidebars",
+		});
+	} else {
+		browser.tabs.create({ url: "chrome://settings/?search=side+panel" });
+	}
+}
+
+/**
+ * Options page: edits the synced preferences, which the side panel and the
+ * background pick up as soon as they change
+ */
+function App() {
+	usePreferencesSync();
+	const preferences = usePreferences((s) => s.preferences);
+	const [journalStatus, setJournalStatus] = useState<string | null>(null);
+
+	const handleExportJournal = useCallback(async () => {
+		try {
+			const stored = await readJournal();
+			if (!stored) {
+				setJournalStatus("Nothing recorded yet");
+				return;
+			}
+			const file: JournalFile = {
+				version: JOURNAL_FILE_VERSION,
+				extensionUrl: browser.runtime.getURL("/"),
+				...stored,
+			};
+			const now = new Date();
+			const blob = new Blob([JSON.stringify(file)], {
+				type: "application/json",
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `tabcanopy-journal-${now.toISOString().slice(0, 10)}.json`;
+			link.click();
+			URL.revokeObjectURL(url);
+			setJournalStatus(`Exported ${stored.entries.length} entries`);
+		} catch (e) {
+			console.error("Failed to export the event journal:", e);
+			setJournalStatus("Couldn't read the journal");
+		}
+	}, []);
+
+	return (
+		<div className="min-h-screen bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white/90">
+			<div className="max-w-lg mx-auto p-6 flex flex-col gap-5">
+				<h1 className="text-lg font-semibold">Tab Canopy Settings</h1>
+
+				<Field label="New tabs opened from a tab">
+					<Select
+						value={preferences.newTabPlacement}
+						options={NEW_TAB_PLACEMENTS}
+						labels={NEW_TAB_PLACEMENT_LABELS}
+						onChange={(newTabPlacement) => savePreferences({ newTabPlacement })}
+					/>
+				</Field>
+
+				<Field
+					label="Closing a tab with children"
+					hint="Group nodes always close with their contents."
+				>
+					<Select
+						value={preferences.closeBehavior}
+						options={CLOSE_BEHAVIORS}
+						labels={CLOSE_BEHAVIOR_LABELS}
+						onChange={(closeBehavior) => savePreferences({ closeBehavior })}
+					/>
+				</Field>
+
+				<Field label="Theme">
+					<Select
+						value={preferences.theme}
+						options={THEMES}
+						labels={THEME_LABELS}
+						onChange={(theme) => savePreferences({ theme })}
+					/>
+				</Field>
+
+				<Field label="Density">
+					<Select
+						value={preferences.density}
+						options={DENSITIES}
+						labels={DENSITY_LABELS}
+						onChange={(density) => savePreferences({ density })}
+					/>
+				</Field>
+
+				<Field label={`Indent width: ${preferences.indentWidth}px`}>
+					<input
+						type="range"
+						min={MIN_INDENT_WIDTH}
+						max={MAX_INDENT_WIDTH}
+						step={2}
+						value={preferences.indentWidth}
+						onChange={(e) =>
+							savePreferences({ indentWidth: Number(e.target.value) })
+						}
+					/>
+				</Field>
+
+				<PreviewThumbnails />
+
+				<label className="flex items-center gap-2 text-sm cursor-pointer">
+					<input
+						type="checkbox"
+						checked={preferences.debugLogging}
+						onChange={(e) =>
+							savePreferences({ debugLogging: e.target.checked })
+						}
+					/>
+					Log background activity to the console (for bug reports)
+				</label>
+
+				<div className="flex flex-col gap-1">
+					<label className="flex items-center gap-2 text-sm cursor-pointer">
+						<input
+							type="checkbox"
+							checked={preferences.eventJournal}
+							onChange={(e) =>
+								savePreferences({ eventJournal: e.target.checked })
+							}
+						/>
+						Record tab events so tree bugs can be replayed
+					</label>
+					<div className="flex items-center gap-2 pl-6">
+						<button
+							type="button"
+							className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+							onClick={handleExportJournal}
+						>
+							Export journal
+						</button>
+						{journalStatus && (
+							<span className="text-xs text-slate-500 dark:text-slate-400">
+								{journalStatus}
+							</span>
+						)}
+					</div>
+				</div>
+
+				<AuditLog />
+
+				<button
+					type="button"
+					className="self-start text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+					onClick={openSidePanelSettings}
+				>
+					Change side panel position…
+				</button>
+			</div>
+		</div>
+	);
+}
+
+export default App;
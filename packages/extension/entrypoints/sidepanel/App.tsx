@@ -4,6 +4,7 @@ import {
 	type UseIdbTransportAdapterOptions,
 } from "./lib/db/IdbTransportAdapterProvider";
 import { MemoryCollectionProvider } from "./lib/db/MemoryCollectionProvider";
+import { usePreferencesSync } from "./store/usePreferences";
 
 /**
  * Inner component: memory collections + sync from background.
@@ -18,6 +19,7 @@ function AppContent() {
 }
 
 function App() {
+	usePreferencesSync();
 	const options: UseIdbTransportAdapterOptions = useMemo(() => {
 		return {
 			enabled: true,
@@ -0,0 +1,113 @@
+import { Plus, Trash2 } from "lucide-react";
+import { useCallback, useState } from "react";
+import {
+	type AutoGroupAction,
+	describeAutoGroupRule,
+} from "../lib/auto-group-rules";
+import { useAutoGroupRules } from "../lib/useAutoGroupRules";
+
+const TARGET_PLACEHOLDERS: Record<AutoGroupAction, string> = {
+	childOfPinned: "Pinned tab URL, e.g. *.atlassian.net/jira*",
+	group: "Group name, e.g. GitHub",
+};
+
+/**
+ * Rules that place new tabs by URL: under a pinned tab, or in a named group
+ * node. Tabs opened from another tab still follow their opener.
+ */
+export const AutoGroupRulesPanel = () => {
+	const [rules, saveRules] = useAutoGroupRules();
+	const [match, setMatch] = useState("");
+	const [action, setAction] = useState<AutoGroupAction>("group");
+	const [target, setTarget] = useState("");
+
+	const handleAdd = useCallback(
+		(event: React.FormEvent) => {
+			event.preventDefault();
+			const trimmedMatch = match.trim();
+			const trimmedTarget = target.trim();
+			if (!trimmedMatch || !trimmedTarget) return;
+			const id = crypto.randomUUID();
+			saveRules([
+				...rules,
+				action === "group"
+					? { id, match: trimmedMatch, action, groupName: trimmedTarget }
+					: { id, match: trimmedMatch, action, parentMatch: trimmedTarget },
+			]);
+			setMatch("");
+			setTarget("");
+		},
+		[action, match, rules, saveRules, target],
+	);
+
+	return (
+		<div
+			data-testid="auto-group-panel"
+			className="mt-2 p-2 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200"
+		>
+			<form className="flex flex-col gap-1" onSubmit={handleAdd}>
+				<input
+					className="bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+					value={match}
+					onChange={(e) => setMatch(e.target.value)}
+					placeholder="Tabs matching, e.g. github.com/org/*"
+				/>
+				<div className="flex items-center gap-2">
+					<select
+						className="shrink-0 bg-slate-50 dark:bg-slate-600 dark:text-amber-50 px-1 py-1 text-sm rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+						value={action}
+						onChange={(e) => setAction(e.target.value as AutoGroupAction)}
+					>
+						<option value="group">open in group</option>
+						<option value="childOfPinned">open under pinned</option>
+					</select>
+					<input
+						className="bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-full min-w-0 px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+						value={target}
+						onChange={(e) => setTarget(e.target.value)}
+						placeholder={TARGET_PLACEHOLDERS[action]}
+					/>
+					<button
+						type="submit"
+						disabled={!match.trim() || !target.trim()}
+						className="shrink-0 p-1.5 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 cursor-pointer disabled:cursor-default"
+						title="Add rule"
+					>
+						<Plus size={16} />
+					</button>
+				</div>
+			</form>
+			{rules.length === 0 ? (
+				<div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+					No auto-group rules
+				</div>
+			) : (
+				<ul className="mt-2 flex flex-col gap-1">
+					{rules.map((rule) => (
+						<li
+							key={rule.id}
+							data-testid="auto-group-rule"
+							className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700"
+						>
+							<span className="flex-1 min-w-0 truncate text-xs">
+								{describeAutoGroupRule(rule)}
+							</span>
+							<button
+								type="button"
+								className="shrink-0 p-1 rounded text-slate-600 dark:text-slate-300 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+								onClick={() => saveRules(rules.filter((r) => r.id !== rule.id))}
+								title="Delete rule"
+							>
+								<Trash2 size={14} />
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			<p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+				The first matching rule places new tabs that weren't opened from another
+				tab. `*` matches anything; a bare domain matches the whole site.
+			</p>
+		</div>
+	);
+};
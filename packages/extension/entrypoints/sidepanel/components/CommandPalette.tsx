@@ -0,0 +1,308 @@
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import { browser } from "wxt/browser";
+import type * as schema from "@/schema/src/schema";
+import { cn } from "../lib/cn";
+import {
+	buildPaletteCommands,
+	type PaletteCommand,
+	resolveCommandTargets,
+} from "../lib/commands";
+import { useIdbAdapter } from "../lib/db/IdbTransportAdapterProvider";
+import { findDuplicateGroups } from "../lib/duplicates";
+import { matchLabel, matchTab } from "../lib/fuzzy";
+import { useDuplicates } from "../store/useDuplicates";
+import { useTabActions } from "../store/useTabActions";
+import { useTreeFocus } from "../store/useTreeFocus";
+import { useCommandPalette } from "./useCommandPalette";
+import { useSearch } from "./useSearch";
+
+type PaletteItem =
+	| { type: "command"; command: PaletteCommand; result?: Fuzzysort.Result }
+	| { type: "tab"; tab: schema.Tab; result?: Fuzzysort.Result };
+
+const itemKey = (item: PaletteItem) =>
+	item.type === "command" ? item.command.id : `tab-${item.tab.browserTabId}`;
+
+const Highlighted = ({
+	text,
+	result,
+}: {
+	text: string;
+	result?: Fuzzysort.Result;
+}) =>
+	result
+		? result.highlight((match, i) => (
+				<span
+					key={i}
+					className="font-bold text-yellow-600 dark:text-yellow-400"
+				>
+					{match}
+				</span>
+			))
+		: text;
+
+/**
+ * Ctrl/Cmd+K overlay: fuzzy-find open tabs (all windows) and tab actions.
+ * Picking a tab focuses it; picking an action runs it on the focused tab or
+ * the selection (see `resolveCommandTargets`).
+ */
+export const CommandPalette = ({
+	windows,
+	tabs,
+	selectedTabIds,
+	currentWindowId,
+}: {
+	windows: schema.Window[];
+	/** Open tabs of every window, in tree order */
+	tabs: schema.Tab[];
+	selectedTabIds: ReadonlySet<number>;
+	currentWindowId: number | undefined;
+}) => {
+	const setOpen = useCommandPalette(({ setOpen }) => setOpen);
+	const threshold = useSearch(({ threshold }) => threshold);
+	const focusedTabId = useTreeFocus(({ focusedTabId }) => focusedTabId);
+	const ignoreTrackingParams = useDuplicates(
+		({ ignoreTrackingParams }) => ignoreTrackingParams,
+	);
+	const setIgnoreTrackingParams = useDuplicates(
+		({ setIgnoreTrackingParams }) => setIgnoreTrackingParams,
+	);
+	const adapter = useIdbAdapter();
+	const [query, setQuery] = useState("");
+	const [highlightedIndex, setHighlightedIndex] = useState(0);
+	const inputRef = useRef<HTMLInputElement>(null);
+	const listRef = useRef<HTMLUListElement>(null);
+
+	useEffect(() => {
+		inputRef.current?.focus();
+	}, []);
+
+	const commands = useMemo(() => {
+		const targetTabIds = resolveCommandTargets(
+			tabs.map((t) => t.browserTabId),
+			selectedTabIds,
+			focusedTabId,
+		);
+		const targetWindowIds = new Set(
+			tabs
+				.filter((t) => targetTabIds.includes(t.browserTabId))
+				.map((t) => t.browserWindowId),
+		);
+		const {
+			newWindow,
+			newTabInWindow,
+			newTabAsChild,
+			closeTab,
+			setAllCollapsed,
+			moveTabsToWindow,
+		} = useTabActions.getState();
+		const closableDuplicates = findDuplicateGroups(tabs, {
+			ignoreTrackingParams,
+		}).reduce((count, group) => count + group.length - 1, 0);
+		return buildPaletteCommands({
+			windows,
+			targetTabIds,
+			targetWindowIds,
+			currentWindowId,
+			duplicates: { closableCount: closableDuplicates, ignoreTrackingParams },
+			actions: {
+				newWindow,
+				newTabInWindow,
+				newTabAsChild,
+				closeTab,
+				rename: (tabId) => {
+					useTreeFocus.getState().setFocusedTabId(tabId);
+					useTreeFocus.getState().requestRename(tabId);
+				},
+				setAllCollapsed,
+				moveTabsToWindow,
+				closeDuplicates: () =>
+					adapter.closeDuplicates({ ignoreTrackingParams }),
+				setIgnoreTrackingParams,
+			},
+		});
+	}, [
+		windows,
+		tabs,
+		selectedTabIds,
+		focusedTabId,
+		currentWindowId,
+		ignoreTrackingParams,
+		setIgnoreTrackingParams,
+		adapter,
+	]);
+
+	// Commands first, then tabs; each group ranked by score when there's a query
+	const items = useMemo((): PaletteItem[] => {
+		const trimmed = query.trim();
+		if (!trimmed) {
+			return [
+				...commands.map((command) => ({ type: "command" as const, command })),
+				...tabs.map((tab) => ({ type: "tab" as const, tab })),
+			];
+		}
+
+		const commandItems = commands
+			.map((command) => ({
+				command,
+				result: matchLabel(trimmed, command.label, threshold),
+			}))
+			.filter(
+				(m): m is { command: PaletteCommand; result: Fuzzysort.Result } =>
+					m.result !== null,
+			)
+			.sort((a, b) => b.result.score - a.result.score)
+			.map(({ command, result }) => ({
+				type: "command" as const,
+				command,
+				result,
+			}));
+		const tabItems = tabs
+			.map((tab) => ({ tab, match: matchTab(trimmed, tab, threshold) }))
+			.filter(
+				(m): m is { tab: schema.Tab; match: NonNullable<typeof m.match> } =>
+					m.match !== null,
+			)
+			.sort((a, b) => b.match.score - a.match.score)
+			.map(({ tab, match }) => ({
+				type: "tab" as const,
+				tab,
+				result: match.titleResult,
+			}));
+		return [...commandItems, ...tabItems];
+	}, [commands, tabs, query, threshold]);
+
+	const clampedIndex = Math.min(highlightedIndex, items.length - 1);
+
+	useEffect(() => {
+		listRef.current
+			?.querySelector(`[data-index="${clampedIndex}"]`)
+			?.scrollIntoView({ block: "nearest" });
+	}, [clampedIndex]);
+
+	const pick = (item: PaletteItem) => {
+		setOpen(false);
+		if (item.type === "command") {
+			item.command.run();
+			return;
+		}
+		const { browserTabId, browserWindowId } = item.tab;
+		useTreeFocus.getState().setFocusedTabId(browserTabId);
+		browser.tabs.update(browserTabId, { active: true });
+		browser.windows.update(browserWindowId, { focused: true });
+	};
+
+	const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		switch (event.key) {
+			case "ArrowDown":
+				event.preventDefault();
+				setHighlightedIndex(Math.min(clampedIndex + 1, items.length - 1));
+				break;
+			case "ArrowUp":
+				event.preventDefault();
+				setHighlightedIndex(Math.max(clampedIndex - 1, 0));
+				break;
+			case "Enter": {
+				event.preventDefault();
+				const item = items[clampedIndex];
+				if (item) pick(item);
+				break;
+			}
+			case "Escape":
+				event.preventDefault();
+				setOpen(false);
+				break;
+		}
+	};
+
+	// Close when clicking anywhere outside the palette
+	const containerRef = useRef<HTMLDivElement>(null);
+	const onPointerDown = useEffectEvent((event: PointerEvent) => {
+		if (!containerRef.current?.contains(event.target as Node)) {
+			setOpen(false);
+		}
+	});
+	useEffect(() => {
+		const abortController = new AbortController();
+		document.addEventListener("pointerdown", onPointerDown, {
+			signal: abortController.signal,
+		});
+		return () => abortController.abort();
+	}, []);
+
+	return (
+		<div
+			ref={containerRef}
+			data-testid="command-palette"
+			className="fixed top-2 left-2 right-2 px-2 py-2 bg-slate-200 dark:bg-slate-700 rounded-lg shadow-lg z-50"
+		>
+			<input
+				ref={inputRef}
+				className="bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-full p-2 rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+				value={query}
+				onChange={(event) => {
+					setQuery(event.target.value);
+					setHighlightedIndex(0);
+				}}
+				onKeyDown={onKeyDown}
+				placeholder="Search tabs and actions..."
+			/>
+			{items.length === 0 ? (
+				<div className="mt-2 px-2 text-xs text-slate-500 dark:text-slate-400">
+					No matches
+				</div>
+			) : (
+				<ul ref={listRef} className="mt-2 max-h-80 overflow-y-auto">
+					{items.map((item, index) => (
+						<li key={itemKey(item)} data-index={index}>
+							<button
+								type="button"
+								data-testid="command-palette-item"
+								className={cn(
+									"w-full flex items-center gap-2 px-2 py-1 rounded text-left text-sm cursor-pointer",
+									index === clampedIndex
+										? "bg-blue-500 text-white"
+										: "text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600",
+								)}
+								onMouseEnter={() => setHighlightedIndex(index)}
+								onClick={() => pick(item)}
+							>
+								{item.type === "command" ? (
+									<span className="truncate">
+										<Highlighted
+											text={item.command.label}
+											result={item.result}
+										/>
+									</span>
+								) : (
+									<>
+										<span className="truncate">
+											<Highlighted
+												text={
+													item.tab.titleOverride || item.tab.title || "Untitled"
+												}
+												result={
+													item.tab.titleOverride ? undefined : item.result
+												}
+											/>
+										</span>
+										<span
+											className={cn(
+												"ml-auto shrink-0 text-xs",
+												index === clampedIndex
+													? "text-white/70"
+													: "text-slate-400 dark:text-slate-500",
+											)}
+										>
+											Tab
+										</span>
+									</>
+								)}
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,238 @@
+import { Clipboard, Download, FileUp, Upload } from "lucide-react";
+import { useCallback, useRef, useState } from "react";
+import { useIdbAdapter } from "../lib/db/IdbTransportAdapterProvider";
+import {
+	detectExchangeFormat,
+	type ExchangeFormat,
+	type ExportWindow,
+	exportTree,
+	type ImportFormat,
+	importTree,
+} from "../lib/tree-exchange";
+
+const FORMAT_LABELS: Record<ExchangeFormat, string> = {
+	json: "JSON",
+	markdown: "Markdown",
+	onetab: "OneTab",
+};
+
+const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+	...FORMAT_LABELS,
+	"tree-style-tab": "Tree Style Tab",
+	sidebery: "Sidebery",
+};
+
+const FORMAT_EXTENSIONS: Record<ExchangeFormat, string> = {
+	json: "json",
+	markdown: "md",
+	onetab: "txt",
+};
+
+const FORMAT_MIME_TYPES: Record<ExchangeFormat, string> = {
+	json: "application/json",
+	markdown: "text/markdown",
+	onetab: "text/plain",
+};
+
+const selectClassName =
+	"bg-slate-50 dark:bg-slate-600 dark:text-amber-50 px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName =
+	"shrink-0 flex items-center gap-1 px-2 py-1 text-xs rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 cursor-pointer disabled:cursor-default";
+
+/**
+ * Export the tree of the shown windows as JSON, Markdown or OneTab text, and
+ * import any of them, or a Tree Style Tab / Sidebery backup (pasted or from a
+ * file), into new windows.
+ */
+export const ExchangePanel = ({ windows }: { windows: ExportWindow[] }) => {
+	const adapter = useIdbAdapter();
+	const [exportFormat, setExportFormat] = useState<ExchangeFormat>("markdown");
+	const [importFormat, setImportFormat] = useState<ImportFormat | "auto">(
+		"auto",
+	);
+	const [importText, setImportText] = useState("");
+	const [status, setStatus] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const handleCopy = useCallback(async () => {
+		try {
+			await navigator.clipboard.writeText(
+				exportTree(exportFormat, windows, new Date()),
+			);
+			setStatus(`Copied ${FORMAT_LABELS[exportFormat]} to the clipboard`);
+		} catch (e) {
+			console.error("Failed to copy export:", e);
+			setStatus("Couldn't copy to the clipboard");
+		}
+	}, [exportFormat, windows]);
+
+	const handleDownload = useCallback(() => {
+		const now = new Date();
+		const blob = new Blob([exportTree(exportFormat, windows, now)], {
+			type: FORMAT_MIME_TYPES[exportFormat],
+		});
+		const url = URL.createObjectURL(blob);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `tabcanopy-${now.toISOString().slice(0, 10)}.${FORMAT_EXTENSIONS[exportFormat]}`;
+		link.click();
+		URL.revokeObjectURL(url);
+	}, [exportFormat, windows]);
+
+	const runImport = useCallback(
+		async (text: string) => {
+			const format =
+				importFormat === "auto" ? detectExchangeFormat(text) : importFormat;
+			if (!format) {
+				setStatus("Unrecognized format, pick one from the list");
+				return;
+			}
+			const imported = importTree(format, text);
+			if (!imported) {
+				setStatus(
+					format === "json"
+						? "Not a Tab Canopy JSON export"
+						: `Not a ${IMPORT_FORMAT_LABELS[format]} backup`,
+				);
+				return;
+			}
+			const { windows: importedWindows, skippedCount } = imported;
+			const tabCount = importedWindows.reduce(
+				(sum, w) => sum + w.tabs.length,
+				0,
+			);
+			const skipped = (count: number) =>
+				`skipped ${count} ${count === 1 ? "tab" : "tabs"} the browser can't open`;
+			if (tabCount === 0) {
+				setStatus(
+					skippedCount > 0
+						? `Nothing to import, ${skipped(skippedCount)}`
+						: `No tabs found in the ${IMPORT_FORMAT_LABELS[format]} text`,
+				);
+				return;
+			}
+			setImportText("");
+			const summary = `${importedWindows.length} ${importedWindows.length === 1 ? "window" : "windows"}, ${tabCount} ${tabCount === 1 ? "tab" : "tabs"} (${IMPORT_FORMAT_LABELS[format]})`;
+			setStatus(`Importing ${summary}`);
+			try {
+				// Tabs dropped while parsing and tabs the browser refused to create
+				const totalSkipped =
+					skippedCount + (await adapter.importTree(importedWindows));
+				setStatus(
+					totalSkipped === 0
+						? `Imported ${summary}`
+						: `Imported ${summary}, ${skipped(totalSkipped)}`,
+				);
+			} catch (e) {
+				console.error("Failed to import tree:", e);
+				setStatus("Couldn't finish the import");
+			}
+		},
+		[adapter, importFormat],
+	);
+
+	const handleFile = useCallback(
+		async (event: React.ChangeEvent<HTMLInputElement>) => {
+			const file = event.target.files?.[0];
+			event.target.value = "";
+			if (!file) return;
+			await runImport(await file.text());
+		},
+		[runImport],
+	);
+
+	return (
+		<div
+			data-testid="exchange-panel"
+			className="mt-2 p-2 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200"
+		>
+			<div className="flex items-center gap-2">
+				<span className="flex-1 text-xs font-medium">Export shown windows</span>
+				<select
+					className={selectClassName}
+					value={exportFormat}
+					onChange={(e) => setExportFormat(e.target.value as ExchangeFormat)}
+				>
+					{Object.entries(FORMAT_LABELS).map(([format, label]) => (
+						<option key={format} value={format}>
+							{label}
+						</option>
+					))}
+				</select>
+				<button
+					type="button"
+					className={buttonClassName}
+					onClick={handleCopy}
+					disabled={windows.length === 0}
+					title="Copy to clipboard"
+				>
+					<Clipboard size={14} />
+				</button>
+				<button
+					type="button"
+					className={buttonClassName}
+					onClick={handleDownload}
+					disabled={windows.length === 0}
+					title="Download file"
+				>
+					<Download size={14} />
+				</button>
+			</div>
+			<div className="h-px bg-slate-200 dark:bg-slate-700 my-2" />
+			<div className="flex items-center gap-2">
+				<span className="flex-1 text-xs font-medium">
+					Import into new windows
+				</span>
+				<select
+					className={selectClassName}
+					value={importFormat}
+					onChange={(e) =>
+						setImportFormat(e.target.value as ImportFormat | "auto")
+					}
+				>
+					<option value="auto">Detect</option>
+					{Object.entries(IMPORT_FORMAT_LABELS).map(([format, label]) => (
+						<option key={format} value={format}>
+							{label}
+						</option>
+					))}
+				</select>
+				<button
+					type="button"
+					className={buttonClassName}
+					onClick={() => fileInputRef.current?.click()}
+					title="Import from file"
+				>
+					<FileUp size={14} />
+				</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,.md,.markdown,.txt,text/*,application/json"
+					className="hidden"
+					onChange={handleFile}
+				/>
+			</div>
+			<textarea
+				className="mt-2 bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-full h-20 px-2 py-1 text-xs font-mono rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+				value={importText}
+				onChange={(e) => setImportText(e.target.value)}
+				placeholder="Paste a JSON export, Markdown list, OneTab text or a Tree Style Tab / Sidebery backup..."
+			/>
+			<div className="mt-1 flex items-center gap-2">
+				<span className="flex-1 min-w-0 text-xs text-slate-500 dark:text-slate-400 truncate">
+					{status}
+				</span>
+				<button
+					type="button"
+					className={buttonClassName}
+					onClick={() => runImport(importText)}
+					disabled={!importText.trim()}
+				>
+					<Upload size={14} />
+					Import
+				</button>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { MIN_IDLE_MINUTES } from "../lib/hibernation";
+import { useHibernationSettings } from "../lib/useHibernationSettings";
+
+/**
+ * Settings for automatically hibernating (discarding) idle tabs. Pinned tabs,
+ * tabs playing audio and tabs the browser marks as not auto-discardable are
+ * always left alone.
+ */
+export const HibernationPanel = () => {
+	const [settings, updateSettings] = useHibernationSettings();
+	// Edited as text so the field can be cleared while typing
+	const [minutes, setMinutes] = useState(String(settings.idleMinutes));
+
+	useEffect(() => {
+		setMinutes(String(settings.idleMinutes));
+	}, [settings.idleMinutes]);
+
+	const commitMinutes = () => {
+		const value = Number(minutes);
+		if (minutes.trim() === "" || !Number.isFinite(value)) {
+			setMinutes(String(settings.idleMinutes));
+			return;
+		}
+		updateSettings({ idleMinutes: value });
+	};
+
+	return (
+		<div
+			data-testid="hibernation-panel"
+			className="mt-2 p-2 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200"
+		>
+			<label className="flex items-center gap-2 cursor-pointer">
+				<input
+					type="checkbox"
+					checked={settings.enabled}
+					onChange={(e) => updateSettings({ enabled: e.target.checked })}
+				/>
+				Hibernate tabs idle for
+				<input
+					type="number"
+					min={MIN_IDLE_MINUTES}
+					className="bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-16 px-2 py-0.5 rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+					value={minutes}
+					onChange={(e) => setMinutes(e.target.value)}
+					onBlur={commitMinutes}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") commitMinutes();
+					}}
+				/>
+				min
+			</label>
+			<p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+				Pinned, audible and non-discardable tabs are never hibernated. Right
+				click a tab to hibernate or wake a subtree by hand.
+			</p>
+		</div>
+	);
+};
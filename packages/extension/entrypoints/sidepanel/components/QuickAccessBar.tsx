@@ -0,0 +1,144 @@
+import { useDndContext, useDroppable } from "@dnd-kit/core";
+import { Bookmark, X } from "lucide-react";
+import { useCallback } from "react";
+import type * as schema from "@/schema/src/schema";
+import { cn } from "../lib/cn";
+import { type DropDataBookmarks, isDragDataWindow } from "../lib/dnd/dnd-types";
+import {
+	findTabForBookmark,
+	type QuickAccessBookmark,
+} from "../lib/quick-access";
+import { useFaviconProxy } from "../lib/useFaviconProxy";
+import {
+	removeQuickAccessBookmark,
+	useQuickAccessBookmarks,
+} from "../lib/useQuickAccessBookmarks";
+
+const QuickAccessItem = ({
+	bookmark,
+	openTab,
+	isSelected,
+}: {
+	bookmark: QuickAccessBookmark;
+	/** The open tab with this bookmark's URL, if any */
+	openTab: schema.Tab | null;
+	/** The open tab is the active tab of the focused window */
+	isSelected: boolean;
+}) => {
+	const { dataUrl: favicon } = useFaviconProxy(openTab?.favIconUrl);
+
+	const handleClick = useCallback(() => {
+		if (openTab) {
+			browser.tabs.update(openTab.browserTabId, { active: true });
+			browser.windows.update(openTab.browserWindowId, { focused: true });
+		} else {
+			browser.tabs.create({ url: bookmark.url });
+		}
+	}, [openTab, bookmark.url]);
+
+	const handleRemove = useCallback(
+		() => removeQuickAccessBookmark(bookmark.id),
+		[bookmark.id],
+	);
+
+	return (
+		<div
+			data-testid="quick-access-item"
+			data-active={openTab !== null}
+			className={cn(
+				"group relative flex max-w-40 rounded-md border text-xs transition-colors",
+				isSelected
+					? "bg-blue-500/15 border-blue-500 text-blue-700 dark:text-blue-300"
+					: openTab
+						? "bg-black/5 dark:bg-white/10 border-black/15 dark:border-white/20 text-zinc-900 dark:text-white/90"
+						: "border-dashed border-black/10 dark:border-white/10 text-black/50 dark:text-white/50 hover:text-black/80 dark:hover:text-white/80",
+			)}
+		>
+			<button
+				type="button"
+				className="flex items-center gap-1.5 min-w-0 px-2 py-1 cursor-pointer"
+				onClick={handleClick}
+				title={bookmark.url}
+			>
+				{favicon ? (
+					<img src={favicon} alt="" className="size-3.5 object-contain" />
+				) : (
+					<Bookmark size={14} className="shrink-0" />
+				)}
+				<span className="truncate">{bookmark.title || bookmark.url}</span>
+			</button>
+			<button
+				type="button"
+				className="hidden group-hover:flex absolute -top-1.5 -right-1.5 size-4 items-center justify-center rounded-full bg-slate-300 dark:bg-slate-600 text-slate-700 dark:text-slate-200 hover:bg-red-500 hover:text-white cursor-pointer"
+				onClick={handleRemove}
+				title="Remove from Quick Access"
+			>
+				<X size={10} />
+			</button>
+		</div>
+	);
+};
+
+/**
+ * Arc-style Quick Access bar, backed by the native "TabCanopy" bookmarks
+ * folder. Only shown when it has bookmarks, or while dragging so tabs can be
+ * dropped onto it.
+ */
+export const QuickAccessBar = ({
+	tabs,
+	currentWindowId,
+}: {
+	/** Open tabs of every window */
+	tabs: schema.Tab[];
+	currentWindowId: number | undefined;
+}) => {
+	const bookmarks = useQuickAccessBookmarks();
+	const { active } = useDndContext();
+	// Window drags only reorder or merge windows
+	const isDragging = active !== null && !isDragDataWindow(active.data.current);
+
+	const dropData: DropDataBookmarks = { type: "bookmarks" };
+	const { setNodeRef, isOver } = useDroppable({
+		id: "quick-access-drop",
+		data: dropData,
+	});
+
+	if (bookmarks.length === 0 && !isDragging) {
+		return null;
+	}
+
+	return (
+		<div
+			ref={setNodeRef}
+			data-testid="quick-access-bar"
+			className={cn(
+				"mt-2 flex flex-wrap items-center gap-1.5 p-1.5 rounded-lg border-2 transition-colors",
+				isDragging
+					? isOver
+						? "border-dashed border-amber-500 bg-amber-500/10"
+						: "border-dashed border-slate-300 dark:border-slate-600"
+					: "border-transparent",
+			)}
+		>
+			{bookmarks.map((bookmark) => {
+				const openTab = findTabForBookmark(tabs, bookmark.url, currentWindowId);
+				return (
+					<QuickAccessItem
+						key={bookmark.id}
+						bookmark={bookmark}
+						openTab={openTab}
+						isSelected={
+							openTab?.active === true &&
+							openTab.browserWindowId === currentWindowId
+						}
+					/>
+				);
+			})}
+			{isDragging && (
+				<span className="px-1 text-xs text-slate-500 dark:text-slate-400">
+					Drop to add to Quick Access
+				</span>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,126 @@
+import { RotateCcw, Save, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import type * as schema from "@/schema/src/schema";
+import { useIdbAdapter } from "../lib/db/IdbTransportAdapterProvider";
+import { useTableRows } from "../lib/db/MemoryCollectionProvider";
+
+/**
+ * Saved sessions: save the current hierarchy under a name, restore it into
+ * new windows, or delete it.
+ */
+export const SessionsPanel = () => {
+	const savedSessions = useTableRows("sessionTable");
+	const adapter = useIdbAdapter();
+	const [name, setName] = useState("");
+	const [status, setStatus] = useState<string | null>(null);
+
+	// Newest first
+	const sessions = useMemo(
+		() =>
+			savedSessions
+				.slice()
+				.sort(
+					(a, b) =>
+						new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+				),
+		[savedSessions],
+	);
+
+	const handleSave = useCallback(
+		(event: React.FormEvent) => {
+			event.preventDefault();
+			const trimmed = name.trim();
+			if (!trimmed) return;
+			adapter.saveSession(trimmed);
+			setName("");
+		},
+		[adapter, name],
+	);
+
+	const handleRestore = useCallback(
+		async (session: schema.Session) => {
+			setStatus(`Restoring ${session.name}...`);
+			try {
+				const skippedCount = await adapter.restoreSession(session.id);
+				setStatus(
+					skippedCount === 0
+						? `Restored ${session.name}`
+						: `Restored ${session.name}, skipped ${skippedCount} ${skippedCount === 1 ? "tab" : "tabs"} the browser couldn't open`,
+				);
+			} catch (e) {
+				console.error("Failed to restore session:", e);
+				setStatus(`Couldn't restore ${session.name}`);
+			}
+		},
+		[adapter],
+	);
+
+	return (
+		<div
+			data-testid="sessions-panel"
+			className="mt-2 p-2 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700"
+		>
+			<form className="flex items-center gap-2" onSubmit={handleSave}>
+				<input
+					className="bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					placeholder="Session name..."
+				/>
+				<button
+					type="submit"
+					disabled={!name.trim()}
+					className="shrink-0 p-1.5 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 cursor-pointer disabled:cursor-default"
+					title="Save current windows as a session"
+				>
+					<Save size={16} />
+				</button>
+			</form>
+			{sessions.length === 0 ? (
+				<div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+					No saved sessions
+				</div>
+			) : (
+				<ul className="mt-2 flex flex-col gap-1">
+					{sessions.map((session) => (
+						<li
+							key={session.id}
+							data-testid="session-item"
+							className="group flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700"
+						>
+							<div className="flex-1 min-w-0">
+								<div className="text-sm truncate">{session.name}</div>
+								<div className="text-xs text-slate-500 dark:text-slate-400">
+									{session.windowCount}{" "}
+									{session.windowCount === 1 ? "window" : "windows"},{" "}
+									{session.tabCount} {session.tabCount === 1 ? "tab" : "tabs"}
+								</div>
+							</div>
+							<button
+								type="button"
+								className="shrink-0 p-1 rounded text-slate-600 dark:text-slate-300 hover:bg-blue-100 dark:hover:bg-blue-900/30 hover:text-blue-600 dark:hover:text-blue-400 cursor-pointer"
+								onClick={() => handleRestore(session)}
+								title="Restore session in new windows"
+							>
+								<RotateCcw size={14} />
+							</button>
+							<button
+								type="button"
+								className="shrink-0 p-1 rounded text-slate-600 dark:text-slate-300 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+								onClick={() => adapter.deleteSession(session.id)}
+								title="Delete session"
+							>
+								<Trash2 size={14} />
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			{status && (
+				<div className="mt-1 text-xs text-slate-500 dark:text-slate-400 truncate">
+					{status}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,51 @@
+import * as ContextMenu from "@radix-ui/react-context-menu";
+import { Check } from "lucide-react";
+import { useState } from "react";
+import { TAB_SORT_KEY_LABELS, type TabSortKey } from "../lib/sort-tabs";
+
+/** "Sort … By" submenu shared by the tab and window context menus */
+export const SortSubmenu = ({
+	label,
+	onSort,
+}: {
+	label: string;
+	onSort: (key: TabSortKey, recursive: boolean) => void;
+}) => {
+	const [recursive, setRecursive] = useState(false);
+
+	return (
+		<ContextMenu.Sub>
+			<ContextMenu.SubTrigger className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 data-[state=open]:bg-slate-100 dark:data-[state=open]:bg-slate-700 text-slate-700 dark:text-slate-200">
+				{label}
+			</ContextMenu.SubTrigger>
+			<ContextMenu.Portal>
+				<ContextMenu.SubContent className="min-w-[140px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
+					{(Object.keys(TAB_SORT_KEY_LABELS) as TabSortKey[]).map((key) => (
+						<ContextMenu.Item
+							key={key}
+							className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+							onSelect={() => onSort(key, recursive)}
+						>
+							{TAB_SORT_KEY_LABELS[key]}
+						</ContextMenu.Item>
+					))}
+					<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+					{/* Keep the menu open so a key can be picked after toggling */}
+					<ContextMenu.CheckboxItem
+						checked={recursive}
+						onCheckedChange={setRecursive}
+						onSelect={(e) => e.preventDefault()}
+						className="flex items-center gap-1.5 text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+					>
+						<span className="w-3">
+							<ContextMenu.ItemIndicator>
+								<Check size={12} />
+							</ContextMenu.ItemIndicator>
+						</span>
+						Sort Every Level
+					</ContextMenu.CheckboxItem>
+				</ContextMenu.SubContent>
+			</ContextMenu.Portal>
+		</ContextMenu.Sub>
+	);
+};
@@ -1,6 +1,6 @@
 import { useDndContext } from "@dnd-kit/core";
 import * as ContextMenu from "@radix-ui/react-context-menu";
-import { Info, Puzzle, Volume2, X } from "lucide-react";
+import { Folder, Info, Puzzle, RotateCcw, Volume2, X } from "lucide-react";
 import React, {
 	type ChangeEventHandler,
 	type KeyboardEventHandler,
@@ -11,9 +11,17 @@ import React, {
 } from "react";
 import type * as schema from "@/schema/src/schema";
 import { cn } from "../lib/cn";
+import { useIdbAdapter } from "../lib/db/IdbTransportAdapterProvider";
 import { isDropData } from "../lib/dnd/dnd-types";
+import { isGroupTab } from "../lib/group-node";
+import type { TabSortKey } from "../lib/sort-tabs";
+import { hasTabGroupsApi } from "../lib/tab-groups";
+import { isClosedTab } from "../lib/tree";
 import { useFaviconProxy } from "../lib/useFaviconProxy";
+import { useDuplicates } from "../store/useDuplicates";
+import { usePreferences } from "../store/usePreferences";
 import { useTabActions } from "../store/useTabActions";
+import { useTreeFocus } from "../store/useTreeFocus";
 import { IconCollapsed } from "./icons/IconCollapsed";
 import { IconExpanded } from "./icons/IconExpanded";
 import { IconLeaf } from "./icons/IconLeaf";
@@ -21,7 +29,12 @@ import { TreeBranch } from "./icons/TreeBranch";
 import { TreeEmpty } from "./icons/TreeEmpty";
 import { TreeEnd } from "./icons/TreeEnd";
 import { TreeVertical } from "./icons/TreeVertical";
-import { TabContextMenu } from "./TabContextMenu";
+import {
+	type BulkSelection,
+	type BulkTabAction,
+	TabContextMenu,
+} from "./TabContextMenu";
+import { TabPreview } from "./TabPreview";
 
 export const TabCard = ({
 	tab,
@@ -39,6 +52,8 @@ export const TabCard = ({
 	highlightedDepth,
 	searchState,
 	searchHighlight,
+	duplicateCount,
+	bulkSelection,
 }: {
 	tab: schema.Tab;
 	windowFocused: boolean;
@@ -60,19 +75,36 @@ export const TabCard = ({
 	searchState?: "match" | "ancestor";
 	/** Fuzzysort result for highlighting matched characters */
 	searchHighlight?: Fuzzysort.Result;
+	/** Open tabs sharing this tab's URL (including itself), when duplicated */
+	duplicateCount?: number;
+	/** Passed when the tab is part of a multi-selection */
+	bulkSelection?: BulkSelection;
 }) => {
 	const [showInfo, setShowInfo] = useState(false);
 	const [isEditing, setIsEditing] = useState(false);
+	const [isHovered, setIsHovered] = useState(false);
 	const [editValue, setEditValue] = useState("");
 	const [mouseDownPos, setMouseDownPos] = useState<{
 		x: number;
 		y: number;
 	} | null>(null);
 	const inputRef = useRef<HTMLInputElement>(null);
+	const rowRef = useRef<HTMLDivElement>(null);
 
 	// Get actions from Zustand store
-	const { toggleCollapse, closeTab, renameTab, newTabAsChild } =
-		useTabActions();
+	const {
+		toggleCollapse,
+		closeTab,
+		renameTab,
+		newTabAsChild,
+		reopenTab,
+		hibernateSubtree,
+		wakeSubtree,
+	} = useTabActions();
+	const adapter = useIdbAdapter();
+
+	// Closed-tab ghost: rendered dimmed, can only be reopened
+	const isClosed = isClosedTab(tab);
 
 	// Auto-focus and select text when entering edit mode
 	useEffect(() => {
@@ -88,6 +120,33 @@ export const TabCard = ({
 		onEditingChange?.(true);
 	}, [tab.title, tab.titleOverride, onEditingChange]);
 
+	// Keyboard focus (arrow keys) and F2 rename requests
+	const isFocused = useTreeFocus(
+		({ focusedTabId }) => focusedTabId === tab.browserTabId,
+	);
+	const setFocusedTabId = useTreeFocus(
+		({ setFocusedTabId }) => setFocusedTabId,
+	);
+	const renameRequested = useTreeFocus(
+		({ renameRequestTabId }) => renameRequestTabId === tab.browserTabId,
+	);
+	const clearRenameRequest = useTreeFocus(
+		({ clearRenameRequest }) => clearRenameRequest,
+	);
+
+	useEffect(() => {
+		if (isFocused) {
+			rowRef.current?.scrollIntoView({ block: "nearest" });
+		}
+	}, [isFocused]);
+
+	useEffect(() => {
+		if (renameRequested) {
+			clearRenameRequest();
+			if (!isClosed) handleStartRename();
+		}
+	}, [renameRequested, clearRenameRequest, handleStartRename, isClosed]);
+
 	const handleSaveRename = useCallback(() => {
 		const trimmed = editValue.trim();
 		// If empty or matches the original title, treat as null (no override)
@@ -126,19 +185,24 @@ export const TabCard = ({
 	// Middle click (auxclick) closes the tab
 	const handleAuxClick = useCallback(
 		(e: React.MouseEvent) => {
-			if (e.button === 1) {
+			if (e.button === 1 && !isClosed) {
 				e.preventDefault();
 				e.stopPropagation();
 				closeTab(tab.browserTabId);
 			}
 		},
-		[tab.browserTabId, closeTab],
+		[tab.browserTabId, closeTab, isClosed],
 	);
 
 	const handleClick = useCallback(
 		(e: React.MouseEvent) => {
 			e.preventDefault();
 
+			// There is no browser tab to switch to for a closed-tab ghost
+			if (isClosed) return;
+
+			setFocusedTabId(tab.browserTabId);
+
 			// Check for click-to-rename: only if this is the current window (sidepanel's window),
 			// the window is focused, tab is active, and we didn't drag much.
 			// This prevents triggering rename when clicking on the active tab of another window.
@@ -175,6 +239,8 @@ export const TabCard = ({
 			mouseDownPos,
 			onSelect,
 			handleStartRename,
+			isClosed,
+			setFocusedTabId,
 		],
 	);
 
@@ -186,6 +252,14 @@ export const TabCard = ({
 		[tab.browserTabId, closeTab],
 	);
 
+	const handleReopen = useCallback(
+		(e: React.MouseEvent) => {
+			e.stopPropagation();
+			reopenTab(tab.browserTabId);
+		},
+		[tab.browserTabId, reopenTab],
+	);
+
 	const handleToggleInfo = useCallback((e: React.MouseEvent) => {
 		e.stopPropagation();
 		setShowInfo((prev) => !prev);
@@ -200,7 +274,7 @@ export const TabCard = ({
 		[tab.browserTabId, toggleCollapse],
 	);
 
-	const { over } = useDndContext();
+	const { over, active: activeDrag } = useDndContext();
 	const dropData = over?.data?.current;
 	const activeDropData = useMemo(
 		() => (isDropData(dropData) ? dropData : null),
@@ -221,6 +295,9 @@ export const TabCard = ({
 		[activeDropData],
 	);
 
+	// Group node: an extension page standing in for a folder
+	const isGroup = useMemo(() => isGroupTab(tab), [tab]);
+
 	// Check if this is an internal browser page (extensions, settings, etc.)
 	const isInternalPage = useMemo(() => {
 		const relevantUrl = tab.favIconUrl || tab.url;
@@ -294,16 +371,90 @@ export const TabCard = ({
 		() => newTabAsChild(tab.browserTabId),
 		[tab.browserTabId, newTabAsChild],
 	);
+	const onReopen = useCallback(
+		() => reopenTab(tab.browserTabId),
+		[tab.browserTabId, reopenTab],
+	);
+	const onHibernate = useCallback(
+		() => hibernateSubtree(tab.browserTabId),
+		[tab.browserTabId, hibernateSubtree],
+	);
+	const onCloseDuplicates = useCallback(
+		() =>
+			adapter.closeDuplicates({
+				browserTabId: tab.browserTabId,
+				ignoreTrackingParams: useDuplicates.getState().ignoreTrackingParams,
+			}),
+		[adapter, tab.browserTabId],
+	);
+	const onWake = useCallback(
+		() => wakeSubtree(tab.browserTabId),
+		[tab.browserTabId, wakeSubtree],
+	);
+	const onGroup = useCallback(
+		() => useTabActions.getState().groupTabsUnderNewParent([tab.browserTabId]),
+		[tab.browserTabId],
+	);
+	const onConvertToTabGroup = useCallback(
+		() => useTabActions.getState().convertSubtreeToTabGroup(tab.browserTabId),
+		[tab.browserTabId],
+	);
+	const onConvertTabGroupToSubtree = useCallback(() => {
+		if (tab.groupId === null) return;
+		useTabActions.getState().convertTabGroupToSubtree(tab.groupId);
+	}, [tab.groupId]);
+	const onSort = useCallback(
+		(key: TabSortKey, recursive: boolean) =>
+			useTabActions
+				.getState()
+				.sortTabs(tab.browserWindowId, tab.browserTabId, key, recursive),
+		[tab.browserWindowId, tab.browserTabId],
+	);
+	const canUseTabGroups = hasTabGroupsApi();
+	const onBulkAction = useCallback(
+		(action: BulkTabAction) => {
+			if (!bulkSelection) return;
+			const { tabIds } = bulkSelection;
+			const actions = useTabActions.getState();
+			switch (action.type) {
+				case "close":
+					return actions.closeTabs(tabIds);
+				case "moveToNewWindow":
+					return actions.moveTabsToNewWindow(tabIds);
+				case "moveToWindow":
+					return actions.moveTabsToWindow(tabIds, action.windowId);
+				case "group":
+					return actions.groupTabsUnderNewParent(tabIds);
+				case "pin":
+					return actions.setTabsPinned(tabIds, action.pinned);
+				case "mute":
+					return actions.setTabsMuted(tabIds, action.muted);
+				case "discard":
+					return actions.discardTabs(tabIds);
+				case "bookmark":
+					return actions.bookmarkTabs(tabIds);
+				case "copyUrls":
+					return actions.copyTabUrls(tabIds);
+			}
+		},
+		[bulkSelection],
+	);
+
+	const compact = usePreferences((s) => s.preferences.density === "compact");
+	const onMouseEnter = useCallback(() => setIsHovered(true), []);
+	const onMouseLeave = useCallback(() => setIsHovered(false), []);
+	const showPreview =
+		isHovered && !isEditing && !isClosed && !isDragging && activeDrag === null;
 
 	return (
 		<ContextMenu.Root>
 			<ContextMenu.Trigger asChild>
 				<div
 					className={cn("flex items-stretch", {
-						"cursor-grab active:cursor-grabbing": !isDragging,
-						"opacity-40": searchState === "ancestor",
+						"cursor-grab active:cursor-grabbing": !isDragging && !isClosed,
+						"opacity-40": searchState === "ancestor" || isClosed,
 					})}
-					data-testid="tab-card"
+					data-testid={isClosed ? "closed-tab-card" : "tab-card"}
 				>
 					{/* Tree lines - outside the card using SVGs */}
 					{depth > 0 && (
@@ -350,11 +501,15 @@ export const TabCard = ({
 								// Drop target - sibling (emerald) or child (blue)
 								"ring-2 ring-emerald-500 ring-inset": isDropTargetSibling,
 								"ring-2 ring-blue-500 ring-inset": isDropTargetChild,
+								// Keyboard focus (only when not showing a drop target ring)
+								"ring-1 ring-slate-400 dark:ring-slate-500 ring-inset":
+									isFocused && !isDropTargetSibling && !isDropTargetChild,
 							},
 						)}
 					>
 						{/* biome-ignore lint/a11y/useSemanticElements: Cannot use button due to nested buttons */}
 						<div
+							ref={rowRef}
 							className={cn("flex items-center gap-0 group", {
 								"cursor-pointer": !isDragging && !isEditing,
 							})}
@@ -362,9 +517,15 @@ export const TabCard = ({
 							onAuxClick={isEditing ? undefined : handleAuxClick}
 							onMouseDown={isEditing ? undefined : handleMouseDown}
 							onKeyDown={isEditing ? undefined : handleKeyDown}
+							onMouseEnter={onMouseEnter}
+							onMouseLeave={onMouseLeave}
 							role="button"
 							tabIndex={0}
-							aria-label={`Switch to tab: ${tab.title || "Untitled"}`}
+							aria-label={
+								isClosed
+									? `Closed tab: ${tab.title || "Untitled"}`
+									: `Switch to tab: ${tab.title || "Untitled"}`
+							}
 						>
 							{/* Expand/collapse indicator */}
 							<button
@@ -387,7 +548,12 @@ export const TabCard = ({
 									<IconLeaf />
 								)}
 							</button>
-							<div className="flex-1 min-w-0 flex items-center gap-2 pl-2 py-1">
+							<div
+								className={cn(
+									"flex-1 min-w-0 flex items-center gap-2 pl-2",
+									compact ? "py-0.5" : "py-1",
+								)}
+							>
 								<div
 									className={cn(
 										"shrink-0 size-4 flex items-center justify-center rounded-full transition-all",
@@ -406,6 +572,11 @@ export const TabCard = ({
 											size={16}
 											className="text-emerald-500 dark:text-emerald-400 animate-pulse"
 										/>
+									) : isGroup ? (
+										<Folder
+											size={16}
+											className="text-amber-500 dark:text-amber-400"
+										/>
 									) : isInternalPage ? (
 										<Puzzle
 											size={16}
@@ -440,6 +611,7 @@ export const TabCard = ({
 										className={cn(
 											"text-xs font-medium whitespace-nowrap overflow-hidden text-ellipsis shrink h-full",
 											{
+												italic: isClosed,
 												"text-slate-700 dark:text-slate-200":
 													!tab.active && !isSelected,
 												// Active tab in focused window - bright blue
@@ -463,7 +635,7 @@ export const TabCard = ({
 													</span>
 												))
 											: displayTitle}
-										{tab.titleOverride && (
+										{tab.titleOverride && !isGroup && (
 											<span className="text-xs text-slate-400 dark:text-slate-500 ml-1">
 												✏️
 											</span>
@@ -478,6 +650,15 @@ export const TabCard = ({
 										📌
 									</span>
 								)}
+								{!isEditing && duplicateCount !== undefined && (
+									<span
+										data-testid="duplicate-badge"
+										className="shrink-0 px-1 rounded text-[10px] font-medium bg-rose-500/15 text-rose-600 dark:text-rose-400"
+										title={`Open in ${duplicateCount} tabs`}
+									>
+										×{duplicateCount}
+									</span>
+								)}
 								{!isEditing && tabHostName && (
 									<div className="text-xs text-slate-400 dark:text-slate-500 whitespace-nowrap overflow-hidden text-ellipsis shrink-999">
 										{tabHostName}
@@ -497,14 +678,25 @@ export const TabCard = ({
 									>
 										<Info size={14} />
 									</button>
-									<button
-										type="button"
-										className="shrink-0 flex items-center justify-center p-1.5 text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors"
-										onClick={handleClose}
-										title="Close tab"
-									>
-										<X size={14} />
-									</button>
+									{isClosed ? (
+										<button
+											type="button"
+											className="shrink-0 flex items-center justify-center p-1.5 text-slate-400 dark:text-slate-500 hover:text-green-600 dark:hover:text-green-400 transition-colors"
+											onClick={handleReopen}
+											title="Reopen tab"
+										>
+											<RotateCcw size={14} />
+										</button>
+									) : (
+										<button
+											type="button"
+											className="shrink-0 flex items-center justify-center p-1.5 text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+											onClick={handleClose}
+											title="Close tab"
+										>
+											<X size={14} />
+										</button>
+									)}
 								</div>
 							)}
 						</div>
@@ -547,16 +739,41 @@ export const TabCard = ({
 								</div>
 							</div>
 						)}
+						{showPreview && <TabPreview tab={tab} anchorRef={rowRef} />}
 					</div>
 				</div>
 			</ContextMenu.Trigger>
 			<TabContextMenu
 				hasChildren={hasChildren}
 				isCollapsed={tab.isCollapsed}
+				isClosed={isClosed}
+				isActive={tab.active}
+				isDiscarded={tab.discarded}
 				onRename={handleStartRename}
 				onToggleCollapse={onToggleCollapse}
 				onClose={onCloseTab}
 				onNewTab={onNewTab}
+				onReopen={onReopen}
+				onHibernate={onHibernate}
+				onWake={onWake}
+				onCloseDuplicates={
+					duplicateCount !== undefined ? onCloseDuplicates : undefined
+				}
+				isGroup={isGroup}
+				onGroup={onGroup}
+				onConvertToTabGroup={
+					canUseTabGroups && (hasChildren || !tab.pinned)
+						? onConvertToTabGroup
+						: undefined
+				}
+				onConvertTabGroupToSubtree={
+					canUseTabGroups && tab.groupId !== null
+						? onConvertTabGroupToSubtree
+						: undefined
+				}
+				onSort={onSort}
+				bulkSelection={bulkSelection}
+				onBulkAction={onBulkAction}
 			/>
 		</ContextMenu.Root>
 	);
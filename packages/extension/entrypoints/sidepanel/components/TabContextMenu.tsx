@@ -1,22 +1,218 @@
 import * as ContextMenu from "@radix-ui/react-context-menu";
+import type { TabSortKey } from "../lib/sort-tabs";
+import { SortSubmenu } from "./SortSubmenu";
+
+/** Several selected tabs, which the menu acts on instead of the clicked tab */
+export interface BulkSelection {
+	/** Selected open tabs, in tree order */
+	tabIds: number[];
+	allPinned: boolean;
+	allMuted: boolean;
+	/** Windows the selection can be moved to, with their display labels */
+	moveTargets: { browserWindowId: number; label: string }[];
+}
+
+export type BulkTabAction =
+	| { type: "close" }
+	| { type: "moveToNewWindow" }
+	| { type: "moveToWindow"; windowId: number }
+	| { type: "group" }
+	| { type: "pin"; pinned: boolean }
+	| { type: "mute"; muted: boolean }
+	| { type: "discard" }
+	| { type: "bookmark" }
+	| { type: "copyUrls" };
+
+const itemClassName =
+	"text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200";
+
+const BulkTabContextMenu = ({
+	selection,
+	onAction,
+}: {
+	selection: BulkSelection;
+	onAction: (action: BulkTabAction) => void;
+}) => {
+	const count = selection.tabIds.length;
+	return (
+		<ContextMenu.Portal>
+			<ContextMenu.Content className="min-w-[180px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
+				<ContextMenu.Label className="text-xs px-2 py-1 text-slate-500 dark:text-slate-400">
+					{count} tabs selected
+				</ContextMenu.Label>
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() => onAction({ type: "group" })}
+				>
+					Group Under New Parent
+				</ContextMenu.Item>
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() => onAction({ type: "moveToNewWindow" })}
+				>
+					Move to New Window
+				</ContextMenu.Item>
+				{selection.moveTargets.length > 0 && (
+					<ContextMenu.Sub>
+						<ContextMenu.SubTrigger className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 data-[state=open]:bg-slate-100 dark:data-[state=open]:bg-slate-700 text-slate-700 dark:text-slate-200">
+							Move to Window
+						</ContextMenu.SubTrigger>
+						<ContextMenu.Portal>
+							<ContextMenu.SubContent className="min-w-[140px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
+								{selection.moveTargets.map((target) => (
+									<ContextMenu.Item
+										key={target.browserWindowId}
+										className={itemClassName}
+										onSelect={() =>
+											onAction({
+												type: "moveToWindow",
+												windowId: target.browserWindowId,
+											})
+										}
+									>
+										{target.label}
+									</ContextMenu.Item>
+								))}
+							</ContextMenu.SubContent>
+						</ContextMenu.Portal>
+					</ContextMenu.Sub>
+				)}
+				<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() =>
+						onAction({ type: "pin", pinned: !selection.allPinned })
+					}
+				>
+					{selection.allPinned ? "Unpin Tabs" : "Pin Tabs"}
+				</ContextMenu.Item>
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() =>
+						onAction({ type: "mute", muted: !selection.allMuted })
+					}
+				>
+					{selection.allMuted ? "Unmute Tabs" : "Mute Tabs"}
+				</ContextMenu.Item>
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() => onAction({ type: "discard" })}
+				>
+					Hibernate Tabs
+				</ContextMenu.Item>
+				<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() => onAction({ type: "bookmark" })}
+				>
+					Bookmark All
+				</ContextMenu.Item>
+				<ContextMenu.Item
+					className={itemClassName}
+					onSelect={() => onAction({ type: "copyUrls" })}
+				>
+					Copy URLs
+				</ContextMenu.Item>
+				<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+				<ContextMenu.Item
+					className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
+					onSelect={() => onAction({ type: "close" })}
+				>
+					Close {count} Tabs
+				</ContextMenu.Item>
+			</ContextMenu.Content>
+		</ContextMenu.Portal>
+	);
+};
 
 interface TabContextMenuProps {
 	hasChildren: boolean;
 	isCollapsed: boolean;
+	/** Closed-tab ghost: only reopening (and collapsing) makes sense */
+	isClosed?: boolean;
+	isActive?: boolean;
+	isDiscarded?: boolean;
+	/** Group node: renamed and closed as a unit */
+	isGroup?: boolean;
 	onRename: () => void;
 	onToggleCollapse: () => void;
 	onClose: () => void;
 	onNewTab: () => void;
+	onReopen?: () => void;
+	/** Wrap the tab in a new group node */
+	onGroup?: () => void;
+	/** Move the tab and its descendants into a native tab group */
+	onConvertToTabGroup?: () => void;
+	/** Only passed for tabs in a native tab group */
+	onConvertTabGroupToSubtree?: () => void;
+	/** Reorder the tab's children (every level below when recursive) */
+	onSort?: (key: TabSortKey, recursive: boolean) => void;
+	/** Discard the tab and its descendants */
+	onHibernate?: () => void;
+	/** Reload the discarded tabs of the subtree */
+	onWake?: () => void;
+	/** Only passed for tabs that have duplicates */
+	onCloseDuplicates?: () => void;
+	/** Passed when the tab is part of a multi-selection */
+	bulkSelection?: BulkSelection;
+	onBulkAction?: (action: BulkTabAction) => void;
 }
 
 export const TabContextMenu = ({
 	hasChildren,
 	isCollapsed,
+	isClosed = false,
+	isActive = false,
+	isDiscarded = false,
+	isGroup = false,
 	onRename,
 	onToggleCollapse,
 	onClose,
 	onNewTab,
+	onReopen,
+	onGroup,
+	onConvertToTabGroup,
+	onConvertTabGroupToSubtree,
+	onSort,
+	onHibernate,
+	onWake,
+	onCloseDuplicates,
+	bulkSelection,
+	onBulkAction,
 }: TabContextMenuProps) => {
+	if (bulkSelection && onBulkAction) {
+		return (
+			<BulkTabContextMenu selection={bulkSelection} onAction={onBulkAction} />
+		);
+	}
+
+	// A leaf only offers the action that applies to it; a subtree may be mixed
+	const canHibernate = hasChildren || (!isActive && !isDiscarded);
+	const canWake = hasChildren || isDiscarded;
+
+	if (isClosed) {
+		return (
+			<ContextMenu.Portal>
+				<ContextMenu.Content className="min-w-[180px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+						onSelect={onReopen}
+					>
+						Reopen Tab
+					</ContextMenu.Item>
+					{hasChildren && (
+						<ContextMenu.Item
+							className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+							onSelect={onToggleCollapse}
+						>
+							{isCollapsed ? "Expand" : "Collapse"}
+						</ContextMenu.Item>
+					)}
+				</ContextMenu.Content>
+			</ContextMenu.Portal>
+		);
+	}
+
 	return (
 		<ContextMenu.Portal>
 			<ContextMenu.Content className="min-w-[180px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
@@ -31,8 +227,34 @@ export const TabContextMenu = ({
 					className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
 					onSelect={onRename}
 				>
-					Rename Tab
+					{isGroup ? "Rename Group" : "Rename Tab"}
 				</ContextMenu.Item>
+				{onGroup && (
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+						onSelect={onGroup}
+					>
+						Wrap in Group
+					</ContextMenu.Item>
+				)}
+				{onConvertToTabGroup && (
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+						onSelect={onConvertToTabGroup}
+					>
+						{hasChildren
+							? "Convert Subtree to Tab Group"
+							: "Convert to Tab Group"}
+					</ContextMenu.Item>
+				)}
+				{onConvertTabGroupToSubtree && (
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+						onSelect={onConvertTabGroupToSubtree}
+					>
+						Convert Tab Group to Subtree
+					</ContextMenu.Item>
+				)}
 				{hasChildren && (
 					<ContextMenu.Item
 						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
@@ -41,12 +263,42 @@ export const TabContextMenu = ({
 						{isCollapsed ? "Expand" : "Collapse"}
 					</ContextMenu.Item>
 				)}
+				{hasChildren && onSort && (
+					<SortSubmenu label="Sort Children By" onSort={onSort} />
+				)}
+				{(canHibernate || canWake) && (
+					<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+				)}
+				{canHibernate && (
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+						onSelect={onHibernate}
+					>
+						{hasChildren ? "Hibernate Subtree" : "Hibernate Tab"}
+					</ContextMenu.Item>
+				)}
+				{canWake && (
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+						onSelect={onWake}
+					>
+						{hasChildren ? "Wake Subtree" : "Wake Tab"}
+					</ContextMenu.Item>
+				)}
 				<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+				{onCloseDuplicates && (
+					<ContextMenu.Item
+						className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
+						onSelect={onCloseDuplicates}
+					>
+						Close Duplicates (keep highest)
+					</ContextMenu.Item>
+				)}
 				<ContextMenu.Item
 					className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
 					onSelect={onClose}
 				>
-					Close Tab
+					{isGroup ? "Close Group" : "Close Tab"}
 				</ContextMenu.Item>
 			</ContextMenu.Content>
 		</ContextMenu.Portal>
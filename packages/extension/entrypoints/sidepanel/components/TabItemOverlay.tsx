@@ -1,8 +1,12 @@
 import { Puzzle } from "lucide-react";
 import type * as schema from "@/schema/src/schema";
+import type { FlatTreeNode } from "../lib/tree";
 import { useFaviconProxy } from "../lib/useFaviconProxy";
 
-export const TabItemOverlay = ({ tab }: { tab: schema.Tab }) => {
+/** Indentation per tree level in the drag preview */
+const OVERLAY_INDENT_PX = 16;
+
+const TabOverlayRow = ({ tab, depth }: { tab: schema.Tab; depth: number }) => {
 	// Check if this is an internal browser page
 	const isInternalPage =
 		tab.favIconUrl?.startsWith("chrome://") ||
@@ -17,7 +21,10 @@ export const TabItemOverlay = ({ tab }: { tab: schema.Tab }) => {
 		proxiedFavicon || (!faviconLoading ? tab.favIconUrl : null);
 
 	return (
-		<div className="flex items-center gap-2 px-2 py-1.5 bg-white dark:bg-zinc-800 rounded shadow-lg border border-zinc-200 dark:border-zinc-600">
+		<div
+			className="flex items-center gap-2 py-0.5"
+			style={{ paddingLeft: `${depth * OVERLAY_INDENT_PX}px` }}
+		>
 			{isInternalPage ? (
 				<Puzzle size={16} className="text-indigo-400 dark:text-indigo-400" />
 			) : faviconToDisplay ? (
@@ -30,8 +37,33 @@ export const TabItemOverlay = ({ tab }: { tab: schema.Tab }) => {
 				<div className="w-4 h-4 shrink-0 bg-zinc-300 dark:bg-zinc-600 rounded" />
 			)}
 			<span className="truncate text-sm max-w-[200px]">
-				{tab.title || tab.url}
+				{tab.titleOverride || tab.title || tab.url}
 			</span>
 		</div>
 	);
 };
+
+/**
+ * Drag preview: the dragged subtrees as they'll move, capped at a few rows
+ */
+export const TabItemOverlay = ({
+	rows,
+	hiddenCount,
+}: {
+	rows: FlatTreeNode[];
+	hiddenCount: number;
+}) => (
+	<div
+		data-testid="drag-overlay"
+		className="flex flex-col px-2 py-1 bg-white dark:bg-zinc-800 rounded shadow-lg border border-zinc-200 dark:border-zinc-600"
+	>
+		{rows.map((row) => (
+			<TabOverlayRow key={row.tab.id} tab={row.tab} depth={row.depth} />
+		))}
+		{hiddenCount > 0 && (
+			<span className="py-0.5 pl-6 text-xs text-zinc-500 dark:text-zinc-400">
+				+{hiddenCount} more
+			</span>
+		)}
+	</div>
+);
@@ -10,15 +10,32 @@ import {
 import { exhaustiveGuard } from "@firtoz/maybe-error";
 import { useLiveQuery } from "@tanstack/react-db";
 import { generateNKeysBetween } from "fractional-indexing";
-import { Plus, RefreshCw, Settings } from "lucide-react";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+	Archive,
+	ArrowDownUp,
+	FolderInput,
+	Moon,
+	Plus,
+	RefreshCw,
+	Settings,
+} from "lucide-react";
+import {
+	Fragment,
+	useCallback,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
 import { browser } from "wxt/browser";
 import type * as schema from "@/schema/src/schema";
 import { cn } from "../lib/cn";
+import { getWindowLabel } from "../lib/commands";
 import { useIdbAdapter } from "../lib/db/IdbTransportAdapterProvider";
 // import { sortableKeyboardCoordinates } from "@dnd-kit/sortable";
 import { useTabcanopyDB } from "../lib/db/MemoryCollectionProvider";
-import { isDropData } from "../lib/dnd/dnd-types";
+import { isDragDataWindow, isDropData } from "../lib/dnd/dnd-types";
+import { getDuplicateCounts } from "../lib/duplicates";
 import {
 	exposeBrowserTestActions,
 	exposeCurrentTreeStateForTests,
@@ -30,17 +47,51 @@ import {
 	DEFAULT_TREE_ORDER,
 	flattenTree,
 	getDescendantIds,
+	getDragPreview,
 	isAncestor,
+	isClosedTab,
 	type TreeDropPosition,
 	treeOrderSort,
 } from "../lib/tree";
+import type { ExportWindow } from "../lib/tree-exchange";
+import { addQuickAccessBookmarks } from "../lib/useQuickAccessBookmarks";
+import { useTabGroupList } from "../lib/useTabGroupList";
+import { useWorkspaceList } from "../lib/useWorkspaceList";
+import { sortWindowsByOrder } from "../lib/window-order";
+import { filterWindowsByWorkspace } from "../lib/workspaces";
+import { useDuplicates } from "../store/useDuplicates";
 import { useTabActions } from "../store/useTabActions";
+import { useWorkspaces } from "../store/useWorkspaces";
+import { AutoGroupRulesPanel } from "./AutoGroupRulesPanel";
+import { CommandPalette } from "./CommandPalette";
 import { cursorOffsetModifier } from "./dnd/cursorOffsetModifier";
 import { dropZoneCollision } from "./dnd/dropZoneCollision";
 import { NewWindowDropZone } from "./dnd/NewWindowDropZone";
+import { WindowGapDropZone } from "./dnd/WindowGapDropZone";
+import { ExchangePanel } from "./ExchangePanel";
+import { HibernationPanel } from "./HibernationPanel";
+import { QuickAccessBar } from "./QuickAccessBar";
 import { SearchHandling } from "./SearchHandling";
+import { SessionsPanel } from "./SessionsPanel";
+import type { BulkSelection } from "./TabContextMenu";
 import { TabItemOverlay } from "./TabItemOverlay";
+import { TreeKeyboardNavigation } from "./TreeKeyboardNavigation";
+import { useCommandPalette } from "./useCommandPalette";
 import { WindowGroup } from "./WindowGroup";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
+
+/** Rows shown in the drag overlay before it collapses into "+N more" */
+const DRAG_PREVIEW_MAX_ROWS = 8;
+
+// mutedInfo is stored as the JSON of the browser's MutedInfo
+function isTabMuted(tab: schema.Tab): boolean {
+	if (!tab.mutedInfo) return false;
+	try {
+		return JSON.parse(tab.mutedInfo).muted === true;
+	} catch {
+		return false;
+	}
+}
 
 // ============================================================================
 // Inner App Component (uses collections)
@@ -51,6 +102,16 @@ export const TabManagerContent = () => {
 	const tabCollection = useCollection("tabTable");
 	const adapter = useIdbAdapter();
 	const [isResetting, setIsResetting] = useState(false);
+	const commandPaletteOpen = useCommandPalette(({ open }) => open);
+	const workspaces = useWorkspaceList();
+	const tabGroups = useTabGroupList();
+	const activeWorkspaceId = useWorkspaces(
+		({ activeWorkspaceId }) => activeWorkspaceId,
+	);
+	const [showSessions, setShowSessions] = useState(false);
+	const [showHibernation, setShowHibernation] = useState(false);
+	const [showAutoGroup, setShowAutoGroup] = useState(false);
+	const [showExchange, setShowExchange] = useState(false);
 	const { setCollections } = useTabActions();
 
 	// Reactive queries for windows and tabs
@@ -66,11 +127,24 @@ export const TabManagerContent = () => {
 			? rawWindows
 			: ((rawWindows as { window?: schema.Window[] } | undefined)?.window ?? [])
 	) as schema.Window[];
-	const tabs = (
+	const allTabs = (
 		Array.isArray(rawTabs)
 			? rawTabs
 			: ((rawTabs as { tab?: schema.Tab[] } | undefined)?.tab ?? [])
 	) as schema.Tab[];
+	// Closed tabs are kept as ghosts for display only; everything else works on open tabs
+	const tabs = useMemo(
+		() => allTabs.filter((tab) => !isClosedTab(tab)),
+		[allTabs],
+	);
+	const closedTabs = useMemo(() => allTabs.filter(isClosedTab), [allTabs]);
+	const ignoreTrackingParams = useDuplicates(
+		({ ignoreTrackingParams }) => ignoreTrackingParams,
+	);
+	const duplicateCounts = useMemo(
+		() => getDuplicateCounts(tabs, { ignoreTrackingParams }),
+		[tabs, ignoreTrackingParams],
+	);
 
 	// Provide collections to Zustand store
 	useEffect(() => {
@@ -81,6 +155,8 @@ export const TabManagerContent = () => {
 			adapter.sendPendingChildIntent,
 			adapter.sendPatchTab,
 			adapter.sendPatchWindow,
+			adapter.startManagedWindowMove,
+			adapter.endManagedWindowMove,
 		);
 	}, [
 		tabCollection,
@@ -89,6 +165,8 @@ export const TabManagerContent = () => {
 		adapter.sendPendingChildIntent,
 		adapter.sendPatchTab,
 		adapter.sendPatchWindow,
+		adapter.startManagedWindowMove,
+		adapter.endManagedWindowMove,
 		setCollections,
 	]);
 
@@ -105,6 +183,7 @@ export const TabManagerContent = () => {
 		number | undefined
 	>();
 	const [activeId, setActiveId] = useState<string | null>(null);
+	const [draggedWindowId, setDraggedWindowId] = useState<number | null>(null);
 	// const [activeDropData, setActiveDropData] = useState<DropData | null>(null);
 
 	const sensors = useSensors(
@@ -120,17 +199,82 @@ export const TabManagerContent = () => {
 		});
 	}, []);
 
-	// Group tabs by window
+	// Group tabs by window (only the windows of the active workspace)
 	const windowsWithTabs = useMemo(() => {
 		if (!windows || !tabs) return [];
 
-		return windows.map((win) => ({
+		const workspaceId = workspaces.some((w) => w.id === activeWorkspaceId)
+			? activeWorkspaceId
+			: null;
+		return sortWindowsByOrder(
+			filterWindowsByWorkspace(windows, workspaces, workspaceId),
+		).map((win) => ({
 			window: win,
 			// Don't sort by tabIndex here - let buildTabTree handle the sorting by treeOrder
 			// This ensures the tree structure is displayed correctly
 			tabs: tabs.filter((tab) => tab.browserWindowId === win.browserWindowId),
+			closedTabs: closedTabs.filter(
+				(tab) => tab.browserWindowId === win.browserWindowId,
+			),
 		}));
-	}, [windows, tabs]);
+	}, [windows, tabs, closedTabs, workspaces, activeWorkspaceId]);
+
+	// Visible open tabs of every expanded window, in display order (keyboard focus model)
+	const navigationNodes = useMemo(
+		() =>
+			windowsWithTabs.flatMap(({ window: win, tabs: windowTabs }) =>
+				win.isCollapsed ? [] : flattenTree(buildTabTree(windowTabs)),
+			),
+		[windowsWithTabs],
+	);
+
+	const exportWindows = useMemo(
+		(): ExportWindow[] =>
+			windowsWithTabs.map(({ window: win, tabs: windowTabs }, index) => ({
+				title: getWindowLabel(win, index),
+				isCollapsed: win.isCollapsed,
+				tabs: windowTabs,
+			})),
+		[windowsWithTabs],
+	);
+
+	// Every open tab in tree order, collapsed subtrees included (command palette)
+	const paletteTabs = useMemo(
+		() =>
+			windowsWithTabs.flatMap(({ tabs: windowTabs }) =>
+				flattenTree(
+					buildTabTree(windowTabs.map((t) => ({ ...t, isCollapsed: false }))),
+				).map(({ tab }) => tab),
+			),
+		[windowsWithTabs],
+	);
+
+	// Several selected tabs share one context menu (bulk actions)
+	const bulkSelection = useMemo((): BulkSelection | undefined => {
+		const selectedTabs = paletteTabs.filter((t) =>
+			selectedTabIds.has(t.browserTabId),
+		);
+		if (selectedTabs.length < 2) return undefined;
+		const selectedWindowIds = new Set(
+			selectedTabs.map((t) => t.browserWindowId),
+		);
+		return {
+			tabIds: selectedTabs.map((t) => t.browserTabId),
+			allPinned: selectedTabs.every((t) => t.pinned),
+			allMuted: selectedTabs.every(isTabMuted),
+			moveTargets: windowsWithTabs.flatMap(({ window: win }, index) =>
+				selectedWindowIds.size === 1 &&
+				selectedWindowIds.has(win.browserWindowId)
+					? []
+					: [
+							{
+								browserWindowId: win.browserWindowId,
+								label: getWindowLabel(win, index),
+							},
+						],
+			),
+		};
+	}, [paletteTabs, selectedTabIds, windowsWithTabs]);
 
 	// Get all tab items for drag operations
 	const getAllItems = useCallback(() => {
@@ -144,14 +288,7 @@ export const TabManagerContent = () => {
 	}, [tabs]);
 
 	const handleOpenSettings = useCallback(() => {
-		const isFirefox = navigator.userAgent.includes("Firefox");
-		if (isFirefox) {
-			browser.tabs.create({
-				url: "https://support.mozilla.org/en-US/kb/customize-firefox-sidebars",
-			});
-		} else {
-			browser.tabs.create({ url: "chrome://settings/?search=side+panel" });
-		}
+		browser.runtime.openOptionsPage();
 	}, []);
 
 	const handleResetDatabase = useCallback(async () => {
@@ -169,6 +306,13 @@ export const TabManagerContent = () => {
 			setActiveId(event.active.id as string);
 			// setActiveDropData(null);
 
+			// Window headers drag the whole window; the tab selection stays
+			const dragData = event.active.data.current;
+			if (isDragDataWindow(dragData)) {
+				setDraggedWindowId(dragData.windowId);
+				return;
+			}
+
 			const parts = (event.active.id as string).split("-");
 			const draggedTabId = Number.parseInt(parts[parts.length - 1], 10);
 
@@ -193,6 +337,7 @@ export const TabManagerContent = () => {
 
 	const handleDragCancel = useCallback(() => {
 		setActiveId(null);
+		setDraggedWindowId(null);
 		// setActiveDropData(null);
 	}, []);
 
@@ -206,6 +351,7 @@ export const TabManagerContent = () => {
 			// console.log("handleDragEnd", event);
 			// console.log("event.over", event.over);
 			let dropData = event.over?.data?.current;
+			setDraggedWindowId(null);
 
 			if (!isDropData(dropData)) {
 				setActiveId(null);
@@ -216,6 +362,25 @@ export const TabManagerContent = () => {
 
 			setActiveId(null);
 
+			// Window headers: reorder between windows, or merge onto another one
+			const dragData = event.active.data.current;
+			if (isDragDataWindow(dragData)) {
+				const { moveWindow, mergeWindow } = useTabActions.getState();
+				if (dropData.type === "window-gap") {
+					await moveWindow(
+						dragData.windowId,
+						dropData.slot,
+						windowsWithTabs.map(({ window: win }) => win),
+					);
+				} else if (dropData.type === "window-merge") {
+					await mergeWindow(dragData.windowId, dropData.windowId);
+				}
+				return;
+			}
+			if (dropData.type === "window-gap" || dropData.type === "window-merge") {
+				return;
+			}
+
 			if (!dropData || !tabs) {
 				console.warn("no dropData or tabs");
 				return;
@@ -244,6 +409,19 @@ export const TabManagerContent = () => {
 				return;
 			}
 
+			// Dropping on the Quick Access bar bookmarks the tabs; nothing moves
+			if (dropData.type === "bookmarks") {
+				const draggedTabs = draggedTabIds.flatMap(
+					(id) => tabs.find((t) => t.browserTabId === id) ?? [],
+				);
+				try {
+					await addQuickAccessBookmarks(draggedTabs);
+				} catch (e) {
+					console.error("Failed to add Quick Access bookmarks:", e);
+				}
+				return;
+			}
+
 			// Handle "new-window" drop type - create a new window, then use standard cross-window move
 			let blankTabIdToClose: number | undefined;
 			if (dropData.type === "new-window") {
@@ -612,7 +790,14 @@ export const TabManagerContent = () => {
 				}
 			}
 		},
-		[getAllItems, selectedTabIds, tabs, tabCollection, adapter],
+		[
+			getAllItems,
+			selectedTabIds,
+			tabs,
+			tabCollection,
+			adapter,
+			windowsWithTabs,
+		],
 	);
 
 	// Store latest tabs in a ref to avoid stale closures
@@ -858,6 +1043,27 @@ export const TabManagerContent = () => {
 			: activeItem
 				? [activeItem]
 				: [];
+	// Everything that moves with the dragged tabs, as it'll land
+	const dragPreview =
+		selectedItems.length > 0 && tabs
+			? getDragPreview(
+					tabs,
+					selectedItems.map((item) => item.tabId),
+					DRAG_PREVIEW_MAX_ROWS,
+				)
+			: null;
+
+	const draggedWindowIndex = windowsWithTabs.findIndex(
+		({ window: win }) => win.browserWindowId === draggedWindowId,
+	);
+	const draggedWindow =
+		draggedWindowIndex === -1
+			? null
+			: {
+					window: windowsWithTabs[draggedWindowIndex].window,
+					index: draggedWindowIndex,
+					tabCount: windowsWithTabs[draggedWindowIndex].tabs.length,
+				};
 
 	if (windowsLoading || tabsLoading) {
 		return <div className="p-4 text-center text-zinc-500">Loading tabs...</div>;
@@ -873,6 +1079,18 @@ export const TabManagerContent = () => {
 			onDragCancel={handleDragCancel}
 		>
 			<SearchHandling />
+			<TreeKeyboardNavigation
+				nodes={navigationNodes}
+				disabled={activeId !== null}
+			/>
+			{commandPaletteOpen && (
+				<CommandPalette
+					windows={windows}
+					tabs={paletteTabs}
+					selectedTabIds={selectedTabIds}
+					currentWindowId={currentWindowId}
+				/>
+			)}
 			<div
 				data-testid="tab-manager"
 				className={cn(
@@ -880,12 +1098,75 @@ export const TabManagerContent = () => {
 				)}
 			>
 				<div className="flex items-center justify-between">
-					<img
-						src={import.meta.env.DEV ? "/icon-dev/128.png" : "/icon/128.png"}
-						alt="Tab Canopy"
-						className="size-6"
-					/>
 					<div className="flex items-center gap-2">
+						<img
+							src={import.meta.env.DEV ? "/icon-dev/128.png" : "/icon/128.png"}
+							alt="Tab Canopy"
+							className="size-6"
+						/>
+						<WorkspaceSwitcher windows={windows} />
+					</div>
+					<div className="flex items-center gap-2">
+						<button
+							type="button"
+							className={cn(
+								"flex items-center justify-center p-2 bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md text-black/60 dark:text-white/70 transition-all hover:bg-black/10 dark:hover:bg-white/10 hover:text-black/90 dark:hover:text-white/90 hover:border-black/20 dark:hover:border-white/20 active:scale-95",
+								{ "cursor-pointer": !activeId },
+								{
+									"bg-black/10 dark:bg-white/10 text-black/90 dark:text-white/90":
+										showSessions,
+								},
+							)}
+							onClick={() => setShowSessions((show) => !show)}
+							title="Saved sessions"
+						>
+							<Archive size={18} />
+						</button>
+						<button
+							type="button"
+							className={cn(
+								"flex items-center justify-center p-2 bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md text-black/60 dark:text-white/70 transition-all hover:bg-black/10 dark:hover:bg-white/10 hover:text-black/90 dark:hover:text-white/90 hover:border-black/20 dark:hover:border-white/20 active:scale-95",
+								{ "cursor-pointer": !activeId },
+								{
+									"bg-black/10 dark:bg-white/10 text-black/90 dark:text-white/90":
+										showHibernation,
+								},
+							)}
+							onClick={() => setShowHibernation((show) => !show)}
+							title="Idle tab hibernation"
+						>
+							<Moon size={18} />
+						</button>
+						<button
+							type="button"
+							className={cn(
+								"flex items-center justify-center p-2 bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md text-black/60 dark:text-white/70 transition-all hover:bg-black/10 dark:hover:bg-white/10 hover:text-black/90 dark:hover:text-white/90 hover:border-black/20 dark:hover:border-white/20 active:scale-95",
+								{ "cursor-pointer": !activeId },
+								{
+									"bg-black/10 dark:bg-white/10 text-black/90 dark:text-white/90":
+										showAutoGroup,
+								},
+							)}
+							onClick={() => setShowAutoGroup((show) => !show)}
+							title="Auto-group rules"
+						>
+							<FolderInput size={18} />
+						</button>
+						<button
+							type="button"
+							className={cn(
+								"flex items-center justify-center p-2 bg-black/5 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-md text-black/60 dark:text-white/70 transition-all hover:bg-black/10 dark:hover:bg-white/10 hover:text-black/90 dark:hover:text-white/90 hover:border-black/20 dark:hover:border-white/20 active:scale-95",
+								{ "cursor-pointer": !activeId },
+								{
+									"bg-black/10 dark:bg-white/10 text-black/90 dark:text-white/90":
+										showExchange,
+								},
+							)}
+							onClick={() => setShowExchange((show) => !show)}
+							title="Import / export"
+						>
+							<ArrowDownUp size={18} />
+						</button>
 						<button
 							type="button"
 							className={cn(
@@ -909,7 +1190,7 @@ export const TabManagerContent = () => {
 								{ "cursor-pointer": !activeId },
 							)}
 							onClick={handleOpenSettings}
-							title="Change side panel position"
+							title="Settings"
 						>
 							<Settings size={18} />
 						</button>
@@ -926,33 +1207,62 @@ export const TabManagerContent = () => {
 						</button>
 					</div>
 				</div>
+				<QuickAccessBar tabs={tabs} currentWindowId={currentWindowId} />
+				{showSessions && <SessionsPanel />}
+				{showHibernation && <HibernationPanel />}
+				{showAutoGroup && <AutoGroupRulesPanel />}
+				{showExchange && <ExchangePanel windows={exportWindows} />}
 				<div className="flex flex-col">
-					{windowsWithTabs.map(({ window: win, tabs: windowTabs }, index) => (
-						<WindowGroup
-							key={win.id}
-							window={win}
-							tabs={windowTabs}
-							isCurrentWindow={
-								currentWindowId !== undefined &&
-								win.browserWindowId === currentWindowId
-							}
-							isLastWindow={index === windowsWithTabs.length - 1}
-							selectedTabIds={selectedTabIds}
-							setSelectedTabIds={setSelectedTabIds}
-							lastSelectedTabId={lastSelectedTabId}
-							setLastSelectedTabId={setLastSelectedTabId}
-						/>
-					))}
+					{windowsWithTabs.map(
+						({ window: win, tabs: windowTabs, closedTabs }, index) => (
+							<Fragment key={win.id}>
+								<WindowGapDropZone
+									slot={index}
+									isDraggingWindow={draggedWindowId !== null}
+								/>
+								<WindowGroup
+									window={win}
+									tabs={windowTabs}
+									closedTabs={closedTabs}
+									isCurrentWindow={
+										currentWindowId !== undefined &&
+										win.browserWindowId === currentWindowId
+									}
+									isLastWindow={index === windowsWithTabs.length - 1}
+									selectedTabIds={selectedTabIds}
+									setSelectedTabIds={setSelectedTabIds}
+									lastSelectedTabId={lastSelectedTabId}
+									setLastSelectedTabId={setLastSelectedTabId}
+									duplicateCounts={duplicateCounts}
+									bulkSelection={bulkSelection}
+									tabGroups={tabGroups}
+								/>
+							</Fragment>
+						),
+					)}
+					<WindowGapDropZone
+						slot={windowsWithTabs.length}
+						isDraggingWindow={draggedWindowId !== null}
+					/>
 				</div>
 				{/* Drop zone at bottom to create new window */}
 				<NewWindowDropZone />
 			</div>
 			<DragOverlay dropAnimation={null} modifiers={[cursorOffsetModifier]}>
-				{activeId && selectedItems.length > 0 && (
-					<div className="flex flex-col gap-2 cursor-grabbing">
-						{selectedItems.map((item) => (
-							<TabItemOverlay key={item.id} tab={item.tab} />
-						))}
+				{draggedWindow && (
+					<div className="w-fit px-3 py-1.5 rounded-md shadow-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-700 dark:text-slate-200 cursor-grabbing">
+						{getWindowLabel(draggedWindow.window, draggedWindow.index)}
+						<span className="text-xs text-slate-400 dark:text-slate-500 ml-2">
+							• {draggedWindow.tabCount} tabs
+						</span>
+					</div>
+				)}
+				{activeId && dragPreview && (
+					<div className="cursor-grabbing">
+						<TabItemOverlay
+							rows={dragPreview.rows}
+							hiddenCount={dragPreview.hiddenCount}
+						/>
 					</div>
 				)}
 			</DragOverlay>
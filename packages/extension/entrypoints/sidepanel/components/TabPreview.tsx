@@ -0,0 +1,86 @@
+import { type RefObject, useEffect, useLayoutEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import type * as schema from "@/schema/src/schema";
+import { formatLastAccessed, getPreviewPosition } from "../lib/tab-preview";
+import { useTabThumbnail } from "../lib/useTabThumbnail";
+
+/** Hover time before the preview opens */
+const PREVIEW_DELAY_MS = 600;
+const PREVIEW_WIDTH = 288;
+/** Height without a thumbnail (URL + last accessed) */
+const PREVIEW_TEXT_HEIGHT = 56;
+const THUMBNAIL_HEIGHT = 162;
+
+/**
+ * Popover shown while hovering a tab row: the captured thumbnail (when one
+ * exists), the full URL and when the tab was last active.
+ */
+export const TabPreview = ({
+	tab,
+	anchorRef,
+}: {
+	tab: schema.Tab;
+	anchorRef: RefObject<HTMLElement | null>;
+}) => {
+	const [visible, setVisible] = useState(false);
+	const [position, setPosition] = useState<{
+		top: number;
+		left: number;
+	} | null>(null);
+
+	useEffect(() => {
+		const timer = setTimeout(() => setVisible(true), PREVIEW_DELAY_MS);
+		return () => clearTimeout(timer);
+	}, []);
+
+	const thumbnail = useTabThumbnail(tab.browserTabId, tab.url, visible);
+	const height =
+		PREVIEW_TEXT_HEIGHT + (thumbnail?.dataUrl ? THUMBNAIL_HEIGHT : 0);
+
+	useLayoutEffect(() => {
+		const anchor = anchorRef.current;
+		if (!visible || !anchor) return;
+		const rect = anchor.getBoundingClientRect();
+		setPosition(
+			getPreviewPosition(
+				rect,
+				{ width: Math.min(PREVIEW_WIDTH, window.innerWidth - 16), height },
+				{ width: window.innerWidth, height: window.innerHeight },
+			),
+		);
+	}, [visible, anchorRef, height]);
+
+	if (!visible || !position) return null;
+
+	return createPortal(
+		<div
+			data-testid="tab-preview"
+			className="fixed z-50 pointer-events-none overflow-hidden rounded-md shadow-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+			style={{
+				top: position.top,
+				left: position.left,
+				width: Math.min(PREVIEW_WIDTH, window.innerWidth - 16),
+			}}
+		>
+			{thumbnail?.dataUrl && (
+				<img
+					src={thumbnail.dataUrl}
+					alt=""
+					className="w-full object-cover object-top bg-slate-100 dark:bg-slate-900"
+					style={{ height: THUMBNAIL_HEIGHT }}
+				/>
+			)}
+			<div className="px-2 py-1.5 text-xs">
+				<div className="text-slate-700 dark:text-slate-200 break-all line-clamp-2">
+					{tab.url || "No URL"}
+				</div>
+				{thumbnail && (
+					<div className="mt-0.5 text-slate-500 dark:text-slate-400">
+						Last active {formatLastAccessed(thumbnail.activatedAt, Date.now())}
+					</div>
+				)}
+			</div>
+		</div>,
+		document.body,
+	);
+};
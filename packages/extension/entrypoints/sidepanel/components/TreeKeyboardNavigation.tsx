@@ -0,0 +1,118 @@
+import { useEffect, useEffectEvent } from "react";
+import { browser } from "wxt/browser";
+import { DEFAULT_KEYMAP, type Keymap, resolveKeyAction } from "../lib/keymap";
+import {
+	type FlatTreeNode,
+	getTreeNavigationResult,
+	type TreeNavigationStep,
+} from "../lib/tree";
+import { useTabActions } from "../store/useTabActions";
+import { useTreeFocus } from "../store/useTreeFocus";
+import { useCommandPalette } from "./useCommandPalette";
+
+const NAVIGATION_STEPS = {
+	focusPrevious: "previous",
+	focusNext: "next",
+	collapseOrParent: "collapseOrParent",
+	expandOrChild: "expandOrChild",
+} as const satisfies Record<string, TreeNavigationStep>;
+
+// Keys typed into the search box or a rename field must not drive the tree
+const isEditableTarget = (target: EventTarget | null) =>
+	target instanceof HTMLElement &&
+	(target.isContentEditable ||
+		target.tagName === "INPUT" ||
+		target.tagName === "TEXTAREA" ||
+		target.tagName === "SELECT");
+
+/**
+ * Document-level keyboard handling for the tab tree.
+ * `nodes` is the visible tree of every window in display order.
+ */
+export const TreeKeyboardNavigation = ({
+	nodes,
+	keymap = DEFAULT_KEYMAP,
+	disabled = false,
+}: {
+	nodes: FlatTreeNode[];
+	keymap?: Keymap;
+	disabled?: boolean;
+}) => {
+	const onKeyDown = useEffectEvent((event: DocumentEventMap["keydown"]) => {
+		if (disabled || event.defaultPrevented) return;
+
+		const action = resolveKeyAction(
+			event,
+			keymap,
+			navigator.platform.toLowerCase().includes("mac"),
+		);
+		if (!action) return;
+
+		// The palette shortcut also works from inside an input (including its own)
+		if (action === "openCommandPalette") {
+			event.preventDefault();
+			useCommandPalette.getState().toggle();
+			return;
+		}
+		if (isEditableTarget(event.target)) return;
+
+		const { focusedTabId, setFocusedTabId, requestRename } =
+			useTreeFocus.getState();
+		const { toggleCollapse, closeTab, moveTabAmongSiblings } =
+			useTabActions.getState();
+		const focusedNode = nodes.find((n) => n.tab.browserTabId === focusedTabId);
+
+		event.preventDefault();
+
+		if (action in NAVIGATION_STEPS) {
+			const result = getTreeNavigationResult(
+				nodes,
+				focusedNode ? focusedTabId : null,
+				NAVIGATION_STEPS[action as keyof typeof NAVIGATION_STEPS],
+			);
+			if (result?.type === "focus") {
+				setFocusedTabId(result.tabId);
+			} else if (result?.type === "toggleCollapse") {
+				toggleCollapse(result.tabId);
+			}
+			return;
+		}
+
+		if (!focusedNode) return;
+		const { browserTabId, browserWindowId } = focusedNode.tab;
+
+		switch (action) {
+			case "activate":
+				browser.tabs.update(browserTabId, { active: true });
+				browser.windows.update(browserWindowId, { focused: true });
+				break;
+			case "close": {
+				// Keep focus in place: next row, or previous when closing the last one
+				const index = nodes.indexOf(focusedNode);
+				const neighbour = nodes[index + 1] ?? nodes[index - 1];
+				setFocusedTabId(neighbour?.tab.browserTabId ?? null);
+				closeTab(browserTabId);
+				break;
+			}
+			case "rename":
+				requestRename(browserTabId);
+				break;
+			case "moveUp":
+				moveTabAmongSiblings(browserTabId, "up");
+				break;
+			case "moveDown":
+				moveTabAmongSiblings(browserTabId, "down");
+				break;
+		}
+	});
+
+	useEffect(() => {
+		const abortController = new AbortController();
+		document.addEventListener("keydown", onKeyDown, {
+			signal: abortController.signal,
+		});
+		return () => abortController.abort();
+	}, []);
+
+	return null;
+};
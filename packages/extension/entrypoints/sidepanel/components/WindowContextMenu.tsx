@@ -1,20 +1,36 @@
 import * as ContextMenu from "@radix-ui/react-context-menu";
+import type { TabSortKey } from "../lib/sort-tabs";
+import { useWorkspaceList } from "../lib/useWorkspaceList";
+import { SortSubmenu } from "./SortSubmenu";
 
 interface WindowContextMenuProps {
 	isCollapsed: boolean;
+	/** Workspace the window is in (null = default) */
+	workspaceId: string | null;
 	onRename: () => void;
 	onToggleCollapse: () => void;
 	onClose: () => void;
 	onNewTab: () => void;
+	onMoveToWorkspace: (workspaceId: string | null) => void;
+	onSort: (key: TabSortKey, recursive: boolean) => void;
 }
 
 export const WindowContextMenu = ({
 	isCollapsed,
+	workspaceId,
 	onRename,
 	onToggleCollapse,
 	onClose,
 	onNewTab,
+	onMoveToWorkspace,
+	onSort,
 }: WindowContextMenuProps) => {
+	const workspaces = useWorkspaceList();
+	const targets = [
+		{ id: null, name: "Default" },
+		...workspaces.map((w) => ({ id: w.id, name: w.name })),
+	].filter((target) => target.id !== workspaceId);
+
 	return (
 		<ContextMenu.Portal>
 			<ContextMenu.Content className="min-w-[180px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
@@ -37,6 +53,27 @@ export const WindowContextMenu = ({
 				>
 					{isCollapsed ? "Expand" : "Collapse"}
 				</ContextMenu.Item>
+				<SortSubmenu label="Sort Window By" onSort={onSort} />
+				{workspaces.length > 0 && (
+					<ContextMenu.Sub>
+						<ContextMenu.SubTrigger className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 data-[state=open]:bg-slate-100 dark:data-[state=open]:bg-slate-700 text-slate-700 dark:text-slate-200">
+							Move to Workspace
+						</ContextMenu.SubTrigger>
+						<ContextMenu.Portal>
+							<ContextMenu.SubContent className="min-w-[140px] bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 p-1 z-50">
+								{targets.map((target) => (
+									<ContextMenu.Item
+										key={target.id ?? "default"}
+										className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"
+										onSelect={() => onMoveToWorkspace(target.id)}
+									>
+										{target.name}
+									</ContextMenu.Item>
+								))}
+							</ContextMenu.SubContent>
+						</ContextMenu.Portal>
+					</ContextMenu.Sub>
+				)}
 				<ContextMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
 				<ContextMenu.Item
 					className="text-xs px-2 py-1.5 rounded cursor-pointer outline-none hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
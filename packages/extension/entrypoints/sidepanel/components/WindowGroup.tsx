@@ -1,6 +1,5 @@
-import { useDndContext } from "@dnd-kit/core";
+import { useDndContext, useDraggable } from "@dnd-kit/core";
 import * as ContextMenu from "@radix-ui/react-context-menu";
-import fuzzysort from "fuzzysort";
 import { Plus, X } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type * as schema from "@/schema/src/schema";
@@ -11,24 +10,67 @@ import { cn } from "../lib/cn";
 // 	verticalListSortingStrategy,
 // } from "@dnd-kit/sortable";
 import { useTabcanopyDB } from "../lib/db/MemoryCollectionProvider";
-import { isDropData } from "../lib/dnd/dnd-types";
-import { buildTabTree, flattenTree } from "../lib/tree";
+import {
+	type DragDataWindow,
+	isDragDataWindow,
+	isDropData,
+} from "../lib/dnd/dnd-types";
+import { matchTab } from "../lib/fuzzy";
+import {
+	getTabGroupRunStarts,
+	isTabGroupColor,
+	TAB_GROUP_CHIP_CLASSES,
+	TAB_GROUP_RAIL_CLASSES,
+} from "../lib/tab-groups";
+import { buildTabTree, flattenTree, isClosedTab } from "../lib/tree";
+import { useTreeMetrics } from "../store/usePreferences";
 import { useTabActions } from "../store/useTabActions";
 import { DraggableTab } from "./dnd/DraggableTab";
 import { GapDropZone } from "./dnd/GapDropZone";
+import { WindowMergeDropZone } from "./dnd/WindowMergeDropZone";
 import { WindowTitleDropZone } from "./dnd/WindowTitleDropZone";
 import { IconCollapsed } from "./icons/IconCollapsed";
 import { IconExpanded } from "./icons/IconExpanded";
 import { TreeBranch } from "./icons/TreeBranch";
 import { TreeEnd } from "./icons/TreeEnd";
+import { TabCard } from "./TabCard";
+import type { BulkSelection } from "./TabContextMenu";
 import { useSearch } from "./useSearch";
 import { WindowContextMenu } from "./WindowContextMenu";
 
 // ============================================================================
-// Drop Zone Components - Tabs Outliner Style
+// Native tab group markers
 // ============================================================================
 
-export const TREE_W = 24; // Width of each tree segment (must match TabCard)
+const TabGroupChip = ({
+	group,
+	depthPx,
+}: {
+	group: schema.TabGroup;
+	depthPx: number;
+}) => (
+	<div
+		className="flex items-center h-5 pt-1"
+		style={{ paddingLeft: `${depthPx}px` }}
+	>
+		<span
+			data-testid="tab-group-chip"
+			className={cn(
+				"max-w-40 truncate px-1.5 rounded text-[10px] leading-4 font-medium",
+				isTabGroupColor(group.color)
+					? TAB_GROUP_CHIP_CLASSES[group.color]
+					: TAB_GROUP_CHIP_CLASSES.grey,
+			)}
+			title={
+				group.collapsed
+					? "Native tab group (collapsed in the tab strip)"
+					: "Native tab group"
+			}
+		>
+			{group.title || "Unnamed group"}
+		</span>
+	</div>
+);
 
 // ============================================================================
 // Window Group Component - now a tree node itself
@@ -50,32 +92,52 @@ export interface WindowItem {
 export const WindowGroup = ({
 	window: win,
 	tabs,
+	closedTabs = [],
 	isCurrentWindow,
 	isLastWindow,
 	selectedTabIds,
 	setSelectedTabIds,
 	lastSelectedTabId,
 	setLastSelectedTabId,
+	duplicateCounts,
+	bulkSelection,
+	tabGroups,
 }: {
 	window: schema.Window;
 	tabs: schema.Tab[];
+	/** Closed-tab ghosts, rendered dimmed under their original parent */
+	closedTabs?: schema.Tab[];
 	isCurrentWindow: boolean;
 	isLastWindow: boolean;
 	selectedTabIds: Set<number>;
 	setSelectedTabIds: (ids: Set<number>) => void;
 	lastSelectedTabId: number | undefined;
 	setLastSelectedTabId: (id: number | undefined) => void;
+	/** Open tabs per duplicated URL, keyed by browser tab ID */
+	duplicateCounts?: Map<number, number>;
+	/** Set while several tabs are selected; offered on the selected tabs' menu */
+	bulkSelection?: BulkSelection;
+	/** Native tab groups, keyed by browser group ID */
+	tabGroups?: Map<number, schema.TabGroup>;
 }) => {
 	const { useCollection } = useTabcanopyDB();
 	const windowCollection = useCollection("windowTable");
 	const { active } = useDndContext();
-	const isDragging = active !== null;
+	// Tab drop zones only apply to tab drags; window drags have their own
+	const isDraggingWindow = isDragDataWindow(active?.data.current);
+	const isDragging = active !== null && !isDraggingWindow;
 	const [isEditingTitle, setIsEditingTitle] = useState(false);
 	const [editTitleValue, setEditTitleValue] = useState("");
 	const windowInputRef = useRef<HTMLInputElement>(null);
 
 	// Get actions from Zustand store
-	const { closeWindow, renameWindow, newTabInWindow } = useTabActions();
+	const {
+		closeWindow,
+		renameWindow,
+		newTabInWindow,
+		setWindowWorkspace,
+		sortTabs,
+	} = useTabActions();
 
 	// Auto-focus and select text when entering edit mode
 	useEffect(() => {
@@ -85,16 +147,23 @@ export const WindowGroup = ({
 		}
 	}, [isEditingTitle]);
 
+	// Open tabs plus closed-tab ghosts, for rendering and search
+	const displayTabs = useMemo(
+		() => (closedTabs.length > 0 ? [...tabs, ...closedTabs] : tabs),
+		[tabs, closedTabs],
+	);
+
 	// Build tree structure and flatten for rendering
 	// Tabs are now at depth 1+ (window is depth 0)
 	const flatNodes = useMemo(() => {
-		const tree = buildTabTree(tabs);
+		const tree = buildTabTree(displayTabs);
 		return flattenTree(tree);
-	}, [tabs]);
+	}, [displayTabs]);
 
 	// Get search input and threshold
 	const searchInput = useSearch(({ input }) => input);
 	const searchThreshold = useSearch(({ threshold }) => threshold);
+	const { indentWidth } = useTreeMetrics();
 
 	// Compute search state and match highlights for each tab
 	type SearchState = "match" | "ancestor" | "hidden";
@@ -112,29 +181,25 @@ export const WindowGroup = ({
 
 		// Find all tabs that match the search
 		const matchingTabIds = new Set<number>();
-		for (const tab of tabs) {
-			const displayTitle = tab.title || "Untitled";
-			const titleResult = fuzzysort.single(searchInput, displayTitle);
-			const urlResult = tab.url ? fuzzysort.single(searchInput, tab.url) : null;
-
-			const titleMatches = titleResult && titleResult.score > searchThreshold;
-			const urlMatches = urlResult && urlResult.score > searchThreshold;
-
-			if (titleMatches || urlMatches) {
+		for (const tab of displayTabs) {
+			const match = matchTab(searchInput, tab, searchThreshold);
+			if (match) {
 				matchingTabIds.add(tab.browserTabId);
 				// Store the result for highlighting if title matched
 				infoMap.set(tab.browserTabId, {
 					state: "match",
-					highlightResult: titleMatches ? titleResult : undefined,
+					highlightResult: match.titleResult,
 				});
 			}
 		}
 
 		// Find all ancestors of matching tabs
 		for (const matchingTabId of matchingTabIds) {
-			let currentTab = tabs.find((t) => t.browserTabId === matchingTabId);
+			let currentTab = displayTabs.find(
+				(t) => t.browserTabId === matchingTabId,
+			);
 			while (currentTab?.parentTabId !== null) {
-				const parentTab = tabs.find(
+				const parentTab = displayTabs.find(
 					(t) => t.browserTabId === currentTab?.parentTabId,
 				);
 				if (!parentTab) break;
@@ -149,14 +214,14 @@ export const WindowGroup = ({
 		}
 
 		// All other tabs are hidden
-		for (const tab of tabs) {
+		for (const tab of displayTabs) {
 			if (!infoMap.has(tab.browserTabId)) {
 				infoMap.set(tab.browserTabId, { state: "hidden" });
 			}
 		}
 
 		return infoMap;
-	}, [tabs, searchInput, searchThreshold]);
+	}, [displayTabs, searchInput, searchThreshold]);
 
 	// Adjust depth for tabs (add 1 since window is at depth 0)
 	// Also prepend the window's continuation guide
@@ -189,6 +254,19 @@ export const WindowGroup = ({
 
 	const selectedItems = items.filter((item) => selectedTabIds.has(item.tabId));
 
+	// Rows where a native group's chip is shown
+	const groupRunStarts = useMemo(
+		() =>
+			getTabGroupRunStarts(
+				items.map((item) =>
+					item.tab.groupId !== null && tabGroups?.has(item.tab.groupId)
+						? item.tab.groupId
+						: null,
+				),
+			),
+		[items, tabGroups],
+	);
+
 	const handleTabSelect = useCallback(
 		(tabId: number, options: { ctrlKey: boolean; shiftKey: boolean }) => {
 			if (options.shiftKey && lastSelectedTabId !== undefined) {
@@ -202,6 +280,7 @@ export const WindowGroup = ({
 					const endIdx = Math.max(lastIndex, currentIndex);
 					const newSelected = new Set(selectedTabIds);
 					for (let i = startIdx; i <= endIdx; i++) {
+						if (isClosedTab(items[i].tab)) continue;
 						newSelected.add(items[i].tabId);
 					}
 					setSelectedTabIds(newSelected);
@@ -248,6 +327,9 @@ export const WindowGroup = ({
 
 		if (
 			activeDropData.type === "new-window" ||
+			activeDropData.type === "bookmarks" ||
+			activeDropData.type === "window-gap" ||
+			activeDropData.type === "window-merge" ||
 			activeDropData.windowId !== win.browserWindowId
 		) {
 			return null;
@@ -382,14 +464,40 @@ export const WindowGroup = ({
 		[handleSaveRenameWindow, handleCancelRenameWindow],
 	);
 
+	// The header drags the whole window (reorder, or drop on another to merge)
+	const windowDragData: DragDataWindow = useMemo(
+		() => ({ type: "window", windowId: win.browserWindowId }),
+		[win.browserWindowId],
+	);
+	const {
+		listeners: windowDragListeners,
+		setNodeRef: setWindowDragRef,
+		isDragging: isThisWindowDragging,
+	} = useDraggable({
+		id: `window-${win.browserWindowId}`,
+		data: windowDragData,
+		disabled: isEditingTitle,
+	});
+
 	const displayWindowTitle = win.titleOverride || "Window";
+	const hibernatedCount = useMemo(
+		() => tabs.filter((t) => t.discarded).length,
+		[tabs],
+	);
 
 	return (
 		<ContextMenu.Root>
 			<div className="flex flex-col">
 				{/* Window header as tree node */}
 				<ContextMenu.Trigger asChild>
-					<div className="flex items-stretch text-slate-300 dark:text-slate-600 relative">
+					<div
+						ref={setWindowDragRef}
+						data-testid="window-header"
+						className={cn(
+							"flex items-stretch text-slate-300 dark:text-slate-600 relative",
+							isThisWindowDragging && "opacity-30",
+						)}
+					>
 						{/* Tree lines for window */}
 						{isLastWindow ? (
 							<TreeEnd highlighted={highlightedDepth === 0} />
@@ -422,6 +530,7 @@ export const WindowGroup = ({
 							}
 							role="button"
 							tabIndex={0}
+							{...windowDragListeners}
 						>
 							<button
 								type="button"
@@ -463,6 +572,15 @@ export const WindowGroup = ({
 									• {tabs.length} tabs
 								</span>
 							)}
+							{!isEditingTitle && hibernatedCount > 0 && (
+								<span
+									data-testid="hibernated-count"
+									className="text-xs text-amber-600 dark:text-amber-400 ml-1"
+									title="Hibernated (discarded) tabs in this window"
+								>
+									• {hibernatedCount} hibernated
+								</span>
+							)}
 							{!isEditingTitle && (
 								<>
 									<button
@@ -492,6 +610,10 @@ export const WindowGroup = ({
 							slot={0}
 							isDragging={isDragging}
 						/>
+						<WindowMergeDropZone
+							windowId={win.browserWindowId}
+							isDraggingWindow={isDraggingWindow && !isThisWindowDragging}
+						/>
 					</div>
 				</ContextMenu.Trigger>
 
@@ -525,9 +647,9 @@ export const WindowGroup = ({
 							// For child: line starts at favicon position (more indented)
 							const indicatorLeftPx =
 								indicator?.type === "sibling"
-									? indicator.depth * 24 // Tree structure width
+									? indicator.depth * indentWidth // Tree structure width
 									: indicator?.type === "child"
-										? indicator.depth * 24 // Already includes +1 depth from child
+										? indicator.depth * indentWidth // Already includes +1 depth from child
 										: 0;
 
 							const indicatorColor =
@@ -536,6 +658,11 @@ export const WindowGroup = ({
 							// Get search info for this tab
 							const tabSearchInfo = searchInfo.get(item.tabId);
 
+							const nativeGroup =
+								item.tab.groupId !== null
+									? tabGroups?.get(item.tab.groupId)
+									: undefined;
+
 							return (
 								<div key={item.id} className="relative">
 									{showIndicatorBefore && (
@@ -546,29 +673,76 @@ export const WindowGroup = ({
 											}}
 										/>
 									)}
-									<DraggableTab
-										id={item.id}
-										windowId={win.browserWindowId}
-										windowFocused={win.focused}
-										isCurrentWindow={isCurrentWindow}
-										tab={item.tab}
-										isSelected={isSelected}
-										isPartOfDrag={isPartOfDrag}
-										isDragging={isDragging}
-										onSelect={handleTabSelect}
-										depth={item.depth}
-										hasChildren={item.hasChildren}
-										isLastChild={item.isLastChild}
-										indentGuides={item.indentGuides}
-										highlightedDepth={highlightedDepth}
-										ancestorIds={item.ancestorIds}
-										searchState={
-											tabSearchInfo?.state === "hidden"
-												? undefined
-												: tabSearchInfo?.state
-										}
-										searchHighlight={tabSearchInfo?.highlightResult}
-									/>
+									{nativeGroup && groupRunStarts[index] && (
+										<TabGroupChip
+											group={nativeGroup}
+											depthPx={item.depth * indentWidth}
+										/>
+									)}
+									{nativeGroup && (
+										<div
+											data-testid="tab-group-rail"
+											className={cn(
+												"absolute left-0 bottom-0 w-1 rounded-full z-10 pointer-events-none",
+												groupRunStarts[index] ? "top-1" : "top-0",
+												isTabGroupColor(nativeGroup.color)
+													? TAB_GROUP_RAIL_CLASSES[nativeGroup.color]
+													: TAB_GROUP_RAIL_CLASSES.grey,
+											)}
+										/>
+									)}
+									{isClosedTab(item.tab) ? (
+										<TabCard
+											tab={item.tab}
+											windowFocused={win.focused}
+											isCurrentWindow={isCurrentWindow}
+											isSelected={false}
+											onSelect={handleTabSelect}
+											isDragging={isDragging}
+											depth={item.depth}
+											hasChildren={item.hasChildren}
+											isLastChild={item.isLastChild}
+											indentGuides={item.indentGuides}
+											highlightedDepth={highlightedDepth}
+											searchState={
+												tabSearchInfo?.state === "hidden"
+													? undefined
+													: tabSearchInfo?.state
+											}
+											searchHighlight={tabSearchInfo?.highlightResult}
+											duplicateCount={duplicateCounts?.get(
+												item.tab.browserTabId,
+											)}
+										/>
+									) : (
+										<DraggableTab
+											id={item.id}
+											windowId={win.browserWindowId}
+											windowFocused={win.focused}
+											isCurrentWindow={isCurrentWindow}
+											tab={item.tab}
+											isSelected={isSelected}
+											isPartOfDrag={isPartOfDrag}
+											isDragging={isDragging}
+											onSelect={handleTabSelect}
+											depth={item.depth}
+											hasChildren={item.hasChildren}
+											isLastChild={item.isLastChild}
+											indentGuides={item.indentGuides}
+											highlightedDepth={highlightedDepth}
+											ancestorIds={item.ancestorIds}
+											searchState={
+												tabSearchInfo?.state === "hidden"
+													? undefined
+													: tabSearchInfo?.state
+											}
+											searchHighlight={tabSearchInfo?.highlightResult}
+											duplicateCount={duplicateCounts?.get(
+												item.tab.browserTabId,
+											)}
+											bulkSelection={isSelected ? bulkSelection : undefined}
+										/>
+									)}
 								</div>
 							);
 						})}
@@ -585,7 +759,7 @@ export const WindowGroup = ({
 									style={{
 										left: `${
 											indicator.type === "sibling" || indicator.type === "child"
-												? indicator.depth * 24
+												? indicator.depth * indentWidth
 												: 0
 										}px`,
 									}}
@@ -601,10 +775,17 @@ export const WindowGroup = ({
 				)}
 				<WindowContextMenu
 					isCollapsed={win.isCollapsed}
+					workspaceId={win.workspaceId}
 					onRename={handleStartRenameWindow}
 					onToggleCollapse={handleToggleWindowCollapse}
 					onClose={() => closeWindow(win.browserWindowId)}
 					onNewTab={() => newTabInWindow(win.browserWindowId)}
+					onMoveToWorkspace={(workspaceId) =>
+						setWindowWorkspace(win.browserWindowId, workspaceId)
+					}
+					onSort={(key, recursive) =>
+						sortTabs(win.browserWindowId, null, key, recursive)
+					}
 				/>
 			</div>
 		</ContextMenu.Root>
@@ -0,0 +1,233 @@
+import { Check, ChevronDown, Plus, X } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type * as schema from "@/schema/src/schema";
+import { cn } from "../lib/cn";
+import { useIdbAdapter } from "../lib/db/IdbTransportAdapterProvider";
+import { useWorkspaceList } from "../lib/useWorkspaceList";
+import {
+	filterWindowsByWorkspace,
+	isWorkspaceColor,
+	WORKSPACE_COLOR_CLASSES,
+} from "../lib/workspaces";
+import { useTabActions } from "../store/useTabActions";
+import { useWorkspaces } from "../store/useWorkspaces";
+
+const WorkspaceDot = ({ color }: { color: string | null }) => (
+	<span
+		className={cn(
+			"size-2.5 shrink-0 rounded-full",
+			color && isWorkspaceColor(color)
+				? WORKSPACE_COLOR_CLASSES[color]
+				: "bg-slate-400 dark:bg-slate-500",
+		)}
+	/>
+);
+
+/**
+ * Header dropdown for switching between workspaces (named groups of windows).
+ * Windows opened while a workspace is active join it.
+ */
+export const WorkspaceSwitcher = ({
+	windows,
+}: {
+	windows: schema.Window[];
+}) => {
+	const adapter = useIdbAdapter();
+	const workspaces = useWorkspaceList();
+	const activeWorkspaceId = useWorkspaces(
+		({ activeWorkspaceId }) => activeWorkspaceId,
+	);
+	const setActiveWorkspaceId = useWorkspaces(
+		({ setActiveWorkspaceId }) => setActiveWorkspaceId,
+	);
+	const minimizeOnSwitch = useWorkspaces(
+		({ minimizeOnSwitch }) => minimizeOnSwitch,
+	);
+	const setMinimizeOnSwitch = useWorkspaces(
+		({ setMinimizeOnSwitch }) => setMinimizeOnSwitch,
+	);
+	const [open, setOpen] = useState(false);
+	const [name, setName] = useState("");
+
+	const activeWorkspace =
+		workspaces.find((w) => w.id === activeWorkspaceId) ?? null;
+
+	// Windows that appear while a workspace is active join it
+	const knownWindowIds = useRef<Set<number> | null>(null);
+	useEffect(() => {
+		if (knownWindowIds.current === null) {
+			// First load: everything already open keeps its workspace
+			if (windows.length > 0) {
+				knownWindowIds.current = new Set(windows.map((w) => w.browserWindowId));
+			}
+			return;
+		}
+		const { setWindowWorkspace } = useTabActions.getState();
+		for (const win of windows) {
+			if (knownWindowIds.current.has(win.browserWindowId)) continue;
+			knownWindowIds.current.add(win.browserWindowId);
+			if (activeWorkspace && win.workspaceId === null) {
+				setWindowWorkspace(win.browserWindowId, activeWorkspace.id);
+			}
+		}
+	}, [windows, activeWorkspace]);
+
+	const switchTo = useCallback(
+		async (workspaceId: string | null) => {
+			setOpen(false);
+			if (workspaceId === (activeWorkspace?.id ?? null)) return;
+
+			const leaving = filterWindowsByWorkspace(
+				windows,
+				workspaces,
+				activeWorkspace?.id ?? null,
+			);
+			const entering = filterWindowsByWorkspace(
+				windows,
+				workspaces,
+				workspaceId,
+			);
+			setActiveWorkspaceId(workspaceId);
+
+			// An empty workspace keeps the current windows visible until the user
+			// opens one there
+			if (!minimizeOnSwitch || entering.length === 0) return;
+			try {
+				// Restore first so the browser is never left without a visible window
+				for (const win of entering) {
+					await browser.windows.update(win.browserWindowId, {
+						state: "normal",
+					});
+				}
+				const [first] = entering;
+				await browser.windows.update(first.browserWindowId, { focused: true });
+				for (const win of leaving) {
+					await browser.windows.update(win.browserWindowId, {
+						state: "minimized",
+					});
+				}
+			} catch (e) {
+				console.error("Failed to minimize/restore workspace windows:", e);
+			}
+		},
+		[
+			activeWorkspace,
+			windows,
+			workspaces,
+			minimizeOnSwitch,
+			setActiveWorkspaceId,
+		],
+	);
+
+	const handleCreate = useCallback(
+		(event: React.FormEvent) => {
+			event.preventDefault();
+			const trimmed = name.trim();
+			if (!trimmed) return;
+			adapter.createWorkspace(trimmed);
+			setName("");
+		},
+		[adapter, name],
+	);
+
+	const handleDelete = useCallback(
+		(workspaceId: string) => {
+			if (workspaceId === activeWorkspace?.id) {
+				setActiveWorkspaceId(null);
+			}
+			adapter.deleteWorkspace(workspaceId);
+		},
+		[adapter, activeWorkspace, setActiveWorkspaceId],
+	);
+
+	const itemClassName =
+		"flex-1 min-w-0 flex items-center gap-2 px-2 py-1 text-xs text-left rounded cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200";
+
+	return (
+		<div className="relative">
+			<button
+				type="button"
+				data-testid="workspace-switcher"
+				className="flex items-center gap-1.5 max-w-40 px-2 py-1.5 text-xs rounded-md border border-black/10 dark:border-white/10 bg-black/5 dark:bg-white/5 text-black/70 dark:text-white/80 hover:bg-black/10 dark:hover:bg-white/10 cursor-pointer"
+				onClick={() => setOpen((o) => !o)}
+				title="Switch workspace"
+			>
+				<WorkspaceDot color={activeWorkspace?.color ?? null} />
+				<span className="truncate">{activeWorkspace?.name ?? "Default"}</span>
+				<ChevronDown size={14} className="shrink-0" />
+			</button>
+			{open && (
+				<div className="absolute left-0 top-full mt-1 w-56 p-1 bg-white dark:bg-slate-800 rounded-md shadow-lg border border-slate-200 dark:border-slate-700 z-50">
+					<div className="flex items-center">
+						<button
+							type="button"
+							className={itemClassName}
+							onClick={() => switchTo(null)}
+						>
+							<WorkspaceDot color={null} />
+							<span className="truncate">Default</span>
+							{activeWorkspace === null && (
+								<Check size={12} className="ml-auto" />
+							)}
+						</button>
+					</div>
+					{workspaces.map((workspace) => (
+						<div
+							key={workspace.id}
+							data-testid="workspace-item"
+							className="group flex items-center"
+						>
+							<button
+								type="button"
+								className={itemClassName}
+								onClick={() => switchTo(workspace.id)}
+							>
+								<WorkspaceDot color={workspace.color} />
+								<span className="truncate">{workspace.name}</span>
+								{activeWorkspace?.id === workspace.id && (
+									<Check size={12} className="ml-auto" />
+								)}
+							</button>
+							<button
+								type="button"
+								className="hidden group-hover:block p-1 rounded text-slate-400 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+								onClick={() => handleDelete(workspace.id)}
+								title="Delete workspace (its windows move to Default)"
+							>
+								<X size={12} />
+							</button>
+						</div>
+					))}
+					<div className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+					<form
+						className="flex items-center gap-1 px-1"
+						onSubmit={handleCreate}
+					>
+						<input
+							className="bg-slate-50 dark:bg-slate-600 dark:text-amber-50 w-full px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							placeholder="New workspace..."
+						/>
+						<button
+							type="submit"
+							disabled={!name.trim()}
+							className="shrink-0 p-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 cursor-pointer disabled:cursor-default"
+							title="Create workspace"
+						>
+							<Plus size={14} />
+						</button>
+					</form>
+					<label className="flex items-center gap-2 px-2 pt-2 pb-1 text-xs text-slate-600 dark:text-slate-400 cursor-pointer">
+						<input
+							type="checkbox"
+							checked={minimizeOnSwitch}
+							onChange={(e) => setMinimizeOnSwitch(e.target.checked)}
+						/>
+						Minimize other workspaces' windows
+					</label>
+				</div>
+			)}
+		</div>
+	);
+};
@@ -1,6 +1,6 @@
 import { useDroppable } from "@dnd-kit/core";
 import type { DropDataSibling } from "../../lib/dnd/dnd-types";
-import { TREE_W } from "../WindowGroup";
+import { useTreeMetrics } from "../../store/usePreferences";
 
 // Individual ancestor-level drop zone (vertical strip at specific indent level)
 export function AncestorDropZone({
@@ -30,17 +30,18 @@ export function AncestorDropZone({
 		id: `sibling-${windowId}-${tabId}-${zoneIndex}`,
 		data: dropData,
 	});
+	const { indentWidth } = useTreeMetrics();
 
 	if (!isDragging) return null;
 
-	const left = zoneIndex * TREE_W;
+	const left = zoneIndex * indentWidth;
 
 	return (
 		<div
 			ref={setNodeRef}
 			style={{
 				left: `${left}px`,
-				width: `${TREE_W}px`,
+				width: `${indentWidth}px`,
 			}}
 			className={`absolute top-0 bottom-0 z-20 ${isOver ? "bg-emerald-500/30" : "bg-transparent"}`}
 		/>
@@ -4,6 +4,7 @@ import type * as schema from "@/schema/src/schema";
 import type { DragDataTab } from "../../lib/dnd/dnd-types";
 import { useTabActions } from "../../store/useTabActions";
 import { TabCard } from "../TabCard";
+import type { BulkSelection } from "../TabContextMenu";
 import { TabDropZones } from "./TabDropZones";
 
 export interface DraggableTabProps {
@@ -31,6 +32,10 @@ export interface DraggableTabProps {
 	searchState?: "match" | "ancestor";
 	/** Fuzzysort result for highlighting matched characters */
 	searchHighlight?: Fuzzysort.Result;
+	/** Open tabs sharing this tab's URL (including itself), when duplicated */
+	duplicateCount?: number;
+	/** Passed when the tab is part of a multi-selection */
+	bulkSelection?: BulkSelection;
 }
 
 export function DraggableTab({
@@ -51,6 +56,8 @@ export function DraggableTab({
 	ancestorIds,
 	searchState,
 	searchHighlight,
+	duplicateCount,
+	bulkSelection,
 }: DraggableTabProps) {
 	const [isEditingTitle, setIsEditingTitle] = useState(false);
 	const { closeTab } = useTabActions();
@@ -118,6 +125,8 @@ export function DraggableTab({
 				highlightedDepth={highlightedDepth}
 				searchState={searchState}
 				searchHighlight={searchHighlight}
+				duplicateCount={duplicateCount}
+				bulkSelection={bulkSelection}
 			/>
 			<TabDropZones
 				windowId={windowId}
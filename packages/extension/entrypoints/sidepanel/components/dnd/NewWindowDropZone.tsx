@@ -1,13 +1,17 @@
 import { useDndContext, useDroppable } from "@dnd-kit/core";
 import { cn } from "../../lib/cn";
-import type { DropDataNewWindow } from "../../lib/dnd/dnd-types";
+import {
+	type DropDataNewWindow,
+	isDragDataWindow,
+} from "../../lib/dnd/dnd-types";
 
 // ============================================================================
 // New Window Drop Zone (at bottom of main container)
 // ============================================================================
 export function NewWindowDropZone() {
 	const { active } = useDndContext();
-	const isDragging = active !== null;
+	// Window drags only reorder or merge windows
+	const isDragging = active !== null && !isDragDataWindow(active.data.current);
 
 	const dropData: DropDataNewWindow = { type: "new-window" };
 	const { setNodeRef, isOver } = useDroppable({
@@ -1,7 +1,8 @@
 import { useDroppable } from "@dnd-kit/core";
 import { useMemo } from "react";
 import type { DropDataChild } from "../../lib/dnd/dnd-types";
-import { TREE_W } from "../WindowGroup";
+import { useTreeMetrics } from "../../store/usePreferences";
+import { ICON_SIZE } from "../icons/icon-constants";
 import { AncestorDropZone } from "./AncestorDropZone";
 
 // Tabs Outliner style drop zones: multiple vertical strips on left + child zone on right
@@ -26,7 +27,8 @@ export function TabDropZones({
 	});
 
 	// Content area starts after all tree guides + branch + expand icon
-	const contentLeft = (depth + 1) * TREE_W;
+	const { indentWidth } = useTreeMetrics();
+	const contentLeft = depth * indentWidth + ICON_SIZE;
 
 	// Build the list of drop zones with their ancestor IDs
 	// Zone 0 = window level (new window) - special, we skip it as we have NewWindowDropZone
@@ -0,0 +1,33 @@
+import { useDroppable } from "@dnd-kit/core";
+import type { DropDataWindowGap } from "../../lib/dnd/dnd-types";
+
+export function WindowGapDropZone({
+	slot,
+	isDraggingWindow,
+}: {
+	slot: number;
+	isDraggingWindow: boolean;
+}) {
+	const dropData: DropDataWindowGap = useMemo(
+		() => ({ type: "window-gap", slot }),
+		[slot],
+	);
+	const { setNodeRef, isOver } = useDroppable({
+		id: `window-gap-${slot}`,
+		data: dropData,
+	});
+
+	if (!isDraggingWindow) {
+		return null;
+	}
+
+	return (
+		<div
+			ref={setNodeRef}
+			data-testid="window-gap-drop-zone"
+			className={`h-3 -my-1.5 relative z-20 flex items-center ${isOver ? "" : "opacity-0"}`}
+		>
+			<div className="h-0.5 w-full bg-emerald-500 rounded-full shadow-[0_0_6px_rgba(16,185,129,0.6)]" />
+		</div>
+	);
+}
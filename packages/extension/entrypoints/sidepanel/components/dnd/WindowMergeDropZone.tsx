@@ -0,0 +1,32 @@
+import { useDroppable } from "@dnd-kit/core";
+import type { DropDataWindowMerge } from "../../lib/dnd/dnd-types";
+
+export function WindowMergeDropZone({
+	windowId,
+	isDraggingWindow,
+}: {
+	windowId: number;
+	isDraggingWindow: boolean;
+}) {
+	const dropData: DropDataWindowMerge = useMemo(
+		() => ({ type: "window-merge", windowId }),
+		[windowId],
+	);
+	const { setNodeRef, isOver } = useDroppable({
+		id: `window-merge-${windowId}`,
+		data: dropData,
+	});
+
+	if (!isDraggingWindow) {
+		return null;
+	}
+
+	return (
+		<div
+			ref={setNodeRef}
+			data-testid="window-merge-drop-zone"
+			className={`absolute inset-0 z-20 rounded ${isOver ? "bg-blue-500/20 ring-2 ring-blue-500" : "bg-transparent"}`}
+			title="Drop to merge windows"
+		/>
+	);
+}
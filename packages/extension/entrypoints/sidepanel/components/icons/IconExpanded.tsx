@@ -1,39 +1,41 @@
+import { useTreeMetrics } from "../../store/usePreferences";
 import {
 	BOX_OFFSET,
 	BOX_SIZE,
-	BOX_Y,
 	ICON_MID,
 	ICON_SIZE,
-	MID_Y,
 	STROKE,
-	TREE_H,
 } from "./icon-constants";
 
 // [v] Expanded - downward chevron in box
-export const IconExpanded = () => (
-	<svg
-		width={ICON_SIZE}
-		height={TREE_H}
-		className="shrink-0"
-		aria-hidden="true"
-	>
-		<rect
-			x={BOX_OFFSET}
-			y={BOX_Y}
-			width={BOX_SIZE}
-			height={BOX_SIZE}
-			fill="none"
-			stroke="currentColor"
-			strokeWidth={STROKE}
-			rx={2}
-		/>
-		<polyline
-			points={`${ICON_MID - 3},${MID_Y - 2} ${ICON_MID},${MID_Y + 3} ${ICON_MID + 3},${MID_Y - 2}`}
-			fill="none"
-			stroke="currentColor"
-			strokeWidth={STROKE}
-			strokeLinecap="round"
-			strokeLinejoin="round"
-		/>
-	</svg>
-);
+export const IconExpanded = () => {
+	const { rowHeight } = useTreeMetrics();
+	const midY = rowHeight / 2;
+	return (
+		<svg
+			width={ICON_SIZE}
+			height={rowHeight}
+			className="shrink-0"
+			aria-hidden="true"
+		>
+			<rect
+				x={BOX_OFFSET}
+				y={midY - BOX_SIZE / 2}
+				width={BOX_SIZE}
+				height={BOX_SIZE}
+				fill="none"
+				stroke="currentColor"
+				strokeWidth={STROKE}
+				rx={2}
+			/>
+			<polyline
+				points={`${ICON_MID - 3},${midY - 2} ${ICON_MID},${midY + 3} ${ICON_MID + 3},${midY - 2}`}
+				fill="none"
+				stroke="currentColor"
+				strokeWidth={STROKE}
+				strokeLinecap="round"
+				strokeLinejoin="round"
+			/>
+		</svg>
+	);
+};
@@ -1,39 +1,43 @@
 import { cn } from "../../lib/cn";
-import { MID_X, MID_Y, STROKE, TREE_H, TREE_W } from "./icon-constants";
+import { useTreeMetrics } from "../../store/usePreferences";
+import { STROKE } from "./icon-constants";
 
 // End (┗) - vertical top half + horizontal right
-export const TreeEnd = ({ highlighted }: { highlighted?: boolean }) => (
-	<svg
-		width={TREE_W}
-		height={TREE_H}
-		className={cn("shrink-0", highlighted && "text-emerald-500")}
-		aria-hidden="true"
-	>
-		{highlighted && (
-			<rect
-				x={0}
-				y={0}
-				width={TREE_W}
-				height={TREE_H}
-				fill="currentColor"
-				fillOpacity={0.2}
+export const TreeEnd = ({ highlighted }: { highlighted?: boolean }) => {
+	const { indentWidth, rowHeight } = useTreeMetrics();
+	return (
+		<svg
+			width={indentWidth}
+			height={rowHeight}
+			className={cn("shrink-0", highlighted && "text-emerald-500")}
+			aria-hidden="true"
+		>
+			{highlighted && (
+				<rect
+					x={0}
+					y={0}
+					width={indentWidth}
+					height={rowHeight}
+					fill="currentColor"
+					fillOpacity={0.2}
+				/>
+			)}
+			<line
+				x1={indentWidth / 2}
+				y1={0}
+				x2={indentWidth / 2}
+				y2={rowHeight / 2}
+				stroke="currentColor"
+				strokeWidth={STROKE}
 			/>
-		)}
-		<line
-			x1={MID_X}
-			y1={0}
-			x2={MID_X}
-			y2={MID_Y}
-			stroke="currentColor"
-			strokeWidth={STROKE}
-		/>
-		<line
-			x1={MID_X}
-			y1={MID_Y}
-			x2={TREE_W}
-			y2={MID_Y}
-			stroke="currentColor"
-			strokeWidth={STROKE}
-		/>
-	</svg>
-);
+			<line
+				x1={indentWidth / 2}
+				y1={rowHeight / 2}
+				x2={indentWidth}
+				y2={rowHeight / 2}
+				stroke="currentColor"
+				strokeWidth={STROKE}
+			/>
+		</svg>
+	);
+};
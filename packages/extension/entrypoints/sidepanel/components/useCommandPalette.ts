@@ -0,0 +1,18 @@
+import { create } from "zustand";
+
+export const useCommandPalette = create<CommandPaletteStore>()((set, get) => ({
+	open: false,
+	setOpen: (open) => {
+		set({ open });
+	},
+	toggle: () => {
+		set({ open: !get().open });
+	},
+}));
+
+export type CommandPaletteStore = {
+	open: boolean;
+
+	setOpen(open: boolean): void;
+	toggle(): void;
+};
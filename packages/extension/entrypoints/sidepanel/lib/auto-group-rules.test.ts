@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+import type { Tab } from "@/schema/src/schema";
+import {
+	type AutoGroupRule,
+	findAutoGroupPlacement,
+	matchesUrlPattern,
+	parseAutoGroupRules,
+} from "./auto-group-rules";
+import { createMockTab } from "./tests/mock-tab";
+
+const GROUP_PAGE_URL = "chrome-extension://abc/group.html";
+
+const tab = (
+	browserTabId: number,
+	parentTabId: number | null,
+	overrides: Partial<Tab> = {},
+) =>
+	createMockTab(browserTabId, parentTabId, "a0", {
+		url: `https://example.com/${browserTabId}`,
+		...overrides,
+	});
+
+const jiraRule: AutoGroupRule = {
+	id: "jira",
+	match: "*.atlassian.net/*",
+	action: "childOfPinned",
+	parentMatch: "*.atlassian.net/jira*",
+};
+const githubRule: AutoGroupRule = {
+	id: "github",
+	match: "github.com/org/*",
+	action: "group",
+	groupName: "GitHub",
+};
+
+describe("matchesUrlPattern", () => {
+	test("matches wildcards, ignoring the scheme", () => {
+		expect(
+			matchesUrlPattern(
+				"https://acme.atlassian.net/browse/X-1",
+				jiraRule.match,
+			),
+		).toBe(true);
+		expect(
+			matchesUrlPattern(
+				"https://github.com/org/repo",
+				"https://github.com/org/*",
+			),
+		).toBe(true);
+		expect(
+			matchesUrlPattern("https://github.com/other/repo", githubRule.match),
+		).toBe(false);
+	});
+
+	test("a bare domain matches the whole site", () => {
+		expect(matchesUrlPattern("https://example.com/a/b", "example.com")).toBe(
+			true,
+		);
+		expect(matchesUrlPattern("https://example.com.evil/", "example.com")).toBe(
+			false,
+		);
+	});
+
+	test("treats regex characters literally and never matches an empty pattern", () => {
+		expect(matchesUrlPattern("https://exampleXcom/", "example.com")).toBe(
+			false,
+		);
+		expect(matchesUrlPattern("https://example.com/", "  ")).toBe(false);
+	});
+});
+
+describe("parseAutoGroupRules", () => {
+	test("keeps well-formed rules and drops the rest", () => {
+		expect(
+			parseAutoGroupRules([
+				jiraRule,
+				githubRule,
+				{ id: "x", match: "a", action: "group" },
+				{ id: "y", match: "b", action: "unknown", groupName: "B" },
+				null,
+			]),
+		).toEqual([jiraRule, githubRule]);
+		expect(parseAutoGroupRules(undefined)).toEqual([]);
+	});
+});
+
+describe("findAutoGroupPlacement", () => {
+	const windowTabs = [
+		tab(1, null, {
+			pinned: true,
+			url: "https://acme.atlassian.net/jira/board",
+		}),
+		tab(2, 1, { treeOrder: "a0" }),
+		tab(3, 1, { treeOrder: "a1" }),
+		tab(4, null, { url: GROUP_PAGE_URL, titleOverride: "GitHub" }),
+	];
+
+	test("opens matching tabs after the pinned parent's children", () => {
+		const placement = findAutoGroupPlacement(
+			[jiraRule],
+			"https://acme.atlassian.net/browse/X-1",
+			windowTabs,
+			GROUP_PAGE_URL,
+		);
+		expect(placement).toMatchObject({ type: "parent", parentTabId: 1 });
+		expect(placement?.type === "parent" && placement.treeOrder > "a1").toBe(
+			true,
+		);
+		expect(placement?.reason).toContain(jiraRule.match);
+	});
+
+	test("files matching tabs under an existing group node", () => {
+		expect(
+			findAutoGroupPlacement(
+				[githubRule],
+				"https://github.com/org/repo",
+				windowTabs,
+				GROUP_PAGE_URL,
+			),
+		).toMatchObject({ type: "parent", parentTabId: 4 });
+	});
+
+	test("asks for a new group when the window has none", () => {
+		expect(
+			findAutoGroupPlacement(
+				[githubRule],
+				"https://github.com/org/repo",
+				windowTabs.slice(0, 3),
+				GROUP_PAGE_URL,
+			),
+		).toMatchObject({ type: "newGroup", groupName: "GitHub" });
+	});
+
+	test("files matching tabs under a group node whose row is still pending", () => {
+		expect(
+			findAutoGroupPlacement(
+				[githubRule],
+				"https://github.com/org/repo",
+				windowTabs.slice(0, 3),
+				GROUP_PAGE_URL,
+				new Map([["GitHub", 9]]),
+			),
+		).toMatchObject({ type: "parent", parentTabId: 9 });
+	});
+
+	test("skips rules whose pinned parent isn't open", () => {
+		expect(
+			findAutoGroupPlacement(
+				[jiraRule, githubRule],
+				"https://acme.atlassian.net/browse/X-1",
+				windowTabs.slice(1),
+				GROUP_PAGE_URL,
+			),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,134 @@
+import { generateKeyBetween } from "fractional-indexing";
+import type { Tab } from "@/schema/src/schema";
+import { getGroupName, isGroupPageUrl } from "./group-node";
+import { treeOrderSort } from "./tree";
+
+/**
+ * Where new tabs matching a URL pattern are placed in the tree. Kept in
+ * `browser.storage.local` so the background can read the rules while it
+ * places a freshly created tab.
+ */
+export type AutoGroupRule = {
+	id: string;
+	/** URL pattern of the tabs to place; see matchesUrlPattern */
+	match: string;
+} & (
+	| {
+			action: "childOfPinned";
+			/** URL pattern of the pinned tab to open them under */
+			parentMatch: string;
+	  }
+	| {
+			action: "group";
+			/** Group node to file them under, created if the window has none */
+			groupName: string;
+	  }
+);
+
+export type AutoGroupAction = AutoGroupRule["action"];
+
+export const AUTO_GROUP_RULES_KEY = "tabcanopy-auto-group-rules";
+
+/**
+ * Whether a URL matches a pattern like `*.atlassian.net/*`. The scheme is
+ * ignored on both sides, `*` matches any run of characters and a pattern
+ * without a path matches the whole site.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+	const stripScheme = (s: string) => s.trim().replace(/^[a-z-]+:\/\//i, "");
+	let target = stripScheme(pattern);
+	if (!target) return false;
+	if (!target.includes("/")) target += "/*";
+	const regex = new RegExp(
+		`^${target
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join(".*")}$`,
+		"i",
+	);
+	return regex.test(stripScheme(url));
+}
+
+/**
+ * Read rules from storage, dropping malformed entries
+ */
+export function parseAutoGroupRules(value: unknown): AutoGroupRule[] {
+	if (!Array.isArray(value)) return [];
+	return value.flatMap((item): AutoGroupRule[] => {
+		if (typeof item !== "object" || item === null) return [];
+		const { id, match, action, parentMatch, groupName } = item as Record<
+			string,
+			unknown
+		>;
+		if (typeof id !== "string" || typeof match !== "string") return [];
+		if (action === "childOfPinned" && typeof parentMatch === "string") {
+			return [{ id, match, action, parentMatch }];
+		}
+		if (action === "group" && typeof groupName === "string") {
+			return [{ id, match, action, groupName }];
+		}
+		return [];
+	});
+}
+
+/** One-line summary of a rule, also used as the placement reason */
+export function describeAutoGroupRule(rule: AutoGroupRule): string {
+	return rule.action === "childOfPinned"
+		? `${rule.match} → child of pinned ${rule.parentMatch}`
+		: `${rule.match} → group "${rule.groupName}"`;
+}
+
+export type AutoGroupPlacement =
+	| { type: "parent"; parentTabId: number; treeOrder: string; reason: string }
+	| { type: "newGroup"; groupName: string; reason: string };
+
+/**
+ * Placement for a new tab by the first rule that matches its URL and has a
+ * target in the window. `windowTabs` are the window's open tabs, without the
+ * new one; `groupPageUrl` is the group page's full URL. `pendingGroups` maps
+ * group names to group nodes already opened in the window whose rows aren't
+ * in `windowTabs` yet. Returns null when no rule applies.
+ */
+export function findAutoGroupPlacement(
+	rules: AutoGroupRule[],
+	url: string,
+	windowTabs: Tab[],
+	groupPageUrl: string,
+	pendingGroups: ReadonlyMap<string, number> = new Map(),
+): AutoGroupPlacement | null {
+	for (const rule of rules) {
+		if (!matchesUrlPattern(url, rule.match)) continue;
+		const reason = `Auto-group rule: ${describeAutoGroupRule(rule)}`;
+
+		const parentTabId =
+			rule.action === "childOfPinned"
+				? windowTabs.find(
+						(t) =>
+							t.pinned &&
+							t.url !== null &&
+							matchesUrlPattern(t.url, rule.parentMatch),
+					)?.browserTabId
+				: (windowTabs.find(
+						(t) =>
+							isGroupPageUrl(t.url, groupPageUrl) &&
+							getGroupName(t) === rule.groupName,
+					)?.browserTabId ?? pendingGroups.get(rule.groupName));
+		if (parentTabId !== undefined) {
+			// Appended after the parent's existing children
+			const lastChild = windowTabs
+				.filter((t) => t.parentTabId === parentTabId)
+				.sort(treeOrderSort)
+				.at(-1);
+			return {
+				type: "parent",
+				parentTabId,
+				treeOrder: generateKeyBetween(lastChild?.treeOrder ?? null, null),
+				reason,
+			};
+		}
+		if (rule.action === "group") {
+			return { type: "newGroup", groupName: rule.groupName, reason };
+		}
+	}
+	return null;
+}
@@ -0,0 +1,178 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildPaletteCommands,
+	getWindowLabel,
+	type PaletteActions,
+	resolveCommandTargets,
+} from "./commands";
+
+describe("resolveCommandTargets", () => {
+	const order = [1, 2, 3, 4];
+
+	test("uses the whole selection when the focused tab is part of it", () => {
+		expect(resolveCommandTargets(order, new Set([3, 1]), 3)).toEqual([1, 3]);
+	});
+
+	test("uses the focused tab alone when it is outside the selection", () => {
+		expect(resolveCommandTargets(order, new Set([1, 3]), 2)).toEqual([2]);
+	});
+
+	test("falls back to the selection without a focused tab", () => {
+		expect(resolveCommandTargets(order, new Set([4, 2]), null)).toEqual([2, 4]);
+		// A focused tab that no longer exists doesn't count
+		expect(resolveCommandTargets(order, new Set([4]), 99)).toEqual([4]);
+		expect(resolveCommandTargets(order, new Set(), null)).toEqual([]);
+	});
+});
+
+describe("buildPaletteCommands", () => {
+	const calls: string[] = [];
+	const actions: PaletteActions = {
+		newWindow: () => {
+			calls.push("newWindow");
+		},
+		newTabInWindow: (windowId) => {
+			calls.push(`newTabInWindow:${windowId}`);
+		},
+		newTabAsChild: (tabId) => {
+			calls.push(`newTabAsChild:${tabId}`);
+		},
+		closeTab: (tabId) => {
+			calls.push(`closeTab:${tabId}`);
+		},
+		rename: (tabId) => {
+			calls.push(`rename:${tabId}`);
+		},
+		setAllCollapsed: (isCollapsed) => {
+			calls.push(`setAllCollapsed:${isCollapsed}`);
+		},
+		moveTabsToWindow: (tabIds, windowId) => {
+			calls.push(`moveTabsToWindow:${tabIds.join(",")}:${windowId}`);
+		},
+	};
+	const windows = [
+		{ browserWindowId: 10, titleOverride: null },
+		{ browserWindowId: 20, titleOverride: "Research" },
+	];
+	const labels = (commands: { label: string }[]) =>
+		commands.map((c) => c.label);
+
+	test("leaves out tab commands without targets", () => {
+		const commands = buildPaletteCommands({
+			windows,
+			targetTabIds: [],
+			targetWindowIds: new Set(),
+			currentWindowId: 10,
+			actions,
+		});
+		expect(labels(commands)).toEqual([
+			"New window",
+			"New tab",
+			"Collapse all",
+			"Expand all",
+		]);
+	});
+
+	test("offers single-tab commands and other windows as move targets", () => {
+		const commands = buildPaletteCommands({
+			windows,
+			targetTabIds: [5],
+			targetWindowIds: new Set([10]),
+			currentWindowId: 10,
+			actions,
+		});
+		expect(labels(commands)).toEqual([
+			"New window",
+			"New tab",
+			"New child tab",
+			"Rename tab",
+			"Close tab",
+			"Collapse all",
+			"Expand all",
+			"Move to Research",
+		]);
+	});
+
+	test("runs multi-tab commands against every target", async () => {
+		calls.length = 0;
+		const commands = buildPaletteCommands({
+			windows,
+			targetTabIds: [5, 6],
+			targetWindowIds: new Set([10, 20]),
+			currentWindowId: undefined,
+			actions,
+		});
+		expect(labels(commands)).not.toContain("Rename tab");
+		for (const command of commands) {
+			if (command.id === "close-tabs" || command.id.startsWith("move-to")) {
+				await command.run();
+			}
+		}
+		expect(calls).toEqual([
+			"closeTab:5",
+			"closeTab:6",
+			"moveTabsToWindow:5,6:10",
+			"moveTabsToWindow:5,6:20",
+		]);
+		expect(labels(commands)).toContain("Close 2 tabs");
+	});
+});
+
+describe("buildPaletteCommands duplicates", () => {
+	const calls: string[] = [];
+	const noop = () => {};
+	const actions: PaletteActions = {
+		newWindow: noop,
+		newTabInWindow: noop,
+		newTabAsChild: noop,
+		closeTab: noop,
+		rename: noop,
+		setAllCollapsed: noop,
+		moveTabsToWindow: noop,
+		closeDuplicates: () => {
+			calls.push("closeDuplicates");
+		},
+		setIgnoreTrackingParams: (ignore) => {
+			calls.push(`setIgnoreTrackingParams:${ignore}`);
+		},
+	};
+	const build = (closableCount: number, ignoreTrackingParams: boolean) =>
+		buildPaletteCommands({
+			windows: [],
+			targetTabIds: [],
+			targetWindowIds: new Set(),
+			currentWindowId: undefined,
+			duplicates: { closableCount, ignoreTrackingParams },
+			actions,
+		});
+
+	test("offers closing duplicates only when there are some", () => {
+		expect(build(0, true).map((c) => c.id)).not.toContain("close-duplicates");
+		const close = build(3, true).find((c) => c.id === "close-duplicates");
+		expect(close?.label).toBe("Close 3 duplicate tabs");
+		expect(build(1, true).find((c) => c.id === "close-duplicates")?.label).toBe(
+			"Close 1 duplicate tab",
+		);
+	});
+
+	test("toggles the tracking parameter setting", async () => {
+		calls.length = 0;
+		for (const ignore of [true, false]) {
+			const toggle = build(0, ignore).find(
+				(c) => c.id === "toggle-tracking-params",
+			);
+			await toggle?.run();
+		}
+		expect(calls).toEqual([
+			"setIgnoreTrackingParams:false",
+			"setIgnoreTrackingParams:true",
+		]);
+	});
+});
+
+describe("getWindowLabel", () => {
+	test("prefers the custom title over the position", () => {
+		expect(getWindowLabel({ titleOverride: "Work" }, 0)).toBe("Work");
+		expect(getWindowLabel({ titleOverride: null }, 1)).toBe("Window 2");
+	});
+});
@@ -0,0 +1,166 @@
+import type { Window } from "@/schema/src/schema";
+
+/** An action listed in the command palette */
+export type PaletteCommand = {
+	id: string;
+	label: string;
+	run: () => void | Promise<void>;
+};
+
+/** The tab and window actions the palette can run */
+export type PaletteActions = {
+	newWindow: () => void | Promise<void>;
+	newTabInWindow: (windowId: number) => void | Promise<void>;
+	newTabAsChild: (parentTabId: number) => void | Promise<void>;
+	closeTab: (tabId: number) => void | Promise<void>;
+	rename: (tabId: number) => void;
+	setAllCollapsed: (isCollapsed: boolean) => void | Promise<void>;
+	moveTabsToWindow: (
+		tabIds: number[],
+		windowId: number,
+	) => void | Promise<void>;
+	closeDuplicates?: () => void | Promise<void>;
+	setIgnoreTrackingParams?: (ignore: boolean) => void;
+};
+
+/**
+ * The tabs a palette action applies to, in tree order.
+ * A focused tab inside the selection means the whole selection; a focused tab
+ * outside it wins on its own; with nothing focused the selection is used.
+ */
+export function resolveCommandTargets(
+	orderedTabIds: number[],
+	selectedTabIds: ReadonlySet<number>,
+	focusedTabId: number | null,
+): number[] {
+	const focusedExists =
+		focusedTabId !== null && orderedTabIds.includes(focusedTabId);
+	if (focusedExists && !selectedTabIds.has(focusedTabId)) {
+		return [focusedTabId];
+	}
+	return orderedTabIds.filter((id) => selectedTabIds.has(id));
+}
+
+export function getWindowLabel(
+	win: Pick<Window, "titleOverride">,
+	index: number,
+): string {
+	return win.titleOverride || `Window ${index + 1}`;
+}
+
+/**
+ * Commands available for the current targets. Tab commands are left out when
+ * there is nothing to act on; "Move to" lists every window not already holding
+ * all of the targets. Duplicate commands are only offered with `duplicates`.
+ */
+export function buildPaletteCommands({
+	windows,
+	targetTabIds,
+	targetWindowIds,
+	currentWindowId,
+	duplicates,
+	actions,
+}: {
+	windows: Pick<Window, "browserWindowId" | "titleOverride">[];
+	targetTabIds: number[];
+	/** Windows the targets currently live in */
+	targetWindowIds: ReadonlySet<number>;
+	currentWindowId: number | undefined;
+	duplicates?: {
+		/** Tabs that "Close duplicates" would close */
+		closableCount: number;
+		ignoreTrackingParams: boolean;
+	};
+	actions: PaletteActions;
+}): PaletteCommand[] {
+	const commands: PaletteCommand[] = [
+		{ id: "new-window", label: "New window", run: actions.newWindow },
+	];
+
+	if (currentWindowId !== undefined) {
+		commands.push({
+			id: "new-tab",
+			label: "New tab",
+			run: () => actions.newTabInWindow(currentWindowId),
+		});
+	}
+
+	const [firstTarget] = targetTabIds;
+	if (firstTarget !== undefined) {
+		const plural = targetTabIds.length > 1;
+		if (!plural) {
+			commands.push(
+				{
+					id: "new-child-tab",
+					label: "New child tab",
+					run: () => actions.newTabAsChild(firstTarget),
+				},
+				{
+					id: "rename-tab",
+					label: "Rename tab",
+					run: () => actions.rename(firstTarget),
+				},
+			);
+		}
+		commands.push({
+			id: "close-tabs",
+			label: plural ? `Close ${targetTabIds.length} tabs` : "Close tab",
+			run: async () => {
+				for (const tabId of targetTabIds) {
+					await actions.closeTab(tabId);
+				}
+			},
+		});
+	}
+
+	commands.push(
+		{
+			id: "collapse-all",
+			label: "Collapse all",
+			run: () => actions.setAllCollapsed(true),
+		},
+		{
+			id: "expand-all",
+			label: "Expand all",
+			run: () => actions.setAllCollapsed(false),
+		},
+	);
+
+	if (duplicates) {
+		const { closeDuplicates, setIgnoreTrackingParams } = actions;
+		if (closeDuplicates && duplicates.closableCount > 0) {
+			commands.push({
+				id: "close-duplicates",
+				label: `Close ${duplicates.closableCount} duplicate ${
+					duplicates.closableCount === 1 ? "tab" : "tabs"
+				}`,
+				run: closeDuplicates,
+			});
+		}
+		if (setIgnoreTrackingParams) {
+			const { ignoreTrackingParams } = duplicates;
+			commands.push({
+				id: "toggle-tracking-params",
+				label: ignoreTrackingParams
+					? "Duplicates: compare tracking parameters"
+					: "Duplicates: ignore tracking parameters",
+				run: () => setIgnoreTrackingParams(!ignoreTrackingParams),
+			});
+		}
+	}
+
+	if (firstTarget !== undefined) {
+		windows.forEach((win, index) => {
+			const onlyTargetWindow =
+				targetWindowIds.size === 1 && targetWindowIds.has(win.browserWindowId);
+			if (onlyTargetWindow) return;
+			commands.push({
+				id: `move-to-window-${win.browserWindowId}`,
+				label: `Move to ${getWindowLabel(win, index)}`,
+				run: () => actions.moveTabsToWindow(targetTabIds, win.browserWindowId),
+			});
+		});
+	}
+
+	return commands;
+}
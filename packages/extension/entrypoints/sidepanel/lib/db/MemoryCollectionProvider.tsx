@@ -1,7 +1,8 @@
 import type { SyncMessage } from "@firtoz/db-helpers";
 import { memoryCollectionOptions } from "@firtoz/db-helpers";
 import type { InferCollectionFromTable } from "@firtoz/drizzle-utils";
-import { createCollection } from "@tanstack/db";
+import { type Collection, createCollection } from "@tanstack/db";
+import { useLiveQuery } from "@tanstack/react-db";
 import {
 	createContext,
 	type ReactNode,
@@ -14,26 +15,45 @@ import {
 import type * as schema from "@/schema/src/schema";
 import { useIdbAdapter } from "./IdbTransportAdapterProvider";
 import {
+	sessionPassthroughSchema,
+	tabGroupPassthroughSchema,
 	tabPassthroughSchema,
 	windowPassthroughSchema,
+	workspacePassthroughSchema,
 } from "./memoryCollectionSchema";
 
 type TabCollection = InferCollectionFromTable<typeof schema.tabTable>;
 type WindowCollection = InferCollectionFromTable<typeof schema.windowTable>;
+type SessionCollection = InferCollectionFromTable<typeof schema.sessionTable>;
+type WorkspaceCollection = InferCollectionFromTable<
+	typeof schema.workspaceTable
+>;
+type TabGroupCollection = InferCollectionFromTable<typeof schema.tabGroupTable>;
 
 type SchemaType = {
 	tabTable: typeof schema.tabTable;
 	windowTable: typeof schema.windowTable;
+	sessionTable: typeof schema.sessionTable;
+	workspaceTable: typeof schema.workspaceTable;
+	tabGroupTable: typeof schema.tabGroupTable;
 };
 
+type CollectionFor<T extends keyof SchemaType> = T extends "tabTable"
+	? TabCollection
+	: T extends "windowTable"
+		? WindowCollection
+		: T extends "sessionTable"
+			? SessionCollection
+			: T extends "workspaceTable"
+				? WorkspaceCollection
+				: T extends "tabGroupTable"
+					? TabGroupCollection
+					: never;
+
 export type MemoryCollectionContextValue = {
 	getCollection: <T extends keyof SchemaType & string>(
 		tableName: T,
-	) => T extends "tabTable"
-		? TabCollection
-		: T extends "windowTable"
-			? WindowCollection
-			: never;
+	) => CollectionFor<T>;
 	incrementRefCount: (tableName: string) => void;
 	decrementRefCount: (tableName: string) => void;
 };
@@ -49,7 +69,16 @@ export function MemoryCollectionProvider({
 	const adapter = useIdbAdapter();
 	const tabCollectionRef = useRef<TabCollection | null>(null);
 	const windowCollectionRef = useRef<WindowCollection | null>(null);
-	const refCounts = useRef({ tabTable: 0, windowTable: 0 });
+	const sessionCollectionRef = useRef<SessionCollection | null>(null);
+	const workspaceCollectionRef = useRef<WorkspaceCollection | null>(null);
+	const tabGroupCollectionRef = useRef<TabGroupCollection | null>(null);
+	const refCounts = useRef({
+		tabTable: 0,
+		windowTable: 0,
+		sessionTable: 0,
+		workspaceTable: 0,
+		tabGroupTable: 0,
+	});
 
 	const tabCollection = useMemo(() => {
 		if (tabCollectionRef.current) return tabCollectionRef.current;
@@ -77,55 +106,108 @@ export function MemoryCollectionProvider({
 		return col;
 	}, []);
 
+	const sessionCollection = useMemo(() => {
+		if (sessionCollectionRef.current) return sessionCollectionRef.current;
+		const col = createCollection(
+			memoryCollectionOptions({
+				id: "session",
+				schema: sessionPassthroughSchema,
+				getKey: (item) => (item as { id: string }).id,
+			}),
+		) as unknown as SessionCollection;
+		sessionCollectionRef.current = col;
+		return col;
+	}, []);
+
+	const workspaceCollection = useMemo(() => {
+		if (workspaceCollectionRef.current) return workspaceCollectionRef.current;
+		const col = createCollection(
+			memoryCollectionOptions({
+				id: "workspace",
+				schema: workspacePassthroughSchema,
+				getKey: (item) => (item as { id: string }).id,
+			}),
+		) as unknown as WorkspaceCollection;
+		workspaceCollectionRef.current = col;
+		return col;
+	}, []);
+
+	const tabGroupCollection = useMemo(() => {
+		if (tabGroupCollectionRef.current) return tabGroupCollectionRef.current;
+		const col = createCollection(
+			memoryCollectionOptions({
+				id: "tab_group",
+				schema: tabGroupPassthroughSchema,
+				getKey: (item) => (item as { id: string }).id,
+			}),
+		) as unknown as TabGroupCollection;
+		tabGroupCollectionRef.current = col;
+		return col;
+	}, []);
+
 	useEffect(() => {
 		adapter.registerSyncHandler((storeName, messages) => {
 			const typed = messages as SyncMessage<object, string | number>[];
 			if (storeName === "tab") {
 				tabCollection.utils.receiveSync(typed);
+			} else if (storeName === "session") {
+				sessionCollection.utils.receiveSync(typed);
+			} else if (storeName === "workspace") {
+				workspaceCollection.utils.receiveSync(typed);
+			} else if (storeName === "tab_group") {
+				tabGroupCollection.utils.receiveSync(typed);
 			} else {
 				windowCollection.utils.receiveSync(typed);
 			}
 		});
-	}, [adapter, tabCollection, windowCollection]);
+	}, [
+		adapter,
+		tabCollection,
+		windowCollection,
+		sessionCollection,
+		workspaceCollection,
+		tabGroupCollection,
+	]);
 
 	const getCollection = useCallback(
-		<T extends keyof SchemaType & string>(
-			tableName: T,
-		): T extends "tabTable"
-			? TabCollection
-			: T extends "windowTable"
-				? WindowCollection
-				: never => {
+		<T extends keyof SchemaType & string>(tableName: T): CollectionFor<T> => {
 			if (tableName === "tabTable") {
-				return tabCollection as T extends "tabTable"
-					? TabCollection
-					: T extends "windowTable"
-						? WindowCollection
-						: never;
+				return tabCollection as CollectionFor<T>;
 			}
 			if (tableName === "windowTable") {
-				return windowCollection as T extends "tabTable"
-					? TabCollection
-					: T extends "windowTable"
-						? WindowCollection
-						: never;
+				return windowCollection as CollectionFor<T>;
+			}
+			if (tableName === "sessionTable") {
+				return sessionCollection as CollectionFor<T>;
+			}
+			if (tableName === "workspaceTable") {
+				return workspaceCollection as CollectionFor<T>;
+			}
+			if (tableName === "tabGroupTable") {
+				return tabGroupCollection as CollectionFor<T>;
 			}
 			throw new Error(
-				`Unknown table: ${tableName}. Use "tabTable" or "windowTable".`,
+				`Unknown table: ${tableName}. Use "tabTable", "windowTable", "sessionTable", "workspaceTable" or "tabGroupTable".`,
 			);
 		},
-		[tabCollection, windowCollection],
+		[
+			tabCollection,
+			windowCollection,
+			sessionCollection,
+			workspaceCollection,
+			tabGroupCollection,
+		],
 	);
 
 	const incrementRefCount = useCallback((tableName: string) => {
-		if (tableName === "tabTable" || tableName === "windowTable") {
-			refCounts.current[tableName]++;
+		if (tableName in refCounts.current) {
+			refCounts.current[tableName as keyof SchemaType]++;
 		}
 	}, []);
 
 	const decrementRefCount = useCallback((tableName: string) => {
-		if (tableName === "tabTable" || tableName === "windowTable") {
-			refCounts.current[tableName]--;
+		if (tableName in refCounts.current) {
+			refCounts.current[tableName as keyof SchemaType]--;
 		}
 	}, []);
 
@@ -147,7 +229,7 @@ export function MemoryCollectionProvider({
 
 export function useMemoryCollection<T extends keyof SchemaType & string>(
 	tableName: T,
-): T extends "tabTable" ? TabCollection : WindowCollection {
+): CollectionFor<T> {
 	const context = useContext(MemoryCollectionContext);
 	if (!context) {
 		throw new Error(
@@ -158,14 +240,14 @@ export function useMemoryCollection<T extends keyof SchemaType & string>(
 	context.incrementRefCount(tableName);
 	// Caller is responsible for decrement on unmount via useEffect in the hook that uses this
 	// For simplicity we don't track ref count per hook instance here; the provider's refCounts are for optional cleanup
-	return collection as T extends "tabTable" ? TabCollection : WindowCollection;
+	return collection;
 }
 
 /** Returns useCollection that matches useDrizzleIndexedDB() API for drop-in replacement */
 export function useTabcanopyDB(): {
 	useCollection: <T extends keyof SchemaType & string>(
 		tableName: T,
-	) => T extends "tabTable" ? TabCollection : WindowCollection;
+	) => CollectionFor<T>;
 } {
 	const context = useContext(MemoryCollectionContext);
 	if (!context) {
@@ -178,11 +260,33 @@ export function useTabcanopyDB(): {
 			const collection = context.getCollection(tableName);
 			context.incrementRefCount(tableName);
 			// Ref count decrement on unmount would require storing in a ref and useEffect cleanup - optional
-			return collection as T extends "tabTable"
-				? TabCollection
-				: WindowCollection;
+			return collection;
 		},
 		[context],
 	);
 	return { useCollection };
 }
+
+type RowFor<T extends keyof SchemaType> = SchemaType[T]["$inferSelect"];
+
+const NO_ROWS: never[] = [];
+
+/**
+ * Live rows of a table. The inferred collection types don't satisfy
+ * useLiveQuery's `from`, so the one cast it needs lives here rather than at
+ * every query.
+ */
+export function useTableRows<T extends keyof SchemaType & string>(
+	tableName: T,
+): RowFor<T>[] {
+	const { useCollection } = useTabcanopyDB();
+	const collection = useCollection(tableName) as unknown as Collection<
+		RowFor<T>,
+		string
+	>;
+	const { data } = useLiveQuery((q) => q.from({ row: collection }));
+	// useLiveQuery may return { row: T[] } or T[]
+	return Array.isArray(data)
+		? data
+		: ((data as { row?: RowFor<T>[] } | undefined)?.row ?? NO_ROWS);
+}
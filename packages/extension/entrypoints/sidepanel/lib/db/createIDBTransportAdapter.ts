@@ -1,16 +1,19 @@
 import type { SyncMessage } from "@firtoz/db-helpers";
 import { fail, type MaybeError, success } from "@firtoz/maybe-error";
 import type { Browser } from "wxt/browser";
+import type { SessionWindow } from "@/entrypoints/background/session-snapshot";
 import {
 	type ClientMessage,
 	createExtensionClientTransport,
 	IDB_PORT_NAME,
 	type PendingChildTabData,
 	type ServerMessage,
+	type SyncStoreName,
 	type UiMoveIntentData,
+	type WindowPatch,
 } from "@/src/idb-transport";
 
-export type { PendingChildTabData, UiMoveIntentData };
+export type { PendingChildTabData, UiMoveIntentData, WindowPatch };
 
 import { log } from "../../../background/constants";
 
@@ -76,7 +79,7 @@ export interface IDBTransportAdapterOptions {
 }
 
 export type SyncMessagesHandler = (
-	storeName: "tab" | "window",
+	storeName: SyncStoreName,
 	messages: SyncMessage[],
 ) => void;
 
@@ -90,12 +93,21 @@ export interface IDBTransportAdapter {
 		tabId: number,
 		patch: { titleOverride: string | null },
 	) => void;
-	sendPatchWindow: (
-		windowId: number,
-		patch: { titleOverride: string | null },
-	) => void;
+	sendPatchWindow: (windowId: number, patch: WindowPatch) => void;
 	startManagedWindowMove: (tabIds: number[]) => Promise<void>;
 	endManagedWindowMove: () => void;
+	saveSession: (name: string) => void;
+	/** Resolves with the number of tabs the browser couldn't open */
+	restoreSession: (sessionId: string) => Promise<number>;
+	deleteSession: (sessionId: string) => void;
+	/** Resolves with the number of tabs the browser couldn't open */
+	importTree: (windows: SessionWindow[]) => Promise<number>;
+	createWorkspace: (name: string) => void;
+	deleteWorkspace: (workspaceId: string) => void;
+	closeDuplicates: (options: {
+		browserTabId?: number;
+		ignoreTrackingParams: boolean;
+	}) => void;
 	enableTestMode: () => void;
 	injectBrowserEvent: (event: InjectBrowserEvent) => void;
 	getTabCreatedEvents: () => Promise<TabCreatedEvent[]>;
@@ -139,6 +151,10 @@ export function createIDBTransportAdapter(
 
 	// Pending operations
 	const pendingMoveIntents = new Map<string, () => void>();
+	const pendingRestores = new Map<
+		string,
+		{ resolve: (skippedCount: number) => void; reject: (error: Error) => void }
+	>();
 	const pendingFaviconRequests = new Map<
 		string,
 		(response: MaybeError<string>) => void
@@ -146,7 +162,7 @@ export function createIDBTransportAdapter(
 	let syncHandler: SyncMessagesHandler | null = null;
 	/** Sync messages that arrived before the handler was registered (replay on register) */
 	const syncMessageBuffer: Array<{
-		storeName: "tab" | "window";
+		storeName: SyncStoreName;
 		messages: SyncMessage[];
 	}> = [];
 	let syncStartMs: number | null = null;
@@ -197,24 +213,24 @@ export function createIDBTransportAdapter(
 	};
 
 	const handleMessageFromServer = (message: ServerMessage) => {
-		if (message.type === "sync") {
+		if (message.type === "sync" || message.type === "syncBatch") {
 			if (syncStartMs === null) syncStartMs = Date.now();
 			const startMs = syncStartMs;
 			const ts = () => `[+${((Date.now() - startMs) / 1000).toFixed(2)}s]`;
-			log(
-				ts(),
-				"[Sidepanel] Received sync:",
-				message.storeName,
-				message.messages.length,
-				"messages",
-			);
-			if (syncHandler) {
-				syncHandler(message.storeName, message.messages);
-			} else {
-				syncMessageBuffer.push({
-					storeName: message.storeName,
-					messages: message.messages,
-				});
+			const syncs = message.type === "sync" ? [message] : message.syncs;
+			for (const { storeName, messages } of syncs) {
+				log(
+					ts(),
+					"[Sidepanel] Received sync:",
+					storeName,
+					messages.length,
+					"messages",
+				);
+				if (syncHandler) {
+					syncHandler(storeName, messages);
+				} else {
+					syncMessageBuffer.push({ storeName, messages });
+				}
 			}
 			// Resolve one waiter so tests can await "sync applied" instead of polling
 			const resolveOne = syncWaitQueue.shift();
@@ -235,6 +251,20 @@ export function createIDBTransportAdapter(
 				resolve();
 				pendingMoveIntents.delete(message.requestId);
 			}
+		} else if (message.type === "restoreComplete") {
+			log(
+				"[Sidepanel] Restore complete:",
+				message.requestId,
+				message.skippedCount,
+				"skipped",
+			);
+			const pending = pendingRestores.get(message.requestId);
+			pendingRestores.delete(message.requestId);
+			if (message.error !== undefined) {
+				pending?.reject(new Error(message.error));
+			} else {
+				pending?.resolve(message.skippedCount);
+			}
 		} else if (message.type === "tabCreatedEvents") {
 			log("[Sidepanel] Received tab created events");
 			if (tabCreatedEventsResolve) {
@@ -270,6 +300,12 @@ export function createIDBTransportAdapter(
 		}
 		pendingMoveIntents.clear();
 
+		// Restores can't report back over a new connection
+		for (const { reject } of pendingRestores.values()) {
+			reject(new Error("Connection closed"));
+		}
+		pendingRestores.clear();
+
 		// Resolve all pending favicon requests with error
 		for (const resolve of pendingFaviconRequests.values()) {
 			resolve(fail("Connection closed"));
@@ -450,14 +486,79 @@ export function createIDBTransportAdapter(
 		currentExtensionTransport.send({ type: "patchTab", tabId, patch });
 	};
 
-	const sendPatchWindow = (
-		windowId: number,
-		patch: { titleOverride: string | null },
-	): void => {
+	const sendPatchWindow = (windowId: number, patch: WindowPatch): void => {
 		if (!currentExtensionTransport) return;
 		currentExtensionTransport.send({ type: "patchWindow", windowId, patch });
 	};
 
+	const saveSession = (name: string): void => {
+		if (!currentExtensionTransport) return;
+		log("[Sidepanel] Saving session:", name);
+		currentExtensionTransport.send({ type: "saveSession", name });
+	};
+
+	// Restores take as long as the browser needs to open every tab, so they
+	// get far longer than move intents before giving up on the background
+	const sendRestore = (
+		message:
+			| { type: "restoreSession"; sessionId: string }
+			| { type: "importTree"; windows: SessionWindow[] },
+	): Promise<number> => {
+		if (!currentExtensionTransport) {
+			return Promise.reject(new Error("Transport not connected"));
+		}
+		const transport = currentExtensionTransport;
+		const requestId = `restore-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+		return new Promise((resolve, reject) => {
+			pendingRestores.set(requestId, { resolve, reject });
+			transport.send({ ...message, requestId });
+
+			setTimeout(() => {
+				const pending = pendingRestores.get(requestId);
+				if (pending) {
+					log("[Sidepanel] Restore timeout for", requestId);
+					pending.reject(new Error("Restore timed out"));
+					pendingRestores.delete(requestId);
+				}
+			}, 120000);
+		});
+	};
+
+	const restoreSession = (sessionId: string): Promise<number> => {
+		log("[Sidepanel] Restoring session:", sessionId);
+		return sendRestore({ type: "restoreSession", sessionId });
+	};
+
+	const deleteSession = (sessionId: string): void => {
+		if (!currentExtensionTransport) return;
+		currentExtensionTransport.send({ type: "deleteSession", sessionId });
+	};
+
+	const importTree = (windows: SessionWindow[]): Promise<number> => {
+		log("[Sidepanel] Importing tree:", windows.length, "windows");
+		return sendRestore({ type: "importTree", windows });
+	};
+
+	const createWorkspace = (name: string): void => {
+		if (!currentExtensionTransport) return;
+		log("[Sidepanel] Creating workspace:", name);
+		currentExtensionTransport.send({ type: "createWorkspace", name });
+	};
+
+	const deleteWorkspace = (workspaceId: string): void => {
+		if (!currentExtensionTransport) return;
+		currentExtensionTransport.send({ type: "deleteWorkspace", workspaceId });
+	};
+
+	const closeDuplicates = (options: {
+		browserTabId?: number;
+		ignoreTrackingParams: boolean;
+	}): void => {
+		if (!currentExtensionTransport) return;
+		log("[Sidepanel] Closing duplicates:", options);
+		currentExtensionTransport.send({ type: "closeDuplicates", ...options });
+	};
+
 	const dispose = () => {
 		log("[Adapter] Disposing adapter");
 		isDisposed = true;
@@ -475,6 +576,7 @@ export function createIDBTransportAdapter(
 
 		syncHandler = null;
 		pendingMoveIntents.clear();
+		pendingRestores.clear();
 		pendingFaviconRequests.clear();
 		setConnectionState("disconnected");
 	};
@@ -540,6 +642,13 @@ export function createIDBTransportAdapter(
 		sendPatchWindow,
 		startManagedWindowMove,
 		endManagedWindowMove,
+		saveSession,
+		restoreSession,
+		deleteSession,
+		importTree,
+		createWorkspace,
+		deleteWorkspace,
+		closeDuplicates,
 		enableTestMode,
 		injectBrowserEvent,
 		getTabCreatedEvents,
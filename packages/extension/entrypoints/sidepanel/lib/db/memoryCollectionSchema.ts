@@ -1,6 +1,12 @@
 import type { StandardSchemaV1 } from "@standard-schema/spec";
 import { z } from "zod";
-import type { Tab, Window } from "@/schema/src/schema";
+import type {
+	Session,
+	Tab,
+	TabGroup,
+	Window,
+	Workspace,
+} from "@/schema/src/schema";
 
 /** Coerce date from Date, number (ms), or ISO string; null allowed for deletedAt */
 const dateOrNull = z.union([z.coerce.date(), z.null()]);
@@ -17,6 +23,8 @@ const windowSchema = z.object({
 	type: z.string().nullable(),
 	isCollapsed: z.boolean().optional().default(false),
 	titleOverride: z.string().nullable().optional().default(null),
+	workspaceId: z.string().nullable().optional().default(null),
+	windowOrder: z.string().nullable().optional().default(null),
 });
 
 const tabSchema = z.object({
@@ -46,6 +54,38 @@ const tabSchema = z.object({
 	groupId: z.number().nullable(),
 });
 
+const sessionSchema = z.object({
+	id: z.string().transform((s) => s as Session["id"]),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+	deletedAt: dateOrNull,
+	name: z.string(),
+	snapshot: z.string(),
+	windowCount: z.number(),
+	tabCount: z.number(),
+});
+
+const workspaceSchema = z.object({
+	id: z.string().transform((s) => s as Workspace["id"]),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+	deletedAt: dateOrNull,
+	name: z.string(),
+	color: z.string(),
+});
+
+const tabGroupSchema = z.object({
+	id: z.string().transform((s) => s as TabGroup["id"]),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+	deletedAt: dateOrNull,
+	browserGroupId: z.number(),
+	browserWindowId: z.number(),
+	title: z.string().nullable(),
+	color: z.string(),
+	collapsed: z.boolean(),
+});
+
 /**
  * Wrap a Zod schema as StandardSchemaV1 for use with @firtoz/db-helpers memoryCollectionOptions.
  */
@@ -80,3 +120,9 @@ export const tabPassthroughSchema: StandardSchemaV1<unknown, Tab> =
 	zodToStandardSchema(tabSchema as unknown as z.ZodType<Tab>);
 export const windowPassthroughSchema: StandardSchemaV1<unknown, Window> =
 	zodToStandardSchema(windowSchema as unknown as z.ZodType<Window>);
+export const sessionPassthroughSchema: StandardSchemaV1<unknown, Session> =
+	zodToStandardSchema(sessionSchema as unknown as z.ZodType<Session>);
+export const workspacePassthroughSchema: StandardSchemaV1<unknown, Workspace> =
+	zodToStandardSchema(workspaceSchema as unknown as z.ZodType<Workspace>);
+export const tabGroupPassthroughSchema: StandardSchemaV1<unknown, TabGroup> =
+	zodToStandardSchema(tabGroupSchema as unknown as z.ZodType<TabGroup>);
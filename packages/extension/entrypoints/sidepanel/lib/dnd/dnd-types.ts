@@ -7,7 +7,10 @@ export type DropData =
 	| DropDataSibling
 	| DropDataChild
 	| DropDataGap
-	| DropDataNewWindow;
+	| DropDataNewWindow
+	| DropDataBookmarks
+	| DropDataWindowGap
+	| DropDataWindowMerge;
 
 export interface DropDataSibling {
 	type: "sibling";
@@ -35,6 +38,23 @@ export interface DropDataNewWindow {
 	type: "new-window";
 }
 
+/** Quick Access bar: bookmark the dragged tabs instead of moving them */
+export interface DropDataBookmarks {
+	type: "bookmarks";
+}
+
+/** Between window headers: reorder the dragged window */
+export interface DropDataWindowGap {
+	type: "window-gap";
+	slot: number;
+}
+
+/** On a window header: move every tab of the dragged window into it */
+export interface DropDataWindowMerge {
+	type: "window-merge";
+	windowId: number;
+}
+
 // Drag data for tabs
 export interface DragDataTab {
 	type: "tab";
@@ -42,6 +62,12 @@ export interface DragDataTab {
 	windowId: number;
 }
 
+// Drag data for window headers
+export interface DragDataWindow {
+	type: "window";
+	windowId: number;
+}
+
 // Type guards
 export function isDropData(data: unknown): data is DropData {
 	return (
@@ -51,7 +77,10 @@ export function isDropData(data: unknown): data is DropData {
 		(data.type === "sibling" ||
 			data.type === "child" ||
 			data.type === "gap" ||
-			data.type === "new-window")
+			data.type === "new-window" ||
+			data.type === "bookmarks" ||
+			data.type === "window-gap" ||
+			data.type === "window-merge")
 	);
 }
 
@@ -63,3 +92,12 @@ export function isDragDataTab(data: unknown): data is DragDataTab {
 		data.type === "tab"
 	);
 }
+
+export function isDragDataWindow(data: unknown): data is DragDataWindow {
+	return (
+		typeof data === "object" &&
+		data !== null &&
+		"type" in data &&
+		data.type === "window"
+	);
+}
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import {
+	calculateReorderMoves,
 	calculateSequentialMoves,
 	hoverToPosition,
 	type ReorderPosition,
@@ -459,3 +460,26 @@ describe("calculateSequentialMoves", () => {
 		}
 	});
 });
+
+describe("calculateReorderMoves", () => {
+	const apply = (ids: number[], target: number[]) => {
+		const result = [...ids];
+		for (const op of calculateReorderMoves(ids, target)) {
+			result.splice(result.indexOf(op.tabId), 1);
+			result.splice(op.toIndex, 0, op.tabId);
+		}
+		return result;
+	};
+
+	test("reaches any permutation", () => {
+		expect(apply([1, 2, 3, 4, 5], [5, 3, 1, 4, 2])).toEqual([5, 3, 1, 4, 2]);
+		expect(apply([1, 2, 3, 4], [4, 3, 2, 1])).toEqual([4, 3, 2, 1]);
+	});
+
+	test("leaves tabs already in place alone", () => {
+		expect(calculateReorderMoves([1, 2, 3], [1, 2, 3])).toEqual([]);
+		expect(calculateReorderMoves([1, 2, 3, 4], [1, 3, 2, 4])).toEqual([
+			{ tabId: 3, toIndex: 1 },
+		]);
+	});
+});
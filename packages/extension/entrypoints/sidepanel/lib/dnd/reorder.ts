@@ -268,6 +268,33 @@ export function calculateSequentialMoves(
 	return operations;
 }
 
+/**
+ * Single-tab moves that turn `currentIds` into `targetIds` (the same IDs in a
+ * new order). Tabs are placed front to back with calculateSequentialMoves;
+ * those already in place aren't moved.
+ */
+export function calculateReorderMoves(
+	currentIds: number[],
+	targetIds: number[],
+): BrowserMoveOperation[] {
+	const operations: BrowserMoveOperation[] = [];
+	const currentState = [...currentIds];
+
+	targetIds.forEach((tabId, index) => {
+		if (currentState[index] === tabId || !currentState.includes(tabId)) {
+			return;
+		}
+		const [operation] = calculateSequentialMoves(currentState, [tabId], {
+			before: index,
+		});
+		operations.push(operation);
+		currentState.splice(currentState.indexOf(tabId), 1);
+		currentState.splice(operation.toIndex, 0, tabId);
+	});
+
+	return operations;
+}
+
 /**
  * Apply a sequence of move operations to an array (for testing)
  */
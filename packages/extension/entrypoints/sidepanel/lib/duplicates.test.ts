@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import {
+	findDuplicateGroups,
+	getDuplicateCounts,
+	normalizeTabUrl,
+} from "./duplicates";
+import { createMockTab } from "./tests/mock-tab";
+
+const strict = { ignoreTrackingParams: false };
+const loose = { ignoreTrackingParams: true };
+
+const tab = (
+	browserTabId: number,
+	url: string | null,
+	parentTabId: number | null = null,
+	treeOrder = "a0",
+	browserWindowId = 1,
+) =>
+	createMockTab(browserTabId, parentTabId, treeOrder, { url, browserWindowId });
+
+describe("normalizeTabUrl", () => {
+	test("ignores fragments and trailing slashes", () => {
+		const key = normalizeTabUrl("https://a.com/dash", strict);
+		expect(normalizeTabUrl("https://a.com/dash/", strict)).toBe(key);
+		expect(normalizeTabUrl("https://a.com/dash#panel", strict)).toBe(key);
+		expect(normalizeTabUrl("https://a.com/", strict)).toBe(
+			normalizeTabUrl("https://a.com", strict),
+		);
+		expect(normalizeTabUrl("https://a.com/?q=1", strict)).toBe(
+			normalizeTabUrl("https://a.com?q=1#x", strict),
+		);
+	});
+
+	test("optionally ignores tracking parameters", () => {
+		const tracked = "https://a.com/dash?utm_source=mail&id=3&fbclid=x";
+		expect(normalizeTabUrl(tracked, loose)).toBe(
+			normalizeTabUrl("https://a.com/dash?id=3", loose),
+		);
+		expect(normalizeTabUrl(tracked, strict)).not.toBe(
+			normalizeTabUrl("https://a.com/dash?id=3", strict),
+		);
+	});
+
+	test("skips browser pages and unparseable URLs", () => {
+		expect(normalizeTabUrl("chrome://newtab/", strict)).toBeNull();
+		expect(normalizeTabUrl("about:blank", strict)).toBeNull();
+		expect(normalizeTabUrl("not a url", strict)).toBeNull();
+		expect(normalizeTabUrl(null, strict)).toBeNull();
+	});
+});
+
+describe("findDuplicateGroups", () => {
+	test("keeps the shallowest tab, then the first in tree order", () => {
+		const tabs = [
+			tab(1, "https://a.com", null, "a0"),
+			tab(2, "https://dash.io/", 1, "a0"),
+			tab(3, "https://dash.io", null, "a1"),
+			tab(4, "https://dash.io#x", null, "a2"),
+			tab(5, "https://other.io", null, "a3"),
+		];
+		const groups = findDuplicateGroups(tabs, strict);
+		expect(groups.map((g) => g.map((t) => t.browserTabId))).toEqual([
+			[3, 4, 2],
+		]);
+	});
+
+	test("groups across windows, earlier windows first", () => {
+		const tabs = [
+			tab(1, "https://dash.io", null, "a0", 2),
+			tab(2, "https://dash.io", null, "a0", 1),
+		];
+		expect(
+			findDuplicateGroups(tabs, strict)[0].map((t) => t.browserTabId),
+		).toEqual([2, 1]);
+	});
+
+	test("ignores closed tabs", () => {
+		const closed = { ...tab(2, "https://dash.io"), deletedAt: new Date() };
+		expect(
+			findDuplicateGroups([tab(1, "https://dash.io"), closed], strict),
+		).toEqual([]);
+	});
+});
+
+describe("getDuplicateCounts", () => {
+	test("counts every tab of a duplicate group", () => {
+		const tabs = [
+			tab(1, "https://dash.io", null, "a0"),
+			tab(2, "https://dash.io/", null, "a1"),
+			tab(3, "https://other.io", null, "a2"),
+		];
+		const counts = getDuplicateCounts(tabs, strict);
+		expect(counts.get(1)).toBe(2);
+		expect(counts.get(2)).toBe(2);
+		expect(counts.has(3)).toBe(false);
+	});
+});
@@ -0,0 +1,123 @@
+import type { Tab } from "@/schema/src/schema";
+import { buildTabTree, isClosedTab, type TabTreeNode } from "./tree";
+
+export type DuplicateOptions = {
+	/** Treat URLs that only differ in tracking parameters (utm_*, fbclid...) as equal */
+	ignoreTrackingParams: boolean;
+};
+
+const TRACKING_PARAMS = new Set([
+	"fbclid",
+	"gclid",
+	"dclid",
+	"msclkid",
+	"mc_cid",
+	"mc_eid",
+	"igshid",
+	"_ga",
+	"_gl",
+	"ref_src",
+	"yclid",
+]);
+
+function isTrackingParam(name: string): boolean {
+	return name.startsWith("utm_") || TRACKING_PARAMS.has(name.toLowerCase());
+}
+
+/**
+ * Key under which tabs count as duplicates: the URL without its fragment or
+ * trailing slash, and optionally without tracking parameters.
+ * Returns null for pages that shouldn't be deduplicated (new tab pages,
+ * browser and extension pages, unparseable URLs).
+ */
+export function normalizeTabUrl(
+	url: string | null,
+	options: DuplicateOptions,
+): string | null {
+	if (!url) return null;
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return null;
+	}
+	if (!["http:", "https:", "file:"].includes(parsed.protocol)) return null;
+
+	parsed.hash = "";
+	if (options.ignoreTrackingParams) {
+		for (const name of [...parsed.searchParams.keys()]) {
+			if (isTrackingParam(name)) parsed.searchParams.delete(name);
+		}
+	}
+	parsed.pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+	const normalized = parsed.toString();
+	// The root path can't be empty in a URL; drop its slash from the key instead
+	return parsed.pathname === "/"
+		? normalized.replace(/\/(?=\?|$)/, "")
+		: normalized;
+}
+
+/**
+ * Open tabs grouped by normalized URL, only for URLs open more than once.
+ * Each group starts with the tab to keep: the one highest in the tree
+ * (shallowest, then first in tree order), earlier windows winning ties.
+ */
+export function findDuplicateGroups(
+	tabs: Tab[],
+	options: DuplicateOptions,
+): Tab[][] {
+	const rank = new Map<number, { depth: number; position: number }>();
+	let position = 0;
+	const visit = (nodes: TabTreeNode[]) => {
+		for (const node of nodes) {
+			rank.set(node.tab.browserTabId, { depth: node.depth, position });
+			position++;
+			visit(node.children);
+		}
+	};
+	const openTabs = tabs.filter((t) => !isClosedTab(t));
+	const windowIds = [...new Set(openTabs.map((t) => t.browserWindowId))].sort(
+		(a, b) => a - b,
+	);
+	for (const windowId of windowIds) {
+		visit(buildTabTree(openTabs.filter((t) => t.browserWindowId === windowId)));
+	}
+
+	const groups = new Map<string, Tab[]>();
+	for (const tab of openTabs) {
+		const key = normalizeTabUrl(tab.url, options);
+		if (key === null) continue;
+		const group = groups.get(key);
+		if (group) {
+			group.push(tab);
+		} else {
+			groups.set(key, [tab]);
+		}
+	}
+
+	const compare = (a: Tab, b: Tab) => {
+		const rankA = rank.get(a.browserTabId);
+		const rankB = rank.get(b.browserTabId);
+		if (!rankA || !rankB) return 0;
+		return rankA.depth - rankB.depth || rankA.position - rankB.position;
+	};
+	return [...groups.values()]
+		.filter((group) => group.length > 1)
+		.map((group) => group.sort(compare));
+}
+
+/**
+ * How many open tabs share each duplicated tab's URL (including itself)
+ */
+export function getDuplicateCounts(
+	tabs: Tab[],
+	options: DuplicateOptions,
+): Map<number, number> {
+	const counts = new Map<number, number>();
+	for (const group of findDuplicateGroups(tabs, options)) {
+		for (const tab of group) {
+			counts.set(tab.browserTabId, group.length);
+		}
+	}
+	return counts;
+}
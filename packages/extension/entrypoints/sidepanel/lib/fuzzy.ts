@@ -0,0 +1,41 @@
+import fuzzysort from "fuzzysort";
+import type { Tab } from "@/schema/src/schema";
+
+/**
+ * Fuzzy-match a tab's title and URL against a query.
+ * A field counts as a match when its score is above `threshold` (0..1, see the
+ * search options). Returns null when neither field matches; `titleResult` is
+ * set only when the title matched (for highlighting).
+ */
+export function matchTab(
+	query: string,
+	tab: Pick<Tab, "title" | "url">,
+	threshold: number,
+): { score: number; titleResult?: Fuzzysort.Result } | null {
+	const titleResult = fuzzysort.single(query, tab.title || "Untitled");
+	const urlResult = tab.url ? fuzzysort.single(query, tab.url) : null;
+
+	const titleMatches = titleResult !== null && titleResult.score > threshold;
+	const urlMatches = urlResult !== null && urlResult.score > threshold;
+	if (!titleMatches && !urlMatches) return null;
+
+	return {
+		score: Math.max(
+			titleMatches ? titleResult.score : 0,
+			urlMatches ? urlResult.score : 0,
+		),
+		titleResult: titleMatches ? titleResult : undefined,
+	};
+}
+
+/**
+ * Fuzzy-match a plain label (e.g. a command name) against a query
+ */
+export function matchLabel(
+	query: string,
+	label: string,
+	threshold: number,
+): Fuzzysort.Result | null {
+	const result = fuzzysort.single(query, label);
+	return result && result.score > threshold ? result : null;
+}
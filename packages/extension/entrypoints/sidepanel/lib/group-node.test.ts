@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import {
+	DEFAULT_GROUP_NAME,
+	getGroupContents,
+	getGroupName,
+	isGroupPageUrl,
+} from "./group-node";
+import { createMockTab } from "./tests/mock-tab";
+
+const GROUP_URL = "chrome-extension://abc/group.html";
+
+const tab = (
+	browserTabId: number,
+	parentTabId: number | null,
+	treeOrder: string,
+	browserWindowId = 1,
+) =>
+	createMockTab(browserTabId, parentTabId, treeOrder, {
+		browserWindowId,
+		url: `https://example.com/${browserTabId}`,
+	});
+
+describe("isGroupPageUrl", () => {
+	test("matches the group page with or without query and hash", () => {
+		expect(isGroupPageUrl(GROUP_URL, GROUP_URL)).toBe(true);
+		expect(isGroupPageUrl(`${GROUP_URL}?v=1#top`, GROUP_URL)).toBe(true);
+	});
+
+	test("rejects other pages", () => {
+		expect(isGroupPageUrl(null, GROUP_URL)).toBe(false);
+		expect(
+			isGroupPageUrl("chrome-extension://abc/sidepanel.html", GROUP_URL),
+		).toBe(false);
+		expect(isGroupPageUrl("https://example.com/group.html", GROUP_URL)).toBe(
+			false,
+		);
+	});
+});
+
+describe("getGroupName", () => {
+	test("falls back to the default name", () => {
+		expect(getGroupName({ titleOverride: "Research" })).toBe("Research");
+		expect(getGroupName({ titleOverride: null })).toBe(DEFAULT_GROUP_NAME);
+	});
+});
+
+describe("getGroupContents", () => {
+	// group(1) -> [b(2) -> [c(3)], d(4)], e(5); window 2: f(6)
+	const tabs = [
+		tab(1, null, "a0"),
+		tab(4, 1, "a1"),
+		tab(2, 1, "a0"),
+		tab(3, 2, "a0"),
+		tab(5, null, "a1"),
+		tab(6, null, "a0", 2),
+	];
+
+	test("lists direct children in tree order and counts all descendants", () => {
+		const { children, descendantCount } = getGroupContents(tabs, 1);
+		expect(children.map((t) => t.browserTabId)).toEqual([2, 4]);
+		expect(descendantCount).toBe(3);
+	});
+
+	test("is empty for a leaf or an unknown tab", () => {
+		expect(getGroupContents(tabs, 5)).toEqual({
+			children: [],
+			descendantCount: 0,
+		});
+		expect(getGroupContents(tabs, 99).children).toEqual([]);
+	});
+});
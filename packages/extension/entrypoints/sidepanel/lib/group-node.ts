@@ -0,0 +1,61 @@
+import type { Tab } from "@/schema/src/schema";
+import { buildTabTree, type TabTreeNode } from "./tree";
+
+/** Extension page that stands in for a group (folder-like) node in the tree */
+export const GROUP_PAGE_PATH = "/group.html";
+
+export const DEFAULT_GROUP_NAME = "Group";
+
+/**
+ * Whether a URL is the group page, with or without a query or hash.
+ * The page's full URL is passed in since it depends on the extension origin.
+ */
+export function isGroupPageUrl(
+	url: string | null,
+	groupPageUrl: string,
+): boolean {
+	if (!url) return false;
+	return url.split(/[?#]/)[0] === groupPageUrl;
+}
+
+/** Whether a tab is a group node */
+export function isGroupTab(tab: Pick<Tab, "url">): boolean {
+	return isGroupPageUrl(tab.url, browser.runtime.getURL(GROUP_PAGE_PATH));
+}
+
+export function getGroupName(tab: Pick<Tab, "titleOverride">): string {
+	return tab.titleOverride || DEFAULT_GROUP_NAME;
+}
+
+/**
+ * A group's direct children in tree order, and how many tabs it holds in all
+ */
+export function getGroupContents(
+	tabs: Tab[],
+	groupTabId: number,
+): { children: Tab[]; descendantCount: number } {
+	const group = tabs.find((t) => t.browserTabId === groupTabId);
+	if (!group) return { children: [], descendantCount: 0 };
+
+	const find = (nodes: TabTreeNode[]): TabTreeNode | null => {
+		for (const node of nodes) {
+			if (node.tab.browserTabId === groupTabId) return node;
+			const found = find(node.children);
+			if (found) return found;
+		}
+		return null;
+	};
+	const node = find(
+		buildTabTree(
+			tabs.filter((t) => t.browserWindowId === group.browserWindowId),
+		),
+	);
+	if (!node) return { children: [], descendantCount: 0 };
+
+	const count = (nodes: TabTreeNode[]): number =>
+		nodes.reduce((sum, n) => sum + 1 + count(n.children), 0);
+	return {
+		children: node.children.map((child) => child.tab),
+		descendantCount: count(node.children),
+	};
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import type { Tab } from "@/schema/src/schema";
+import {
+	DEFAULT_HIBERNATION_SETTINGS,
+	getHibernatableSubtreeIds,
+	getIdleTabsToDiscard,
+	getWakeableSubtreeIds,
+	parseHibernationSettings,
+} from "./hibernation";
+import { createMockTab } from "./tests/mock-tab";
+
+const tab = (
+	browserTabId: number,
+	parentTabId: number | null,
+	overrides: Partial<Tab> = {},
+) => createMockTab(browserTabId, parentTabId, "a0", overrides);
+
+describe("parseHibernationSettings", () => {
+	test("falls back to defaults for missing values", () => {
+		expect(parseHibernationSettings(undefined)).toEqual(
+			DEFAULT_HIBERNATION_SETTINGS,
+		);
+		expect(parseHibernationSettings({ enabled: "yes" })).toEqual(
+			DEFAULT_HIBERNATION_SETTINGS,
+		);
+	});
+
+	test("clamps the idle time to the minimum", () => {
+		expect(parseHibernationSettings({ enabled: true, idleMinutes: 1 })).toEqual(
+			{ enabled: true, idleMinutes: 5 },
+		);
+		expect(
+			parseHibernationSettings({ enabled: true, idleMinutes: 30.4 }),
+		).toEqual({ enabled: true, idleMinutes: 30 });
+	});
+});
+
+describe("subtree hibernation", () => {
+	const tabs = [
+		tab(1, null),
+		tab(2, 1, { active: true }),
+		tab(3, 1, { discarded: true }),
+		tab(4, 3),
+		tab(5, 4, { deletedAt: new Date() }),
+		tab(6, null),
+	];
+
+	test("hibernates the tab and descendants that are still loaded", () => {
+		expect(getHibernatableSubtreeIds(tabs, 1)).toEqual([1, 4]);
+		expect(getHibernatableSubtreeIds(tabs, 6)).toEqual([6]);
+	});
+
+	test("wakes the discarded tabs of a subtree", () => {
+		expect(getWakeableSubtreeIds(tabs, 1)).toEqual([3]);
+		expect(getWakeableSubtreeIds(tabs, 6)).toEqual([]);
+	});
+});
+
+describe("getIdleTabsToDiscard", () => {
+	const now = 10 * 60_000;
+
+	test("discards tabs idle longer than the limit", () => {
+		const tabs = [tab(1, null), tab(2, null), tab(3, null)];
+		const lastAccessed = new Map([
+			[1, 0],
+			[2, now - 60_000],
+		]);
+		expect(getIdleTabsToDiscard(tabs, lastAccessed, now, 5)).toEqual([1]);
+	});
+
+	test("respects pinned, audible and autoDiscardable", () => {
+		const tabs = [
+			tab(1, null, { pinned: true }),
+			tab(2, null, { audible: true }),
+			tab(3, null, { autoDiscardable: false }),
+			tab(4, null, { active: true }),
+			tab(5, null, { discarded: true }),
+		];
+		const lastAccessed = new Map(tabs.map((t) => [t.browserTabId, 0]));
+		expect(getIdleTabsToDiscard(tabs, lastAccessed, now, 5)).toEqual([]);
+	});
+});
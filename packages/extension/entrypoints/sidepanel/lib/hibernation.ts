@@ -0,0 +1,95 @@
+import type { Tab } from "@/schema/src/schema";
+import { getDescendantIds, isClosedTab } from "./tree";
+
+/**
+ * Idle-tab policy. Kept in `browser.storage.local` rather than a persisted
+ * zustand store so the background can read it when the keepalive alarm fires.
+ */
+export type HibernationSettings = {
+	enabled: boolean;
+	/** Discard tabs that haven't been accessed for this long */
+	idleMinutes: number;
+};
+
+export const HIBERNATION_SETTINGS_KEY = "tabcanopy-hibernation";
+
+export const DEFAULT_HIBERNATION_SETTINGS: HibernationSettings = {
+	enabled: false,
+	idleMinutes: 60,
+};
+
+export const MIN_IDLE_MINUTES = 5;
+
+/**
+ * Read settings from storage, falling back to defaults for missing or
+ * malformed values
+ */
+export function parseHibernationSettings(value: unknown): HibernationSettings {
+	if (typeof value !== "object" || value === null) {
+		return DEFAULT_HIBERNATION_SETTINGS;
+	}
+	const { enabled, idleMinutes } = value as Partial<HibernationSettings>;
+	return {
+		enabled:
+			typeof enabled === "boolean"
+				? enabled
+				: DEFAULT_HIBERNATION_SETTINGS.enabled,
+		idleMinutes:
+			typeof idleMinutes === "number" && Number.isFinite(idleMinutes)
+				? Math.max(MIN_IDLE_MINUTES, Math.round(idleMinutes))
+				: DEFAULT_HIBERNATION_SETTINGS.idleMinutes,
+	};
+}
+
+/** The browser can't discard these, or discarding them would be disruptive */
+function canHibernate(tab: Tab): boolean {
+	return !isClosedTab(tab) && !tab.active && !tab.discarded;
+}
+
+/**
+ * A tab and its descendants that can be discarded right now
+ */
+export function getHibernatableSubtreeIds(
+	tabs: Tab[],
+	tabId: number,
+): number[] {
+	const subtree = new Set([tabId, ...getDescendantIds(tabs, tabId)]);
+	return tabs
+		.filter((t) => subtree.has(t.browserTabId) && canHibernate(t))
+		.map((t) => t.browserTabId);
+}
+
+/**
+ * The discarded tabs of a tab's subtree
+ */
+export function getWakeableSubtreeIds(tabs: Tab[], tabId: number): number[] {
+	const subtree = new Set([tabId, ...getDescendantIds(tabs, tabId)]);
+	return tabs
+		.filter(
+			(t) => subtree.has(t.browserTabId) && !isClosedTab(t) && t.discarded,
+		)
+		.map((t) => t.browserTabId);
+}
+
+/**
+ * Tabs the idle policy should discard: not accessed for `idleMinutes`, and
+ * not pinned, playing audio or opted out of automatic discarding.
+ * `lastAccessed` maps browser tab IDs to their last access time (ms).
+ */
+export function getIdleTabsToDiscard(
+	tabs: Tab[],
+	lastAccessed: Map<number, number>,
+	now: number,
+	idleMinutes: number,
+): number[] {
+	const cutoff = now - idleMinutes * 60_000;
+	return tabs
+		.filter((t) => {
+			if (!canHibernate(t) || t.pinned || t.audible || !t.autoDiscardable) {
+				return false;
+			}
+			const accessed = lastAccessed.get(t.browserTabId);
+			return accessed !== undefined && accessed <= cutoff;
+		})
+		.map((t) => t.browserTabId);
+}
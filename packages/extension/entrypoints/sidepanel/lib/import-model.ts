@@ -0,0 +1,129 @@
+import { generateNKeysBetween } from "fractional-indexing";
+import type {
+	SessionTab,
+	SessionWindow,
+} from "@/entrypoints/background/session-snapshot";
+
+/**
+ * Intermediate model every importer produces: windows of nested tabs, with
+ * no IDs or tree orders yet. `materializeImport` turns it into session windows
+ * that the background restores as real tabs.
+ */
+export type ImportNode = Omit<SessionTab, "id" | "parentId" | "treeOrder"> & {
+	children: ImportNode[];
+};
+
+export type ImportWindow = Omit<SessionWindow, "tabs"> & {
+	tabs: ImportNode[];
+};
+
+export interface ImportResult {
+	windows: SessionWindow[];
+	/** Tabs dropped because the browser won't open their URL */
+	skippedCount: number;
+}
+
+// Imported text is untrusted, so only web pages are opened: no javascript:,
+// file:, about: or extension URLs
+const RESTORABLE_URL = /^(https?|ftp):\/\//i;
+
+/** Whether an imported tab may be opened; a tab without a URL opens empty */
+export function isRestorableUrl(url: string | null): boolean {
+	return url === null || RESTORABLE_URL.test(url);
+}
+
+/** Backups are parsed JSON of unknown shape; these narrow it field by field */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** A non-empty string, or null */
+export const str = (value: unknown) =>
+	typeof value === "string" && value ? value : null;
+
+export function importNode(
+	url: string | null,
+	title: string | null,
+	options: Partial<Pick<ImportNode, "isCollapsed" | "pinned">> = {},
+): ImportNode {
+	return {
+		url,
+		title,
+		titleOverride: null,
+		isCollapsed: options.isCollapsed ?? false,
+		pinned: options.pinned ?? false,
+		children: [],
+	};
+}
+
+/**
+ * Nest a flat list where each item names its parent. Items whose parent is
+ * missing (or comes later, which would make a cycle possible) become roots.
+ */
+export function nestByParent<K>(
+	items: { key: K; parentKey: K | null; node: ImportNode }[],
+): ImportNode[] {
+	const roots: ImportNode[] = [];
+	const seen = new Map<K, ImportNode>();
+	for (const { key, parentKey, node } of items) {
+		const parent = parentKey !== null ? seen.get(parentKey) : undefined;
+		(parent ? parent.children : roots).push(node);
+		seen.set(key, node);
+	}
+	return roots;
+}
+
+/**
+ * Nest a flat depth-first list where each item has a depth (0 = root).
+ * A depth that skips levels attaches to the deepest open ancestor.
+ */
+export function nestByDepth(
+	items: { depth: number; node: ImportNode }[],
+): ImportNode[] {
+	const roots: ImportNode[] = [];
+	const stack: ImportNode[] = [];
+	for (const { depth, node } of items) {
+		stack.length = Math.min(stack.length, Math.max(0, depth));
+		const parent = stack[stack.length - 1];
+		(parent ? parent.children : roots).push(node);
+		stack.push(node);
+	}
+	return roots;
+}
+
+/**
+ * Flatten nested nodes into depth-first session tabs with fresh IDs and
+ * tree orders. Tabs with a URL that can't be restored are dropped (their
+ * children take their place), then so are empty windows.
+ */
+export function materializeImport(windows: ImportWindow[]): ImportResult {
+	let nextId = 1;
+	let skippedCount = 0;
+	const keepRestorable = (nodes: ImportNode[]): ImportNode[] =>
+		nodes.flatMap((node) => {
+			const children = keepRestorable(node.children);
+			if (isRestorableUrl(node.url)) return [{ ...node, children }];
+			skippedCount++;
+			return children;
+		});
+
+	const materialized = windows
+		.map((win) => {
+			const tabs: SessionTab[] = [];
+			const visit = (nodes: ImportNode[], parentId: number | null) => {
+				const orders = generateNKeysBetween(null, null, nodes.length);
+				nodes.forEach(({ children, ...node }, i) => {
+					const id = nextId++;
+					tabs.push({ ...node, id, parentId, treeOrder: orders[i] });
+					visit(children, id);
+				});
+			};
+			visit(keepRestorable(win.tabs), null);
+			return {
+				titleOverride: win.titleOverride,
+				isCollapsed: win.isCollapsed,
+				tabs,
+			};
+		})
+		.filter((win) => win.tabs.length > 0);
+	return { windows: materialized, skippedCount };
+}
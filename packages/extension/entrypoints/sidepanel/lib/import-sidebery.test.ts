@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import type { SessionWindow } from "@/entrypoints/background/session-snapshot";
+import { importTreeFromSidebery } from "./import-sidebery";
+
+/** Titles as an indented outline, to compare hierarchies at a glance */
+function outline(win: SessionWindow): string[] {
+	const depth = new Map<number, number>();
+	return win.tabs.map((tab) => {
+		const d = tab.parentId === null ? 0 : (depth.get(tab.parentId) ?? 0) + 1;
+		depth.set(tab.id, d);
+		return `${"  ".repeat(d)}${tab.title}`;
+	});
+}
+
+const sideberyTab = (
+	id: number,
+	title: string,
+	parentId = -1,
+	overrides: Record<string, unknown> = {},
+) => ({
+	id,
+	parentId,
+	lvl: 0,
+	panel: "tabs",
+	url: `https://${title.toLowerCase()}.test/`,
+	title,
+	folded: false,
+	pin: false,
+	...overrides,
+});
+
+// Trimmed-down Sidebery v5 backup
+const backup = {
+	ver: "5.2.0",
+	settings: {},
+	sidebar: {
+		nav: ["tabs", "work"],
+		panels: {
+			tabs: { id: "tabs", type: 2, name: "Tabs" },
+			work: { id: "work", type: 2, name: "Work" },
+		},
+	},
+	tabsDataCache: [
+		[
+			sideberyTab(1, "Home", -1, { pin: true }),
+			sideberyTab(2, "Project", -1, { folded: true }),
+			sideberyTab(3, "Issue", 2, { lvl: 1 }),
+			sideberyTab(4, "Comment", 3, { lvl: 2 }),
+			sideberyTab(5, "Wiki", 2, { lvl: 1 }),
+		],
+		[
+			sideberyTab(6, "Reading"),
+			sideberyTab(7, "Board", -1, { panel: "work" }),
+			sideberyTab(8, "Ticket", 7, { panel: "work", lvl: 1 }),
+		],
+	],
+};
+
+describe("importTreeFromSidebery", () => {
+	test("rebuilds each window's tree from parentId", () => {
+		const windows =
+			importTreeFromSidebery(JSON.stringify(backup))?.windows ?? [];
+		expect(outline(windows[0])).toEqual([
+			"Home",
+			"Project",
+			"  Issue",
+			"    Comment",
+			"  Wiki",
+		]);
+		expect(windows[0].titleOverride).toBeNull();
+	});
+
+	test("keeps folded and pinned state", () => {
+		const [win] = importTreeFromSidebery(JSON.stringify(backup))?.windows ?? [];
+		expect(win.tabs[0].pinned).toBe(true);
+		expect(win.tabs[1].isCollapsed).toBe(true);
+		expect(win.tabs[2].isCollapsed).toBe(false);
+	});
+
+	test("splits a window spanning panels into windows named after them", () => {
+		const windows =
+			importTreeFromSidebery(JSON.stringify(backup))?.windows ?? [];
+		expect(windows).toHaveLength(3);
+		expect(windows[1].titleOverride).toBe("Tabs");
+		expect(outline(windows[1])).toEqual(["Reading"]);
+		expect(windows[2].titleOverride).toBe("Work");
+		expect(outline(windows[2])).toEqual(["Board", "  Ticket"]);
+	});
+
+	test("orders siblings with increasing tree keys", () => {
+		const [win] = importTreeFromSidebery(JSON.stringify(backup))?.windows ?? [];
+		const children = win.tabs.filter((t) => t.parentId === win.tabs[1].id);
+		expect(children.map((t) => t.title)).toEqual(["Issue", "Wiki"]);
+		expect(children[0].treeOrder < children[1].treeOrder).toBe(true);
+	});
+
+	test("skips tabs the browser mustn't open", () => {
+		const imported = importTreeFromSidebery(
+			JSON.stringify({
+				tabsDataCache: [
+					[
+						sideberyTab(1, "Settings", -1, {
+							url: "moz-extension://abc/settings.html",
+						}),
+						sideberyTab(2, "Child", 1),
+					],
+				],
+			}),
+		);
+		expect(imported?.skippedCount).toBe(1);
+		expect(outline(imported?.windows[0] as SessionWindow)).toEqual(["Child"]);
+	});
+
+	test("returns null for anything but a Sidebery backup", () => {
+		expect(importTreeFromSidebery("not json")).toBeNull();
+		expect(importTreeFromSidebery("[]")).toBeNull();
+		expect(importTreeFromSidebery('{"windows": []}')).toBeNull();
+	});
+});
@@ -0,0 +1,80 @@
+import {
+	type ImportResult,
+	type ImportWindow,
+	importNode,
+	isObject,
+	materializeImport,
+	nestByParent,
+	str,
+} from "./import-model";
+
+/** A tab in Sidebery's `tabsDataCache`; `parentId` is -1 for top-level tabs */
+interface SideberyTab {
+	id?: unknown;
+	parentId?: unknown;
+	panel?: unknown;
+	url?: unknown;
+	title?: unknown;
+	folded?: unknown;
+	pin?: unknown;
+}
+
+/** Panel names from `sidebar.panels`, keyed by panel id */
+function getPanelNames(data: Record<string, unknown>): Map<string, string> {
+	const names = new Map<string, string>();
+	const panels = isObject(data.sidebar) ? data.sidebar.panels : undefined;
+	if (!isObject(panels)) return names;
+	for (const [id, panel] of Object.entries(panels)) {
+		if (isObject(panel) && typeof panel.name === "string") {
+			names.set(id, panel.name);
+		}
+	}
+	return names;
+}
+
+/**
+ * Parse a Sidebery backup (`tabsDataCache`, one tab list per window). A
+ * window whose tabs span several panels is split into one window per panel,
+ * titled with the panel's name. Returns null when the text isn't a Sidebery
+ * backup.
+ */
+export function importTreeFromSidebery(text: string): ImportResult | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	if (!isObject(parsed) || !Array.isArray(parsed.tabsDataCache)) return null;
+
+	const panelNames = getPanelNames(parsed);
+	const windows: ImportWindow[] = [];
+	for (const list of parsed.tabsDataCache) {
+		if (!Array.isArray(list)) continue;
+		const byPanel = new Map<string, SideberyTab[]>();
+		for (const tab of list.filter(isObject) as SideberyTab[]) {
+			const panel = str(tab.panel) ?? "";
+			const group = byPanel.get(panel);
+			if (group) group.push(tab);
+			else byPanel.set(panel, [tab]);
+		}
+		for (const [panel, tabs] of byPanel) {
+			windows.push({
+				titleOverride:
+					byPanel.size > 1 ? (panelNames.get(panel) ?? null) : null,
+				isCollapsed: false,
+				tabs: nestByParent(
+					tabs.map((tab, index) => ({
+						key: typeof tab.id === "number" ? tab.id : -2 - index,
+						parentKey: typeof tab.parentId === "number" ? tab.parentId : null,
+						node: importNode(str(tab.url), str(tab.title), {
+							pinned: tab.pin === true,
+							isCollapsed: tab.folded === true,
+						}),
+					})),
+				),
+			});
+		}
+	}
+	return materializeImport(windows);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import type { SessionWindow } from "@/entrypoints/background/session-snapshot";
+import { importTreeFromTreeStyleTab } from "./import-tree-style-tab";
+
+/** Titles as an indented outline, to compare hierarchies at a glance */
+function outline(win: SessionWindow): string[] {
+	const depth = new Map<number, number>();
+	return win.tabs.map((tab) => {
+		const d = tab.parentId === null ? 0 : (depth.get(tab.parentId) ?? 0) + 1;
+		depth.set(tab.id, d);
+		return `${"  ".repeat(d)}${tab.title}`;
+	});
+}
+
+// Output of TST's `get-tree` API: nested children, states per tab
+const apiTree = [
+	{
+		id: 10,
+		windowId: 1,
+		url: "https://docs.example.com/",
+		title: "Docs",
+		pinned: false,
+		states: ["subtree-collapsed"],
+		children: [
+			{
+				id: 11,
+				windowId: 1,
+				url: "https://docs.example.com/guide",
+				title: "Guide",
+				states: [],
+				children: [
+					{
+						id: 12,
+						windowId: 1,
+						url: "https://docs.example.com/guide/api",
+						title: "API",
+						states: [],
+						children: [],
+					},
+				],
+			},
+		],
+	},
+	{
+		id: 13,
+		windowId: 1,
+		url: "https://mail.example.com/",
+		title: "Mail",
+		pinned: true,
+		states: [],
+		children: [],
+	},
+	{
+		id: 20,
+		windowId: 2,
+		url: "https://news.example.com/",
+		title: "News",
+		states: [],
+		children: [],
+	},
+];
+
+describe("importTreeFromTreeStyleTab", () => {
+	test("reads nested API trees, one window per windowId", () => {
+		const imported = importTreeFromTreeStyleTab(JSON.stringify(apiTree));
+		expect(imported?.windows).toHaveLength(2);
+		const [first, second] = imported?.windows ?? [];
+		expect(outline(first)).toEqual(["Docs", "  Guide", "    API", "Mail"]);
+		expect(outline(second)).toEqual(["News"]);
+		expect(first.tabs[0].isCollapsed).toBe(true);
+		expect(first.tabs[3].pinned).toBe(true);
+		expect(first.tabs[0].url).toBe("https://docs.example.com/");
+	});
+
+	test("assigns ordered tree keys per sibling list", () => {
+		const [win] =
+			importTreeFromTreeStyleTab(JSON.stringify(apiTree))?.windows ?? [];
+		const roots = win.tabs.filter((t) => t.parentId === null);
+		expect(roots.map((t) => t.title)).toEqual(["Docs", "Mail"]);
+		expect(roots[0].treeOrder < roots[1].treeOrder).toBe(true);
+	});
+
+	test("reads flat lists with ancestorTabIds", () => {
+		const flat = [
+			{ id: 1, title: "A", url: "https://a.test/", ancestorTabIds: [] },
+			{ id: 2, title: "B", url: "https://b.test/", ancestorTabIds: [1] },
+			{ id: 3, title: "C", url: "https://c.test/", ancestorTabIds: [2, 1] },
+			{ id: 4, title: "D", url: "https://d.test/", ancestorTabIds: [1] },
+		];
+		const [win] =
+			importTreeFromTreeStyleTab(JSON.stringify(flat))?.windows ?? [];
+		expect(outline(win)).toEqual(["A", "  B", "    C", "  D"]);
+	});
+
+	test("reads flat lists with indent levels", () => {
+		const flat = {
+			tabs: [
+				{ title: "A", url: "https://a.test/", indent: 0 },
+				{ title: "B", url: "https://b.test/", indent: 1 },
+				{ title: "C", url: "https://c.test/", indent: 0, collapsed: true },
+			],
+		};
+		const [win] =
+			importTreeFromTreeStyleTab(JSON.stringify(flat))?.windows ?? [];
+		expect(outline(win)).toEqual(["A", "  B", "C"]);
+		expect(win.tabs[2].isCollapsed).toBe(true);
+	});
+
+	test("treats parent -1 and unknown parents as top level", () => {
+		const backup = {
+			windows: [
+				{
+					tabs: [
+						{ id: 5, parent: -1, title: "A", url: "https://a.test/" },
+						{ id: 6, parent: 5, title: "B", url: "https://b.test/" },
+						{ id: 7, parent: 99, title: "C", url: "https://c.test/" },
+					],
+				},
+			],
+		};
+		const [win] =
+			importTreeFromTreeStyleTab(JSON.stringify(backup))?.windows ?? [];
+		expect(outline(win)).toEqual(["A", "  B", "C"]);
+	});
+
+	test("skips tabs the browser mustn't open", () => {
+		const tabs = [
+			{ id: 1, title: "Config", url: "about:config" },
+			{ id: 2, parentId: 1, title: "A", url: "https://a.test/" },
+			{ id: 3, title: "Script", url: "javascript:void(0)" },
+		];
+		const imported = importTreeFromTreeStyleTab(JSON.stringify({ tabs }));
+		expect(imported?.skippedCount).toBe(2);
+		expect(outline(imported?.windows[0] as SessionWindow)).toEqual(["A"]);
+	});
+
+	test("returns null for text that isn't a tab list", () => {
+		expect(importTreeFromTreeStyleTab("not json")).toBeNull();
+		expect(importTreeFromTreeStyleTab('{"foo": 1}')).toBeNull();
+	});
+});
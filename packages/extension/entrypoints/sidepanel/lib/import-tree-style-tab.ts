@@ -0,0 +1,157 @@
+import {
+	type ImportNode,
+	type ImportResult,
+	type ImportWindow,
+	importNode,
+	isObject,
+	materializeImport,
+	nestByDepth,
+	nestByParent,
+	str,
+} from "./import-model";
+
+/**
+ * A tab as Tree Style Tab reports it: its API's tree items (nested
+ * `children`), or flat lists where the hierarchy is `ancestorTabIds`,
+ * `parent`/`parentId` or `indent`. Every field is optional since backups come
+ * from several TST versions and helper add-ons.
+ */
+interface TstTab {
+	id?: unknown;
+	windowId?: unknown;
+	url?: unknown;
+	title?: unknown;
+	pinned?: unknown;
+	collapsed?: unknown;
+	states?: unknown;
+	indent?: unknown;
+	ancestorTabIds?: unknown;
+	parent?: unknown;
+	parentId?: unknown;
+	children?: unknown;
+}
+
+const tabKey = (value: unknown) =>
+	typeof value === "number" || typeof value === "string" ? value : null;
+
+function toNode(tab: TstTab): ImportNode {
+	const states = Array.isArray(tab.states) ? tab.states : [];
+	return importNode(str(tab.url), str(tab.title), {
+		pinned: tab.pinned === true,
+		isCollapsed: tab.collapsed === true || states.includes("subtree-collapsed"),
+	});
+}
+
+function nestedTree(tabs: TstTab[]): ImportNode[] {
+	return tabs.map((tab) => {
+		const node = toNode(tab);
+		if (Array.isArray(tab.children)) {
+			node.children = nestedTree(tab.children.filter(isObject));
+		}
+		return node;
+	});
+}
+
+function parentKeyOf(tab: TstTab) {
+	if (Array.isArray(tab.ancestorTabIds)) {
+		return tabKey(tab.ancestorTabIds[0]);
+	}
+	const parent = tabKey(tab.parentId ?? tab.parent);
+	// TST uses -1 for "no parent" in its stored structure
+	return parent === -1 ? null : parent;
+}
+
+/**
+ * Rebuild one window's hierarchy from whichever shape its tabs use
+ */
+function windowTree(tabs: TstTab[]): ImportNode[] {
+	if (tabs.some((t) => Array.isArray(t.children) && t.children.length > 0)) {
+		return nestedTree(tabs);
+	}
+	if (tabs.some((t) => typeof t.indent === "number")) {
+		return nestByDepth(
+			tabs.map((t) => ({
+				depth: typeof t.indent === "number" ? t.indent : 0,
+				node: toNode(t),
+			})),
+		);
+	}
+	return nestByParent(
+		tabs.map((t, index) => ({
+			key: tabKey(t.id) ?? `#${index}`,
+			parentKey: parentKeyOf(t),
+			node: toNode(t),
+		})),
+	);
+}
+
+/** Split a flat list of tabs into windows, in order of first appearance */
+function groupByWindow(tabs: TstTab[]): TstTab[][] {
+	const groups = new Map<unknown, TstTab[]>();
+	for (const tab of tabs) {
+		const key = tabKey(tab.windowId);
+		const group = groups.get(key);
+		if (group) group.push(tab);
+		else groups.set(key, [tab]);
+	}
+	return [...groups.values()];
+}
+
+/** Find the tab lists in an array of tabs, `{ tabs }` or `{ windows: [...] }` */
+function findWindowTabLists(data: unknown): TstTab[][] | null {
+	if (Array.isArray(data)) {
+		// An array of windows, each an array of tabs or `{ tabs }`
+		if (data.some((w) => Array.isArray(w) || (isObject(w) && "tabs" in w))) {
+			return data.flatMap((w) => findWindowTabLists(w) ?? []);
+		}
+		return groupByWindow(data.filter(isObject));
+	}
+	if (!isObject(data)) return null;
+	if (Array.isArray(data.windows)) return findWindowTabLists(data.windows);
+	if (Array.isArray(data.tabs)) return [data.tabs.filter(isObject)];
+	return null;
+}
+
+// Fields only a TST tab has; a bare `id` or `title` could be anything
+const TST_TAB_FIELDS = [
+	"url",
+	"children",
+	"states",
+	"ancestorTabIds",
+	"indent",
+];
+
+/**
+ * Whether parsed JSON has the shape of a Tree Style Tab backup: a tab list in
+ * one of the layouts above with at least one tab TST would have written
+ */
+export function isTreeStyleTabBackup(data: unknown): boolean {
+	const lists = findWindowTabLists(data);
+	return (
+		lists?.some((tabs) =>
+			tabs.some((tab) => TST_TAB_FIELDS.some((field) => field in tab)),
+		) ?? false
+	);
+}
+
+/**
+ * Parse a Tree Style Tab tree or session backup. Returns null when the text
+ * isn't JSON or has no tab list.
+ */
+export function importTreeFromTreeStyleTab(text: string): ImportResult | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	const lists = findWindowTabLists(parsed);
+	if (!lists) return null;
+
+	const windows: ImportWindow[] = lists.map((tabs) => ({
+		titleOverride: null,
+		isCollapsed: false,
+		tabs: windowTree(tabs),
+	}));
+	return materializeImport(windows);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import {
+	createKeymap,
+	type KeyEventLike,
+	matchesBinding,
+	resolveKeyAction,
+} from "./keymap";
+
+const key = (
+	k: string,
+	modifiers: Partial<KeyEventLike> = {},
+): KeyEventLike => ({
+	key: k,
+	ctrlKey: false,
+	altKey: false,
+	shiftKey: false,
+	metaKey: false,
+	...modifiers,
+});
+
+describe("matchesBinding", () => {
+	test("requires modifiers to match exactly", () => {
+		expect(matchesBinding(key("ArrowUp"), "ArrowUp")).toBe(true);
+		expect(matchesBinding(key("ArrowUp", { altKey: true }), "ArrowUp")).toBe(
+			false,
+		);
+		expect(
+			matchesBinding(key("ArrowUp", { altKey: true }), "Alt+ArrowUp"),
+		).toBe(true);
+	});
+
+	test("matches single characters case-insensitively", () => {
+		expect(matchesBinding(key("K", { shiftKey: true }), "Shift+k")).toBe(true);
+	});
+
+	test("Mod is Ctrl off macOS and Cmd on macOS", () => {
+		expect(matchesBinding(key("k", { ctrlKey: true }), "Mod+k")).toBe(true);
+		expect(matchesBinding(key("k", { metaKey: true }), "Mod+k")).toBe(false);
+		expect(matchesBinding(key("k", { metaKey: true }), "Mod+k", true)).toBe(
+			true,
+		);
+	});
+
+	test("supports a literal plus key", () => {
+		expect(matchesBinding(key("+", { ctrlKey: true }), "Ctrl++")).toBe(true);
+	});
+});
+
+describe("resolveKeyAction", () => {
+	test("resolves the default bindings", () => {
+		expect(resolveKeyAction(key("ArrowDown"))).toBe("focusNext");
+		expect(resolveKeyAction(key("ArrowDown", { altKey: true }))).toBe(
+			"moveDown",
+		);
+		expect(resolveKeyAction(key("F2"))).toBe("rename");
+		expect(resolveKeyAction(key("Delete"))).toBe("close");
+		expect(resolveKeyAction(key("x"))).toBeNull();
+	});
+
+	test("opens the command palette with Mod+K", () => {
+		expect(resolveKeyAction(key("k", { ctrlKey: true }))).toBe(
+			"openCommandPalette",
+		);
+		expect(resolveKeyAction(key("k", { metaKey: true }), undefined, true)).toBe(
+			"openCommandPalette",
+		);
+	});
+
+	test("uses remapped bindings from createKeymap", () => {
+		const keymap = createKeymap({ focusNext: ["j"], focusPrevious: ["k"] });
+		expect(resolveKeyAction(key("j"), keymap)).toBe("focusNext");
+		expect(resolveKeyAction(key("ArrowDown"), keymap)).toBeNull();
+		expect(resolveKeyAction(key("Enter"), keymap)).toBe("activate");
+	});
+});
@@ -0,0 +1,111 @@
+/**
+ * Keyboard shortcuts for the tab tree.
+ *
+ * Bindings are strings like "ArrowUp", "F2" or "Alt+ArrowUp": zero or more
+ * modifiers (Ctrl, Alt, Shift, Meta, or Mod = Ctrl on Linux/Windows and
+ * Cmd on macOS) joined with "+" and followed by a `KeyboardEvent.key` value.
+ * Remap by passing overrides to `createKeymap`.
+ */
+
+export type TreeKeyAction =
+	| "focusPrevious"
+	| "focusNext"
+	| "collapseOrParent"
+	| "expandOrChild"
+	| "activate"
+	| "close"
+	| "rename"
+	| "moveUp"
+	| "moveDown"
+	| "openCommandPalette";
+
+export type Keymap = Record<TreeKeyAction, string[]>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+	focusPrevious: ["ArrowUp"],
+	focusNext: ["ArrowDown"],
+	collapseOrParent: ["ArrowLeft"],
+	expandOrChild: ["ArrowRight"],
+	activate: ["Enter"],
+	close: ["Delete"],
+	rename: ["F2"],
+	moveUp: ["Alt+ArrowUp"],
+	moveDown: ["Alt+ArrowDown"],
+	openCommandPalette: ["Mod+k"],
+};
+
+/** The parts of a KeyboardEvent a binding is matched against */
+export type KeyEventLike = Pick<
+	KeyboardEvent,
+	"key" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey"
+>;
+
+type ParsedBinding = {
+	key: string;
+	ctrl: boolean;
+	alt: boolean;
+	shift: boolean;
+	meta: boolean;
+	mod: boolean;
+};
+
+function parseBinding(binding: string): ParsedBinding {
+	// Split on "+" but keep a literal "+" key ("Ctrl++")
+	const parts = binding.split(/\+(?!$)/);
+	const key = parts.pop() ?? "";
+	const modifiers = new Set(parts.map((p) => p.toLowerCase()));
+	return {
+		key,
+		ctrl: modifiers.has("ctrl"),
+		alt: modifiers.has("alt"),
+		shift: modifiers.has("shift"),
+		meta: modifiers.has("meta") || modifiers.has("cmd"),
+		mod: modifiers.has("mod"),
+	};
+}
+
+export function matchesBinding(
+	event: KeyEventLike,
+	binding: string,
+	isMac = false,
+): boolean {
+	const parsed = parseBinding(binding);
+	const key = parsed.key.length === 1 ? parsed.key.toLowerCase() : parsed.key;
+	const eventKey = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+	if (key !== eventKey) return false;
+
+	const wantCtrl = parsed.ctrl || (parsed.mod && !isMac);
+	const wantMeta = parsed.meta || (parsed.mod && isMac);
+	return (
+		event.ctrlKey === wantCtrl &&
+		event.metaKey === wantMeta &&
+		event.altKey === parsed.alt &&
+		event.shiftKey === parsed.shift
+	);
+}
+
+/**
+ * Find the action bound to a key event, or null if none matches
+ */
+export function resolveKeyAction(
+	event: KeyEventLike,
+	keymap: Keymap = DEFAULT_KEYMAP,
+	isMac = false,
+): TreeKeyAction | null {
+	for (const [action, bindings] of Object.entries(keymap) as [
+		TreeKeyAction,
+		string[],
+	][]) {
+		if (bindings.some((binding) => matchesBinding(event, binding, isMac))) {
+			return action;
+		}
+	}
+	return null;
+}
+
+/**
+ * Build a keymap from the defaults, replacing the bindings of any overridden action
+ */
+export function createKeymap(overrides: Partial<Keymap> = {}): Keymap {
+	return { ...DEFAULT_KEYMAP, ...overrides };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import {
+	closesDescendants,
+	DEFAULT_PREFERENCES,
+	parsePreferences,
+} from "./preferences";
+
+describe("parsePreferences", () => {
+	test("falls back to defaults for missing values", () => {
+		expect(parsePreferences(undefined)).toEqual(DEFAULT_PREFERENCES);
+		expect(parsePreferences({ theme: "dark" })).toEqual({
+			...DEFAULT_PREFERENCES,
+			theme: "dark",
+		});
+	});
+
+	test("replaces malformed fields without dropping valid ones", () => {
+		expect(
+			parsePreferences({
+				theme: "sepia",
+				indentWidth: 200,
+				density: "compact",
+				debugLogging: "yes",
+			}),
+		).toEqual({ ...DEFAULT_PREFERENCES, density: "compact" });
+	});
+});
+
+describe("closesDescendants", () => {
+	test("follows the collapse state only by default", () => {
+		expect(closesDescendants("collapsedClosesChildren", true)).toBe(true);
+		expect(closesDescendants("collapsedClosesChildren", false)).toBe(false);
+		expect(closesDescendants("alwaysPromoteChildren", true)).toBe(false);
+		expect(closesDescendants("alwaysCloseChildren", false)).toBe(true);
+	});
+});
@@ -0,0 +1,105 @@
+import * as v from "valibot";
+
+/**
+ * User preferences, edited on the options page. Kept in `browser.storage.sync`
+ * so they follow the user across browsers; the background and every open page
+ * listen for changes and apply them live.
+ */
+export const PREFERENCES_KEY = "tabcanopy-preferences";
+
+export const NEW_TAB_PLACEMENTS = ["openerChild", "browserPosition"] as const;
+export const CLOSE_BEHAVIORS = [
+	"collapsedClosesChildren",
+	"alwaysPromoteChildren",
+	"alwaysCloseChildren",
+] as const;
+export const THEMES = ["system", "light", "dark"] as const;
+export const DENSITIES = ["comfortable", "compact"] as const;
+
+export const MIN_INDENT_WIDTH = 12;
+export const MAX_INDENT_WIDTH = 40;
+
+// Every field falls back to its default when missing or malformed, so stored
+// values from older or newer versions never fail to parse
+export const PreferencesSchema = v.object({
+	/** Where tabs opened from another tab go */
+	newTabPlacement: v.fallback(v.picklist(NEW_TAB_PLACEMENTS), "openerChild"),
+	/** Whether closing a parent closes its descendants */
+	closeBehavior: v.fallback(
+		v.picklist(CLOSE_BEHAVIORS),
+		"collapsedClosesChildren",
+	),
+	theme: v.fallback(v.picklist(THEMES), "system"),
+	density: v.fallback(v.picklist(DENSITIES), "comfortable"),
+	/** Width of one tree level, in pixels */
+	indentWidth: v.fallback(
+		v.pipe(
+			v.number(),
+			v.integer(),
+			v.minValue(MIN_INDENT_WIDTH),
+			v.maxValue(MAX_INDENT_WIDTH),
+		),
+		24,
+	),
+	/** Background console logging, for bug reports */
+	debugLogging: v.fallback(v.boolean(), false),
+	/** Record reconciler events for replay, for bug reports */
+	eventJournal: v.fallback(v.boolean(), false),
+});
+
+export type Preferences = v.InferOutput<typeof PreferencesSchema>;
+export type NewTabPlacement = Preferences["newTabPlacement"];
+export type CloseBehavior = Preferences["closeBehavior"];
+export type Theme = Preferences["theme"];
+export type Density = Preferences["density"];
+
+export function parsePreferences(value: unknown): Preferences {
+	return v.parse(
+		PreferencesSchema,
+		typeof value === "object" && value !== null ? value : {},
+	);
+}
+
+export const DEFAULT_PREFERENCES: Preferences = parsePreferences(undefined);
+
+export const NEW_TAB_PLACEMENT_LABELS: Record<NewTabPlacement, string> = {
+	openerChild: "As a child of the tab that opened it",
+	browserPosition: "Where the browser puts it",
+};
+
+export const CLOSE_BEHAVIOR_LABELS: Record<CloseBehavior, string> = {
+	collapsedClosesChildren: "Close children only when collapsed",
+	alwaysPromoteChildren: "Never close children (move them up)",
+	alwaysCloseChildren: "Always close children",
+};
+
+export const THEME_LABELS: Record<Theme, string> = {
+	system: "System",
+	light: "Light",
+	dark: "Dark",
+};
+
+export const DENSITY_LABELS: Record<Density, string> = {
+	comfortable: "Comfortable",
+	compact: "Compact",
+};
+
+/** Whether closing a tab closes its descendants too, instead of promoting them */
+export function closesDescendants(
+	closeBehavior: CloseBehavior,
+	isCollapsed: boolean,
+): boolean {
+	switch (closeBehavior) {
+		case "collapsedClosesChildren":
+			return isCollapsed;
+		case "alwaysPromoteChildren":
+			return false;
+		case "alwaysCloseChildren":
+			return true;
+	}
+}
+
+/** Tree row height for a density; tree line SVGs and rows use the same value */
+export function getRowHeight(density: Density): number {
+	return density === "compact" ? 24 : 26;
+}
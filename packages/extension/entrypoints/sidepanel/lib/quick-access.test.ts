@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import {
+	findTabForBookmark,
+	getBookmarksToAdd,
+	normalizeBookmarkUrl,
+} from "./quick-access";
+import { createMockTab } from "./tests/mock-tab";
+
+const tab = (
+	url: string | null,
+	browserWindowId = 1,
+	active = false,
+	title = "Title",
+) => createMockTab(1, null, "a0", { url, browserWindowId, active, title });
+
+describe("normalizeBookmarkUrl", () => {
+	test("ignores fragments and a bare trailing slash", () => {
+		expect(normalizeBookmarkUrl("https://a.com/#top")).toBe("https://a.com");
+		expect(normalizeBookmarkUrl("https://a.com")).toBe("https://a.com");
+		expect(normalizeBookmarkUrl("https://a.com/docs/")).toBe(
+			"https://a.com/docs/",
+		);
+		expect(normalizeBookmarkUrl("https://a.com/?q=1#x")).toBe(
+			"https://a.com/?q=1",
+		);
+	});
+
+	test("leaves unparseable URLs alone", () => {
+		expect(normalizeBookmarkUrl("not a url")).toBe("not a url");
+	});
+});
+
+describe("findTabForBookmark", () => {
+	test("prefers the active tab in the current window", () => {
+		const tabs = [
+			tab("https://a.com", 1),
+			tab("https://a.com/", 2, true),
+			tab("https://a.com#x", 1, true),
+		];
+		expect(findTabForBookmark(tabs, "https://a.com", 1)).toBe(tabs[2]);
+		expect(findTabForBookmark(tabs, "https://a.com", 3)).toBe(tabs[1]);
+	});
+
+	test("falls back to the first match, or null", () => {
+		const tabs = [tab(null), tab("https://b.com"), tab("https://b.com", 2)];
+		expect(findTabForBookmark(tabs, "https://b.com/", 1)).toBe(tabs[1]);
+		expect(findTabForBookmark(tabs, "https://c.com", 1)).toBeNull();
+	});
+});
+
+describe("getBookmarksToAdd", () => {
+	test("skips existing, duplicate and blank URLs", () => {
+		const result = getBookmarksToAdd(
+			[{ url: "https://a.com/" }],
+			[
+				tab("https://a.com#frag"),
+				tab("https://b.com", 1, false, "B"),
+				tab("https://b.com/"),
+				tab("about:blank"),
+				tab(null),
+			],
+		);
+		expect(result).toEqual([{ title: "B", url: "https://b.com" }]);
+	});
+
+	test("uses the custom title, then the page title, then the URL", () => {
+		expect(
+			getBookmarksToAdd(
+				[],
+				[
+					{ url: "https://a.com", title: "A", titleOverride: "Mine" },
+					{ url: "https://b.com", title: null, titleOverride: null },
+				],
+			),
+		).toEqual([
+			{ title: "Mine", url: "https://a.com" },
+			{ title: "https://b.com", url: "https://b.com" },
+		]);
+	});
+});
@@ -0,0 +1,72 @@
+import type { Tab } from "@/schema/src/schema";
+
+/** Name of the native bookmarks folder that backs the Quick Access bar */
+export const QUICK_ACCESS_FOLDER_TITLE = "TabCanopy";
+
+export type QuickAccessBookmark = {
+	id: string;
+	title: string;
+	url: string;
+};
+
+/**
+ * Compare URLs the way a user would: ignore the fragment and a bare trailing
+ * slash, so `https://a.com/#top` matches the bookmark `https://a.com`.
+ */
+export function normalizeBookmarkUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		parsed.hash = "";
+		const normalized = parsed.toString();
+		return parsed.pathname === "/" && !parsed.search
+			? normalized.replace(/\/$/, "")
+			: normalized;
+	} catch {
+		return url;
+	}
+}
+
+/**
+ * The open tab a bookmark should focus instead of opening a new one.
+ * Prefers the active tab of the current window, then any active tab, then the
+ * first match in the order given.
+ */
+export function findTabForBookmark<
+	T extends Pick<Tab, "url" | "active" | "browserWindowId">,
+>(tabs: T[], url: string, currentWindowId: number | undefined): T | null {
+	const target = normalizeBookmarkUrl(url);
+	const matches = tabs.filter(
+		(tab) => tab.url !== null && normalizeBookmarkUrl(tab.url) === target,
+	);
+	return (
+		matches.find(
+			(tab) => tab.active && tab.browserWindowId === currentWindowId,
+		) ??
+		matches.find((tab) => tab.active) ??
+		matches[0] ??
+		null
+	);
+}
+
+/**
+ * Bookmarks to create for dropped tabs: one per URL, skipping URLs already in
+ * the bar and pages that can't be bookmarked meaningfully (blank/internal).
+ */
+export function getBookmarksToAdd(
+	existing: Pick<QuickAccessBookmark, "url">[],
+	tabs: Pick<Tab, "url" | "title" | "titleOverride">[],
+): { title: string; url: string }[] {
+	const seen = new Set(existing.map((b) => normalizeBookmarkUrl(b.url)));
+	const result: { title: string; url: string }[] = [];
+	for (const tab of tabs) {
+		if (!tab.url || tab.url.startsWith("about:")) continue;
+		const normalized = normalizeBookmarkUrl(tab.url);
+		if (seen.has(normalized)) continue;
+		seen.add(normalized);
+		result.push({
+			title: tab.titleOverride || tab.title || tab.url,
+			url: tab.url,
+		});
+	}
+	return result;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import type { Tab } from "@/schema/src/schema";
+import { getSortedTreeOrders, getTabDomain } from "./sort-tabs";
+import { createMockTab } from "./tests/mock-tab";
+import { buildTabTree, flattenTree } from "./tree";
+
+/** Tab IDs in depth-first order after applying the new tree orders */
+function sortedIds(tabs: Tab[], orders: Map<number, string>): number[] {
+	return flattenTree(
+		buildTabTree(
+			tabs.map((t) => ({
+				...t,
+				treeOrder: orders.get(t.browserTabId) ?? t.treeOrder,
+			})),
+		),
+	).map((node) => node.tab.browserTabId);
+}
+
+// c(1) -> [z(2), a(3)], b(4), a(5)
+const tabs = [
+	createMockTab(1, null, "a0", {
+		url: "https://www.charlie.com/",
+		title: "Charlie",
+	}),
+	createMockTab(2, 1, "a0", { url: "https://zulu.org/", title: "Zulu" }),
+	createMockTab(3, 1, "a1", { url: "https://alpha.org/", title: "alpha" }),
+	createMockTab(4, null, "a1", { url: "https://bravo.net/x", title: "Bravo" }),
+	createMockTab(5, null, "a2", {
+		url: "https://alpha.dev/",
+		title: "Alpha 10",
+	}),
+];
+
+describe("getSortedTreeOrders", () => {
+	test("sorts one level by title, leaving children alone", () => {
+		const orders = getSortedTreeOrders(tabs, null, "title", {
+			recursive: false,
+		});
+		expect(sortedIds(tabs, orders)).toEqual([5, 4, 1, 2, 3]);
+		expect(orders.has(2)).toBe(false);
+	});
+
+	test("sorts every level when recursive", () => {
+		const orders = getSortedTreeOrders(tabs, null, "title", {
+			recursive: true,
+		});
+		expect(sortedIds(tabs, orders)).toEqual([5, 4, 1, 3, 2]);
+	});
+
+	test("sorts a tab's children only", () => {
+		const orders = getSortedTreeOrders(tabs, 1, "url", { recursive: false });
+		expect([...orders.keys()].sort()).toEqual([2, 3]);
+		expect(sortedIds(tabs, orders)).toEqual([1, 3, 2, 4, 5]);
+	});
+
+	test("sorts by domain, ignoring www", () => {
+		const orders = getSortedTreeOrders(tabs, null, "domain", {
+			recursive: false,
+		});
+		expect(sortedIds(tabs, orders)).toEqual([5, 4, 1, 2, 3]);
+	});
+
+	test("puts the most recently accessed first", () => {
+		const orders = getSortedTreeOrders(tabs, null, "lastAccessed", {
+			recursive: false,
+			lastAccessed: new Map([
+				[1, 100],
+				[4, 300],
+				[5, 200],
+			]),
+		});
+		expect(sortedIds(tabs, orders)).toEqual([4, 5, 1, 2, 3]);
+	});
+
+	test("keeps pinned tabs first", () => {
+		const withPinned = [
+			...tabs.slice(0, 3),
+			createMockTab(4, null, "a1", {
+				url: "https://bravo.net/",
+				title: "Bravo",
+				pinned: true,
+			}),
+			tabs[4],
+		];
+		const orders = getSortedTreeOrders(withPinned, null, "title", {
+			recursive: false,
+		});
+		expect(sortedIds(withPinned, orders)[0]).toBe(4);
+	});
+
+	test("returns nothing for a level already in order", () => {
+		expect(
+			getSortedTreeOrders(tabs, null, "lastAccessed", { recursive: false })
+				.size,
+		).toBe(0);
+	});
+});
+
+describe("getTabDomain", () => {
+	test("strips www and tolerates bad URLs", () => {
+		expect(getTabDomain("https://www.example.com/a")).toBe("example.com");
+		expect(getTabDomain("not a url")).toBe("");
+		expect(getTabDomain(null)).toBe("");
+	});
+});
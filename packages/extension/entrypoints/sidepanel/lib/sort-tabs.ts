@@ -0,0 +1,102 @@
+import { generateNKeysBetween } from "fractional-indexing";
+import type { Tab } from "@/schema/src/schema";
+import { compareTreeOrder } from "./tree";
+
+export type TabSortKey = "title" | "url" | "domain" | "lastAccessed";
+
+export const TAB_SORT_KEY_LABELS: Record<TabSortKey, string> = {
+	title: "Title",
+	url: "URL",
+	domain: "Domain",
+	lastAccessed: "Last Accessed",
+};
+
+export interface TabSortOptions {
+	/** Sort the children of every sorted tab too, all the way down */
+	recursive: boolean;
+	/** Browser tab ID -> last access time (ms); needed for "lastAccessed" */
+	lastAccessed?: Map<number, number>;
+}
+
+const collator = new Intl.Collator(undefined, {
+	sensitivity: "base",
+	numeric: true,
+});
+
+const displayTitle = (tab: Tab) =>
+	tab.titleOverride || tab.title || tab.url || "";
+
+/** Hostname without "www.", or "" for URLs that don't parse */
+export function getTabDomain(url: string | null): string {
+	if (!url) return "";
+	try {
+		return new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		return "";
+	}
+}
+
+function compareBy(
+	key: TabSortKey,
+	lastAccessed: Map<number, number> | undefined,
+): (a: Tab, b: Tab) => number {
+	switch (key) {
+		case "title":
+			return (a, b) => collator.compare(displayTitle(a), displayTitle(b));
+		case "url":
+			return (a, b) => collator.compare(a.url ?? "", b.url ?? "");
+		case "domain":
+			return (a, b) =>
+				collator.compare(getTabDomain(a.url), getTabDomain(b.url)) ||
+				collator.compare(a.url ?? "", b.url ?? "");
+		case "lastAccessed":
+			// Most recently used first
+			return (a, b) =>
+				(lastAccessed?.get(b.browserTabId) ?? 0) -
+				(lastAccessed?.get(a.browserTabId) ?? 0);
+	}
+}
+
+/**
+ * New tree orders for the children of `parentTabId` (null = the window's root
+ * tabs) sorted by `key`, and for every level below when recursive. Pinned tabs
+ * stay ahead of the rest, as the browser requires, and ties keep their current
+ * order. Only tabs whose order changes are returned.
+ */
+export function getSortedTreeOrders(
+	tabs: Tab[],
+	parentTabId: number | null,
+	key: TabSortKey,
+	options: TabSortOptions,
+): Map<number, string> {
+	const compare = compareBy(key, options.lastAccessed);
+	const result = new Map<number, string>();
+
+	const sortLevel = (parentId: number | null) => {
+		const siblings = tabs
+			.filter((t) => t.parentTabId === parentId)
+			.sort(
+				(a, b) =>
+					Number(b.pinned) - Number(a.pinned) ||
+					compare(a, b) ||
+					compareTreeOrder(a.treeOrder, b.treeOrder),
+			);
+		const keys = generateNKeysBetween(null, null, siblings.length);
+		// Keep the current keys when the level is already in order
+		const inOrder = siblings.every(
+			(t, i) =>
+				i === 0 || compareTreeOrder(siblings[i - 1].treeOrder, t.treeOrder) < 0,
+		);
+		if (!inOrder) {
+			siblings.forEach((t, i) => {
+				if (t.treeOrder !== keys[i]) result.set(t.browserTabId, keys[i]);
+			});
+		}
+		if (options.recursive) {
+			for (const t of siblings) sortLevel(t.browserTabId);
+		}
+	};
+
+	sortLevel(parentTabId);
+	return result;
+}
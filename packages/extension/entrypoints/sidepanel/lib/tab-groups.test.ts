@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { getTabGroupRunStarts, isTabGroupColor } from "./tab-groups";
+
+describe("getTabGroupRunStarts", () => {
+	test("marks the first tab of each group run", () => {
+		expect(getTabGroupRunStarts([null, 1, 1, 2, 2, null])).toEqual([
+			false,
+			true,
+			false,
+			true,
+			false,
+			false,
+		]);
+	});
+
+	test("a group split by the tree starts a new run", () => {
+		expect(getTabGroupRunStarts([1, null, 1, 1])).toEqual([
+			true,
+			false,
+			true,
+			false,
+		]);
+	});
+
+	test("ungrouped tabs never start a run", () => {
+		expect(getTabGroupRunStarts([null, null])).toEqual([false, false]);
+		expect(getTabGroupRunStarts([])).toEqual([]);
+	});
+});
+
+describe("isTabGroupColor", () => {
+	test("accepts only the browser's group colors", () => {
+		expect(isTabGroupColor("cyan")).toBe(true);
+		expect(isTabGroupColor("emerald")).toBe(false);
+	});
+});
@@ -0,0 +1,58 @@
+/** Colors the browser offers for native tab groups (tabGroups.Color) */
+export const TAB_GROUP_COLORS = [
+	"grey",
+	"blue",
+	"red",
+	"yellow",
+	"green",
+	"pink",
+	"purple",
+	"cyan",
+	"orange",
+] as const;
+
+export type TabGroupColor = (typeof TAB_GROUP_COLORS)[number];
+
+/** Tailwind classes for the rail beside a group's tabs */
+export const TAB_GROUP_RAIL_CLASSES: Record<TabGroupColor, string> = {
+	grey: "bg-slate-400",
+	blue: "bg-blue-500",
+	red: "bg-red-500",
+	yellow: "bg-yellow-400",
+	green: "bg-green-500",
+	pink: "bg-pink-500",
+	purple: "bg-purple-500",
+	cyan: "bg-cyan-500",
+	orange: "bg-orange-500",
+};
+
+/** Tailwind classes for the title chip above a group's first tab */
+export const TAB_GROUP_CHIP_CLASSES: Record<TabGroupColor, string> = {
+	grey: "bg-slate-500 text-white",
+	blue: "bg-blue-600 text-white",
+	red: "bg-red-600 text-white",
+	yellow: "bg-yellow-400 text-slate-900",
+	green: "bg-green-600 text-white",
+	pink: "bg-pink-600 text-white",
+	purple: "bg-purple-600 text-white",
+	cyan: "bg-cyan-500 text-slate-900",
+	orange: "bg-orange-500 text-white",
+};
+
+export function isTabGroupColor(color: string): color is TabGroupColor {
+	return (TAB_GROUP_COLORS as readonly string[]).includes(color);
+}
+
+/** Firefox before 139 has no tabGroups API */
+export const hasTabGroupsApi = () => typeof browser.tabGroups !== "undefined";
+
+/**
+ * For each row (in display order), whether it starts a run of tabs in the same
+ * native group. The tree may split a group, so one group can have several runs.
+ */
+export function getTabGroupRunStarts(groupIds: (number | null)[]): boolean[] {
+	return groupIds.map(
+		(groupId, i) =>
+			groupId !== null && (i === 0 || groupIds[i - 1] !== groupId),
+	);
+}
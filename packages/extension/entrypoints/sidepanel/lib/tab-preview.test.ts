@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { formatLastAccessed, getPreviewPosition } from "./tab-preview";
+
+describe("formatLastAccessed", () => {
+	const now = 1_000_000_000;
+
+	test("formats minutes, hours and days", () => {
+		expect(formatLastAccessed(now - 20_000, now)).toBe("just now");
+		expect(formatLastAccessed(now - 5 * 60_000, now)).toBe("5 min ago");
+		expect(formatLastAccessed(now - 3 * 3_600_000, now)).toBe("3 h ago");
+		expect(formatLastAccessed(now - 50 * 3_600_000, now)).toBe("2 d ago");
+	});
+});
+
+describe("getPreviewPosition", () => {
+	const size = { width: 200, height: 150 };
+	const viewport = { width: 300, height: 600 };
+
+	test("opens below the row when there is room", () => {
+		expect(
+			getPreviewPosition({ top: 100, bottom: 120, left: 20 }, size, viewport),
+		).toEqual({ top: 128, left: 20 });
+	});
+
+	test("flips above the row near the bottom of the viewport", () => {
+		expect(
+			getPreviewPosition({ top: 500, bottom: 520, left: 20 }, size, viewport),
+		).toEqual({ top: 342, left: 20 });
+	});
+
+	test("stays below when there is no room above either", () => {
+		const small = { width: 300, height: 200 };
+		expect(
+			getPreviewPosition({ top: 100, bottom: 120, left: 20 }, size, small),
+		).toEqual({ top: 128, left: 20 });
+	});
+
+	test("keeps the preview horizontally inside the viewport", () => {
+		expect(
+			getPreviewPosition({ top: 100, bottom: 120, left: 150 }, size, viewport),
+		).toEqual({ top: 128, left: 92 });
+		expect(
+			getPreviewPosition({ top: 100, bottom: 120, left: 0 }, size, viewport),
+		).toEqual({ top: 128, left: 8 });
+	});
+});
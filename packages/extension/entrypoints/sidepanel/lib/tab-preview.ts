@@ -0,0 +1,34 @@
+/** Space kept between the preview and the hovered row / viewport edges */
+const PREVIEW_MARGIN = 8;
+
+/**
+ * "just now", "5 min ago", "3 h ago", "2 d ago"
+ */
+export function formatLastAccessed(timestamp: number, now: number): string {
+	const minutes = Math.floor((now - timestamp) / 60_000);
+	if (minutes < 1) return "just now";
+	if (minutes < 60) return `${minutes} min ago`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours} h ago`;
+	return `${Math.floor(hours / 24)} d ago`;
+}
+
+/**
+ * Place the preview below the hovered row, flipping above it when it would
+ * run off the bottom of the viewport, and keep it horizontally on screen.
+ */
+export function getPreviewPosition(
+	anchor: { top: number; bottom: number; left: number },
+	size: { width: number; height: number },
+	viewport: { width: number; height: number },
+): { top: number; left: number } {
+	const below = anchor.bottom + PREVIEW_MARGIN;
+	const above = anchor.top - PREVIEW_MARGIN - size.height;
+	const top =
+		below + size.height <= viewport.height - PREVIEW_MARGIN || above < 0
+			? below
+			: above;
+	const maxLeft = viewport.width - PREVIEW_MARGIN - size.width;
+	const left = Math.max(PREVIEW_MARGIN, Math.min(anchor.left, maxLeft));
+	return { top, left };
+}
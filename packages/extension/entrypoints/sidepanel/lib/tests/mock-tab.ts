@@ -0,0 +1,40 @@
+import type { Tab } from "@/schema/src/schema";
+
+/**
+ * Fully populated tab row for unit tests, open in window 1. Pass the fields a
+ * test cares about in `overrides`.
+ */
+export function createMockTab(
+	browserTabId: number,
+	parentTabId: number | null = null,
+	treeOrder = "a0",
+	overrides: Partial<Tab> = {},
+): Tab {
+	return {
+		id: `tab-${browserTabId}` as Tab["id"],
+		browserTabId,
+		browserWindowId: 1,
+		tabIndex: browserTabId,
+		parentTabId,
+		treeOrder,
+		isCollapsed: false,
+		title: `Tab ${browserTabId}`,
+		url: `about:blank?${browserTabId}`,
+		favIconUrl: null,
+		titleOverride: null,
+		active: false,
+		pinned: false,
+		highlighted: false,
+		discarded: false,
+		frozen: false,
+		autoDiscardable: true,
+		audible: false,
+		mutedInfo: null,
+		status: "complete",
+		groupId: null,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+		deletedAt: null,
+		...overrides,
+	};
+}
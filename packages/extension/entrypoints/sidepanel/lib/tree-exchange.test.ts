@@ -0,0 +1,237 @@
+import { describe, expect, test } from "bun:test";
+import type { SessionWindow } from "@/entrypoints/background/session-snapshot";
+import type { Tab } from "@/schema/src/schema";
+import { createMockTab } from "./tests/mock-tab";
+import {
+	detectExchangeFormat,
+	type ExportWindow,
+	exportTreeToJson,
+	exportTreeToMarkdown,
+	exportTreeToOneTab,
+	importTreeFromJson,
+	importTreeFromMarkdown,
+	importTreeFromOneTab,
+} from "./tree-exchange";
+
+const tab = (
+	browserTabId: number,
+	url: string | null,
+	title: string,
+	parentTabId: number | null = null,
+	treeOrder = "a0",
+	overrides: Partial<Tab> = {},
+) =>
+	createMockTab(browserTabId, parentTabId, treeOrder, {
+		url,
+		title,
+		...overrides,
+	});
+
+// research(1) -> paper(2) -> notes(3); other(4)
+const windows: ExportWindow[] = [
+	{
+		title: "Research",
+		isCollapsed: false,
+		tabs: [
+			tab(1, "https://research.io", "Research", null, "a0", {
+				isCollapsed: true,
+			}),
+			tab(2, "https://paper.io/a (1)", "Paper [draft]", 1, "a0"),
+			tab(3, "https://notes.io", "Notes", 2, "a0", { titleOverride: "Mine" }),
+			tab(4, "https://other.io", "Other", null, "a1"),
+			tab(5, "https://closed.io", "Closed", null, "a2", {
+				deletedAt: new Date(),
+			}),
+		],
+	},
+];
+
+/** Parent URL of each tab, to compare hierarchies independent of IDs */
+const shape = (imported: SessionWindow[]) =>
+	imported.map((win) =>
+		win.tabs.map((t) => [
+			t.url,
+			win.tabs.find((p) => p.id === t.parentId)?.url ?? null,
+		]),
+	);
+
+describe("JSON", () => {
+	test("round-trips hierarchy, titles and collapse state", () => {
+		const json = exportTreeToJson(windows, new Date(0));
+		const imported = importTreeFromJson(json)?.windows;
+		expect(imported).toBeDefined();
+		if (!imported) return;
+		expect(imported[0].titleOverride).toBe("Research");
+		expect(shape(imported)).toEqual([
+			[
+				["https://research.io", null],
+				["https://paper.io/a (1)", "https://research.io"],
+				["https://notes.io", "https://paper.io/a (1)"],
+				["https://other.io", null],
+			],
+		]);
+		expect(imported[0].tabs[0].isCollapsed).toBe(true);
+		expect(imported[0].tabs[2].titleOverride).toBe("Mine");
+		// Siblings keep their order
+		const [research, , , other] = imported[0].tabs;
+		expect(research.treeOrder < other.treeOrder).toBe(true);
+	});
+
+	test("rejects other formats and versions", () => {
+		expect(importTreeFromJson("not json")).toBeNull();
+		expect(importTreeFromJson('{"windows": []}')).toBeNull();
+		const json = JSON.parse(exportTreeToJson(windows, new Date(0)));
+		expect(importTreeFromJson(JSON.stringify({ ...json, version: 99 }))).toBe(
+			null,
+		);
+	});
+});
+
+describe("Markdown", () => {
+	test("exports nested links under a heading per window", () => {
+		expect(exportTreeToMarkdown(windows)).toBe(
+			[
+				"## Research",
+				"",
+				"- [Research](https://research.io)",
+				"  - [Paper \\[draft\\]](https://paper.io/a%20%281%29)",
+				"    - [Mine](https://notes.io)",
+				"- [Other](https://other.io)",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("imports its own export", () => {
+		const imported = importTreeFromMarkdown(
+			exportTreeToMarkdown(windows),
+		).windows;
+		expect(imported[0].titleOverride).toBe("Research");
+		expect(imported[0].tabs.map((t) => t.title)).toEqual([
+			"Research",
+			"Paper [draft]",
+			"Mine",
+			"Other",
+		]);
+		expect(imported[0].tabs[2].parentId).toBe(imported[0].tabs[1].id);
+	});
+
+	test("accepts bare URLs, other bullets and tab indentation", () => {
+		const imported = importTreeFromMarkdown(
+			[
+				"* https://a.io",
+				"\t* [B](https://b.io)",
+				"\t\t+ Just a note",
+				"* https://c.io",
+				"",
+				"# Second",
+				"- https://d.io",
+			].join("\n"),
+		).windows;
+		expect(imported).toHaveLength(2);
+		expect(shape(imported)[0]).toEqual([
+			["https://a.io", null],
+			["https://b.io", "https://a.io"],
+			[null, "https://b.io"],
+			["https://c.io", null],
+		]);
+		expect(imported[1].titleOverride).toBe("Second");
+	});
+});
+
+describe("OneTab", () => {
+	test("exports url | title lines in tree order", () => {
+		expect(exportTreeToOneTab(windows)).toBe(
+			[
+				"https://research.io | Research",
+				"https://paper.io/a (1) | Paper [draft]",
+				"https://notes.io | Mine",
+				"https://other.io | Other",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("imports groups as windows of top-level tabs", () => {
+		const imported = importTreeFromOneTab(
+			[
+				"https://a.io | A | with pipe",
+				"https://b.io",
+				"",
+				"garbage line",
+				"https://c.io | C",
+			].join("\n"),
+		).windows;
+		expect(imported).toHaveLength(2);
+		expect(imported[0].tabs.map((t) => [t.url, t.title])).toEqual([
+			["https://a.io", "A | with pipe"],
+			["https://b.io", null],
+		]);
+		expect(imported[1].tabs.every((t) => t.parentId === null)).toBe(true);
+	});
+});
+
+describe("URLs the browser mustn't open", () => {
+	test("are dropped from JSON, their children moving up", () => {
+		const json = JSON.parse(exportTreeToJson(windows, new Date(0)));
+		json.windows[0].tabs[0].url = "javascript:alert(1)";
+		json.windows[0].tabs[1].url = "file:///etc/passwd";
+		const imported = importTreeFromJson(JSON.stringify(json));
+		expect(imported?.skippedCount).toBe(2);
+		expect(shape(imported?.windows ?? [])).toEqual([
+			[
+				["https://paper.io/a (1)", null],
+				["https://notes.io", "https://paper.io/a (1)"],
+			],
+		]);
+	});
+
+	test("are skipped in Markdown and OneTab text", () => {
+		const markdown = importTreeFromMarkdown(
+			[
+				"- [Settings](about:config)",
+				"- chrome-extension://abc/page.html",
+				"  - ftp://files.io",
+			].join("\n"),
+		);
+		expect(markdown.skippedCount).toBe(2);
+		expect(shape(markdown.windows)).toEqual([[["ftp://files.io", null]]]);
+
+		const oneTab = importTreeFromOneTab(
+			"moz-extension://abc/page.html | Page\nhttp://a.io | A",
+		);
+		expect(oneTab.skippedCount).toBe(1);
+		expect(oneTab.windows[0].tabs.map((t) => t.url)).toEqual(["http://a.io"]);
+	});
+});
+
+describe("detectExchangeFormat", () => {
+	test("recognizes each format", () => {
+		expect(detectExchangeFormat(exportTreeToJson(windows, new Date(0)))).toBe(
+			"json",
+		);
+		expect(detectExchangeFormat(exportTreeToMarkdown(windows))).toBe(
+			"markdown",
+		);
+		expect(detectExchangeFormat(exportTreeToOneTab(windows))).toBe("onetab");
+	});
+
+	test("tells other extensions' JSON backups apart", () => {
+		expect(detectExchangeFormat('{"tabsDataCache": [[]]}')).toBe("sidebery");
+		expect(detectExchangeFormat('[{"id": 1, "children": []}]')).toBe(
+			"tree-style-tab",
+		);
+		expect(detectExchangeFormat("{ broken")).toBe("json");
+	});
+
+	test("doesn't take any other JSON for a Tree Style Tab backup", () => {
+		expect(detectExchangeFormat('{"foo": 1}')).toBeNull();
+		expect(detectExchangeFormat("[1, 2, 3]")).toBeNull();
+		expect(detectExchangeFormat('[{"id": 1, "name": "x"}]')).toBeNull();
+		expect(
+			detectExchangeFormat(
+				'{"windows": [{"tabs": [{"url": "https://a.io"}]}]}',
+			),
+		).toBe("tree-style-tab");
+	});
+});
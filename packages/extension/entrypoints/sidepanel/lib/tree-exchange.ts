@@ -0,0 +1,356 @@
+import type { Tab } from "@/schema/src/schema";
+import {
+	type ImportNode,
+	type ImportResult,
+	type ImportWindow,
+	importNode,
+	isObject,
+	materializeImport,
+	str,
+} from "./import-model";
+import { importTreeFromSidebery } from "./import-sidebery";
+import {
+	importTreeFromTreeStyleTab,
+	isTreeStyleTabBackup,
+} from "./import-tree-style-tab";
+import { buildTabTree, isClosedTab, type TabTreeNode } from "./tree";
+
+export type ExchangeFormat = "json" | "markdown" | "onetab";
+
+/** Formats that can be imported; other extensions' backups are import-only */
+export type ImportFormat = ExchangeFormat | "tree-style-tab" | "sidebery";
+
+/** Bump when the JSON export shape changes; other versions are rejected on import */
+export const TREE_EXPORT_VERSION = 1;
+const TREE_EXPORT_FORMAT = "tabcanopy-tree";
+
+/** A window to export, with its open tabs */
+export type ExportWindow = {
+	title: string;
+	isCollapsed: boolean;
+	tabs: Tab[];
+};
+
+/** A tab in the JSON export; the hierarchy is expressed by nesting */
+export interface ExportedTab {
+	url: string | null;
+	title: string | null;
+	titleOverride: string | null;
+	isCollapsed: boolean;
+	pinned: boolean;
+	children: ExportedTab[];
+}
+
+export interface ExportedWindow {
+	title: string | null;
+	isCollapsed: boolean;
+	tabs: ExportedTab[];
+}
+
+export interface TreeExport {
+	format: typeof TREE_EXPORT_FORMAT;
+	version: typeof TREE_EXPORT_VERSION;
+	exportedAt: string;
+	windows: ExportedWindow[];
+}
+
+const displayTitle = (tab: Pick<Tab, "titleOverride" | "title" | "url">) =>
+	tab.titleOverride || tab.title || tab.url || "Untitled";
+
+function windowTree(win: ExportWindow): TabTreeNode[] {
+	return buildTabTree(win.tabs.filter((t) => !isClosedTab(t)));
+}
+
+function toExportedTab(node: TabTreeNode): ExportedTab {
+	return {
+		url: node.tab.url,
+		title: node.tab.title,
+		titleOverride: node.tab.titleOverride,
+		isCollapsed: node.tab.isCollapsed,
+		pinned: node.tab.pinned,
+		children: node.children.map(toExportedTab),
+	};
+}
+
+export function exportTreeToJson(windows: ExportWindow[], now: Date): string {
+	const data: TreeExport = {
+		format: TREE_EXPORT_FORMAT,
+		version: TREE_EXPORT_VERSION,
+		exportedAt: now.toISOString(),
+		windows: windows.map((win) => ({
+			title: win.title,
+			isCollapsed: win.isCollapsed,
+			tabs: windowTree(win).map(toExportedTab),
+		})),
+	};
+	return JSON.stringify(data, null, 2);
+}
+
+const escapeMarkdownText = (text: string) => text.replace(/([\\[\]])/g, "\\$1");
+const MARKDOWN_URL_ESCAPES: Record<string, string> = {
+	" ": "%20",
+	"(": "%28",
+	")": "%29",
+};
+const escapeMarkdownUrl = (url: string) =>
+	url.replace(/[ ()]/g, (c) => MARKDOWN_URL_ESCAPES[c]);
+
+/**
+ * One heading per window, then a nested bullet list of links
+ */
+export function exportTreeToMarkdown(windows: ExportWindow[]): string {
+	const lines: string[] = [];
+	for (const win of windows) {
+		if (lines.length > 0) lines.push("");
+		lines.push(`## ${win.title}`, "");
+		const visit = (nodes: TabTreeNode[], depth: number) => {
+			for (const node of nodes) {
+				const title = escapeMarkdownText(displayTitle(node.tab));
+				const item = node.tab.url
+					? `[${title}](${escapeMarkdownUrl(node.tab.url)})`
+					: title;
+				lines.push(`${"  ".repeat(depth)}- ${item}`);
+				visit(node.children, depth + 1);
+			}
+		};
+		visit(windowTree(win), 0);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * OneTab's `url | title` lines, with a blank line between windows.
+ * OneTab has no hierarchy, so tabs are listed in tree order.
+ */
+export function exportTreeToOneTab(windows: ExportWindow[]): string {
+	const blocks = windows.map((win) => {
+		const lines: string[] = [];
+		const visit = (nodes: TabTreeNode[]) => {
+			for (const node of nodes) {
+				if (node.tab.url) {
+					lines.push(`${node.tab.url} | ${displayTitle(node.tab)}`);
+				}
+				visit(node.children);
+			}
+		};
+		visit(windowTree(win));
+		return lines.join("\n");
+	});
+	return `${blocks.filter((b) => b.length > 0).join("\n\n")}\n`;
+}
+
+export function exportTree(
+	format: ExchangeFormat,
+	windows: ExportWindow[],
+	now: Date,
+): string {
+	switch (format) {
+		case "json":
+			return exportTreeToJson(windows, now);
+		case "markdown":
+			return exportTreeToMarkdown(windows);
+		case "onetab":
+			return exportTreeToOneTab(windows);
+	}
+}
+
+// ============================================================================
+// Import: every format is turned into session windows, which the background
+// restores with the same path as saved sessions
+// ============================================================================
+
+function parseExportedTab(value: unknown): ImportNode | null {
+	if (!isObject(value)) return null;
+	const tab = value as Partial<Record<keyof ExportedTab, unknown>>;
+	const children = Array.isArray(tab.children)
+		? tab.children
+				.map(parseExportedTab)
+				.filter((c): c is ImportNode => c !== null)
+		: [];
+	return {
+		url: str(tab.url),
+		title: str(tab.title),
+		titleOverride: str(tab.titleOverride),
+		isCollapsed: tab.isCollapsed === true,
+		pinned: tab.pinned === true,
+		children,
+	};
+}
+
+/**
+ * Parse a JSON export. Returns null for malformed JSON, another format or an
+ * unknown version.
+ */
+export function importTreeFromJson(text: string): ImportResult | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	if (
+		typeof parsed !== "object" ||
+		parsed === null ||
+		!("format" in parsed) ||
+		parsed.format !== TREE_EXPORT_FORMAT ||
+		!("version" in parsed) ||
+		parsed.version !== TREE_EXPORT_VERSION ||
+		!("windows" in parsed) ||
+		!Array.isArray(parsed.windows)
+	) {
+		return null;
+	}
+
+	const windows: ImportWindow[] = [];
+	for (const value of parsed.windows as unknown[]) {
+		if (!isObject(value)) continue;
+		const win = value as Partial<Record<keyof ExportedWindow, unknown>>;
+		windows.push({
+			titleOverride: typeof win.title === "string" ? win.title : null,
+			isCollapsed: win.isCollapsed === true,
+			tabs: Array.isArray(win.tabs)
+				? win.tabs
+						.map(parseExportedTab)
+						.filter((t): t is ImportNode => t !== null)
+				: [],
+		});
+	}
+	return materializeImport(windows);
+}
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.*)$/;
+const MARKDOWN_BULLET = /^(\s*)[-*+]\s+(.*)$/;
+const MARKDOWN_LINK = /^\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)/;
+const BARE_URL = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+
+function parseMarkdownItem(text: string): ImportNode {
+	const link = text.match(MARKDOWN_LINK);
+	if (link) {
+		const title = link[1].replace(/\\(.)/g, "$1");
+		return importNode(link[2], title || null);
+	}
+	const trimmed = text.trim();
+	return BARE_URL.test(trimmed)
+		? importNode(trimmed, null)
+		: importNode(null, trimmed);
+}
+
+/**
+ * Parse nested Markdown bullet lists. Headings start a new window (their text
+ * becomes its title) and indentation sets the hierarchy. Items without a link
+ * keep their text as the title of an empty tab.
+ */
+export function importTreeFromMarkdown(text: string): ImportResult {
+	const windows: ImportWindow[] = [];
+	let current: ImportWindow | null = null;
+	// Open ancestors of the next item, by indentation
+	let stack: { indent: number; node: ImportNode }[] = [];
+
+	for (const line of text.replace(/\t/g, "  ").split(/\r?\n/)) {
+		const heading = line.match(MARKDOWN_HEADING);
+		if (heading) {
+			current = {
+				titleOverride: heading[1].trim() || null,
+				isCollapsed: false,
+				tabs: [],
+			};
+			windows.push(current);
+			stack = [];
+			continue;
+		}
+		const bullet = line.match(MARKDOWN_BULLET);
+		if (!bullet) continue;
+
+		if (!current) {
+			current = { titleOverride: null, isCollapsed: false, tabs: [] };
+			windows.push(current);
+		}
+		const indent = bullet[1].length;
+		const node = parseMarkdownItem(bullet[2]);
+		while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+			stack.pop();
+		}
+		const parent = stack[stack.length - 1]?.node;
+		(parent ? parent.children : current.tabs).push(node);
+		stack.push({ indent, node });
+	}
+	return materializeImport(windows);
+}
+
+/**
+ * Parse OneTab's export: `url | title` per line, blank lines between groups.
+ * Each group becomes a window of top-level tabs.
+ */
+export function importTreeFromOneTab(text: string): ImportResult {
+	const windows: ImportWindow[] = [];
+	let current: ImportWindow | null = null;
+	for (const line of text.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (!trimmed) {
+			current = null;
+			continue;
+		}
+		const separator = trimmed.indexOf(" | ");
+		const url = separator === -1 ? trimmed : trimmed.slice(0, separator);
+		const title = separator === -1 ? null : trimmed.slice(separator + 3);
+		if (!BARE_URL.test(url)) continue;
+		if (!current) {
+			current = { titleOverride: null, isCollapsed: false, tabs: [] };
+			windows.push(current);
+		}
+		current.tabs.push(importNode(url, title || null));
+	}
+	return materializeImport(windows);
+}
+
+/**
+ * Guess the format of pasted text: JSON is told apart by its shape (our
+ * export, a Sidebery or a Tree Style Tab backup), then Markdown (headings or
+ * bullets), otherwise OneTab lines. Returns null for JSON of any other shape.
+ */
+export function detectExchangeFormat(text: string): ImportFormat | null {
+	const trimmed = text.trim();
+	if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(trimmed);
+		} catch {
+			return "json";
+		}
+		if (typeof parsed === "object" && parsed !== null) {
+			if ("format" in parsed && parsed.format === TREE_EXPORT_FORMAT) {
+				return "json";
+			}
+			if ("tabsDataCache" in parsed) return "sidebery";
+		}
+		return isTreeStyleTabBackup(parsed) ? "tree-style-tab" : null;
+	}
+	const lines = trimmed.split(/\r?\n/);
+	if (lines.some((l) => MARKDOWN_HEADING.test(l) || MARKDOWN_BULLET.test(l))) {
+		return "markdown";
+	}
+	return "onetab";
+}
+
+/**
+ * Parse text in the given format. Returns null when JSON (ours or another
+ * extension's backup) can't be read; the text formats skip lines they don't
+ * understand. Tabs with URLs the browser mustn't open are counted as skipped.
+ */
+export function importTree(
+	format: ImportFormat,
+	text: string,
+): ImportResult | null {
+	switch (format) {
+		case "json":
+			return importTreeFromJson(text);
+		case "markdown":
+			return importTreeFromMarkdown(text);
+		case "onetab":
+			return importTreeFromOneTab(text);
+		case "tree-style-tab":
+			return importTreeFromTreeStyleTab(text);
+		case "sidebery":
+			return importTreeFromSidebery(text);
+	}
+}
@@ -1,51 +1,25 @@
 import { describe, expect, test } from "bun:test";
 import { generateKeyBetween } from "fractional-indexing";
 import type { Tab } from "@/schema/src/schema";
+import { createMockTab } from "./tests/mock-tab";
 import {
 	buildTabTree,
 	calculateTreeMove,
 	compareTreeOrder,
 	flattenTree,
 	getDescendantIds,
+	getDragPreview,
+	getGroupParentPosition,
+	getReopenPosition,
+	getSiblingMovePosition,
 	getSiblings,
+	getTopLevelTabIds,
+	getTreeNavigationResult,
+	getTreeOrderedTabIds,
 	isAncestor,
+	isClosedTab,
 } from "./tree";
 
-// Helper to create mock tabs
-function createMockTab(
-	browserTabId: number,
-	parentTabId: number | null = null,
-	treeOrder = "a0",
-	isCollapsed = false,
-): Tab {
-	return {
-		id: `tab-${browserTabId}` as Tab["id"],
-		browserTabId,
-		browserWindowId: 1,
-		tabIndex: browserTabId,
-		parentTabId,
-		treeOrder,
-		isCollapsed,
-		title: `Tab ${browserTabId}`,
-		url: `about:blank?${browserTabId}`,
-		favIconUrl: null,
-		titleOverride: null,
-		active: false,
-		pinned: false,
-		highlighted: false,
-		discarded: false,
-		frozen: false,
-		autoDiscardable: true,
-		audible: false,
-		mutedInfo: null,
-		status: "complete",
-		groupId: null,
-		createdAt: new Date(),
-		updatedAt: new Date(),
-		deletedAt: null,
-	};
-}
-
 describe("compareTreeOrder", () => {
 	test("sorts using ASCII order, not locale", () => {
 		// 'H' (72) < 'a' (97) in ASCII, but localeCompare may differ
@@ -232,7 +206,7 @@ describe("flattenTree", () => {
 
 	test("respects collapsed state", () => {
 		const tabs = [
-			createMockTab(1, null, "a0", true), // collapsed
+			createMockTab(1, null, "a0", { isCollapsed: true }), // collapsed
 			createMockTab(2, 1, "a0"),
 			createMockTab(3, 1, "a1"),
 		];
@@ -591,3 +565,259 @@ describe("buildTabTree - orphaned tabs", () => {
 		expect(tree[1].children[0].tab.browserTabId).toBe(4);
 	});
 });
+
+describe("getReopenPosition", () => {
+	const closed = (tab: Tab): Tab => ({ ...tab, deletedAt: new Date() });
+
+	test("reopens a closed child under its open parent, in its old slot", () => {
+		// a(1) -> [x(2, closed), b(3)], c(4)
+		const tabs = [
+			createMockTab(1, null, "a0"),
+			closed(createMockTab(2, 1, "a0")),
+			createMockTab(3, 1, "a1"),
+			createMockTab(4, null, "a1"),
+		];
+
+		expect(isClosedTab(tabs[1])).toBe(true);
+		expect(getReopenPosition(tabs, 2)).toEqual({
+			windowId: 1,
+			parentTabId: 1,
+			treeOrder: "a0",
+			index: 1,
+		});
+	});
+
+	test("falls back to root when the parent is closed too", () => {
+		const tabs = [
+			closed(createMockTab(1, null, "a0")),
+			closed(createMockTab(2, 1, "a0")),
+			createMockTab(3, null, "a1"),
+		];
+
+		const position = getReopenPosition(tabs, 2);
+		expect(position?.parentTabId).toBeNull();
+		expect(position?.index).toBe(0);
+	});
+
+	test("slots in before promoted children that took over its treeOrder", () => {
+		// Closed parent 1 had child 2, which was promoted to root with key "a0"
+		const tabs = [closed(createMockTab(1, null, "a0")), createMockTab(2)];
+
+		const position = getReopenPosition(tabs, 1);
+		expect(position?.index).toBe(0);
+		expect(compareTreeOrder(position?.treeOrder ?? "", "a0")).toBe(-1);
+	});
+
+	test("returns null for open tabs", () => {
+		expect(getReopenPosition([createMockTab(1)], 1)).toBeNull();
+	});
+});
+
+describe("getSiblingMovePosition", () => {
+	// a(1) -> [b(2), c(3)], d(4)
+	const tabs = [
+		createMockTab(1, null, "a0"),
+		createMockTab(2, 1, "a0"),
+		createMockTab(3, 1, "a1"),
+		createMockTab(4, null, "a1"),
+	];
+
+	test("moves up before the previous sibling", () => {
+		expect(getSiblingMovePosition(tabs, 3, "up")).toEqual({
+			type: "before",
+			targetTabId: 2,
+		});
+	});
+
+	test("moves down after the next sibling", () => {
+		expect(getSiblingMovePosition(tabs, 1, "down")).toEqual({
+			type: "after",
+			targetTabId: 4,
+		});
+	});
+
+	test("returns null at the edges of the sibling list", () => {
+		expect(getSiblingMovePosition(tabs, 2, "up")).toBeNull();
+		expect(getSiblingMovePosition(tabs, 3, "down")).toBeNull();
+	});
+
+	test("reorders via calculateTreeMove without changing the parent", () => {
+		const position = getSiblingMovePosition(tabs, 3, "up");
+		if (!position) throw new Error("expected a position");
+		const { parentTabId, treeOrder } = calculateTreeMove(tabs, 3, position);
+		expect(parentTabId).toBe(1);
+		expect(compareTreeOrder(treeOrder, "a0")).toBe(-1);
+	});
+});
+
+describe("getTreeNavigationResult", () => {
+	// a(1) -> [b(2) -> [c(3)]], d(4)
+	const tabs = [
+		createMockTab(1, null, "a0"),
+		createMockTab(2, 1, "a0"),
+		createMockTab(3, 2, "a0"),
+		createMockTab(4, null, "a1"),
+	];
+	const nodes = flattenTree(buildTabTree(tabs));
+
+	test("moves through visible rows with previous/next", () => {
+		expect(getTreeNavigationResult(nodes, 2, "next")).toEqual({
+			type: "focus",
+			tabId: 3,
+		});
+		expect(getTreeNavigationResult(nodes, 4, "previous")).toEqual({
+			type: "focus",
+			tabId: 3,
+		});
+		expect(getTreeNavigationResult(nodes, 4, "next")).toBeNull();
+	});
+
+	test("focuses the first row when nothing is focused", () => {
+		expect(getTreeNavigationResult(nodes, null, "next")).toEqual({
+			type: "focus",
+			tabId: 1,
+		});
+	});
+
+	test("collapses an expanded parent, otherwise jumps to the parent", () => {
+		expect(getTreeNavigationResult(nodes, 2, "collapseOrParent")).toEqual({
+			type: "toggleCollapse",
+			tabId: 2,
+		});
+		expect(getTreeNavigationResult(nodes, 3, "collapseOrParent")).toEqual({
+			type: "focus",
+			tabId: 2,
+		});
+		expect(getTreeNavigationResult(nodes, 4, "collapseOrParent")).toBeNull();
+	});
+
+	test("expands a collapsed parent, otherwise jumps to the first child", () => {
+		const collapsedNodes = flattenTree(
+			buildTabTree([
+				createMockTab(1, null, "a0", { isCollapsed: true }),
+				createMockTab(2, 1),
+			]),
+		);
+		expect(getTreeNavigationResult(collapsedNodes, 1, "expandOrChild")).toEqual(
+			{ type: "toggleCollapse", tabId: 1 },
+		);
+		expect(getTreeNavigationResult(nodes, 1, "expandOrChild")).toEqual({
+			type: "focus",
+			tabId: 2,
+		});
+		expect(getTreeNavigationResult(nodes, 3, "expandOrChild")).toBeNull();
+	});
+});
+
+describe("getTopLevelTabIds", () => {
+	// a(1) -> [b(2) -> [c(3)]], d(4); window 2: e(5)
+	const tabs = [
+		createMockTab(1, null, "a0"),
+		createMockTab(2, 1, "a0"),
+		createMockTab(3, 2, "a0"),
+		createMockTab(4, null, "a1"),
+		{ ...createMockTab(5, null, "a0"), browserWindowId: 2 },
+	];
+
+	test("drops tabs that have a selected ancestor", () => {
+		expect(getTopLevelTabIds(tabs, [3, 1])).toEqual([1]);
+		expect(getTopLevelTabIds(tabs, [3, 4])).toEqual([3, 4]);
+	});
+
+	test("returns tree order regardless of input order, across windows", () => {
+		expect(getTopLevelTabIds(tabs, [5, 4, 2])).toEqual([2, 4, 5]);
+	});
+});
+
+describe("getTreeOrderedTabIds", () => {
+	// a(1) -> [b(2) -> [c(3)]] (collapsed), d(4); window 2: e(5)
+	const tabs = [
+		createMockTab(1, null, "a0", { isCollapsed: true }),
+		createMockTab(2, 1, "a0"),
+		createMockTab(3, 2, "a0"),
+		createMockTab(4, null, "a1"),
+		{ ...createMockTab(5, null, "a0"), browserWindowId: 2 },
+	];
+
+	test("keeps every given tab, descendants of selected tabs included", () => {
+		expect(getTreeOrderedTabIds(tabs, [3, 1, 4])).toEqual([1, 3, 4]);
+	});
+
+	test("orders across windows and drops unknown IDs", () => {
+		expect(getTreeOrderedTabIds(tabs, [5, 99, 2])).toEqual([2, 5]);
+	});
+});
+
+describe("getGroupParentPosition", () => {
+	// a(1), b(2) -> [c(3), d(4)], e(5)
+	const tabs = [
+		createMockTab(1, null, "a0"),
+		createMockTab(2, null, "a1"),
+		createMockTab(3, 2, "a0"),
+		createMockTab(4, 2, "a1"),
+		createMockTab(5, null, "a2"),
+	];
+
+	test("takes the first root's place among its siblings", () => {
+		const position = getGroupParentPosition(tabs, [3, 5]);
+		expect(position?.parentTabId).toBe(2);
+		expect(position?.treeOrder && position.treeOrder < "a0").toBe(true);
+
+		const rootPosition = getGroupParentPosition(tabs, [2, 5]);
+		expect(rootPosition?.parentTabId).toBeNull();
+		expect(rootPosition?.treeOrder && rootPosition.treeOrder > "a0").toBe(true);
+		expect(rootPosition?.treeOrder && rootPosition.treeOrder < "a1").toBe(true);
+	});
+
+	test("gives the roots increasing child orders", () => {
+		const position = getGroupParentPosition(tabs, [1, 4, 5]);
+		expect(position?.childTreeOrders).toHaveLength(3);
+		const [first, second, third] = position?.childTreeOrders ?? [];
+		expect(first < second && second < third).toBe(true);
+	});
+
+	test("returns null for an unknown root", () => {
+		expect(getGroupParentPosition(tabs, [99])).toBeNull();
+	});
+});
+
+describe("getDragPreview", () => {
+	// a(1) -> [b(2) -> [c(3)], d(4)], e(5, collapsed) -> [f(6)], g(7)
+	const tabs = [
+		createMockTab(1, null, "a0"),
+		createMockTab(2, 1, "a0"),
+		createMockTab(3, 2, "a0"),
+		createMockTab(4, 1, "a1"),
+		createMockTab(5, null, "a1", { isCollapsed: true }),
+		createMockTab(6, 5, "a0"),
+		createMockTab(7, null, "a2"),
+	];
+	const outline = (rows: { tab: Tab; depth: number }[]) =>
+		rows.map((r) => `${"-".repeat(r.depth)}${r.tab.browserTabId}`);
+
+	test("shows a dragged tab's whole subtree relative to it", () => {
+		const preview = getDragPreview(tabs, [2], 10);
+		expect(outline(preview.rows)).toEqual(["2", "-3"]);
+		expect(preview.hiddenCount).toBe(0);
+	});
+
+	test("expands collapsed subtrees and keeps tree order across roots", () => {
+		const preview = getDragPreview(tabs, [7, 5, 3], 10);
+		expect(outline(preview.rows)).toEqual(["3", "5", "-6", "7"]);
+	});
+
+	test("selected descendants ride along with their selected ancestor", () => {
+		expect(outline(getDragPreview(tabs, [1, 3], 10).rows)).toEqual([
+			"1",
+			"-2",
+			"--3",
+			"-4",
+		]);
+	});
+
+	test("caps the rows and counts the rest", () => {
+		const preview = getDragPreview(tabs, [1, 5], 3);
+		expect(outline(preview.rows)).toEqual(["1", "-2", "--3"]);
+		expect(preview.hiddenCount).toBe(3);
+	});
+});
@@ -1,4 +1,4 @@
-import { generateKeyBetween } from "fractional-indexing";
+import { generateKeyBetween, generateNKeysBetween } from "fractional-indexing";
 import type { Tab } from "@/schema/src/schema";
 
 /**
@@ -52,10 +52,21 @@ export function compareTreeOrder(a: string, b: string): number {
 	return 0;
 }
 
-export function treeOrderSort(a: Tab, b: Tab): number {
+export function treeOrderSort(
+	a: Pick<Tab, "treeOrder">,
+	b: Pick<Tab, "treeOrder">,
+): number {
 	return compareTreeOrder(a.treeOrder, b.treeOrder);
 }
 
+/**
+ * Closed tabs are kept as soft-deleted rows (deletedAt set) so they can be
+ * shown as ghosts in the tree and reopened in place.
+ */
+export function isClosedTab(tab: Tab): boolean {
+	return tab.deletedAt !== null && tab.deletedAt !== undefined;
+}
+
 /**
  * Build a tree structure from a flat list of tabs
  */
@@ -357,3 +368,288 @@ export function calculateTreeMove(
 export function getTabsToMove(tabs: Tab[], tabId: number): number[] {
 	return [tabId, ...getDescendantIds(tabs, tabId)];
 }
+
+/**
+ * Where a closed tab should be recreated so it lands back in its old slot.
+ * The parent link is kept only while the parent is still open; the browser
+ * index is the tab's position in the depth-first order of its window.
+ */
+export function getReopenPosition(
+	tabs: Tab[],
+	closedTabId: number,
+): {
+	windowId: number;
+	parentTabId: number | null;
+	treeOrder: string;
+	index: number;
+} | null {
+	const closedTab = tabs.find(
+		(t) => t.browserTabId === closedTabId && isClosedTab(t),
+	);
+	if (!closedTab) return null;
+
+	const windowId = closedTab.browserWindowId;
+	const openTabs = tabs.filter(
+		(t) => t.browserWindowId === windowId && !isClosedTab(t),
+	);
+	const parentTabId =
+		closedTab.parentTabId !== null &&
+		openTabs.some((t) => t.browserTabId === closedTab.parentTabId)
+			? closedTab.parentTabId
+			: null;
+
+	// Promoted children may have taken over the exact treeOrder of the closed
+	// tab; slot the reopened tab in just before them so it keeps its place.
+	const siblings = openTabs
+		.filter((t) => t.parentTabId === parentTabId)
+		.sort(treeOrderSort);
+	const prevSibling = siblings
+		.filter((t) => compareTreeOrder(t.treeOrder, closedTab.treeOrder) < 0)
+		.at(-1);
+	const nextSibling = siblings.find(
+		(t) => compareTreeOrder(t.treeOrder, closedTab.treeOrder) >= 0,
+	);
+	const treeOrder =
+		nextSibling?.treeOrder === closedTab.treeOrder
+			? generateKeyBetween(
+					prevSibling?.treeOrder ?? null,
+					nextSibling.treeOrder,
+				)
+			: closedTab.treeOrder;
+
+	const candidate: Tab = {
+		...closedTab,
+		parentTabId,
+		treeOrder,
+		deletedAt: null,
+	};
+	const order: number[] = [];
+	const visit = (nodes: TabTreeNode[]) => {
+		for (const node of nodes) {
+			order.push(node.tab.browserTabId);
+			visit(node.children);
+		}
+	};
+	visit(buildTabTree([...openTabs, candidate]));
+
+	return {
+		windowId,
+		parentTabId,
+		treeOrder,
+		index: order.indexOf(closedTabId),
+	};
+}
+
+/**
+ * Where to move a tab one step up or down among its siblings (keyboard reorder).
+ * Returns null when the tab is already first (up) or last (down).
+ */
+export function getSiblingMovePosition(
+	tabs: Tab[],
+	tabId: number,
+	direction: "up" | "down",
+): TreeDropPosition | null {
+	const tab = tabs.find((t) => t.browserTabId === tabId);
+	if (!tab) return null;
+
+	const siblings = getSiblings(tabs, tab);
+	const index = siblings.findIndex((s) => s.browserTabId === tabId);
+	if (direction === "up") {
+		const prev = siblings[index - 1];
+		return prev ? { type: "before", targetTabId: prev.browserTabId } : null;
+	}
+	const next = siblings[index + 1];
+	return next ? { type: "after", targetTabId: next.browserTabId } : null;
+}
+
+export type TreeNavigationStep =
+	| "previous"
+	| "next"
+	| "collapseOrParent"
+	| "expandOrChild";
+
+/**
+ * Outcome of one keyboard navigation step over the visible (flattened) tree
+ */
+export type TreeNavigationResult =
+	| { type: "focus"; tabId: number }
+	| { type: "toggleCollapse"; tabId: number }
+	| null;
+
+/**
+ * Resolve a navigation step from the focused tab:
+ * - previous/next move through the visible rows
+ * - collapseOrParent collapses an expanded parent, otherwise jumps to the parent
+ * - expandOrChild expands a collapsed parent, otherwise jumps to the first child
+ * With nothing (or a tab no longer visible) focused, the first row gets focus.
+ */
+export function getTreeNavigationResult(
+	nodes: FlatTreeNode[],
+	focusedTabId: number | null,
+	step: TreeNavigationStep,
+): TreeNavigationResult {
+	const index = nodes.findIndex((n) => n.tab.browserTabId === focusedTabId);
+	if (index === -1) {
+		return nodes.length > 0
+			? { type: "focus", tabId: nodes[0].tab.browserTabId }
+			: null;
+	}
+	const node = nodes[index];
+
+	switch (step) {
+		case "previous": {
+			const prev = nodes[index - 1];
+			return prev ? { type: "focus", tabId: prev.tab.browserTabId } : null;
+		}
+		case "next": {
+			const next = nodes[index + 1];
+			return next ? { type: "focus", tabId: next.tab.browserTabId } : null;
+		}
+		case "collapseOrParent": {
+			if (node.hasChildren && !node.tab.isCollapsed) {
+				return { type: "toggleCollapse", tabId: node.tab.browserTabId };
+			}
+			const parentId = node.ancestorIds.at(-1);
+			return parentId !== undefined &&
+				nodes.some((n) => n.tab.browserTabId === parentId)
+				? { type: "focus", tabId: parentId }
+				: null;
+		}
+		case "expandOrChild": {
+			if (!node.hasChildren) return null;
+			if (node.tab.isCollapsed) {
+				return { type: "toggleCollapse", tabId: node.tab.browserTabId };
+			}
+			// Children directly follow their parent in depth-first order
+			const firstChild = nodes[index + 1];
+			return firstChild
+				? { type: "focus", tabId: firstChild.tab.browserTabId }
+				: null;
+		}
+	}
+}
+
+/**
+ * Reduce a set of tab IDs to the ones without a selected ancestor, in
+ * depth-first tree order. Operations on whole subtrees (move, group) act on
+ * these so a selected descendant isn't handled twice.
+ */
+export function getTopLevelTabIds(
+	tabs: Tab[],
+	tabIds: Iterable<number>,
+): number[] {
+	const ids = new Set(tabIds);
+	const tabMap = new Map(tabs.map((t) => [t.browserTabId, t]));
+	const hasSelectedAncestor = (tab: Tab) => {
+		let parentId = tab.parentTabId;
+		const visited = new Set<number>();
+		while (parentId !== null && !visited.has(parentId)) {
+			if (ids.has(parentId)) return true;
+			visited.add(parentId);
+			parentId = tabMap.get(parentId)?.parentTabId ?? null;
+		}
+		return false;
+	};
+
+	const result: number[] = [];
+	const visit = (nodes: TabTreeNode[]) => {
+		for (const node of nodes) {
+			if (ids.has(node.tab.browserTabId) && !hasSelectedAncestor(node.tab)) {
+				result.push(node.tab.browserTabId);
+			}
+			visit(node.children);
+		}
+	};
+	const windowIds = [...new Set(tabs.map((t) => t.browserWindowId))];
+	for (const windowId of windowIds) {
+		visit(buildTabTree(tabs.filter((t) => t.browserWindowId === windowId)));
+	}
+	return result;
+}
+
+/**
+ * The given tab IDs in depth-first tree order, collapsed subtrees included,
+ * window by window. IDs of unknown tabs are dropped. Bulk actions run in this
+ * order so the browser keeps the tabs' relative order.
+ */
+export function getTreeOrderedTabIds(
+	tabs: Tab[],
+	tabIds: Iterable<number>,
+): number[] {
+	const ids = new Set(tabIds);
+	const result: number[] = [];
+	const visit = (nodes: TabTreeNode[]) => {
+		for (const node of nodes) {
+			if (ids.has(node.tab.browserTabId)) result.push(node.tab.browserTabId);
+			visit(node.children);
+		}
+	};
+	const windowIds = [...new Set(tabs.map((t) => t.browserWindowId))];
+	for (const windowId of windowIds) {
+		visit(buildTabTree(tabs.filter((t) => t.browserWindowId === windowId)));
+	}
+	return result;
+}
+
+/**
+ * Tree position of a new parent for some subtree roots of one window: it takes
+ * the first root's place, and the roots become its children in the given
+ * order. Returns null when no root is found.
+ */
+export function getGroupParentPosition(
+	tabs: Tab[],
+	rootIds: number[],
+): {
+	parentTabId: number | null;
+	treeOrder: string;
+	childTreeOrders: string[];
+} | null {
+	const firstRoot = tabs.find((t) => t.browserTabId === rootIds[0]);
+	if (!firstRoot) return null;
+
+	const siblings = getSiblings(tabs, firstRoot);
+	const index = siblings.findIndex(
+		(s) => s.browserTabId === firstRoot.browserTabId,
+	);
+	return {
+		parentTabId: firstRoot.parentTabId,
+		treeOrder: generateKeyBetween(
+			siblings[index - 1]?.treeOrder ?? null,
+			firstRoot.treeOrder,
+		),
+		childTreeOrders: generateNKeysBetween(null, null, rootIds.length),
+	};
+}
+
+/**
+ * Rows of the drag overlay: every dragged subtree (collapsed ones expanded),
+ * in tree order, indented relative to its own root. Rows past `limit` are
+ * only counted.
+ */
+export function getDragPreview(
+	tabs: Tab[],
+	draggedTabIds: Iterable<number>,
+	limit: number,
+): { rows: FlatTreeNode[]; hiddenCount: number } {
+	const rows = getTreeOrderedTabIds(
+		tabs,
+		getTopLevelTabIds(tabs, draggedTabIds),
+	).flatMap((rootId) => {
+		const subtreeIds = new Set(getTabsToMove(tabs, rootId));
+		return flattenTree(
+			buildTabTree(
+				tabs
+					.filter((t) => subtreeIds.has(t.browserTabId))
+					.map((t) => ({
+						...t,
+						parentTabId: t.browserTabId === rootId ? null : t.parentTabId,
+						isCollapsed: false,
+					})),
+			),
+		);
+	});
+	return {
+		rows: rows.slice(0, limit),
+		hiddenCount: Math.max(0, rows.length - limit),
+	};
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+	AUTO_GROUP_RULES_KEY,
+	type AutoGroupRule,
+	parseAutoGroupRules,
+} from "./auto-group-rules";
+
+/**
+ * The auto-group rules, shared with the background through
+ * `browser.storage.local`
+ */
+export function useAutoGroupRules(): [
+	AutoGroupRule[],
+	(rules: AutoGroupRule[]) => void,
+] {
+	const [rules, setRules] = useState<AutoGroupRule[]>([]);
+
+	useEffect(() => {
+		browser.storage.local
+			.get(AUTO_GROUP_RULES_KEY)
+			.then((stored) =>
+				setRules(parseAutoGroupRules(stored[AUTO_GROUP_RULES_KEY])),
+			)
+			.catch((e) => console.error("Failed to load auto-group rules:", e));
+
+		const handleChanged = (
+			changes: Record<string, Browser.storage.StorageChange>,
+			areaName: string,
+		) => {
+			const change = changes[AUTO_GROUP_RULES_KEY];
+			if (areaName !== "local" || !change) return;
+			setRules(parseAutoGroupRules(change.newValue));
+		};
+		browser.storage.onChanged.addListener(handleChanged);
+		return () => browser.storage.onChanged.removeListener(handleChanged);
+	}, []);
+
+	const saveRules = useCallback((next: AutoGroupRule[]) => {
+		setRules(next);
+		browser.storage.local
+			.set({ [AUTO_GROUP_RULES_KEY]: next })
+			.catch((e) => console.error("Failed to save auto-group rules:", e));
+	}, []);
+
+	return [rules, saveRules];
+}
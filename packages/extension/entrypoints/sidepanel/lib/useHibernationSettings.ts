@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+	DEFAULT_HIBERNATION_SETTINGS,
+	HIBERNATION_SETTINGS_KEY,
+	type HibernationSettings,
+	parseHibernationSettings,
+} from "./hibernation";
+
+/**
+ * The idle-tab hibernation policy, shared with the background through
+ * `browser.storage.local`
+ */
+export function useHibernationSettings(): [
+	HibernationSettings,
+	(patch: Partial<HibernationSettings>) => void,
+] {
+	const [settings, setSettings] = useState<HibernationSettings>(
+		DEFAULT_HIBERNATION_SETTINGS,
+	);
+
+	useEffect(() => {
+		browser.storage.local
+			.get(HIBERNATION_SETTINGS_KEY)
+			.then((stored) =>
+				setSettings(parseHibernationSettings(stored[HIBERNATION_SETTINGS_KEY])),
+			)
+			.catch((e) => console.error("Failed to load hibernation settings:", e));
+
+		const handleChanged = (
+			changes: Record<string, Browser.storage.StorageChange>,
+			areaName: string,
+		) => {
+			const change = changes[HIBERNATION_SETTINGS_KEY];
+			if (areaName !== "local" || !change) return;
+			setSettings(parseHibernationSettings(change.newValue));
+		};
+		browser.storage.onChanged.addListener(handleChanged);
+		return () => browser.storage.onChanged.removeListener(handleChanged);
+	}, []);
+
+	const updateSettings = useCallback(
+		(patch: Partial<HibernationSettings>) => {
+			const next = parseHibernationSettings({ ...settings, ...patch });
+			setSettings(next);
+			browser.storage.local
+				.set({ [HIBERNATION_SETTINGS_KEY]: next })
+				.catch((e) => console.error("Failed to save hibernation settings:", e));
+		},
+		[settings],
+	);
+
+	return [settings, updateSettings];
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import type { Tab } from "@/schema/src/schema";
+import {
+	getBookmarksToAdd,
+	QUICK_ACCESS_FOLDER_TITLE,
+	type QuickAccessBookmark,
+} from "./quick-access";
+
+async function findQuickAccessFolderId(): Promise<string | null> {
+	const nodes = await browser.bookmarks.search({
+		title: QUICK_ACCESS_FOLDER_TITLE,
+	});
+	return nodes.find((node) => !node.url)?.id ?? null;
+}
+
+// Shared so two quick drops don't both create a folder
+let folderCreation: Promise<string> | null = null;
+
+async function getOrCreateQuickAccessFolderId(): Promise<string> {
+	const existing = await findQuickAccessFolderId();
+	if (existing) return existing;
+	folderCreation ??= browser.bookmarks
+		.create({ title: QUICK_ACCESS_FOLDER_TITLE })
+		.then((folder) => folder.id)
+		.finally(() => {
+			folderCreation = null;
+		});
+	return folderCreation;
+}
+
+async function getQuickAccessBookmarks(): Promise<QuickAccessBookmark[]> {
+	const folderId = await findQuickAccessFolderId();
+	if (!folderId) return [];
+	const children = await browser.bookmarks.getChildren(folderId);
+	return children.flatMap((node) =>
+		node.url ? [{ id: node.id, title: node.title, url: node.url }] : [],
+	);
+}
+
+/**
+ * Bookmark tabs into the Quick Access folder (created on first use).
+ * URLs already in the folder are skipped.
+ */
+export async function addQuickAccessBookmarks(
+	tabs: Pick<Tab, "url" | "title" | "titleOverride">[],
+): Promise<void> {
+	const folderId = await getOrCreateQuickAccessFolderId();
+	const existing = await getQuickAccessBookmarks();
+	for (const bookmark of getBookmarksToAdd(existing, tabs)) {
+		await browser.bookmarks.create({ parentId: folderId, ...bookmark });
+	}
+}
+
+export async function removeQuickAccessBookmark(id: string): Promise<void> {
+	await browser.bookmarks.remove(id);
+}
+
+/**
+ * Bookmarks in the Quick Access folder, kept in sync with native bookmark
+ * changes (including edits from other devices via browser sync)
+ */
+export function useQuickAccessBookmarks(): QuickAccessBookmark[] {
+	const [bookmarks, setBookmarks] = useState<QuickAccessBookmark[]>([]);
+
+	useEffect(() => {
+		let cancelled = false;
+		const refresh = () => {
+			getQuickAccessBookmarks()
+				.then((result) => {
+					if (!cancelled) setBookmarks(result);
+				})
+				.catch((error) => {
+					console.error("Failed to load Quick Access bookmarks:", error);
+				});
+		};
+		refresh();
+
+		const events = [
+			browser.bookmarks.onCreated,
+			browser.bookmarks.onRemoved,
+			browser.bookmarks.onChanged,
+			browser.bookmarks.onMoved,
+		];
+		for (const event of events) {
+			event.addListener(refresh);
+		}
+		return () => {
+			cancelled = true;
+			for (const event of events) {
+				event.removeListener(refresh);
+			}
+		};
+	}, []);
+
+	return bookmarks;
+}
@@ -0,0 +1,14 @@
+import { useMemo } from "react";
+import type * as schema from "@/schema/src/schema";
+import { useTableRows } from "./db/MemoryCollectionProvider";
+
+/**
+ * Native tab groups, keyed by the browser's group ID (tab.groupId)
+ */
+export function useTabGroupList(): Map<number, schema.TabGroup> {
+	const tabGroups = useTableRows("tabGroupTable");
+	return useMemo(
+		() => new Map(tabGroups.map((g) => [g.browserGroupId, g])),
+		[tabGroups],
+	);
+}
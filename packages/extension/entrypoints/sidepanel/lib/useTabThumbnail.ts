@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import {
+	getThumbnail,
+	type Thumbnail,
+} from "@/entrypoints/background/thumbnail-store";
+
+/**
+ * Load the captured thumbnail for a tab from the thumbnail database
+ * (shared with the background script, as both run on the extension origin).
+ * Thumbnails of a different URL are ignored, since tab IDs are reused after a
+ * browser restart and a tab may have navigated since it was captured.
+ */
+export function useTabThumbnail(
+	browserTabId: number,
+	url: string | null,
+	enabled: boolean,
+): Thumbnail | null {
+	const [thumbnail, setThumbnail] = useState<Thumbnail | null>(null);
+
+	useEffect(() => {
+		if (!enabled) {
+			setThumbnail(null);
+			return;
+		}
+		let cancelled = false;
+		getThumbnail(browserTabId)
+			.then((result) => {
+				if (cancelled) return;
+				setThumbnail(result && result.url === url ? result : null);
+			})
+			.catch((e) => {
+				console.error("Failed to load tab thumbnail:", e);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [browserTabId, url, enabled]);
+
+	return thumbnail;
+}
@@ -0,0 +1,20 @@
+import { useMemo } from "react";
+import type * as schema from "@/schema/src/schema";
+import { useTableRows } from "./db/MemoryCollectionProvider";
+
+/**
+ * All workspaces, oldest first (the order they're listed in the switcher)
+ */
+export function useWorkspaceList(): schema.Workspace[] {
+	const workspaces = useTableRows("workspaceTable");
+	return useMemo(
+		() =>
+			workspaces
+				.slice()
+				.sort(
+					(a, b) =>
+						new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+				),
+		[workspaces],
+	);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { getWindowMoveOrders, sortWindowsByOrder } from "./window-order";
+
+const win = (browserWindowId: number, windowOrder: string | null) => ({
+	browserWindowId,
+	windowOrder,
+});
+
+/** Apply the updates and return the window IDs in their new order */
+function order(
+	windows: ReturnType<typeof win>[],
+	browserWindowId: number,
+	slot: number,
+): number[] {
+	const updates = new Map(
+		getWindowMoveOrders(windows, browserWindowId, slot).map((u) => [
+			u.browserWindowId,
+			u.windowOrder,
+		]),
+	);
+	return sortWindowsByOrder(
+		windows.map((w) => ({
+			...w,
+			windowOrder: updates.get(w.browserWindowId) ?? w.windowOrder,
+		})),
+	).map((w) => w.browserWindowId);
+}
+
+describe("sortWindowsByOrder", () => {
+	test("orders by key with unordered windows last, in incoming order", () => {
+		const sorted = sortWindowsByOrder([
+			win(1, null),
+			win(2, "a1"),
+			win(3, null),
+			win(4, "a0"),
+		]);
+		expect(sorted.map((w) => w.browserWindowId)).toEqual([4, 2, 1, 3]);
+	});
+});
+
+describe("getWindowMoveOrders", () => {
+	const keyed = [win(1, "a0"), win(2, "a1"), win(3, "a2")];
+
+	test("moves a window up or down with a single new key", () => {
+		expect(getWindowMoveOrders(keyed, 3, 0)).toHaveLength(1);
+		expect(order(keyed, 3, 0)).toEqual([3, 1, 2]);
+		expect(order(keyed, 1, 2)).toEqual([2, 1, 3]);
+		expect(order(keyed, 1, 3)).toEqual([2, 3, 1]);
+	});
+
+	test("dropping next to itself changes nothing", () => {
+		expect(getWindowMoveOrders(keyed, 2, 1)).toEqual([]);
+		expect(getWindowMoveOrders(keyed, 2, 2)).toEqual([]);
+	});
+
+	test("keys every window when moving below an unordered one", () => {
+		const unordered = [win(1, null), win(2, null), win(3, null)];
+		expect(getWindowMoveOrders(unordered, 1, 3)).toHaveLength(3);
+		expect(order(unordered, 1, 3)).toEqual([2, 3, 1]);
+	});
+
+	test("moving to the top of unordered windows only keys the moved one", () => {
+		const unordered = [win(1, null), win(2, null), win(3, null)];
+		expect(getWindowMoveOrders(unordered, 3, 0)).toHaveLength(1);
+		expect(order(unordered, 3, 0)).toEqual([3, 1, 2]);
+	});
+
+	test("unknown windows are ignored", () => {
+		expect(getWindowMoveOrders(keyed, 99, 0)).toEqual([]);
+	});
+});
@@ -0,0 +1,69 @@
+import { generateKeyBetween, generateNKeysBetween } from "fractional-indexing";
+import type { Window } from "@/schema/src/schema";
+import { compareTreeOrder } from "./tree";
+
+type OrderedWindow = Pick<Window, "browserWindowId" | "windowOrder">;
+
+export interface WindowOrderUpdate {
+	browserWindowId: number;
+	windowOrder: string;
+}
+
+/**
+ * Windows in sidepanel order: by windowOrder, with windows that were never
+ * reordered (null) after the rest in their incoming order
+ */
+export function sortWindowsByOrder<T extends Pick<Window, "windowOrder">>(
+	windows: T[],
+): T[] {
+	return windows.toSorted((a, b) => {
+		if (a.windowOrder === null || b.windowOrder === null) {
+			return (
+				(a.windowOrder === null ? 1 : 0) - (b.windowOrder === null ? 1 : 0)
+			);
+		}
+		return compareTreeOrder(a.windowOrder, b.windowOrder);
+	});
+}
+
+/**
+ * windowOrder changes for dropping a window into `slot` of the shown windows
+ * (0 = before the first, `windows.length` = after the last). Usually only the
+ * moved window gets a new key; if it lands after a window without one, every
+ * shown window is keyed in the new order.
+ */
+export function getWindowMoveOrders(
+	windows: OrderedWindow[],
+	browserWindowId: number,
+	slot: number,
+): WindowOrderUpdate[] {
+	const from = windows.findIndex((w) => w.browserWindowId === browserWindowId);
+	if (from === -1) return [];
+	const to = slot > from ? slot - 1 : slot;
+	if (to === from) return [];
+
+	const rest = windows.filter((_, i) => i !== from);
+	const before = rest[to - 1];
+	const after = rest[to];
+	// Unordered windows sort last, so a keyed `before` means `after` (if any)
+	// is either keyed or unordered, and a key above `before` fits in between
+	if (!before || before.windowOrder !== null) {
+		return [
+			{
+				browserWindowId,
+				windowOrder: generateKeyBetween(
+					before?.windowOrder ?? null,
+					after?.windowOrder ?? null,
+				),
+			},
+		];
+	}
+
+	const reordered = [...rest.slice(0, to), windows[from], ...rest.slice(to)];
+	const keys = generateNKeysBetween(null, null, reordered.length);
+	return reordered.flatMap((w, i) =>
+		w.windowOrder === keys[i]
+			? []
+			: [{ browserWindowId: w.browserWindowId, windowOrder: keys[i] }],
+	);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import {
+	filterWindowsByWorkspace,
+	isWorkspaceColor,
+	pickWorkspaceColor,
+	WORKSPACE_COLORS,
+} from "./workspaces";
+
+describe("pickWorkspaceColor", () => {
+	test("uses the first unused color", () => {
+		expect(pickWorkspaceColor([])).toBe("blue");
+		expect(pickWorkspaceColor([{ color: "blue" }, { color: "amber" }])).toBe(
+			"emerald",
+		);
+	});
+
+	test("cycles once every color is taken", () => {
+		const all = WORKSPACE_COLORS.map((color) => ({ color }));
+		expect(pickWorkspaceColor(all)).toBe("blue");
+		expect(pickWorkspaceColor([...all, { color: "blue" }])).toBe("emerald");
+	});
+});
+
+describe("isWorkspaceColor", () => {
+	test("accepts only known colors", () => {
+		expect(isWorkspaceColor("rose")).toBe(true);
+		expect(isWorkspaceColor("chartreuse")).toBe(false);
+	});
+});
+
+describe("filterWindowsByWorkspace", () => {
+	const workspaces = [{ id: "ws-a" }, { id: "ws-b" }];
+	const windows = [
+		{ id: 1, workspaceId: null },
+		{ id: 2, workspaceId: "ws-a" },
+		{ id: 3, workspaceId: "ws-b" },
+		{ id: 4, workspaceId: "ws-deleted" },
+	];
+
+	test("keeps the windows of the given workspace", () => {
+		expect(
+			filterWindowsByWorkspace(windows, workspaces, "ws-a").map((w) => w.id),
+		).toEqual([2]);
+	});
+
+	test("puts unassigned windows and deleted workspaces in the default one", () => {
+		expect(
+			filterWindowsByWorkspace(windows, workspaces, null).map((w) => w.id),
+		).toEqual([1, 4]);
+	});
+});
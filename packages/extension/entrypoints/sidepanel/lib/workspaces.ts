@@ -0,0 +1,64 @@
+import type { Window, Workspace } from "@/schema/src/schema";
+
+/** Accent colors new workspaces cycle through */
+export const WORKSPACE_COLORS = [
+	"blue",
+	"emerald",
+	"amber",
+	"rose",
+	"violet",
+	"cyan",
+] as const;
+
+export type WorkspaceColor = (typeof WORKSPACE_COLORS)[number];
+
+/** Tailwind classes for a workspace color dot */
+export const WORKSPACE_COLOR_CLASSES: Record<WorkspaceColor, string> = {
+	blue: "bg-blue-500",
+	emerald: "bg-emerald-500",
+	amber: "bg-amber-500",
+	rose: "bg-rose-500",
+	violet: "bg-violet-500",
+	cyan: "bg-cyan-500",
+};
+
+export function isWorkspaceColor(color: string): color is WorkspaceColor {
+	return (WORKSPACE_COLORS as readonly string[]).includes(color);
+}
+
+/**
+ * The first color not used by an existing workspace, cycling once all are taken
+ */
+export function pickWorkspaceColor(
+	existing: Pick<Workspace, "color">[],
+): WorkspaceColor {
+	const used = new Set(existing.map((w) => w.color));
+	return (
+		WORKSPACE_COLORS.find((color) => !used.has(color)) ??
+		WORKSPACE_COLORS[existing.length % WORKSPACE_COLORS.length]
+	);
+}
+
+/**
+ * The workspace a window is shown in. Windows without a workspace, or whose
+ * workspace was deleted, belong to the default workspace (null).
+ */
+export function getWindowWorkspaceId(
+	win: Pick<Window, "workspaceId">,
+	workspaceIds: ReadonlySet<string>,
+): string | null {
+	return win.workspaceId !== null && workspaceIds.has(win.workspaceId)
+		? win.workspaceId
+		: null;
+}
+
+export function filterWindowsByWorkspace<T extends Pick<Window, "workspaceId">>(
+	windows: T[],
+	workspaces: Pick<Workspace, "id">[],
+	workspaceId: string | null,
+): T[] {
+	const workspaceIds = new Set<string>(workspaces.map((w) => w.id));
+	return windows.filter(
+		(win) => getWindowWorkspaceId(win, workspaceIds) === workspaceId,
+	);
+}
@@ -0,0 +1,19 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+interface DuplicatesStore {
+	// Treat URLs that only differ in utm_*, fbclid etc. as duplicates
+	ignoreTrackingParams: boolean;
+	setIgnoreTrackingParams: (ignoreTrackingParams: boolean) => void;
+}
+
+export const useDuplicates = create<DuplicatesStore>()(
+	persist(
+		(set) => ({
+			ignoreTrackingParams: true,
+			setIgnoreTrackingParams: (ignoreTrackingParams) =>
+				set({ ignoreTrackingParams }),
+		}),
+		{ name: "tabcanopy-duplicates" },
+	),
+);
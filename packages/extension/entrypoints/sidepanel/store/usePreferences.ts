@@ -0,0 +1,88 @@
+import { useEffect } from "react";
+import { create } from "zustand";
+import {
+	DEFAULT_PREFERENCES,
+	getRowHeight,
+	PREFERENCES_KEY,
+	type Preferences,
+	parsePreferences,
+} from "../lib/preferences";
+
+interface PreferencesStore {
+	preferences: Preferences;
+	setPreferences: (preferences: Preferences) => void;
+}
+
+/**
+ * In-memory copy of the synced preferences. usePreferencesSync fills it and
+ * keeps it current; write changes with savePreferences.
+ */
+export const usePreferences = create<PreferencesStore>((set) => ({
+	preferences: DEFAULT_PREFERENCES,
+	setPreferences: (preferences) => set({ preferences }),
+}));
+
+// storage.sync allows few writes per minute, so quick edits (like dragging a
+// slider) are written once they settle
+const SAVE_DELAY_MS = 300;
+let pendingSave: ReturnType<typeof setTimeout> | undefined;
+
+export function savePreferences(patch: Partial<Preferences>): void {
+	const { preferences, setPreferences } = usePreferences.getState();
+	setPreferences(parsePreferences({ ...preferences, ...patch }));
+
+	clearTimeout(pendingSave);
+	pendingSave = setTimeout(() => {
+		browser.storage.sync
+			.set({ [PREFERENCES_KEY]: usePreferences.getState().preferences })
+			.catch((e) => console.error("Failed to save preferences:", e));
+	}, SAVE_DELAY_MS);
+}
+
+/** Tree indent and row height, from the indent width and density preferences */
+export function useTreeMetrics(): { indentWidth: number; rowHeight: number } {
+	const indentWidth = usePreferences((s) => s.preferences.indentWidth);
+	const density = usePreferences((s) => s.preferences.density);
+	return { indentWidth, rowHeight: getRowHeight(density) };
+}
+
+/**
+ * Load the preferences, follow changes made on other pages, and apply the
+ * theme to this page. Call once at the root of each extension page.
+ */
+export function usePreferencesSync(): void {
+	const theme = usePreferences((s) => s.preferences.theme);
+
+	useEffect(() => {
+		const { setPreferences } = usePreferences.getState();
+		browser.storage.sync
+			.get(PREFERENCES_KEY)
+			.then((stored) =>
+				setPreferences(parsePreferences(stored[PREFERENCES_KEY])),
+			)
+			.catch((e) => console.error("Failed to load preferences:", e));
+
+		const handleChanged = (
+			changes: Record<string, Browser.storage.StorageChange>,
+			areaName: string,
+		) => {
+			const change = changes[PREFERENCES_KEY];
+			if (areaName !== "sync" || !change) return;
+			setPreferences(parsePreferences(change.newValue));
+		};
+		browser.storage.onChanged.addListener(handleChanged);
+		return () => browser.storage.onChanged.removeListener(handleChanged);
+	}, []);
+
+	useEffect(() => {
+		const media = window.matchMedia("(prefers-color-scheme: dark)");
+		const apply = () =>
+			document.documentElement.classList.toggle(
+				"dark",
+				theme === "dark" || (theme === "system" && media.matches),
+			);
+		apply();
+		media.addEventListener("change", apply);
+		return () => media.removeEventListener("change", apply);
+	}, [theme]);
+}
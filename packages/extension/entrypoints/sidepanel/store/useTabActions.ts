@@ -1,12 +1,43 @@
 import type { InferCollectionFromTable } from "@firtoz/drizzle-utils";
-import { generateKeyBetween } from "fractional-indexing";
+import { generateKeyBetween, generateNKeysBetween } from "fractional-indexing";
 import { create } from "zustand";
 import type * as schema from "@/schema/src/schema";
 import type {
 	PendingChildTabData,
 	UiMoveIntentData,
+	WindowPatch,
 } from "../lib/db/createIDBTransportAdapter";
-import { getDescendantIds } from "../lib/tree";
+import { calculateReorderMoves } from "../lib/dnd/reorder";
+import {
+	DEFAULT_GROUP_NAME,
+	GROUP_PAGE_PATH,
+	getGroupName,
+	isGroupTab,
+} from "../lib/group-node";
+import {
+	getHibernatableSubtreeIds,
+	getWakeableSubtreeIds,
+} from "../lib/hibernation";
+import { closesDescendants } from "../lib/preferences";
+import { getSortedTreeOrders, type TabSortKey } from "../lib/sort-tabs";
+import { hasTabGroupsApi } from "../lib/tab-groups";
+import {
+	buildTabTree,
+	calculateTreeMove,
+	flattenTree,
+	getDescendantIds,
+	getGroupParentPosition,
+	getReopenPosition,
+	getSiblingMovePosition,
+	getTabsToMove,
+	getTopLevelTabIds,
+	getTreeOrderedTabIds,
+	isClosedTab,
+	treeOrderSort,
+} from "../lib/tree";
+import { getWindowMoveOrders } from "../lib/window-order";
+import { usePreferences } from "./usePreferences";
+import { useTreeFocus } from "./useTreeFocus";
 
 type TabCollection = InferCollectionFromTable<typeof schema.tabTable>;
 type WindowCollection = InferCollectionFromTable<typeof schema.windowTable>;
@@ -16,10 +47,9 @@ type SendPatchTab = (
 	tabId: number,
 	patch: { titleOverride: string | null },
 ) => void;
-type SendPatchWindow = (
-	windowId: number,
-	patch: { titleOverride: string | null },
-) => void;
+type SendPatchWindow = (windowId: number, patch: WindowPatch) => void;
+type StartManagedWindowMove = (tabIds: number[]) => Promise<void>;
+type EndManagedWindowMove = () => void;
 
 // Helper to find item by predicate from collection
 function findInCollection<T extends object>(
@@ -39,6 +69,72 @@ function getAllFromCollection<T extends object>(collection: {
 	return Array.from(collection.values());
 }
 
+// Helper to wait (up to 500ms) for a freshly created tab to be synced into the collection
+async function waitForTabInCollection(
+	tabCollection: TabCollection,
+	browserTabId: number,
+): Promise<schema.Tab | undefined> {
+	const maxAttempts = 50;
+	for (let attempts = 0; attempts < maxAttempts; attempts++) {
+		const record = findInCollection(
+			tabCollection,
+			(t) => t.browserTabId === browserTabId,
+		);
+		if (record) return record;
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+	return undefined;
+}
+
+// Send the new tree positions of some tabs to the background, then move them
+// to their depth-first place in the browser. windowTabs must already hold
+// the new parents and tree orders.
+async function applyBrowserOrder(
+	windowTabs: schema.Tab[],
+	tabIds: ReadonlySet<number>,
+	sendMoveIntent: SendMoveIntent | null,
+): Promise<void> {
+	const flatOrder = flattenTree(
+		buildTabTree(windowTabs.map((t) => ({ ...t, isCollapsed: false }))),
+	);
+	const orderedTabsToMove = flatOrder
+		.filter((node) => tabIds.has(node.tab.browserTabId))
+		.map((node) => node.tab);
+
+	// Send move intent to background BEFORE calling browser.tabs.move
+	if (sendMoveIntent) {
+		await sendMoveIntent(
+			orderedTabsToMove.map((t) => ({
+				tabId: t.browserTabId,
+				parentTabId: t.parentTabId,
+				treeOrder: t.treeOrder,
+			})),
+		);
+	}
+
+	for (const t of orderedTabsToMove) {
+		const expectedIndex = flatOrder.findIndex(
+			(node) => node.tab.browserTabId === t.browserTabId,
+		);
+		await browser.tabs.move(t.browserTabId, { index: expectedIndex });
+	}
+}
+
+// Open (non-ghost) tabs of the selection, in tree order
+function getOpenTabsInTreeOrder(
+	tabCollection: TabCollection,
+	tabIds: number[],
+): schema.Tab[] {
+	const tabs = getAllFromCollection(tabCollection).filter(
+		(t) => !isClosedTab(t),
+	);
+	const tabMap = new Map(tabs.map((t) => [t.browserTabId, t]));
+	return getTreeOrderedTabIds(tabs, tabIds).flatMap((id) => {
+		const tab = tabMap.get(id);
+		return tab ? [tab] : [];
+	});
+}
+
 interface TabActionsStore {
 	// Collections (set by the component that has access to them)
 	tabCollection: TabCollection | null;
@@ -47,6 +143,8 @@ interface TabActionsStore {
 	sendPendingChildIntent: SendPendingChildIntent | null;
 	sendPatchTab: SendPatchTab | null;
 	sendPatchWindow: SendPatchWindow | null;
+	startManagedWindowMove: StartManagedWindowMove | null;
+	endManagedWindowMove: EndManagedWindowMove | null;
 	setCollections: (
 		tabCollection: TabCollection,
 		windowCollection: WindowCollection,
@@ -54,6 +152,8 @@ interface TabActionsStore {
 		sendPendingChildIntent: SendPendingChildIntent,
 		sendPatchTab: SendPatchTab,
 		sendPatchWindow: SendPatchWindow,
+		startManagedWindowMove: StartManagedWindowMove,
+		endManagedWindowMove: EndManagedWindowMove,
 	) => void;
 
 	// Tab actions
@@ -61,12 +161,57 @@ interface TabActionsStore {
 	closeTab: (tabId: number) => Promise<void>;
 	renameTab: (tabId: number, newTitle: string | null) => Promise<void>;
 	newTabAsChild: (parentTabId: number) => Promise<void>;
+	reopenTab: (tabId: number) => Promise<void>;
+	moveTabAmongSiblings: (
+		tabId: number,
+		direction: "up" | "down",
+	) => Promise<void>;
+	moveTabsToWindow: (tabIds: number[], windowId: number) => Promise<void>;
+	setAllCollapsed: (isCollapsed: boolean) => Promise<void>;
+	hibernateSubtree: (tabId: number) => Promise<void>;
+	wakeSubtree: (tabId: number) => Promise<void>;
+	/** Sort a tab's children (or the window's root tabs, when parentTabId is null) */
+	sortTabs: (
+		windowId: number,
+		parentTabId: number | null,
+		key: TabSortKey,
+		recursive: boolean,
+	) => Promise<void>;
+
+	// Bulk actions on a multi-selection, applied in tree order
+	closeTabs: (tabIds: number[]) => Promise<void>;
+	moveTabsToNewWindow: (tabIds: number[]) => Promise<void>;
+	/** Without a name, the new group node is opened for renaming */
+	groupTabsUnderNewParent: (tabIds: number[], name?: string) => Promise<void>;
+	setTabsPinned: (tabIds: number[], pinned: boolean) => Promise<void>;
+	setTabsMuted: (tabIds: number[], muted: boolean) => Promise<void>;
+	discardTabs: (tabIds: number[]) => Promise<void>;
+	bookmarkTabs: (tabIds: number[]) => Promise<void>;
+	copyTabUrls: (tabIds: number[]) => Promise<void>;
+
+	// Native tab groups
+	convertSubtreeToTabGroup: (tabId: number) => Promise<void>;
+	convertTabGroupToSubtree: (browserGroupId: number) => Promise<void>;
 
 	// Window actions
 	closeWindow: (windowId: number) => Promise<void>;
 	renameWindow: (windowId: number, newTitle: string | null) => Promise<void>;
+	setWindowWorkspace: (
+		windowId: number,
+		workspaceId: string | null,
+	) => Promise<void>;
 	newTabInWindow: (windowId: number) => Promise<void>;
 	newWindow: () => Promise<void>;
+	/** Drop a window into `slot` among the shown windows (in sidepanel order) */
+	moveWindow: (
+		windowId: number,
+		slot: number,
+		shownWindows: schema.Window[],
+	) => Promise<void>;
+	mergeWindow: (
+		sourceWindowId: number,
+		targetWindowId: number,
+	) => Promise<void>;
 }
 
 export const useTabActions = create<TabActionsStore>((set, get) => ({
@@ -77,6 +222,8 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 	sendPendingChildIntent: null,
 	sendPatchTab: null,
 	sendPatchWindow: null,
+	startManagedWindowMove: null,
+	endManagedWindowMove: null,
 	setCollections: (
 		tabCollection,
 		windowCollection,
@@ -84,6 +231,8 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 		sendPendingChildIntent,
 		sendPatchTab,
 		sendPatchWindow,
+		startManagedWindowMove,
+		endManagedWindowMove,
 	) =>
 		set({
 			tabCollection,
@@ -92,6 +241,8 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 			sendPendingChildIntent,
 			sendPatchTab,
 			sendPatchWindow,
+			startManagedWindowMove,
+			endManagedWindowMove,
 		}),
 
 	// Tab actions
@@ -114,14 +265,20 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 		const { tabCollection } = get();
 		if (!tabCollection) return;
 
-		const tabs = getAllFromCollection(tabCollection);
+		// Closed-tab ghosts have no browser tab left to remove
+		const tabs = getAllFromCollection(tabCollection).filter(
+			(t) => !isClosedTab(t),
+		);
 		const tab = tabs.find((t) => t.browserTabId === tabId);
 		if (!tab) return;
 
-		// Behavior depends on collapse state:
-		// - If collapsed: close all descendants recursively
-		// - If NOT collapsed: only close this tab, let background promote children
-		if (tab.isCollapsed) {
+		// Behavior depends on the close behavior preference (by default, the
+		// collapse state):
+		// - If it closes descendants (or for a group node, which closes as a
+		//   unit): close all descendants recursively
+		// - Otherwise: only close this tab, let background promote children
+		const { closeBehavior } = usePreferences.getState().preferences;
+		if (closesDescendants(closeBehavior, tab.isCollapsed) || isGroupTab(tab)) {
 			// Get all descendant IDs using utility function
 			const descendantIds = getDescendantIds(tabs, tabId);
 
@@ -209,25 +366,11 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 		const newTabBrowserId = newTab.id;
 
 		// Wait for the tab to appear in collection
-		let newTabRecord = findInCollection(
+		const newTabRecord = await waitForTabInCollection(
 			tabCollection,
-			(t) => t.browserTabId === newTabBrowserId,
+			newTabBrowserId,
 		);
-
-		let attempts = 0;
-		const maxAttempts = 50; // 500ms total
-
-		while (!newTabRecord) {
-			await new Promise((resolve) => setTimeout(resolve, 10));
-			newTabRecord = findInCollection(
-				tabCollection,
-				(t) => t.browserTabId === newTabBrowserId,
-			);
-			attempts++;
-			if (attempts >= maxAttempts) {
-				return;
-			}
-		}
+		if (!newTabRecord) return;
 
 		// Register UI move intent with background to ensure subsequent events use correct parent
 		// This is a second line of defense after the pending intent
@@ -245,7 +388,597 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 		});
 	},
 
+	reopenTab: async (tabId: number) => {
+		const { tabCollection, sendMoveIntent, sendPendingChildIntent } = get();
+		if (!tabCollection) return;
+
+		const tabs = getAllFromCollection(tabCollection);
+		const closedTab = tabs.find((t) => t.browserTabId === tabId);
+		const position = getReopenPosition(tabs, tabId);
+		if (!closedTab || !position) return;
+		const { windowId, parentTabId, treeOrder, index } = position;
+
+		// Same handshake as newTabAsChild: the background slots the new tab into
+		// the ghost's place and replaces the ghost row when onCreated fires
+		if (sendPendingChildIntent) {
+			sendPendingChildIntent({
+				windowId,
+				expectedIndex: index,
+				parentTabId,
+				treeOrder,
+				reopenedTabId: tabId,
+			});
+			await new Promise((resolve) => setTimeout(resolve, 100));
+		}
+
+		const newTab = await browser.tabs.create({
+			windowId,
+			index,
+			url: closedTab.url ?? undefined,
+			pinned: closedTab.pinned,
+			active: true,
+		});
+
+		if (!newTab.id) return;
+		const newTabBrowserId = newTab.id;
+
+		const newTabRecord = await waitForTabInCollection(
+			tabCollection,
+			newTabBrowserId,
+		);
+		if (!newTabRecord) return;
+
+		if (sendMoveIntent) {
+			await sendMoveIntent([
+				{ tabId: newTabBrowserId, parentTabId, treeOrder },
+			]);
+		}
+
+		tabCollection.update(newTabRecord.id, (draft) => {
+			draft.parentTabId = parentTabId;
+			draft.treeOrder = treeOrder;
+		});
+	},
+
+	moveTabAmongSiblings: async (tabId: number, direction: "up" | "down") => {
+		const { tabCollection, sendMoveIntent } = get();
+		if (!tabCollection) return;
+
+		const tabs = getAllFromCollection(tabCollection).filter(
+			(t) => !isClosedTab(t),
+		);
+		const tab = tabs.find((t) => t.browserTabId === tabId);
+		if (!tab) return;
+		const windowTabs = tabs.filter(
+			(t) => t.browserWindowId === tab.browserWindowId,
+		);
+
+		// Same tree calculation as a drag and drop before/after a sibling
+		const dropPosition = getSiblingMovePosition(windowTabs, tabId, direction);
+		if (!dropPosition) return;
+		const { parentTabId, treeOrder } = calculateTreeMove(
+			windowTabs,
+			tabId,
+			dropPosition,
+		);
+
+		tabCollection.update(tab.id, (draft) => {
+			draft.parentTabId = parentTabId;
+			draft.treeOrder = treeOrder;
+		});
+
+		// Expected browser order of the whole window, including collapsed subtrees
+		const updatedWindowTabs = windowTabs.map((t) =>
+			t.browserTabId === tabId ? { ...t, parentTabId, treeOrder } : t,
+		);
+		await applyBrowserOrder(
+			updatedWindowTabs,
+			new Set(getTabsToMove(windowTabs, tabId)),
+			sendMoveIntent,
+		);
+	},
+
+	sortTabs: async (
+		windowId: number,
+		parentTabId: number | null,
+		key: TabSortKey,
+		recursive: boolean,
+	) => {
+		const { tabCollection, sendMoveIntent } = get();
+		if (!tabCollection) return;
+
+		const windowTabs = getAllFromCollection(tabCollection).filter(
+			(t) => !isClosedTab(t) && t.browserWindowId === windowId,
+		);
+		const browserTabs = (await browser.tabs.query({ windowId })).toSorted(
+			(a, b) => a.index - b.index,
+		);
+		const lastAccessed = new Map(
+			browserTabs.flatMap((t) =>
+				t.id !== undefined && t.lastAccessed !== undefined
+					? [[t.id, t.lastAccessed] as const]
+					: [],
+			),
+		);
+
+		const orders = getSortedTreeOrders(windowTabs, parentTabId, key, {
+			recursive,
+			lastAccessed,
+		});
+		if (orders.size === 0) return;
+
+		const updatedWindowTabs = windowTabs.map((t) => {
+			const treeOrder = orders.get(t.browserTabId);
+			return treeOrder === undefined ? t : { ...t, treeOrder };
+		});
+		for (const t of updatedWindowTabs) {
+			if (!orders.has(t.browserTabId)) continue;
+			tabCollection.update(t.id, (draft) => {
+				draft.treeOrder = t.treeOrder;
+			});
+		}
+
+		// One intent for every re-keyed or moved tab, then the fewest browser
+		// moves that turn the current order into the sorted one
+		const targetIds = flattenTree(
+			buildTabTree(
+				updatedWindowTabs.map((t) => ({ ...t, isCollapsed: false })),
+			),
+		).map((node) => node.tab.browserTabId);
+		const knownIds = new Set(targetIds);
+		const currentIds = browserTabs.flatMap((t) =>
+			t.id !== undefined && knownIds.has(t.id) ? [t.id] : [],
+		);
+		const moves = calculateReorderMoves(currentIds, targetIds);
+
+		const intentIds = new Set([...orders.keys(), ...moves.map((m) => m.tabId)]);
+		if (sendMoveIntent) {
+			await sendMoveIntent(
+				updatedWindowTabs
+					.filter((t) => intentIds.has(t.browserTabId))
+					.map((t) => ({
+						tabId: t.browserTabId,
+						parentTabId: t.parentTabId,
+						treeOrder: t.treeOrder,
+					})),
+			);
+		}
+		for (const { tabId, toIndex } of moves) {
+			await browser.tabs.move(tabId, { index: toIndex });
+		}
+	},
+
+	moveTabsToWindow: async (tabIds: number[], windowId: number) => {
+		const {
+			tabCollection,
+			sendMoveIntent,
+			startManagedWindowMove,
+			endManagedWindowMove,
+		} = get();
+		if (!tabCollection) return;
+
+		const tabs = getAllFromCollection(tabCollection).filter(
+			(t) => !isClosedTab(t),
+		);
+		// Subtrees move whole; a selected descendant of a selected tab rides along
+		const rootIds = getTopLevelTabIds(tabs, tabIds).filter((id) =>
+			tabs.some((t) => t.browserTabId === id && t.browserWindowId !== windowId),
+		);
+		if (rootIds.length === 0) return;
+
+		// Append the moved subtrees as the last roots of the target window
+		const lastRoot = tabs
+			.filter((t) => t.browserWindowId === windowId && t.parentTabId === null)
+			.sort(treeOrderSort)
+			.at(-1);
+		const rootTreeOrders = generateNKeysBetween(
+			lastRoot?.treeOrder ?? null,
+			null,
+			rootIds.length,
+		);
+		const rootUpdates = new Map(
+			rootIds.map((id, i) => [id, rootTreeOrders[i]] as const),
+		);
+
+		// Depth-first order of the moved tabs, each with its tree position afterwards
+		const movedTabs = rootIds.flatMap((rootId) => {
+			const subtreeIds = new Set(getTabsToMove(tabs, rootId));
+			return flattenTree(
+				buildTabTree(
+					tabs
+						.filter((t) => subtreeIds.has(t.browserTabId))
+						.map((t) => ({ ...t, isCollapsed: false })),
+				),
+			).map(({ tab }) => {
+				const rootTreeOrder = rootUpdates.get(tab.browserTabId);
+				return rootTreeOrder === undefined
+					? tab
+					: { ...tab, parentTabId: null, treeOrder: rootTreeOrder };
+			});
+		});
+
+		for (const moved of movedTabs) {
+			const record = tabs.find((t) => t.browserTabId === moved.browserTabId);
+			if (!record) continue;
+			tabCollection.update(record.id, (draft) => {
+				draft.browserWindowId = windowId;
+				draft.parentTabId = moved.parentTabId;
+				draft.treeOrder = moved.treeOrder;
+			});
+		}
+
+		// Same handshake as a cross-window drag: the background keeps children
+		// attached while the tabs detach/attach
+		const movedIds = movedTabs.map((t) => t.browserTabId);
+		await startManagedWindowMove?.(movedIds);
+		try {
+			if (sendMoveIntent) {
+				await sendMoveIntent(
+					movedTabs.map((t) => ({
+						tabId: t.browserTabId,
+						parentTabId: t.parentTabId,
+						treeOrder: t.treeOrder,
+					})),
+				);
+			}
+			for (const browserTabId of movedIds) {
+				await browser.tabs.move(browserTabId, { windowId, index: -1 });
+			}
+		} finally {
+			endManagedWindowMove?.();
+		}
+	},
+
+	setAllCollapsed: async (isCollapsed: boolean) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		const tabs = getAllFromCollection(tabCollection);
+		const parentIds = new Set(tabs.map((t) => t.parentTabId));
+		for (const tab of tabs) {
+			if (!parentIds.has(tab.browserTabId)) continue;
+			if (tab.isCollapsed === isCollapsed) continue;
+			tabCollection.update(tab.id, (draft) => {
+				draft.isCollapsed = isCollapsed;
+			});
+		}
+	},
+
+	hibernateSubtree: async (tabId: number) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		// The active tab can't be discarded; the rest of its subtree still can
+		const tabIds = getHibernatableSubtreeIds(
+			getAllFromCollection(tabCollection),
+			tabId,
+		);
+		for (const id of tabIds) {
+			try {
+				await browser.tabs.discard(id);
+			} catch (e) {
+				console.error("Failed to discard tab:", id, e);
+			}
+		}
+	},
+
+	wakeSubtree: async (tabId: number) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		// Reloading a discarded tab loads it in place without activating it
+		const tabIds = getWakeableSubtreeIds(
+			getAllFromCollection(tabCollection),
+			tabId,
+		);
+		for (const id of tabIds) {
+			try {
+				await browser.tabs.reload(id);
+			} catch (e) {
+				console.error("Failed to wake tab:", id, e);
+			}
+		}
+	},
+
+	closeTabs: async (tabIds: number[]) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		const tabs = getAllFromCollection(tabCollection).filter(
+			(t) => !isClosedTab(t),
+		);
+		// Like closeTab: a collapsed tab (by default) or group node takes its
+		// subtree along, the children of the others are promoted by the background
+		const { closeBehavior } = usePreferences.getState().preferences;
+		const toClose = new Set<number>();
+		for (const tab of getOpenTabsInTreeOrder(tabCollection, tabIds)) {
+			toClose.add(tab.browserTabId);
+			if (
+				closesDescendants(closeBehavior, tab.isCollapsed) ||
+				isGroupTab(tab)
+			) {
+				for (const id of getDescendantIds(tabs, tab.browserTabId)) {
+					toClose.add(id);
+				}
+			}
+		}
+		if (toClose.size === 0) return;
+		// Descendants first, as closeTab does
+		await browser.tabs.remove(getTreeOrderedTabIds(tabs, toClose).reverse());
+	},
+
+	moveTabsToNewWindow: async (tabIds: number[]) => {
+		const { tabCollection, moveTabsToWindow } = get();
+		if (!tabCollection) return;
+		if (getOpenTabsInTreeOrder(tabCollection, tabIds).length === 0) return;
+
+		// Open the window with a placeholder tab, move the subtrees in through
+		// the managed move path, then drop the placeholder
+		const newWindow = await browser.windows.create({ focused: true });
+		if (newWindow?.id === undefined) return;
+		const placeholderId = newWindow.tabs?.[0]?.id;
+		await moveTabsToWindow(tabIds, newWindow.id);
+		if (placeholderId !== undefined) {
+			await browser.tabs.remove(placeholderId);
+		}
+	},
+
+	groupTabsUnderNewParent: async (tabIds: number[], name?: string) => {
+		const {
+			tabCollection,
+			sendMoveIntent,
+			sendPendingChildIntent,
+			moveTabsToWindow,
+			renameTab,
+		} = get();
+		if (!tabCollection) return;
+
+		const openTabs = () =>
+			getAllFromCollection(tabCollection).filter((t) => !isClosedTab(t));
+		const rootIds = getTopLevelTabIds(openTabs(), tabIds);
+		const firstRoot = openTabs().find((t) => t.browserTabId === rootIds[0]);
+		if (!firstRoot) return;
+		const windowId = firstRoot.browserWindowId;
+
+		// Subtrees from other windows join the first one's window first
+		const otherWindowRootIds = rootIds.filter((id) =>
+			openTabs().some(
+				(t) => t.browserTabId === id && t.browserWindowId !== windowId,
+			),
+		);
+		if (otherWindowRootIds.length > 0) {
+			await moveTabsToWindow(otherWindowRootIds, windowId);
+		}
+
+		const windowTabs = openTabs().filter((t) => t.browserWindowId === windowId);
+		const position = getGroupParentPosition(windowTabs, rootIds);
+		if (!position) return;
+
+		// Same handshake as newTabAsChild, with the new tab in the first root's place
+		const currentFirstRoot = await browser.tabs.get(firstRoot.browserTabId);
+		const index = currentFirstRoot?.index ?? firstRoot.tabIndex;
+		if (sendPendingChildIntent) {
+			sendPendingChildIntent({
+				windowId,
+				expectedIndex: index,
+				parentTabId: position.parentTabId,
+				treeOrder: position.treeOrder,
+			});
+			await new Promise((resolve) => setTimeout(resolve, 100));
+		}
+
+		const newTab = await browser.tabs.create({
+			windowId,
+			index,
+			url: browser.runtime.getURL(GROUP_PAGE_PATH),
+			active: false,
+		});
+		if (!newTab.id) return;
+		const newParentId = newTab.id;
+		const newParentRecord = await waitForTabInCollection(
+			tabCollection,
+			newParentId,
+		);
+		if (!newParentRecord) return;
+
+		const newParent = {
+			...newParentRecord,
+			parentTabId: position.parentTabId,
+			treeOrder: position.treeOrder,
+		};
+		const rootUpdates = new Map(
+			rootIds.map((id, i) => [id, position.childTreeOrders[i]] as const),
+		);
+		const updatedWindowTabs = [
+			...windowTabs
+				.filter((t) => t.browserTabId !== newParentId)
+				.map((t) => {
+					const treeOrder = rootUpdates.get(t.browserTabId);
+					return treeOrder === undefined
+						? t
+						: { ...t, parentTabId: newParentId, treeOrder };
+				}),
+			newParent,
+		];
+
+		tabCollection.update(newParentRecord.id, (draft) => {
+			draft.parentTabId = newParent.parentTabId;
+			draft.treeOrder = newParent.treeOrder;
+		});
+		for (const t of updatedWindowTabs) {
+			if (!rootUpdates.has(t.browserTabId)) continue;
+			tabCollection.update(t.id, (draft) => {
+				draft.parentTabId = t.parentTabId;
+				draft.treeOrder = t.treeOrder;
+			});
+		}
+
+		await applyBrowserOrder(
+			updatedWindowTabs,
+			new Set([
+				newParentId,
+				...rootIds.flatMap((id) => getTabsToMove(windowTabs, id)),
+			]),
+			sendMoveIntent,
+		);
+
+		if (name !== undefined) {
+			await renameTab(newParentId, name);
+			return;
+		}
+		// Let the user name the group right away
+		useTreeFocus.getState().requestRename(newParentId);
+	},
+
+	setTabsPinned: async (tabIds: number[], pinned: boolean) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		// Pinning appends to the pinned tabs and unpinning prepends to the rest,
+		// so unpin in reverse to keep the tabs' relative order
+		const tabs = getOpenTabsInTreeOrder(tabCollection, tabIds).filter(
+			(t) => t.pinned !== pinned,
+		);
+		for (const tab of pinned ? tabs : tabs.reverse()) {
+			try {
+				await browser.tabs.update(tab.browserTabId, { pinned });
+			} catch (e) {
+				console.error("Failed to pin/unpin tab:", tab.browserTabId, e);
+			}
+		}
+	},
+
+	setTabsMuted: async (tabIds: number[], muted: boolean) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		for (const tab of getOpenTabsInTreeOrder(tabCollection, tabIds)) {
+			try {
+				await browser.tabs.update(tab.browserTabId, { muted });
+			} catch (e) {
+				console.error("Failed to mute/unmute tab:", tab.browserTabId, e);
+			}
+		}
+	},
+
+	discardTabs: async (tabIds: number[]) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		// Active tabs can't be discarded
+		const tabs = getOpenTabsInTreeOrder(tabCollection, tabIds).filter(
+			(t) => !t.active && !t.discarded,
+		);
+		for (const tab of tabs) {
+			try {
+				await browser.tabs.discard(tab.browserTabId);
+			} catch (e) {
+				console.error("Failed to discard tab:", tab.browserTabId, e);
+			}
+		}
+	},
+
+	bookmarkTabs: async (tabIds: number[]) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		const tabs = getOpenTabsInTreeOrder(tabCollection, tabIds).filter(
+			(t) => t.url,
+		);
+		if (tabs.length === 0) return;
+
+		// One folder in the default location (Other Bookmarks), in tree order
+		const folder = await browser.bookmarks.create({
+			title: `Tab Canopy ${new Date().toLocaleString()}`,
+		});
+		for (const tab of tabs) {
+			await browser.bookmarks.create({
+				parentId: folder.id,
+				title: tab.titleOverride || tab.title || tab.url || "",
+				url: tab.url ?? undefined,
+			});
+		}
+	},
+
+	copyTabUrls: async (tabIds: number[]) => {
+		const { tabCollection } = get();
+		if (!tabCollection) return;
+
+		const urls = getOpenTabsInTreeOrder(tabCollection, tabIds).flatMap((t) =>
+			t.url ? [t.url] : [],
+		);
+		if (urls.length === 0) return;
+		try {
+			await navigator.clipboard.writeText(urls.join("\n"));
+		} catch (e) {
+			console.error("Failed to copy tab URLs:", e);
+		}
+	},
+
 	// Window actions
+	convertSubtreeToTabGroup: async (tabId: number) => {
+		const { tabCollection } = get();
+		if (!tabCollection || !hasTabGroupsApi()) return;
+
+		const tabs = getAllFromCollection(tabCollection).filter(
+			(t) => !isClosedTab(t),
+		);
+		const tab = tabs.find((t) => t.browserTabId === tabId);
+		if (!tab) return;
+
+		// A group node hands its name to the native group and isn't a member;
+		// pinned tabs can't be grouped by the browser
+		const isGroup = isGroupTab(tab);
+		const memberIds = getTreeOrderedTabIds(tabs, [
+			...(isGroup ? [] : [tabId]),
+			...getDescendantIds(tabs, tabId),
+		]).filter((id) => !tabs.find((t) => t.browserTabId === id)?.pinned);
+		if (memberIds.length === 0) return;
+
+		try {
+			const groupId = await browser.tabs.group({
+				tabIds: memberIds as [number, ...number[]],
+				createProperties: { windowId: tab.browserWindowId },
+			});
+			const title = isGroup
+				? getGroupName(tab)
+				: tab.titleOverride || tab.title || "";
+			await browser.tabGroups.update(groupId, { title });
+			if (isGroup) {
+				await browser.tabs.remove(tabId);
+			}
+		} catch (e) {
+			console.error("Failed to convert subtree to tab group:", tabId, e);
+		}
+	},
+
+	convertTabGroupToSubtree: async (browserGroupId: number) => {
+		const { groupTabsUnderNewParent } = get();
+		if (!hasTabGroupsApi()) return;
+
+		try {
+			const group = await browser.tabGroups.get(browserGroupId);
+			const memberIds = (await browser.tabs.query({ groupId: browserGroupId }))
+				.sort((a, b) => a.index - b.index)
+				.flatMap((t) => (t.id === undefined ? [] : [t.id]));
+			if (memberIds.length === 0) return;
+
+			await browser.tabs.ungroup(memberIds as [number, ...number[]]);
+			// The group's tabs (keeping their own nesting) go under a group node
+			// named after it
+			await groupTabsUnderNewParent(
+				memberIds,
+				group.title || DEFAULT_GROUP_NAME,
+			);
+		} catch (e) {
+			console.error(
+				"Failed to convert tab group to subtree:",
+				browserGroupId,
+				e,
+			);
+		}
+	},
+
 	closeWindow: async (windowId: number) => {
 		// Close the window (all tabs will be closed automatically)
 		await browser.windows.remove(windowId);
@@ -267,6 +1000,22 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 		sendPatchWindow?.(windowId, { titleOverride: newTitle });
 	},
 
+	setWindowWorkspace: async (windowId: number, workspaceId: string | null) => {
+		const { windowCollection, sendPatchWindow } = get();
+		if (!windowCollection) return;
+
+		const win = findInCollection(
+			windowCollection,
+			(w) => w.browserWindowId === windowId,
+		);
+		if (!win) return;
+
+		windowCollection.update(win.id, (draft) => {
+			draft.workspaceId = workspaceId;
+		});
+		sendPatchWindow?.(windowId, { workspaceId });
+	},
+
 	newTabInWindow: async (windowId: number) => {
 		// Create the new tab - it will be synced by background script
 		await browser.tabs.create({
@@ -281,4 +1030,40 @@ export const useTabActions = create<TabActionsStore>((set, get) => ({
 			focused: true,
 		});
 	},
+
+	moveWindow: async (
+		windowId: number,
+		slot: number,
+		shownWindows: schema.Window[],
+	) => {
+		const { windowCollection, sendPatchWindow } = get();
+		if (!windowCollection) return;
+
+		for (const { browserWindowId, windowOrder } of getWindowMoveOrders(
+			shownWindows,
+			windowId,
+			slot,
+		)) {
+			const win = shownWindows.find(
+				(w) => w.browserWindowId === browserWindowId,
+			);
+			if (!win) continue;
+			windowCollection.update(win.id, (draft) => {
+				draft.windowOrder = windowOrder;
+			});
+			sendPatchWindow?.(browserWindowId, { windowOrder });
+		}
+	},
+
+	mergeWindow: async (sourceWindowId: number, targetWindowId: number) => {
+		const { tabCollection, moveTabsToWindow } = get();
+		if (!tabCollection || sourceWindowId === targetWindowId) return;
+
+		// Every root subtree moves after the target's tabs through the managed
+		// move; the browser closes the source window once it's empty
+		const tabIds = getAllFromCollection(tabCollection)
+			.filter((t) => !isClosedTab(t) && t.browserWindowId === sourceWindowId)
+			.map((t) => t.browserTabId);
+		await moveTabsToWindow(tabIds, targetWindowId);
+	},
 }));
@@ -0,0 +1,21 @@
+import { create } from "zustand";
+
+interface TreeFocusStore {
+	// Keyboard focus in the tab tree (separate from selection and the active tab)
+	focusedTabId: number | null;
+	setFocusedTabId: (tabId: number | null) => void;
+
+	// Set by the keyboard handler; the matching TabCard starts editing and clears it
+	renameRequestTabId: number | null;
+	requestRename: (tabId: number) => void;
+	clearRenameRequest: () => void;
+}
+
+export const useTreeFocus = create<TreeFocusStore>((set) => ({
+	focusedTabId: null,
+	setFocusedTabId: (focusedTabId) => set({ focusedTabId }),
+
+	renameRequestTabId: null,
+	requestRename: (tabId) => set({ renameRequestTabId: tabId }),
+	clearRenameRequest: () => set({ renameRequestTabId: null }),
+}));
@@ -0,0 +1,25 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+interface WorkspacesStore {
+	// Workspace shown in the sidepanel (null = default workspace)
+	activeWorkspaceId: string | null;
+	setActiveWorkspaceId: (workspaceId: string | null) => void;
+
+	// Minimize the windows of the workspace being left, restore the ones entered
+	minimizeOnSwitch: boolean;
+	setMinimizeOnSwitch: (minimizeOnSwitch: boolean) => void;
+}
+
+export const useWorkspaces = create<WorkspacesStore>()(
+	persist(
+		(set) => ({
+			activeWorkspaceId: null,
+			setActiveWorkspaceId: (activeWorkspaceId) => set({ activeWorkspaceId }),
+
+			minimizeOnSwitch: false,
+			setMinimizeOnSwitch: (minimizeOnSwitch) => set({ minimizeOnSwitch }),
+		}),
+		{ name: "tabcanopy-workspaces" },
+	),
+);
@@ -0,0 +1,12 @@
+CREATE TABLE `session` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer,
+	`name` text NOT NULL,
+	`snapshot` text NOT NULL,
+	`window_count` integer DEFAULT 0 NOT NULL,
+	`tab_count` integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `session_name_index` ON `session` (`name`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `workspace` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer,
+	`name` text NOT NULL,
+	`color` text DEFAULT 'blue' NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `workspace_name_index` ON `workspace` (`name`);--> statement-breakpoint
+ALTER TABLE `window` ADD `workspace_id` text;--> statement-breakpoint
+CREATE INDEX `window_workspace_id_index` ON `window` (`workspace_id`);
\ No newline at end of file
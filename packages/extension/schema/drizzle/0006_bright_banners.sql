@@ -0,0 +1,14 @@
+CREATE TABLE `tab_group` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer,
+	`browser_group_id` integer NOT NULL,
+	`browser_window_id` integer NOT NULL,
+	`title` text,
+	`color` text DEFAULT 'grey' NOT NULL,
+	`collapsed` integer DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `tab_group_browser_id_index` ON `tab_group` (`browser_group_id`);--> statement-breakpoint
+CREATE INDEX `tab_group_browser_window_id_index` ON `tab_group` (`browser_window_id`);
\ No newline at end of file
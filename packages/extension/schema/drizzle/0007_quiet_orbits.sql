@@ -0,0 +1 @@
+ALTER TABLE `window` ADD `window_order` text;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { Migration } from "@firtoz/drizzle-indexeddb";
+
+/**
+ * Migration: daily sentinel
+ * Generated from: 0004_daily_sentinel
+ */
+export const migrate_0004: Migration = [
+	{
+		"type": "createTable",
+		"name": "session",
+		"keyPath": "id",
+		"autoIncrement": false,
+		"indexes": [
+			{
+				"name": "session_name_index",
+				"keyPath": "name",
+				"unique": false
+			}
+		]
+	}
+];
\ No newline at end of file
@@ -0,0 +1,28 @@
+import type { Migration } from "@firtoz/drizzle-indexeddb";
+
+/**
+ * Migration: lucky compass
+ * Generated from: 0005_lucky_compass
+ */
+export const migrate_0005: Migration = [
+	{
+		"type": "createTable",
+		"name": "workspace",
+		"keyPath": "id",
+		"autoIncrement": false,
+		"indexes": [
+			{
+				"name": "workspace_name_index",
+				"keyPath": "name",
+				"unique": false
+			}
+		]
+	},
+	{
+		"type": "createIndex",
+		"tableName": "window",
+		"indexName": "window_workspace_id_index",
+		"keyPath": "workspace_id",
+		"unique": false
+	}
+];
\ No newline at end of file
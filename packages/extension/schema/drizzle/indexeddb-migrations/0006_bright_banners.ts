@@ -0,0 +1,26 @@
+import type { Migration } from "@firtoz/drizzle-indexeddb";
+
+/**
+ * Migration: bright banners
+ * Generated from: 0006_bright_banners
+ */
+export const migrate_0006: Migration = [
+	{
+		"type": "createTable",
+		"name": "tab_group",
+		"keyPath": "id",
+		"autoIncrement": false,
+		"indexes": [
+			{
+				"name": "tab_group_browser_id_index",
+				"keyPath": "browser_group_id",
+				"unique": false
+			},
+			{
+				"name": "tab_group_browser_window_id_index",
+				"keyPath": "browser_window_id",
+				"unique": false
+			}
+		]
+	}
+];
\ No newline at end of file
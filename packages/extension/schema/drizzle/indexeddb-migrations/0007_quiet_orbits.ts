@@ -0,0 +1,7 @@
+import type { Migration } from "@firtoz/drizzle-indexeddb";
+
+/**
+ * Migration: quiet orbits
+ * Generated from: 0007_quiet_orbits
+ */
+export const migrate_0007: Migration = [];
\ No newline at end of file
@@ -4,12 +4,20 @@ import { migrate_0000 } from './0000_silent_revanche';
 import { migrate_0001 } from './0001_overconfident_secret_warriors';
 import { migrate_0002 } from './0002_true_greymalkin';
 import { migrate_0003 } from './0003_strong_talisman';
+import { migrate_0004 } from './0004_daily_sentinel';
+import { migrate_0005 } from './0005_lucky_compass';
+import { migrate_0006 } from './0006_bright_banners';
+import { migrate_0007 } from './0007_quiet_orbits';
 
 export const migrations: Migration[] = [
 	migrate_0000,
 	migrate_0001,
 	migrate_0002,
-	migrate_0003
+	migrate_0003,
+	migrate_0004,
+	migrate_0005,
+	migrate_0006,
+	migrate_0007
 ];
 
 export default migrations;
@@ -3,6 +3,10 @@ import m0000 from './0000_silent_revanche.sql';
 import m0001 from './0001_overconfident_secret_warriors.sql';
 import m0002 from './0002_true_greymalkin.sql';
 import m0003 from './0003_strong_talisman.sql';
+import m0004 from './0004_daily_sentinel.sql';
+import m0005 from './0005_lucky_compass.sql';
+import m0006 from './0006_bright_banners.sql';
+import m0007 from './0007_quiet_orbits.sql';
 
   export default {
     journal,
@@ -10,7 +14,11 @@ import m0003 from './0003_strong_talisman.sql';
       m0000,
 m0001,
 m0002,
-m0003
+m0003,
+m0004,
+m0005,
+m0006,
+m0007
     }
   }
   
\ No newline at end of file
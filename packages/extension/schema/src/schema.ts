@@ -23,10 +23,15 @@ export const windowTable = syncableTable(
 			.default(false),
 		// Custom title override
 		titleOverride: text("title_override"),
+		// Workspace the window belongs to (null = default workspace)
+		workspaceId: text("workspace_id"),
+		// Position in the sidepanel (fractional index; null = after ordered windows)
+		windowOrder: text("window_order"),
 	},
 	(t) => [
 		index("window_browser_id_index").on(t.browserWindowId),
 		index("window_focused_index").on(t.focused),
+		index("window_workspace_id_index").on(t.workspaceId),
 	],
 );
 
@@ -87,8 +92,67 @@ export const tabTable = syncableTable(
 	],
 );
 
+/**
+ * Saved session table (named snapshot of the tab hierarchy across windows)
+ */
+export const sessionTable = syncableTable(
+	"session",
+	{
+		// User-facing session name
+		name: text("name").notNull(),
+		// Captured hierarchy
+		snapshot: text("snapshot").notNull(), // JSON string of SessionSnapshot
+		// Summary counts (for listing without parsing the snapshot)
+		windowCount: integer("window_count").notNull().default(0),
+		tabCount: integer("tab_count").notNull().default(0),
+	},
+	(t) => [index("session_name_index").on(t.name)],
+);
+
+/**
+ * Workspace table (named group of windows the sidepanel can switch between)
+ */
+export const workspaceTable = syncableTable(
+	"workspace",
+	{
+		// User-facing workspace name
+		name: text("name").notNull(),
+		// Accent color key (see WORKSPACE_COLORS in the sidepanel)
+		color: text("color").notNull().default("blue"),
+	},
+	(t) => [index("workspace_name_index").on(t.name)],
+);
+
+/**
+ * Native browser tab group (tabGroups API), mirrored for display
+ */
+export const tabGroupTable = syncableTable(
+	"tab_group",
+	{
+		// Browser's group ID (tabs reference it through tab.groupId)
+		browserGroupId: integer("browser_group_id").notNull(),
+		browserWindowId: integer("browser_window_id").notNull(),
+		title: text("title"),
+		// Browser color name: "grey" | "blue" | "red" | "yellow" | "green" | ...
+		color: text("color").notNull().default("grey"),
+		collapsed: integer("collapsed", { mode: "boolean" })
+			.notNull()
+			.default(false),
+	},
+	(t) => [
+		index("tab_group_browser_id_index").on(t.browserGroupId),
+		index("tab_group_browser_window_id_index").on(t.browserWindowId),
+	],
+);
+
 // Type exports
 export type Window = typeof windowTable.$inferSelect;
 export type InsertWindow = typeof windowTable.$inferInsert;
 export type Tab = typeof tabTable.$inferSelect;
 export type InsertTab = typeof tabTable.$inferInsert;
+export type Session = typeof sessionTable.$inferSelect;
+export type InsertSession = typeof sessionTable.$inferInsert;
+export type Workspace = typeof workspaceTable.$inferSelect;
+export type InsertWorkspace = typeof workspaceTable.$inferInsert;
+export type TabGroup = typeof tabGroupTable.$inferSelect;
+export type InsertTabGroup = typeof tabGroupTable.$inferInsert;
@@ -5,6 +5,7 @@
 
 import { pack, unpack } from "msgpackr";
 import { browser } from "wxt/browser";
+import type { SessionWindow } from "@/entrypoints/background/session-snapshot";
 
 /**
  * Base message wrapper for port communication
@@ -32,7 +33,7 @@ export interface ExtensionServerTransportOptions<TClientMsg, TServerMsg> {
 		message: TClientMsg,
 		client: ClientInfo,
 		broadcast: (msg: TServerMsg, excludeClientId?: string) => void,
-	) => void;
+	) => void | Promise<void>;
 	/** Called when a client connects */
 	onConnect?: (client: ClientInfo) => void;
 	/** Called when a client disconnects */
@@ -122,7 +123,14 @@ export function createExtensionServerTransport<TClientMsg, TServerMsg>(
 			>;
 
 			if (message.direction === "toServer") {
-				onMessage(message.payload, clientInfo, broadcast);
+				Promise.resolve(
+					onMessage(message.payload, clientInfo, broadcast),
+				).catch((e) => {
+					console.error(
+						`[Server] Failed to handle message from ${clientId}:`,
+						e,
+					);
+				});
 			}
 		});
 
@@ -310,10 +318,29 @@ export type InjectBrowserEvent =
 export interface PendingChildTabData {
 	windowId: number;
 	expectedIndex: number;
-	parentTabId: number;
+	parentTabId: number | null;
 	treeOrder: string;
+	/** Set when reopening a closed tab, so its ghost row is replaced */
+	reopenedTabId?: number;
 }
 
+/** Sidepanel-owned window fields the background stores on request */
+export type WindowPatch = {
+	titleOverride?: string | null;
+	workspaceId?: string | null;
+	windowOrder?: string | null;
+};
+
+/**
+ * Stores that the background mirrors to clients via sync messages
+ */
+export type SyncStoreName =
+	| "tab"
+	| "window"
+	| "session"
+	| "workspace"
+	| "tab_group";
+
 /**
  * Messages sent from client to server
  */
@@ -335,14 +362,31 @@ export type ClientMessage =
 	| {
 			type: "patchWindow";
 			windowId: number;
-			patch: { titleOverride: string | null };
+			patch: WindowPatch;
+	  }
+	| { type: "saveSession"; name: string }
+	| { type: "restoreSession"; requestId: string; sessionId: string }
+	| { type: "deleteSession"; sessionId: string }
+	| { type: "importTree"; requestId: string; windows: SessionWindow[] }
+	| { type: "createWorkspace"; name: string }
+	| { type: "deleteWorkspace"; workspaceId: string }
+	| {
+			type: "closeDuplicates";
+			/** Only close the duplicates of this tab; all duplicates when omitted */
+			browserTabId?: number;
+			ignoreTrackingParams: boolean;
 	  };
 
 /**
  * Messages sent from server to client
  */
 export type ServerMessage =
-	| { type: "sync"; storeName: "tab" | "window"; messages: SyncMessage[] }
+	| { type: "sync"; storeName: SyncStoreName; messages: SyncMessage[] }
+	/** Changes to several stores that were written in one transaction */
+	| {
+			type: "syncBatch";
+			syncs: { storeName: SyncStoreName; messages: SyncMessage[] }[];
+	  }
 	| {
 			type: "broadcast";
 			channel: string;
@@ -351,6 +395,16 @@ export type ServerMessage =
 	  }
 	| { type: "resetDatabaseComplete" }
 	| { type: "uiMoveIntentAck"; requestId: string }
+	/**
+	 * A restoreSession or importTree finished; skippedCount tabs failed to
+	 * open, or the whole restore failed with `error`
+	 */
+	| {
+			type: "restoreComplete";
+			requestId: string;
+			skippedCount: number;
+			error?: string;
+	  }
 	| { type: "tabCreatedEvents"; events: TabCreatedEvent[] }
 	| {
 			type: "faviconResponse";
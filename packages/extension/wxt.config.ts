@@ -14,10 +14,20 @@ export default defineConfig({
 		permissions: [
 			"tabs",
 			"alarms",
+			// Settings and preferences, readable by the background
+			"storage",
+			// Quick Access bar lives in a native bookmarks folder
+			"bookmarks",
+			// Native tab groups are mirrored into the tree. Chrome only; the tab
+			// group code checks for browser.tabGroups before using it
+			...(browser === "chrome" ? ["tabGroups"] : []),
 			// Chrome requires explicit sidePanel permission
 			// Firefox doesn't recognize sidePanel, uses sidebar_action instead
 			...(browser === "chrome" ? ["sidePanel"] : []),
 		],
+		// tabs.captureVisibleTab needs host access for hover preview thumbnails,
+		// requested from the options page when they're turned on
+		optional_host_permissions: ["<all_urls>"],
 		name: import.meta.env.EXT_NAME ?? "Tab Canopy",
 		icons: {
 			16: command === "serve" ? "/icon-dev/16.png" : "/icon/16.png",